@@ -0,0 +1,50 @@
+'use client'
+
+import AgeProofForm from '@/components/AgeProofForm'
+import AgeProofVerifier from '@/components/AgeProofVerifier'
+import {Card, CardContent, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
+import {Tabs, TabsContent, TabsList, TabsTrigger} from '@/components/ui/tabs'
+
+export default function AgeProofPage() {
+	return (
+		<div className='min-h-screen bg-background p-8'>
+			<div className='max-w-3xl mx-auto'>
+				<div className='mb-8'>
+					<h1 className='text-3xl font-bold'>Age Proofs</h1>
+					<p className='text-muted-foreground mt-2'>Prove you are over an age threshold without revealing your age, or verify someone else&apos;s proof</p>
+				</div>
+
+				<Tabs defaultValue='generate'>
+					<TabsList className='grid w-full grid-cols-2'>
+						<TabsTrigger value='generate'>Generate</TabsTrigger>
+						<TabsTrigger value='verify'>Verify</TabsTrigger>
+					</TabsList>
+
+					<TabsContent value='generate'>
+						<Card>
+							<CardHeader>
+								<CardTitle>Generate Age Proof</CardTitle>
+								<CardDescription>Choose an age credential from your wallet and the threshold to prove</CardDescription>
+							</CardHeader>
+							<CardContent>
+								<AgeProofForm />
+							</CardContent>
+						</Card>
+					</TabsContent>
+
+					<TabsContent value='verify'>
+						<Card>
+							<CardHeader>
+								<CardTitle>Verify Age Proof</CardTitle>
+								<CardDescription>Paste a proof package or scan its QR code</CardDescription>
+							</CardHeader>
+							<CardContent>
+								<AgeProofVerifier />
+							</CardContent>
+						</Card>
+					</TabsContent>
+				</Tabs>
+			</div>
+		</div>
+	)
+}
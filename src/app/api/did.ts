@@ -1,11 +1,17 @@
 import { buildApiUrl } from '@/lib/config'
 import { wasmLoader } from '@/lib/wasm-loader'
 import { cryptoWasm } from '@/lib/crypto-wasm'
+import { keystore } from '@/lib/keystore'
+import { didMethods, type DIDKeyType } from '@/lib/did-methods'
+import { toDIDDocument, type DIDDocument } from '@/lib/did-document'
+import { getCurrentDomain } from '@/lib/did-challenge'
+import { buildQRLoginURI, QR_LOGIN_VERSION, type QRLoginRequest } from '@/lib/qr-login'
+import { calculateAge, createAgeCredential, type VerifiableCredential } from '@/lib/credentials'
 
 export interface DID {
 	ID: string;
 	PublicKey?: string;
-	Document?: any;
+	Document?: DIDDocument;
 }
 
 type AuthenticateResult = {
@@ -19,8 +25,8 @@ export async function authenticateDID(
 	challenge: string
 ): Promise<AuthenticateResult> {
 	try {
-		// Use WASM instead of API call
-		const result = await wasmLoader.authenticateDID(didId, privateKey, challenge);
+		// did:key and did:jwk sign locally, every other method goes through the WASM module
+		const result = await didMethods.authenticate(didId, privateKey, challenge);
 		return {
 			proof: result.proof,
 			signature: result.signature,
@@ -33,6 +39,15 @@ export async function authenticateDID(
 	}
 }
 
+// Authenticate with the private key held in the local keystore (keystore must be unlocked)
+export async function authenticateStoredDID(
+	didId: string,
+	challenge: string
+): Promise<AuthenticateResult> {
+	const privateKey = await keystore.getPrivateKey(didId);
+	return authenticateDID(didId, privateKey, challenge);
+}
+
 // Binary version of authenticate DID for optimized data transfer
 export async function authenticateDIDBinary(
 	didId: string,
@@ -47,8 +62,7 @@ export async function authenticateDIDBinary(
 		const privateKeyHex = cryptoWasm.uint8ArrayToHex(privateKey);
 		const challengeHex = cryptoWasm.uint8ArrayToHex(challenge);
 
-		// Use WASM instead of API call
-		const result = await wasmLoader.authenticateDID(didId, privateKeyHex, challengeHex);
+		const result = await didMethods.authenticate(didId, privateKeyHex, challengeHex);
 		return {
 			proof: result.proof,
 			signature: cryptoWasm.hexToUint8Array(result.signature),
@@ -61,68 +75,52 @@ export async function authenticateDIDBinary(
 	}
 }
 
-// Generate QR code challenge for mobile wallet authentication
-export async function generateQRChallenge(): Promise<{ challenge: string; qrData: string }> {
-	try {
-		const response = await fetch(buildApiUrl('/did/qr-challenge'), {
-			method: 'POST',
-			headers: {
-				'Content-Type': 'application/json',
-			},
-			body: JSON.stringify({
-				didId: 'did:example:123123123',
-			}),
-		});
-
-		if (!response.ok) {
-			throw new Error('Failed to generate QR challenge');
-		}
-
-		const data = await response.json();
-		return {
-			challenge: data.challenge,
-			qrData: data.qr_data,
-		};
-	} catch (error) {
-		throw new Error('Failed to generate QR challenge');
+// Generate a cross-device QR login request; the wallet that scans it picks the DID, so none is sent here
+export async function generateQRChallenge(claims: string[] = []): Promise<{ request: QRLoginRequest; uri: string }> {
+	const domain = getCurrentDomain();
+	const response = await fetch(buildApiUrl('/did/qr-challenge'), {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+		},
+		body: JSON.stringify({
+			domain,
+			purpose: 'authentication',
+			claims,
+		}),
+	});
+
+	if (!response.ok) {
+		const errorData = await response.json().catch(() => ({}));
+		throw new Error(errorData.message || 'Failed to generate QR challenge');
 	}
-}
 
-// Poll for QR code authentication status
-export async function pollQRAuthentication(challenge: string): Promise<{ authenticated: boolean; didId?: string }> {
-	try {
-		const response = await fetch(
-			buildApiUrl(`/did/qr-status?challenge=${challenge}`),
-			{
-				method: 'GET',
-			}
-		);
-
-		if (!response.ok) {
-			throw new Error('Failed to check QR authentication status');
-		}
-
-		const data = await response.json();
-		return {
-			authenticated: data.authenticated,
-			didId: data.did_id,
-		};
-	} catch (error) {
-		throw new Error('Failed to check QR authentication status');
-	}
+	const data = await response.json();
+	const request: QRLoginRequest = {
+		version: QR_LOGIN_VERSION,
+		challenge: data.challenge,
+		callback: data.callback_url || buildApiUrl('/did/qr-response'),
+		domain: data.domain || domain,
+		expiresAt: data.expires_at,
+		claims: data.claims || claims,
+	};
+	return {
+		request,
+		uri: buildQRLoginURI(request),
+	};
 }
 
-export async function createDID(formData: { name: string; dob: string }) {
+// Create a DID with the given method ('key', 'jwk'); the WASM module's own format when omitted
+export async function createDID(formData: { name: string; dob: string }, method?: string, keyType?: DIDKeyType) {
 	try {
-		// Use WASM instead of API call
-		const result = await wasmLoader.createDID();
+		const result = await didMethods.create(method, { keyType });
 
-		// Transform the WASM result to match the expected format
+		// Transform the result to match the expected format
 		return {
 			did: {
-				ID: result.did.id,
-				PublicKey: result.did.publicKey,
-				Document: result.did.document,
+				ID: result.didId,
+				PublicKey: result.publicKey,
+				Document: result.document,
 			},
 			privateKey: result.privateKey,
 		};
@@ -137,12 +135,11 @@ export async function createDID(formData: { name: string; dob: string }) {
 export async function verifyDID(
 	didId: string,
 	signature: string,
-	proof: string
+	proof: string,
+	challenge: string
 ): Promise<boolean> {
 	try {
-		// Use WASM instead of API call
-		const result = await wasmLoader.verifyAuthentication(didId, proof, signature);
-		return result.verified;
+		return await didMethods.verifyAuthentication(didId, proof, signature, challenge);
 	} catch (error) {
 		throw new Error('Failed to verify DID');
 	}
@@ -152,15 +149,14 @@ export async function verifyDID(
 export async function verifyDIDBinary(
 	didId: string,
 	signature: Uint8Array,
-	proof: string
+	proof: string,
+	challenge: string
 ): Promise<boolean> {
 	try {
 		// Convert binary signature to hex for WASM call
 		const signatureHex = cryptoWasm.uint8ArrayToHex(signature);
 
-		// Use WASM instead of API call
-		const result = await wasmLoader.verifyAuthentication(didId, proof, signatureHex);
-		return result.verified;
+		return await didMethods.verifyAuthentication(didId, proof, signatureHex, challenge);
 	} catch (error) {
 		throw new Error('Failed to verify DID with binary encoding');
 	}
@@ -223,6 +219,8 @@ export interface BatchCreateAndIssueRequest {
 export interface BatchCreateAndIssueResponse {
 	did: DID;
 	privateKey: string;
+	credential: VerifiableCredential;
+	salt: string;
 	success: boolean;
 	message?: string;
 }
@@ -249,23 +247,22 @@ export async function batchCreateDIDAndIssueCredential(
 		// Use WASM for DID creation
 		const didResult = await wasmLoader.createDID();
 
-		// Calculate age from date of birth
-		const dob = new Date(formData.dob);
-		const today = new Date();
-		let age = today.getFullYear() - dob.getFullYear();
-		const monthDiff = today.getMonth() - dob.getMonth();
-		if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < dob.getDate())) {
-			age--;
-		}
-
 		// Issue age credential using WASM
-		const credentialResult = await wasmLoader.issueAgeCredential(didResult.did.id, age);
+		const credentialResult = await wasmLoader.issueAgeCredential(didResult.did.id, calculateAge(formData.dob));
 
 		return {
 			did: {
 				ID: didResult.did.id,
+				PublicKey: didResult.did.publicKey,
+				Document: toDIDDocument(didResult.did.document),
 			},
 			privateKey: didResult.privateKey,
+			credential: createAgeCredential({
+				issuer: didResult.did.id,
+				subject: didResult.did.id,
+				credentialResult,
+			}),
+			salt: credentialResult.salt,
 			success: true,
 			message: 'DID created and credential issued successfully',
 		};
@@ -282,24 +279,25 @@ export async function batchAuthenticateAndVerifyDID(
 	request: BatchAuthAndVerifyRequest
 ): Promise<BatchAuthAndVerifyResponse> {
 	try {
-		// Authenticate using WASM
-		const authResult = await wasmLoader.authenticateDID(
+		// Authenticate with the DID's method
+		const authResult = await didMethods.authenticate(
 			request.didId,
 			request.privateKey,
 			request.challenge
 		);
 
-		// Verify using WASM
-		const verifyResult = await wasmLoader.verifyAuthentication(
+		// Verify with the same method
+		const verified = await didMethods.verifyAuthentication(
 			request.didId,
 			authResult.proof,
-			authResult.signature
+			authResult.signature,
+			request.challenge
 		);
 
 		return {
 			proof: authResult.proof,
 			signature: authResult.signature,
-			verified: verifyResult.verified,
+			verified,
 			success: true,
 			message: 'Authentication and verification completed successfully',
 		};
@@ -3,7 +3,6 @@
 import {useState} from 'react'
 import {wasmAuth} from '@/lib/wasm-auth'
 import {authenticateDID, createDID, verifyDID} from '@/app/api/did'
-import {login, loginWithDID} from '@/lib/auth'
 import {Card, CardContent, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
 import {Button} from '@/components/ui/button'
 import {Input} from '@/components/ui/input'
@@ -0,0 +1,155 @@
+'use client'
+
+import {useEffect, useState} from 'react'
+import Link from 'next/link'
+import {credentialWallet, WalletCredential} from '@/lib/credential-wallet'
+import {AGE_CREDENTIAL_TYPE, MEMBERSHIP_CREDENTIAL_TYPE, getCredentialIssuer, getCredentialStatus, getCredentialType} from '@/lib/credentials'
+import type {CredentialStatus} from '@/lib/credentials'
+import {Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle} from '@/components/ui/card'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {Badge} from '@/components/ui/badge'
+import {Button} from '@/components/ui/button'
+import {AlertCircle, Download, FileBadge, ShieldCheck, Trash2} from 'lucide-react'
+
+const statusBadgeVariant: Record<CredentialStatus, 'success' | 'destructive' | 'secondary'> = {
+	active: 'success',
+	expired: 'destructive',
+	pending: 'secondary',
+}
+
+function formatDate(value?: string) {
+	return value ? new Date(value).toLocaleDateString() : '—'
+}
+
+export default function CredentialsPage() {
+	const [credentials, setCredentials] = useState<WalletCredential[]>([])
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState(true)
+
+	useEffect(() => {
+		credentialWallet
+			.list()
+			.then(setCredentials)
+			.catch((err) => setError(err instanceof Error ? err.message : 'Failed to load credentials'))
+			.finally(() => setLoading(false))
+	}, [])
+
+	const handleDelete = async (id: string) => {
+		if (!window.confirm('Delete this credential? Proofs can no longer be generated from it.')) return
+
+		try {
+			await credentialWallet.remove(id)
+			setCredentials((prev) => prev.filter((entry) => entry.id !== id))
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to delete credential')
+		}
+	}
+
+	const handleExport = async (entry: WalletCredential) => {
+		try {
+			const json = await credentialWallet.export(entry.id)
+			const url = URL.createObjectURL(new Blob([json], {type: 'application/json'}))
+			const link = document.createElement('a')
+			link.href = url
+			link.download = `${getCredentialType(entry.credential)}-${entry.id.replace(/^urn:uuid:/, '')}.json`
+			link.click()
+			URL.revokeObjectURL(url)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to export credential')
+		}
+	}
+
+	return (
+		<div className='min-h-screen bg-background p-8'>
+			<div className='max-w-5xl mx-auto'>
+				<div className='mb-8'>
+					<h1 className='text-3xl font-bold'>Credentials</h1>
+					<p className='text-muted-foreground mt-2'>Verifiable credentials held in this browser</p>
+				</div>
+
+				{error && (
+					<Alert variant='destructive' className='mb-6'>
+						<AlertCircle className='h-4 w-4' />
+						<AlertDescription>{error}</AlertDescription>
+					</Alert>
+				)}
+
+				{loading ? (
+					<div className='space-y-4'>
+						{[1, 2].map((i) => (
+							<div key={i} className='animate-pulse h-32 bg-muted rounded-lg' />
+						))}
+					</div>
+				) : credentials.length === 0 ? (
+					<Card>
+						<CardContent className='py-12 text-center text-muted-foreground'>
+							<FileBadge className='w-8 h-8 mx-auto mb-4' />
+							<p>You don&apos;t hold any credentials yet.</p>
+							<Link href='/enhanced-did' className='text-sm text-primary hover:underline'>
+								Create a DID and issue an age credential
+							</Link>
+						</CardContent>
+					</Card>
+				) : (
+					<div className='grid gap-6'>
+						{credentials.map((entry) => {
+							const type = getCredentialType(entry.credential)
+							const status = getCredentialStatus(entry.credential)
+							const proofType = type === AGE_CREDENTIAL_TYPE ? 'age' : type === MEMBERSHIP_CREDENTIAL_TYPE ? 'membership' : null
+
+							return (
+								<Card key={entry.id}>
+									<CardHeader className='flex flex-row items-start justify-between space-y-0'>
+										<div className='space-y-1'>
+											<CardTitle className='text-lg'>{type}</CardTitle>
+											<CardDescription className='break-all'>{entry.id}</CardDescription>
+										</div>
+										<Badge variant={statusBadgeVariant[status]}>{status}</Badge>
+									</CardHeader>
+									<CardContent>
+										<dl className='grid grid-cols-1 md:grid-cols-2 gap-4 text-sm'>
+											<div>
+												<dt className='text-muted-foreground'>Issuer</dt>
+												<dd className='break-all'>{getCredentialIssuer(entry.credential)}</dd>
+											</div>
+											<div>
+												<dt className='text-muted-foreground'>Subject DID</dt>
+												<dd className='break-all'>{entry.credential.credentialSubject.id}</dd>
+											</div>
+											<div>
+												<dt className='text-muted-foreground'>Issued</dt>
+												<dd>{formatDate(entry.credential.validFrom)}</dd>
+											</div>
+											<div>
+												<dt className='text-muted-foreground'>Expires</dt>
+												<dd>{formatDate(entry.credential.validUntil)}</dd>
+											</div>
+										</dl>
+									</CardContent>
+									<CardFooter className='flex flex-wrap gap-2'>
+										{proofType && status === 'active' && (
+											<Button asChild size='sm'>
+												<Link href={`/dashboard/credentials/prove?id=${encodeURIComponent(entry.id)}&type=${proofType}`}>
+													<ShieldCheck className='w-4 h-4 mr-2' />
+													{proofType === 'age' ? 'Prove age' : 'Prove membership'}
+												</Link>
+											</Button>
+										)}
+										<Button variant='outline' size='sm' onClick={() => handleExport(entry)}>
+											<Download className='w-4 h-4 mr-2' />
+											Export
+										</Button>
+										<Button variant='ghost' size='sm' onClick={() => handleDelete(entry.id)}>
+											<Trash2 className='w-4 h-4 mr-2' />
+											Delete
+										</Button>
+									</CardFooter>
+								</Card>
+							)
+						})}
+					</div>
+				)}
+			</div>
+		</div>
+	)
+}
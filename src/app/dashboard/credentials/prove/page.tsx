@@ -0,0 +1,71 @@
+'use client'
+
+import {Suspense, useEffect, useState} from 'react'
+import {useSearchParams} from 'next/navigation'
+import Link from 'next/link'
+import {credentialWallet, WalletCredential} from '@/lib/credential-wallet'
+import {getCredentialType} from '@/lib/credentials'
+import AgeProofForm from '@/components/AgeProofForm'
+import MembershipProofForm from '@/components/MembershipProofForm'
+import {Card, CardContent, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {AlertCircle, ArrowLeft} from 'lucide-react'
+
+function CredentialProof() {
+	const searchParams = useSearchParams()
+	const id = searchParams.get('id')
+	const proofType = searchParams.get('type') === 'membership' ? 'membership' : 'age'
+
+	const [entry, setEntry] = useState<WalletCredential | null>(null)
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		if (!id) {
+			setError('No credential selected')
+			return
+		}
+
+		credentialWallet
+			.get(id)
+			.then((found) => (found ? setEntry(found) : setError('Credential not found in wallet')))
+			.catch((err) => setError(err instanceof Error ? err.message : 'Failed to load credential'))
+	}, [id])
+
+	return (
+		<div className='min-h-screen bg-background p-8'>
+			<div className='max-w-3xl mx-auto'>
+				<Link href='/dashboard/credentials' className='inline-flex items-center text-sm text-muted-foreground hover:text-foreground mb-6'>
+					<ArrowLeft className='w-4 h-4 mr-2' />
+					Back to credentials
+				</Link>
+
+				{error && (
+					<Alert variant='destructive' className='mb-6'>
+						<AlertCircle className='h-4 w-4' />
+						<AlertDescription>{error}</AlertDescription>
+					</Alert>
+				)}
+
+				{entry && (
+					<Card>
+						<CardHeader>
+							<CardTitle>{proofType === 'age' ? 'Age Proof' : 'Membership Proof'}</CardTitle>
+							<CardDescription className='break-all'>
+								From {getCredentialType(entry.credential)} held by {entry.credential.credentialSubject.id}
+							</CardDescription>
+						</CardHeader>
+						<CardContent>{proofType === 'age' ? <AgeProofForm entry={entry} /> : <MembershipProofForm entry={entry} />}</CardContent>
+					</Card>
+				)}
+			</div>
+		</div>
+	)
+}
+
+export default function CredentialProofPage() {
+	return (
+		<Suspense fallback={<div className='min-h-screen flex items-center justify-center bg-background p-4'>Loading...</div>}>
+			<CredentialProof />
+		</Suspense>
+	)
+}
@@ -0,0 +1,61 @@
+'use client'
+
+import Link from 'next/link'
+import {useDID} from '@/components/AuthProvider'
+import KeyRotation from '@/components/KeyRotation'
+import DIDDocumentEditor from '@/components/DIDDocumentEditor'
+import {Card, CardContent, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
+import {FilePen, RefreshCw} from 'lucide-react'
+
+// Changes that publish new DID document versions; the route policy requires a DID session with 2FA
+export default function DIDKeysPage() {
+	const {didSettings} = useDID()
+
+	return (
+		<div className='min-h-screen bg-background p-8'>
+			<div className='max-w-3xl mx-auto'>
+				<div className='mb-8'>
+					<h1 className='text-3xl font-bold'>DID Keys</h1>
+					<p className='text-muted-foreground mt-2'>Edit your DID document and rotate its key</p>
+				</div>
+
+				{!didSettings ? (
+					<p className='text-sm text-muted-foreground'>
+						No DID is configured.{' '}
+						<Link href='/dashboard/did' className='text-primary hover:underline'>
+							Set one up in DID Settings
+						</Link>
+					</p>
+				) : (
+					<>
+						<Card>
+							<CardHeader>
+								<CardTitle className='flex items-center gap-2'>
+									<FilePen className='h-5 w-5' />
+									DID Document Editor
+								</CardTitle>
+								<CardDescription>Add service endpoints and additional keys; changes are signed with your DID key and published as a new document version</CardDescription>
+							</CardHeader>
+							<CardContent>
+								<DIDDocumentEditor key={didSettings.id} didId={didSettings.id} />
+							</CardContent>
+						</Card>
+
+						<Card className='mt-6'>
+							<CardHeader>
+								<CardTitle className='flex items-center gap-2'>
+									<RefreshCw className='h-5 w-5' />
+									Key Rotation
+								</CardTitle>
+								<CardDescription>Replace a compromised key with a new one; each rotation publishes a new DID document version signed by the old key</CardDescription>
+							</CardHeader>
+							<CardContent>
+								<KeyRotation key={didSettings.id} didId={didSettings.id} />
+							</CardContent>
+						</Card>
+					</>
+				)}
+			</div>
+		</div>
+	)
+}
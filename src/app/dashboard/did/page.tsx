@@ -1,14 +1,17 @@
 'use client'
 
 import {useState, useEffect} from 'react'
-import {User, getDIDSettings, updateDIDSettings} from '@/lib/auth'
+import Link from 'next/link'
+import {useDID} from '@/components/AuthProvider'
+import DIDDocumentView from '@/components/DIDDocumentView'
+import {didResolver, type DIDResolutionResult} from '@/lib/did-resolver'
 import {Card, CardContent, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
 import {Alert, AlertDescription} from '@/components/ui/alert'
 import {Button} from '@/components/ui/button'
 import {Input} from '@/components/ui/input'
 import {Form, FormControl, FormDescription, FormField, FormItem, FormLabel, FormMessage} from '@/components/ui/form'
 import {Switch} from '@/components/ui/switch'
-import {AlertCircle, CheckCircle2, Key} from 'lucide-react'
+import {AlertCircle, CheckCircle2, FileText, Key, KeyRound, ShieldCheck} from 'lucide-react'
 import {useForm} from 'react-hook-form'
 import {z} from 'zod'
 import {zodResolver} from '@hookform/resolvers/zod'
@@ -21,10 +24,11 @@ const formSchema = z.object({
 type FormData = z.infer<typeof formSchema>
 
 export default function DIDPage() {
-	const [user, setUser] = useState<User | null>(null)
+	const {didSettings, updateDIDSettings} = useDID()
 	const [error, setError] = useState<string | null>(null)
 	const [success, setSuccess] = useState<string | null>(null)
 	const [loading, setLoading] = useState(false)
+	const [resolution, setResolution] = useState<DIDResolutionResult | null>(null)
 
 	const form = useForm<FormData>({
 		resolver: zodResolver(formSchema),
@@ -35,14 +39,26 @@ export default function DIDPage() {
 	})
 
 	useEffect(() => {
-		const settings = getDIDSettings()
-		if (settings) {
+		if (didSettings) {
 			form.reset({
-				didId: settings.id,
-				enabled: settings.enabled,
+				didId: didSettings.id,
+				enabled: didSettings.enabled,
 			})
 		}
-	}, [form])
+	}, [form, didSettings])
+
+	useEffect(() => {
+		setResolution(null)
+		if (!didSettings?.id) return
+
+		let cancelled = false
+		didResolver.resolve(didSettings.id).then((result) => {
+			if (!cancelled) setResolution(result)
+		})
+		return () => {
+			cancelled = true
+		}
+	}, [didSettings?.id])
 
 	const onSubmit = async (data: FormData) => {
 		setLoading(true)
@@ -133,6 +149,59 @@ export default function DIDPage() {
 						</Form>
 					</CardContent>
 				</Card>
+
+				{didSettings && (
+					<Card className='mt-6'>
+						<CardHeader>
+							<CardTitle className='flex items-center gap-2'>
+								<FileText className='h-5 w-5' />
+								DID Document
+							</CardTitle>
+							<CardDescription>The document your DID currently resolves to</CardDescription>
+						</CardHeader>
+						<CardContent>
+							{!resolution ? (
+								<p className='text-sm text-muted-foreground'>Resolving {didSettings.id}...</p>
+							) : resolution.didDocument ? (
+								<DIDDocumentView document={resolution.didDocument} />
+							) : (
+								<Alert variant='destructive'>
+									<AlertCircle className='h-4 w-4' />
+									<AlertDescription>
+										{resolution.didResolutionMetadata.error}: {resolution.didResolutionMetadata.message}
+									</AlertDescription>
+								</Alert>
+							)}
+						</CardContent>
+					</Card>
+				)}
+
+				{didSettings && (
+					<Card className='mt-6'>
+						<CardHeader>
+							<CardTitle>Keys and Recovery</CardTitle>
+							<CardDescription>
+								{didSettings.backupVerifiedAt
+									? `Backup verified ${new Date(didSettings.backupVerifiedAt).toLocaleString()}`
+									: 'Not backed up. Losing the private key means losing this DID.'}
+							</CardDescription>
+						</CardHeader>
+						<CardContent className='flex flex-wrap gap-2'>
+							<Button asChild variant='outline'>
+								<Link href='/dashboard/did/keys'>
+									<KeyRound className='w-4 h-4 mr-2' />
+									Edit document and rotate key
+								</Link>
+							</Button>
+							<Button asChild variant='outline'>
+								<Link href='/dashboard/did/recovery'>
+									<ShieldCheck className='w-4 h-4 mr-2' />
+									Back up key
+								</Link>
+							</Button>
+						</CardContent>
+					</Card>
+				)}
 			</div>
 		</div>
 	)
@@ -0,0 +1,71 @@
+'use client'
+
+import Link from 'next/link'
+import {useDID} from '@/components/AuthProvider'
+import MnemonicBackup from '@/components/MnemonicBackup'
+import KeySharesForm from '@/components/KeySharesForm'
+import {Card, CardContent, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
+import {ShieldCheck, Users} from 'lucide-react'
+
+// Both backups reveal the private key, so the route policy requires 2FA
+export default function DIDRecoveryPage() {
+	const {didSettings} = useDID()
+
+	return (
+		<div className='min-h-screen bg-background p-8'>
+			<div className='max-w-3xl mx-auto'>
+				<div className='mb-8'>
+					<h1 className='text-3xl font-bold'>DID Recovery</h1>
+					<p className='text-muted-foreground mt-2'>Back up your DID key so it can be restored</p>
+				</div>
+
+				{!didSettings ? (
+					<p className='text-sm text-muted-foreground'>
+						No DID is configured.{' '}
+						<Link href='/dashboard/did' className='text-primary hover:underline'>
+							Set one up in DID Settings
+						</Link>
+					</p>
+				) : (
+					<>
+						<Card>
+							<CardHeader>
+								<CardTitle className='flex items-center gap-2'>
+									<ShieldCheck className='h-5 w-5' />
+									Recovery Phrase
+								</CardTitle>
+								<CardDescription>
+									{didSettings.backupVerifiedAt
+										? `Backup verified ${new Date(didSettings.backupVerifiedAt).toLocaleString()}`
+										: 'Not backed up. Losing the private key means losing this DID.'}
+								</CardDescription>
+							</CardHeader>
+							<CardContent className='space-y-4'>
+								<MnemonicBackup key={didSettings.id} didId={didSettings.id} />
+								<p className='text-sm text-muted-foreground'>
+									Lost your key?{' '}
+									<Link href='/recover' className='text-primary hover:underline'>
+										Recover it from your phrase
+									</Link>
+								</p>
+							</CardContent>
+						</Card>
+
+						<Card className='mt-6'>
+							<CardHeader>
+								<CardTitle className='flex items-center gap-2'>
+									<Users className='h-5 w-5' />
+									Social Recovery
+								</CardTitle>
+								<CardDescription>Split your private key into shares for trusted guardians; a threshold of them can restore it</CardDescription>
+							</CardHeader>
+							<CardContent>
+								<KeySharesForm key={didSettings.id} didId={didSettings.id} />
+							</CardContent>
+						</Card>
+					</>
+				)}
+			</div>
+		</div>
+	)
+}
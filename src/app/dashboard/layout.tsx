@@ -1,18 +1,24 @@
 'use client'
 
+import {useEffect} from 'react'
 import {useRouter} from 'next/navigation'
 import Link from 'next/link'
-import {logout} from '@/lib/auth'
+import {useAuth} from '@/components/AuthProvider'
+import RouteGuard from '@/components/RouteGuard'
+import {Badge} from '@/components/ui/badge'
 import {Button} from '@/components/ui/button'
-import {LogOut} from 'lucide-react'
+import {KeyRound, LogOut} from 'lucide-react'
 
 export default function DashboardLayout({children}: {children: React.ReactNode}) {
 	const router = useRouter()
+	const {user, didSettings, isAuthenticated, loading, logout} = useAuth()
 
-	const handleLogout = () => {
-		logout()
-		router.push('/login')
-	}
+	// The middleware guards the initial request; this catches sessions ended while the page is open
+	useEffect(() => {
+		if (!loading && !isAuthenticated) {
+			router.replace('/login')
+		}
+	}, [loading, isAuthenticated, router])
 
 	return (
 		<div>
@@ -27,6 +33,9 @@ export default function DashboardLayout({children}: {children: React.ReactNode})
 							<Link href='/dashboard/did' className='text-sm font-medium text-muted-foreground hover:text-foreground'>
 								DID Settings
 							</Link>
+							<Link href='/dashboard/credentials' className='text-sm font-medium text-muted-foreground hover:text-foreground'>
+								Credentials
+							</Link>
 							<Link href='/dashboard/profile' className='text-sm font-medium text-muted-foreground hover:text-foreground'>
 								Profile
 							</Link>
@@ -34,16 +43,27 @@ export default function DashboardLayout({children}: {children: React.ReactNode})
 								Activity
 							</Link>
 						</nav>
-						<Button variant='ghost' size='sm' onClick={handleLogout}>
-							<LogOut className='h-4 w-4 mr-2' />
-							Logout
-						</Button>
+						<div className='flex items-center space-x-4'>
+							{didSettings?.enabled && (
+								<Badge variant='secondary' className='hidden md:flex items-center max-w-[12rem]'>
+									<KeyRound className='h-3 w-3 mr-1 shrink-0' />
+									<span className='truncate'>{didSettings.id}</span>
+								</Badge>
+							)}
+							{user && <span className='text-sm text-muted-foreground'>{user.username}</span>}
+							<Button variant='ghost' size='sm' onClick={logout}>
+								<LogOut className='h-4 w-4 mr-2' />
+								Logout
+							</Button>
+						</div>
 					</div>
 				</div>
 			</header>
 
 			{/* Main content */}
-			<main>{children}</main>
+			<main>
+				<RouteGuard>{children}</RouteGuard>
+			</main>
 		</div>
 	)
 }
@@ -1,26 +1,14 @@
 'use client'
 
-import {useEffect, useState} from 'react'
-import {User, getDIDSettings} from '@/lib/auth'
+import {useDID, useUser} from '@/components/AuthProvider'
 import {Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle} from '@/components/ui/card'
 import {Badge} from '@/components/ui/badge'
 import Link from 'next/link'
 import {Clock, KeyRound, User as UserIcon} from 'lucide-react'
 
 export default function DashboardPage() {
-	const [user, setUser] = useState<User | null>(null)
-	const [didSettings, setDidSettings] = useState<{id: string; enabled: boolean} | null>(null)
-
-	useEffect(() => {
-		const userStr = localStorage.getItem('user_data')
-		if (userStr) {
-			setUser(JSON.parse(userStr))
-		}
-		const settings = getDIDSettings()
-		if (settings) {
-			setDidSettings(settings)
-		}
-	}, [])
+	const user = useUser()
+	const {didSettings} = useDID()
 
 	if (!user) {
 		return (
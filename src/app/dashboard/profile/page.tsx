@@ -1,7 +1,9 @@
 'use client'
 
-import {useState, useEffect} from 'react'
-import {User, getUserData, updateProfile} from '@/lib/auth'
+import {useState} from 'react'
+import {updateProfile} from '@/lib/auth'
+import {useUser} from '@/components/AuthProvider'
+import TwoFactorSettings from '@/components/TwoFactorSettings'
 import type {UpdateProfileData} from '@/lib/auth'
 import {Card, CardContent, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
 import {Alert, AlertDescription} from '@/components/ui/alert'
@@ -13,7 +15,7 @@ import {AlertCircle, CheckCircle2} from 'lucide-react'
 import {useForm} from 'react-hook-form'
 
 export default function ProfilePage() {
-	const [user, setUser] = useState<User | null>(null)
+	const user = useUser()
 	const [error, setError] = useState<string | null>(null)
 	const [success, setSuccess] = useState<string | null>(null)
 	const [loading, setLoading] = useState(false)
@@ -25,21 +27,13 @@ export default function ProfilePage() {
 		},
 	})
 
-	useEffect(() => {
-		const userData = getUserData()
-		if (userData) {
-			setUser(userData)
-		}
-	}, [])
-
 	const onSubmit = async (data: UpdateProfileData) => {
 		setLoading(true)
 		setError(null)
 		setSuccess(null)
 
 		try {
-			const updatedUser = await updateProfile(data)
-			setUser(updatedUser)
+			await updateProfile(data)
 			setSuccess('Profile updated successfully')
 			form.reset() // Clear form
 		} catch (err) {
@@ -158,6 +152,8 @@ export default function ProfilePage() {
 						</Form>
 					</CardContent>
 				</Card>
+
+				<TwoFactorSettings />
 			</div>
 		</div>
 	)
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { DID_FIXTURES, buildFixtureDocument } from '@/lib/did-fixtures'
+
+// Serves did:web:<host>:did-fixtures:<name> documents during local development
+export async function GET(request: NextRequest, { params }: { params: Promise<{ name: string }> }) {
+	const { name } = await params
+	const fixture = DID_FIXTURES.find((item) => item.name === name)
+	if (process.env.NODE_ENV === 'production' || !fixture) {
+		return NextResponse.json({ message: 'Not found' }, { status: 404 })
+	}
+
+	return NextResponse.json(buildFixtureDocument(request.nextUrl.host, fixture), {
+		headers: { 'Content-Type': 'application/did+json' },
+	})
+}
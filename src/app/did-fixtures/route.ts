@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { DID_FIXTURES, getFixtureDID } from '@/lib/did-fixtures'
+
+// Lists the fixture DIDs and their test keys during local development
+export async function GET(request: NextRequest) {
+	if (process.env.NODE_ENV === 'production') {
+		return NextResponse.json({ message: 'Not found' }, { status: 404 })
+	}
+
+	return NextResponse.json(
+		DID_FIXTURES.map((fixture) => ({
+			did: getFixtureDID(request.nextUrl.host, fixture.name),
+			keyType: fixture.keyType,
+			privateKey: fixture.privateKey,
+		}))
+	)
+}
@@ -0,0 +1,23 @@
+'use client'
+
+import {Suspense} from 'react'
+import {useSearchParams} from 'next/navigation'
+import ForbiddenCard from '@/components/ForbiddenCard'
+import type {PolicyRequirement} from '@/lib/route-policy'
+
+const REQUIREMENTS: PolicyRequirement[] = ['role', 'did', '2fa']
+
+function Forbidden() {
+	const searchParams = useSearchParams()
+	const missing = (searchParams.get('missing') || '').split(',').filter((value): value is PolicyRequirement => REQUIREMENTS.includes(value as PolicyRequirement))
+
+	return <ForbiddenCard missing={missing} />
+}
+
+export default function ForbiddenPage() {
+	return (
+		<Suspense fallback={<div className='min-h-screen flex items-center justify-center bg-background p-4'>Loading...</div>}>
+			<Forbidden />
+		</Suspense>
+	)
+}
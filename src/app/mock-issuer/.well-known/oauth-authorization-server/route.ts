@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { getMockAuthorizationServerMetadata } from '@/lib/mock-issuer'
+
+// The mock issuer is its own authorization server
+export async function GET(request: NextRequest) {
+	if (process.env.NODE_ENV === 'production') {
+		return NextResponse.json({ message: 'Not found' }, { status: 404 })
+	}
+
+	return NextResponse.json(getMockAuthorizationServerMetadata(request.nextUrl.origin))
+}
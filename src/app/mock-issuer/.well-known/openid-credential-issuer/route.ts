@@ -0,0 +1,12 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { getMockIssuerMetadata } from '@/lib/mock-issuer'
+
+// Credential issuer metadata of the dev-only mock issuer
+export async function GET(request: NextRequest) {
+	if (process.env.NODE_ENV === 'production') {
+		return NextResponse.json({ message: 'Not found' }, { status: 404 })
+	}
+
+	return NextResponse.json(getMockIssuerMetadata(request.nextUrl.origin))
+}
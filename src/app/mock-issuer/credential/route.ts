@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { issueMockCredential } from '@/lib/mock-issuer'
+
+// Credential endpoint: Bearer access token plus a proof-of-possession JWT
+export async function POST(request: NextRequest) {
+	if (process.env.NODE_ENV === 'production') {
+		return NextResponse.json({ error: 'invalid_request', error_description: 'Not found' }, { status: 404 })
+	}
+
+	const body = await request.json().catch(() => ({}))
+	const result = await issueMockCredential(request.headers.get('authorization'), body, request.nextUrl.origin)
+	return NextResponse.json(result.body, {
+		status: result.status,
+		headers: { 'Cache-Control': 'no-store' },
+	})
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { buildCredentialOffer, getMockIssuerOffer } from '@/lib/mock-issuer'
+
+// credential_offer_uri target: the offer object for offers passed by reference
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+	const { id } = await params
+	const offer = getMockIssuerOffer(id)
+	if (process.env.NODE_ENV === 'production' || !offer) {
+		return NextResponse.json({ message: 'Not found' }, { status: 404 })
+	}
+	if (offer.status !== 'offered') {
+		return NextResponse.json({ message: `The offer is ${offer.status}` }, { status: 410 })
+	}
+
+	return NextResponse.json(buildCredentialOffer(offer, request.nextUrl.origin))
+}
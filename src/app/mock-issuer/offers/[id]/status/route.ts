@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { getMockIssuerOffer } from '@/lib/mock-issuer'
+
+// Offer progress, polled by the mock issuer page
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+	const { id } = await params
+	const offer = getMockIssuerOffer(id)
+	if (process.env.NODE_ENV === 'production' || !offer) {
+		return NextResponse.json({ message: 'Not found' }, { status: 404 })
+	}
+
+	return NextResponse.json({
+		id: offer.id,
+		status: offer.status,
+		subject: offer.credential.credentialSubject.id,
+		expires_at: offer.expiresAt,
+	})
+}
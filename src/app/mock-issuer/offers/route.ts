@@ -0,0 +1,30 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { buildCredentialOfferURIs, createMockIssuerOffer, getMockIssuerDID } from '@/lib/mock-issuer'
+import { getCredentialIssuer, verifiableCredentialSchema } from '@/lib/credentials'
+
+// Creates a pre-authorized code offer for a credential the mock issuer page has prepared
+export async function POST(request: NextRequest) {
+	if (process.env.NODE_ENV === 'production') {
+		return NextResponse.json({ message: 'Not found' }, { status: 404 })
+	}
+
+	const body = await request.json().catch(() => ({}))
+	const credential = verifiableCredentialSchema.safeParse(body?.credential)
+	if (!credential.success) {
+		return NextResponse.json({ message: 'A valid verifiable credential is required' }, { status: 400 })
+	}
+	// Only credentials the mock issuer can sign are offered
+	const issuer = getMockIssuerDID(request.nextUrl.host)
+	if (getCredentialIssuer(credential.data) !== issuer || credential.data.proof.verificationMethod !== `${issuer}#key-1`) {
+		return NextResponse.json({ message: `The credential must be issued by ${issuer}` }, { status: 400 })
+	}
+
+	const offer = createMockIssuerOffer(credential.data, { secrets: body.secrets, requireTxCode: body.require_tx_code === true })
+	return NextResponse.json({
+		id: offer.id,
+		tx_code: offer.txCode,
+		expires_at: offer.expiresAt,
+		...buildCredentialOfferURIs(offer, request.nextUrl.origin),
+	})
+}
@@ -0,0 +1,215 @@
+'use client'
+
+import {useEffect, useState} from 'react'
+import {notFound} from 'next/navigation'
+import {QRCodeSVG} from 'qrcode.react'
+import {wasmLoader} from '@/lib/wasm-loader'
+import {keystore, type StoredKeyInfo} from '@/lib/keystore'
+import {createAgeCredential} from '@/lib/credentials'
+import {getFixtureDID} from '@/lib/did-fixtures'
+import {buildWalletOfferLink} from '@/lib/openid4vci'
+import {Card, CardContent, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {Badge} from '@/components/ui/badge'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {AlertCircle, BadgeCheck} from 'lucide-react'
+
+interface CreatedOffer {
+	id: string
+	tx_code?: string
+	expires_at: string
+	byReference: string
+	byValue: string
+}
+
+type OfferStatus = 'offered' | 'token_issued' | 'issued' | 'expired'
+
+const POLL_INTERVAL_MS = 2000
+
+function MockIssuer() {
+	const [storedKeys, setStoredKeys] = useState<StoredKeyInfo[]>([])
+	const [subject, setSubject] = useState('')
+	const [age, setAge] = useState('18')
+	const [requireTxCode, setRequireTxCode] = useState(true)
+	const [offer, setOffer] = useState<CreatedOffer | null>(null)
+	const [status, setStatus] = useState<OfferStatus | null>(null)
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+
+	useEffect(() => {
+		keystore
+			.listKeys()
+			.then((keys) => {
+				setStoredKeys(keys)
+				setSubject((current) => current || keys[0]?.didId || '')
+			})
+			.catch(() => setStoredKeys([]))
+	}, [])
+
+	// Follow the wallet through token and credential requests
+	useEffect(() => {
+		if (!offer) return
+		let cancelled = false
+		let timer: ReturnType<typeof setTimeout>
+
+		const poll = async () => {
+			try {
+				const response = await fetch(`/mock-issuer/offers/${offer.id}/status`)
+				const data = await response.json()
+				if (!response.ok) throw new Error(data.message || 'Failed to load offer')
+				if (cancelled) return
+				setStatus(data.status)
+				if (data.status === 'offered' || data.status === 'token_issued') {
+					timer = setTimeout(poll, POLL_INTERVAL_MS)
+				}
+			} catch (err) {
+				if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load offer')
+			}
+		}
+		poll()
+
+		return () => {
+			cancelled = true
+			clearTimeout(timer)
+		}
+	}, [offer])
+
+	const handleCreate = async (e: React.FormEvent) => {
+		e.preventDefault()
+		setError(null)
+		setOffer(null)
+		setStatus(null)
+		setLoading(true)
+
+		try {
+			const attestedAge = parseInt(age, 10)
+			if (!Number.isInteger(attestedAge) || attestedAge < 0) {
+				throw new Error('Age must be a positive whole number')
+			}
+
+			// The gnark commitment needs the DID module, which only runs in the browser
+			const credentialResult = await wasmLoader.issueAgeCredential(subject.trim(), attestedAge)
+			const credential = createAgeCredential({
+				issuer: getFixtureDID(window.location.host, 'issuer'),
+				subject: subject.trim(),
+				credentialResult,
+			})
+
+			const response = await fetch('/mock-issuer/offers', {
+				method: 'POST',
+				headers: {'Content-Type': 'application/json'},
+				body: JSON.stringify({
+					credential,
+					secrets: {kind: 'age', age: attestedAge, salt: credentialResult.salt},
+					require_tx_code: requireTxCode,
+				}),
+			})
+			const data = await response.json()
+			if (!response.ok) {
+				throw new Error(data.message || 'Failed to create offer')
+			}
+			setOffer(data)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to create offer')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	const walletLink = offer ? buildWalletOfferLink(offer.byReference) : ''
+
+	return (
+		<Card className='w-full max-w-2xl'>
+			<CardHeader>
+				<CardTitle className='flex items-center space-x-2'>
+					<BadgeCheck className='w-5 h-5' />
+					<span>Mock OpenID4VCI Issuer</span>
+				</CardTitle>
+				<CardDescription>Development-only issuer: attest an age for a holder DID and offer the credential to this app&apos;s wallet</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-4'>
+				{error && (
+					<Alert variant='destructive'>
+						<AlertCircle className='h-4 w-4' />
+						<AlertDescription>{error}</AlertDescription>
+					</Alert>
+				)}
+
+				<form onSubmit={handleCreate} className='space-y-4'>
+					<div className='space-y-2'>
+						<Label htmlFor='issuerSubject'>Holder DID</Label>
+						<Input id='issuerSubject' list='issuerSubjects' value={subject} onChange={(e) => setSubject(e.target.value)} placeholder='did:...' required />
+						<datalist id='issuerSubjects'>
+							{storedKeys.map((key) => (
+								<option key={key.didId} value={key.didId}>
+									{key.label}
+								</option>
+							))}
+						</datalist>
+					</div>
+					<div className='space-y-2'>
+						<Label htmlFor='issuerAge'>Attested age</Label>
+						<Input id='issuerAge' type='number' min={0} value={age} onChange={(e) => setAge(e.target.value)} required />
+					</div>
+					<label className='flex items-center gap-2 text-sm'>
+						<input type='checkbox' checked={requireTxCode} onChange={(e) => setRequireTxCode(e.target.checked)} />
+						Require a transaction code
+					</label>
+					<Button type='submit' className='w-full' disabled={loading || !subject.trim()}>
+						{loading ? 'Issuing Credential...' : 'Create Offer'}
+					</Button>
+				</form>
+
+				{offer && (
+					<div className='space-y-3'>
+						<div className='flex items-center gap-2 text-sm'>
+							<span>Offer {offer.id}</span>
+							{status && <Badge variant={status === 'issued' ? 'success' : status === 'expired' ? 'destructive' : 'secondary'}>{status}</Badge>}
+						</div>
+
+						{(status === 'offered' || status === 'token_issued') && (
+							<>
+								<div className='flex justify-center'>
+									<QRCodeSVG value={walletLink} size={200} level='M' includeMargin={true} />
+								</div>
+								{offer.tx_code && (
+									<p className='text-center text-sm'>
+										Transaction code: <code className='text-lg font-semibold'>{offer.tx_code}</code>
+									</p>
+								)}
+								<a href={walletLink} className='block'>
+									<Button type='button' variant='outline' className='w-full'>
+										Open in Wallet
+									</Button>
+								</a>
+								<div className='space-y-1'>
+									<Label>Offer by reference</Label>
+									<pre className='p-2 bg-muted rounded-md text-xs break-all whitespace-pre-wrap'>{offer.byReference}</pre>
+								</div>
+								<div className='space-y-1'>
+									<Label>Offer by value</Label>
+									<pre className='p-2 bg-muted rounded-md text-xs break-all whitespace-pre-wrap max-h-32 overflow-y-auto'>{offer.byValue}</pre>
+								</div>
+							</>
+						)}
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
+
+export default function MockIssuerPage() {
+	// Its routes only exist during development
+	if (process.env.NODE_ENV === 'production') {
+		notFound()
+	}
+
+	return (
+		<div className='min-h-screen flex items-center justify-center bg-background p-4'>
+			<MockIssuer />
+		</div>
+	)
+}
@@ -0,0 +1,16 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { redeemPreAuthorizedCode } from '@/lib/mock-issuer'
+
+// Token endpoint for the pre-authorized code grant
+export async function POST(request: NextRequest) {
+	if (process.env.NODE_ENV === 'production') {
+		return NextResponse.json({ error: 'invalid_request', error_description: 'Not found' }, { status: 404 })
+	}
+
+	const result = redeemPreAuthorizedCode(new URLSearchParams(await request.text()))
+	return NextResponse.json(result, {
+		status: 'error' in result ? 400 : 200,
+		headers: { 'Cache-Control': 'no-store' },
+	})
+}
@@ -0,0 +1,211 @@
+'use client'
+
+import {Suspense, useCallback, useEffect, useState} from 'react'
+import {notFound, useSearchParams} from 'next/navigation'
+import {QRCodeSVG} from 'qrcode.react'
+import {buildWalletRequestLink} from '@/lib/openid4vp'
+import {verifyPresentation, type PresentationVerification} from '@/lib/presentations'
+import {Card, CardContent, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
+import {Alert, AlertDescription, AlertTitle} from '@/components/ui/alert'
+import {Badge} from '@/components/ui/badge'
+import {Button} from '@/components/ui/button'
+import {Label} from '@/components/ui/label'
+import {AlertCircle, CheckCircle2, ScanLine, XCircle} from 'lucide-react'
+
+interface SessionStatus {
+	id: string
+	status: 'pending' | 'received' | 'rejected' | 'declined' | 'expired'
+	nonce: string
+	client_id: string
+	expires_at: string
+	vp_token?: unknown
+	errors?: string[]
+}
+
+interface CreatedSession {
+	id: string
+	byReference: string
+	byValue: string
+}
+
+const POLL_INTERVAL_MS = 2000
+
+function MockVerifier() {
+	const searchParams = useSearchParams()
+	const [definitionInput, setDefinitionInput] = useState('')
+	const [created, setCreated] = useState<CreatedSession | null>(null)
+	const [sessionId, setSessionId] = useState(searchParams.get('session') || '')
+	const [status, setStatus] = useState<SessionStatus | null>(null)
+	const [verification, setVerification] = useState<PresentationVerification | null>(null)
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+
+	const fetchStatus = useCallback(async (id: string) => {
+		const response = await fetch(`/mock-verifier/sessions/${id}`)
+		const data = await response.json()
+		if (!response.ok) {
+			throw new Error(data.message || 'Failed to load session')
+		}
+		return data as SessionStatus
+	}, [])
+
+	// Poll until the wallet answers or the session expires
+	useEffect(() => {
+		if (!sessionId) return
+		let cancelled = false
+		let timer: ReturnType<typeof setTimeout>
+
+		const poll = async () => {
+			try {
+				const next = await fetchStatus(sessionId)
+				if (cancelled) return
+				setStatus(next)
+				if (next.status === 'pending') {
+					timer = setTimeout(poll, POLL_INTERVAL_MS)
+				} else if (next.vp_token) {
+					// The server cannot run the WASM module, so signatures and proofs are verified here
+					setVerification(await verifyPresentation(next.vp_token, {challenge: next.nonce, domain: next.client_id}))
+				}
+			} catch (err) {
+				if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load session')
+			}
+		}
+		poll()
+
+		return () => {
+			cancelled = true
+			clearTimeout(timer)
+		}
+	}, [sessionId, fetchStatus])
+
+	const handleStart = async (e: React.FormEvent) => {
+		e.preventDefault()
+		setError(null)
+		setStatus(null)
+		setVerification(null)
+		setLoading(true)
+
+		try {
+			const response = await fetch('/mock-verifier/sessions', {
+				method: 'POST',
+				headers: {'Content-Type': 'application/json'},
+				body: JSON.stringify(definitionInput.trim() ? {presentation_definition: JSON.parse(definitionInput)} : {}),
+			})
+			const data = await response.json()
+			if (!response.ok) {
+				throw new Error(data.message || 'Failed to start request')
+			}
+			setCreated(data)
+			setSessionId(data.id)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to start request')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	const walletLink = created ? buildWalletRequestLink(created.byReference) : ''
+	const accepted = status?.status === 'received' && verification?.verified
+	// A received presentation is only shown once the browser has verified it
+	const finished = status?.status === 'rejected' || status?.status === 'declined' || (status?.status === 'received' && !!verification)
+
+	return (
+		<Card className='w-full max-w-2xl'>
+			<CardHeader>
+				<CardTitle className='flex items-center space-x-2'>
+					<ScanLine className='w-5 h-5' />
+					<span>Mock OpenID4VP Verifier</span>
+				</CardTitle>
+				<CardDescription>Development-only relying party: request a presentation and open it in this app&apos;s wallet</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-4'>
+				{error && (
+					<Alert variant='destructive'>
+						<AlertCircle className='h-4 w-4' />
+						<AlertDescription>{error}</AlertDescription>
+					</Alert>
+				)}
+
+				<form onSubmit={handleStart} className='space-y-4'>
+					<div className='space-y-2'>
+						<Label htmlFor='mockDefinition'>Presentation definition (optional)</Label>
+						<textarea
+							id='mockDefinition'
+							value={definitionInput}
+							onChange={(e) => setDefinitionInput(e.target.value)}
+							rows={4}
+							className='flex w-full rounded-md border border-input bg-background px-3 py-2 text-xs font-mono'
+							placeholder='Leave empty to ask for a zero-knowledge proof of age 18+'
+						/>
+					</div>
+					<Button type='submit' className='w-full' disabled={loading}>
+						{loading ? 'Starting...' : 'Start Request'}
+					</Button>
+				</form>
+
+				{created && status?.status === 'pending' && (
+					<div className='space-y-3'>
+						<div className='flex justify-center'>
+							<QRCodeSVG value={walletLink} size={200} level='M' includeMargin={true} />
+						</div>
+						<a href={walletLink} className='block'>
+							<Button type='button' variant='outline' className='w-full'>
+								Open in Wallet
+							</Button>
+						</a>
+						<div className='space-y-1'>
+							<Label>Request by reference</Label>
+							<pre className='p-2 bg-muted rounded-md text-xs break-all whitespace-pre-wrap'>{created.byReference}</pre>
+						</div>
+						<div className='space-y-1'>
+							<Label>Request by value</Label>
+							<pre className='p-2 bg-muted rounded-md text-xs break-all whitespace-pre-wrap max-h-32 overflow-y-auto'>{created.byValue}</pre>
+						</div>
+					</div>
+				)}
+
+				{status && (
+					<div className='flex items-center gap-2 text-sm'>
+						<span>Session {status.id}</span>
+						<Badge variant={status.status === 'received' ? 'success' : status.status === 'pending' ? 'secondary' : 'destructive'}>{status.status}</Badge>
+						{status.status === 'pending' && <span className='text-muted-foreground'>waiting for the wallet...</span>}
+					</div>
+				)}
+
+				{status && finished && (
+					<Alert variant={accepted ? 'success' : 'destructive'}>
+						{accepted ? <CheckCircle2 className='h-4 w-4' /> : <XCircle className='h-4 w-4' />}
+						<AlertTitle>{accepted ? 'Presentation accepted' : status.status === 'declined' ? 'The holder declined' : 'Presentation rejected'}</AlertTitle>
+						<AlertDescription>
+							{verification?.holder && <p className='break-all mb-2'>Holder: {verification.holder}</p>}
+							<ul className='space-y-1'>
+								{status.errors?.map((problem) => <li key={problem}>✗ {problem}</li>)}
+								{verification?.checks.map((check, index) => (
+									<li key={index}>
+										{check.passed ? '✓' : '✗'} {check.name}
+										{check.detail && <span className='block text-xs break-all'>{check.detail}</span>}
+									</li>
+								))}
+							</ul>
+						</AlertDescription>
+					</Alert>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
+
+export default function MockVerifierPage() {
+	// Its routes only exist during development
+	if (process.env.NODE_ENV === 'production') {
+		notFound()
+	}
+
+	return (
+		<div className='min-h-screen flex items-center justify-center bg-background p-4'>
+			<Suspense fallback={<div className='min-h-screen flex items-center justify-center bg-background p-4'>Loading...</div>}>
+				<MockVerifier />
+			</Suspense>
+		</div>
+	)
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { buildRequestObject, getMockVerifierSession } from '@/lib/mock-verifier'
+
+// Request object for openid4vp:// URIs passed by reference (request_uri)
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+	const { id } = await params
+	const session = getMockVerifierSession(id)
+	if (process.env.NODE_ENV === 'production' || !session) {
+		return NextResponse.json({ message: 'Not found' }, { status: 404 })
+	}
+	if (session.status !== 'pending') {
+		return NextResponse.json({ message: `The request is ${session.status}` }, { status: 410 })
+	}
+
+	return new NextResponse(buildRequestObject(session), {
+		headers: { 'Content-Type': 'application/oauth-authz-req+jwt' },
+	})
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { getMockVerifierSession, receiveMockVerifierResponse } from '@/lib/mock-verifier'
+
+// direct_post response_uri: the wallet posts vp_token, presentation_submission and state as a form
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+	const { id } = await params
+	const session = getMockVerifierSession(id)
+	if (process.env.NODE_ENV === 'production' || !session) {
+		return NextResponse.json({ error: 'invalid_request', error_description: 'Not found' }, { status: 404 })
+	}
+
+	const form = new URLSearchParams(await request.text())
+	const result = receiveMockVerifierResponse(session, form)
+	if (!result.ok) {
+		return NextResponse.json({ error: 'invalid_request', error_description: result.error }, { status: 400 })
+	}
+	// Sends the user back to the mock verifier page showing this session
+	return NextResponse.json({ redirect_uri: `${request.nextUrl.origin}/mock-verifier?session=${session.id}` })
+}
@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { getMockVerifierSession } from '@/lib/mock-verifier'
+
+// Session status, including the received vp_token, polled by the mock verifier page
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+	const { id } = await params
+	const session = getMockVerifierSession(id)
+	if (process.env.NODE_ENV === 'production' || !session) {
+		return NextResponse.json({ message: 'Not found' }, { status: 404 })
+	}
+
+	return NextResponse.json({
+		id: session.id,
+		status: session.status,
+		nonce: session.nonce,
+		client_id: session.responseUri,
+		expires_at: session.expiresAt,
+		presentation_definition: session.definition,
+		vp_token: session.vpToken,
+		errors: session.errors,
+	})
+}
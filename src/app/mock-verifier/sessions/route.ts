@@ -0,0 +1,32 @@
+import { NextResponse } from 'next/server'
+import type { NextRequest } from 'next/server'
+import { buildAuthorizationURIs, createMockVerifierSession } from '@/lib/mock-verifier'
+import { PresentationDefinitionError, parsePresentationDefinition } from '@/lib/presentation-exchange'
+
+// Starts an OpenID4VP request during local development; the body may carry a presentation_definition
+export async function POST(request: NextRequest) {
+	if (process.env.NODE_ENV === 'production') {
+		return NextResponse.json({ message: 'Not found' }, { status: 404 })
+	}
+
+	const body = await request.json().catch(() => ({}))
+	let definition
+	try {
+		definition = body?.presentation_definition ? parsePresentationDefinition(body.presentation_definition) : undefined
+	} catch (error) {
+		const details = error instanceof PresentationDefinitionError ? error.errors.join('; ') : 'malformed definition'
+		return NextResponse.json({ message: `Invalid presentation_definition: ${details}` }, { status: 400 })
+	}
+
+	const origin = request.nextUrl.origin
+	const session = createMockVerifierSession(origin, definition)
+	return NextResponse.json({
+		id: session.id,
+		nonce: session.nonce,
+		client_id: session.responseUri,
+		expires_at: session.expiresAt,
+		presentation_definition: session.definition,
+		...buildAuthorizationURIs(session, origin),
+		status_uri: `${origin}/mock-verifier/sessions/${session.id}`,
+	})
+}
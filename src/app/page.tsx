@@ -2,7 +2,7 @@ import Link from 'next/link'
 import {Card, CardContent, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
 import {Button} from '@/components/ui/button'
 import {Badge} from '@/components/ui/badge'
-import {Shield, Key, User, Cpu, ArrowRight, CheckCircle} from 'lucide-react'
+import {Shield, Key, User, Cpu, ArrowRight, CheckCircle, FileCheck, ScanLine, BadgeCheck} from 'lucide-react'
 
 export default function HomePage() {
 	return (
@@ -207,6 +207,46 @@ export default function HomePage() {
 									Binary Encoding Demo
 								</Button>
 							</Link>
+							<Link href='/age-proof'>
+								<Button variant='outline' className='w-full justify-start'>
+									<CheckCircle className='w-4 h-4 mr-2' />
+									Age Proof Generator &amp; Verifier
+								</Button>
+							</Link>
+							<Link href='/presentations'>
+								<Button variant='outline' className='w-full justify-start'>
+									<FileCheck className='w-4 h-4 mr-2' />
+									Verifiable Presentations
+								</Button>
+							</Link>
+							<Link href='/wallet/openid4vp'>
+								<Button variant='outline' className='w-full justify-start'>
+									<ScanLine className='w-4 h-4 mr-2' />
+									OpenID4VP Wallet
+								</Button>
+							</Link>
+							<Link href='/wallet/openid4vci'>
+								<Button variant='outline' className='w-full justify-start'>
+									<BadgeCheck className='w-4 h-4 mr-2' />
+									OpenID4VCI Credential Offers
+								</Button>
+							</Link>
+							{process.env.NODE_ENV !== 'production' && (
+								<Link href='/mock-verifier'>
+									<Button variant='outline' className='w-full justify-start'>
+										<ScanLine className='w-4 h-4 mr-2' />
+										Mock OpenID4VP Verifier
+									</Button>
+								</Link>
+							)}
+							{process.env.NODE_ENV !== 'production' && (
+								<Link href='/mock-issuer'>
+									<Button variant='outline' className='w-full justify-start'>
+										<BadgeCheck className='w-4 h-4 mr-2' />
+										Mock OpenID4VCI Issuer
+									</Button>
+								</Link>
+							)}
 						</CardContent>
 					</Card>
 
@@ -0,0 +1,79 @@
+'use client'
+
+import {Suspense} from 'react'
+import {useSearchParams} from 'next/navigation'
+import PresentationBuilder from '@/components/PresentationBuilder'
+import PresentationVerifier from '@/components/PresentationVerifier'
+import PresentationRequestForm from '@/components/PresentationRequestForm'
+import {Card, CardContent, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
+import {Tabs, TabsContent, TabsList, TabsTrigger} from '@/components/ui/tabs'
+
+function Presentations() {
+	const searchParams = useSearchParams()
+	// A verifier can link here with ?challenge=...&domain=... to prefill its request
+	const challenge = searchParams.get('challenge') || undefined
+	const domain = searchParams.get('domain') || undefined
+
+	return (
+		<div className='min-h-screen bg-background p-8'>
+			<div className='max-w-3xl mx-auto'>
+				<div className='mb-8'>
+					<h1 className='text-3xl font-bold'>Verifiable Presentations</h1>
+					<p className='text-muted-foreground mt-2'>Combine credentials and zero-knowledge proofs into one signed presentation, or verify someone else&apos;s</p>
+				</div>
+
+				<Tabs defaultValue='create'>
+					<TabsList className='grid w-full grid-cols-3'>
+						<TabsTrigger value='create'>Create</TabsTrigger>
+						<TabsTrigger value='respond'>Answer Request</TabsTrigger>
+						<TabsTrigger value='verify'>Verify</TabsTrigger>
+					</TabsList>
+
+					<TabsContent value='create'>
+						<Card>
+							<CardHeader>
+								<CardTitle>Create Presentation</CardTitle>
+								<CardDescription>Pick credentials and proofs from your wallet; the presentation is signed with your DID key for the verifier&apos;s nonce and audience</CardDescription>
+							</CardHeader>
+							<CardContent>
+								<PresentationBuilder challenge={challenge} domain={domain} />
+							</CardContent>
+						</Card>
+					</TabsContent>
+
+					<TabsContent value='respond'>
+						<Card>
+							<CardHeader>
+								<CardTitle>Answer a Presentation Request</CardTitle>
+								<CardDescription>Paste a verifier&apos;s DIF Presentation Exchange definition and choose which credentials answer each requested input</CardDescription>
+							</CardHeader>
+							<CardContent>
+								<PresentationRequestForm challenge={challenge} domain={domain} />
+							</CardContent>
+						</Card>
+					</TabsContent>
+
+					<TabsContent value='verify'>
+						<Card>
+							<CardHeader>
+								<CardTitle>Verify Presentation</CardTitle>
+								<CardDescription>Checks the holder signature, every credential and every embedded proof</CardDescription>
+							</CardHeader>
+							<CardContent>
+								<PresentationVerifier />
+							</CardContent>
+						</Card>
+					</TabsContent>
+				</Tabs>
+			</div>
+		</div>
+	)
+}
+
+export default function PresentationsPage() {
+	return (
+		<Suspense fallback={<div className='min-h-screen flex items-center justify-center bg-background p-4'>Loading...</div>}>
+			<Presentations />
+		</Suspense>
+	)
+}
@@ -0,0 +1,158 @@
+'use client'
+
+import {useState} from 'react'
+import Link from 'next/link'
+import {keystore} from '@/lib/keystore'
+import {markDIDBackupVerified} from '@/lib/auth'
+import {recoverDIDKey} from '@/lib/mnemonic'
+import KeystoreUnlock from '@/components/KeystoreUnlock'
+import KeyShareRecovery from '@/components/KeyShareRecovery'
+import {Card, CardContent, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
+import {Tabs, TabsContent, TabsList, TabsTrigger} from '@/components/ui/tabs'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {AlertCircle, CheckCircle2, Key, RotateCcw} from 'lucide-react'
+
+export default function RecoverPage() {
+	const [didId, setDidId] = useState('')
+	const [phrase, setPhrase] = useState('')
+	const [recovered, setRecovered] = useState<{didId: string; privateKey: string} | null>(null)
+	const [saved, setSaved] = useState(false)
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+
+	const handleRecover = async (e: React.FormEvent) => {
+		e.preventDefault()
+		setError(null)
+		setLoading(true)
+
+		try {
+			const privateKey = await recoverDIDKey(didId.trim(), phrase)
+			setRecovered({didId: didId.trim(), privateKey})
+			setPhrase('')
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Recovery failed')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	const handleSave = async () => {
+		if (!recovered) return
+		setError(null)
+
+		try {
+			await keystore.storeKey(recovered.didId, recovered.privateKey, {label: 'Recovered'})
+			// Entering the whole phrase correctly proves the backup as well as the quiz does
+			markDIDBackupVerified(recovered.didId)
+			setSaved(true)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to save key to keystore')
+		}
+	}
+
+	return (
+		<div className='min-h-screen bg-background p-8'>
+			<div className='max-w-3xl mx-auto'>
+				<div className='mb-8'>
+					<h1 className='text-3xl font-bold'>Recover DID</h1>
+					<p className='text-muted-foreground mt-2'>Restore a DID private key from its recovery phrase or from guardian shares</p>
+				</div>
+
+				{error && (
+					<Alert variant='destructive' className='mb-6'>
+						<AlertCircle className='h-4 w-4' />
+						<AlertDescription>{error}</AlertDescription>
+					</Alert>
+				)}
+
+				{recovered ? (
+					<Card>
+						<CardHeader>
+							<CardTitle>Key Recovered</CardTitle>
+							<CardDescription>Store it in this browser to sign in with your DID again</CardDescription>
+						</CardHeader>
+						<CardContent className='space-y-4'>
+							<Alert variant='success'>
+								<CheckCircle2 className='h-4 w-4' />
+								<AlertDescription>The recovered key controls {recovered.didId}.</AlertDescription>
+							</Alert>
+							{saved ? (
+								<p className='text-sm text-muted-foreground'>
+									The key is stored encrypted in this browser.{' '}
+									<Link href='/login' className='text-primary hover:underline'>
+										Sign in with your DID
+									</Link>
+								</p>
+							) : (
+								<div className='space-y-2'>
+									<KeystoreUnlock />
+									<Button type='button' variant='outline' className='w-full' onClick={handleSave}>
+										<Key className='w-4 h-4 mr-2' />
+										Save private key to keystore
+									</Button>
+								</div>
+							)}
+						</CardContent>
+					</Card>
+				) : (
+					<Tabs defaultValue='phrase'>
+						<TabsList className='grid w-full grid-cols-2'>
+							<TabsTrigger value='phrase'>Recovery Phrase</TabsTrigger>
+							<TabsTrigger value='shares'>Guardian Shares</TabsTrigger>
+						</TabsList>
+
+						<TabsContent value='phrase'>
+							<Card>
+								<CardHeader>
+									<CardTitle>Recovery Phrase</CardTitle>
+									<CardDescription>The key is checked by signing a test challenge for the DID before it is accepted</CardDescription>
+								</CardHeader>
+								<CardContent>
+									<form onSubmit={handleRecover} className='space-y-4'>
+										<div className='space-y-2'>
+											<Label htmlFor='didId'>DID Identifier</Label>
+											<Input id='didId' value={didId} onChange={(e) => setDidId(e.target.value)} placeholder='did:example:123...' required />
+										</div>
+										<div className='space-y-2'>
+											<Label htmlFor='phrase'>Recovery Phrase</Label>
+											<textarea
+												id='phrase'
+												value={phrase}
+												onChange={(e) => setPhrase(e.target.value)}
+												placeholder='Enter the words separated by spaces'
+												rows={4}
+												className='flex w-full rounded-md border border-input bg-background px-3 py-2 text-sm font-mono'
+												autoComplete='off'
+												spellCheck={false}
+												required
+											/>
+										</div>
+										<Button type='submit' className='w-full' disabled={loading}>
+											<RotateCcw className='w-4 h-4 mr-2' />
+											{loading ? 'Recovering...' : 'Recover key'}
+										</Button>
+									</form>
+								</CardContent>
+							</Card>
+						</TabsContent>
+
+						<TabsContent value='shares'>
+							<Card>
+								<CardHeader>
+									<CardTitle>Guardian Shares</CardTitle>
+									<CardDescription>Collect enough shares from your guardians to rebuild the key</CardDescription>
+								</CardHeader>
+								<CardContent>
+									<KeyShareRecovery onRecovered={(recoveredDid, privateKey) => setRecovered({didId: recoveredDid, privateKey})} />
+								</CardContent>
+							</Card>
+						</TabsContent>
+					</Tabs>
+				)}
+			</div>
+		</div>
+	)
+}
@@ -0,0 +1,225 @@
+'use client'
+
+import {Suspense, useEffect, useState} from 'react'
+import Link from 'next/link'
+import {useRouter, useSearchParams} from 'next/navigation'
+import {keystore, type StoredKeyInfo} from '@/lib/keystore'
+import type {WalletCredential} from '@/lib/credential-wallet'
+import {CredentialValidationError, getCredentialType} from '@/lib/credentials'
+import {acceptCredentialOffer, buildWalletOfferLink, describeOfferedCredential, resolveCredentialOffer, type ResolvedCredentialOffer} from '@/lib/openid4vci'
+import KeystoreUnlock from '@/components/KeystoreUnlock'
+import {Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle} from '@/components/ui/card'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {Badge} from '@/components/ui/badge'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {AlertCircle, BadgeCheck, CheckCircle2} from 'lucide-react'
+
+function errorMessage(err: unknown, fallback: string): string {
+	if (err instanceof CredentialValidationError && err.errors.length > 0) return `${err.message}: ${err.errors.join('; ')}`
+	return err instanceof Error ? err.message : fallback
+}
+
+function CredentialOfferHandler() {
+	const router = useRouter()
+	const searchParams = useSearchParams()
+	const query = searchParams.toString()
+
+	const [offer, setOffer] = useState<ResolvedCredentialOffer | null>(null)
+	const [resolving, setResolving] = useState(false)
+	const [manualURI, setManualURI] = useState('')
+	const [storedKeys, setStoredKeys] = useState<StoredKeyInfo[]>([])
+	const [selectedDid, setSelectedDid] = useState('')
+	const [unlocked, setUnlocked] = useState(keystore.isUnlocked)
+	const [txCode, setTxCode] = useState('')
+	const [received, setReceived] = useState<WalletCredential[] | null>(null)
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+
+	useEffect(() => {
+		keystore
+			.listKeys()
+			.then((keys) => {
+				setStoredKeys(keys)
+				setSelectedDid((current) => current || keys[0]?.didId || '')
+			})
+			.catch((err) => setError(err instanceof Error ? err.message : 'Failed to load stored DIDs'))
+		return keystore.onLockStateChange(setUnlocked)
+	}, [])
+
+	// Offers by reference and the issuer metadata need fetches, so the query is resolved asynchronously
+	useEffect(() => {
+		setOffer(null)
+		setReceived(null)
+		if (!query) return
+		let cancelled = false
+		setResolving(true)
+		setError(null)
+		resolveCredentialOffer(query)
+			.then((resolved) => !cancelled && setOffer(resolved))
+			.catch((err) => !cancelled && setError(err instanceof Error ? err.message : 'Invalid credential offer'))
+			.finally(() => !cancelled && setResolving(false))
+		return () => {
+			cancelled = true
+		}
+	}, [query])
+
+	const handleOpenURI = (e: React.FormEvent) => {
+		e.preventDefault()
+		setError(null)
+		try {
+			router.push(buildWalletOfferLink(manualURI))
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Invalid offer URI')
+		}
+	}
+
+	const handleAccept = async () => {
+		if (!offer || !selectedDid) return
+		setError(null)
+		setLoading(true)
+		try {
+			setReceived(await acceptCredentialOffer(offer, selectedDid, {txCode: txCode.trim() || undefined}))
+		} catch (err) {
+			setError(errorMessage(err, 'Failed to accept credential offer'))
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	if (!offer) {
+		return (
+			<Card className='w-full max-w-md'>
+				<CardHeader>
+					<CardTitle className='flex items-center space-x-2'>
+						<BadgeCheck className='w-5 h-5' />
+						<span>Credential Offer</span>
+					</CardTitle>
+					<CardDescription>Scan an issuer&apos;s QR code with your camera, or paste its openid-credential-offer:// link below</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{error && (
+						<Alert variant='destructive' className='mb-4'>
+							<AlertCircle className='h-4 w-4' />
+							<AlertDescription>{error}</AlertDescription>
+						</Alert>
+					)}
+					{resolving ? (
+						<p className='text-sm text-muted-foreground'>Loading offer...</p>
+					) : (
+						<form onSubmit={handleOpenURI} className='space-y-4'>
+							<div className='space-y-2'>
+								<Label htmlFor='offerURI'>Offer link</Label>
+								<Input id='offerURI' value={manualURI} onChange={(e) => setManualURI(e.target.value)} placeholder='openid-credential-offer://?credential_offer_uri=...' required />
+							</div>
+							<Button type='submit' className='w-full'>
+								Open Offer
+							</Button>
+						</form>
+					)}
+				</CardContent>
+			</Card>
+		)
+	}
+
+	const issuer = offer.issuerName || new URL(offer.credentialIssuer).host
+
+	return (
+		<Card className='w-full max-w-md'>
+			<CardHeader>
+				<CardTitle>{issuer} offers credentials</CardTitle>
+				<CardDescription className='break-all'>Issued by {offer.credentialIssuer}</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-4'>
+				{error && (
+					<Alert variant='destructive'>
+						<AlertCircle className='h-4 w-4' />
+						<AlertDescription>{error}</AlertDescription>
+					</Alert>
+				)}
+
+				{received ? (
+					<Alert variant='success'>
+						<CheckCircle2 className='h-4 w-4' />
+						<AlertDescription>
+							Added {received.map((entry) => getCredentialType(entry.credential)).join(', ')} to your wallet.
+							<Link href='/dashboard/credentials' className='block underline mt-2'>
+								View credentials
+							</Link>
+						</AlertDescription>
+					</Alert>
+				) : (
+					<>
+						<div className='flex flex-wrap gap-2'>
+							{offer.credentials.map((offered) => (
+								<Badge key={offered.configurationId} variant='secondary'>
+									{describeOfferedCredential(offered)}
+								</Badge>
+							))}
+						</div>
+
+						{storedKeys.length === 0 ? (
+							<p className='text-sm text-muted-foreground'>No DIDs are stored in this browser&apos;s keystore.</p>
+						) : (
+							<div className='space-y-2'>
+								<Label>Issue to</Label>
+								<div className='flex flex-col space-y-1'>
+									{storedKeys.map((key) => (
+										<Button
+											key={key.didId}
+											type='button'
+											variant={selectedDid === key.didId ? 'default' : 'outline'}
+											size='sm'
+											className='justify-start truncate'
+											onClick={() => setSelectedDid(key.didId)}>
+											{key.label ? `${key.label} · ` : ''}
+											{key.didId}
+										</Button>
+									))}
+								</div>
+							</div>
+						)}
+
+						{offer.txCode && (
+							<div className='space-y-2'>
+								<Label htmlFor='txCode'>Transaction code</Label>
+								<Input
+									id='txCode'
+									value={txCode}
+									onChange={(e) => setTxCode(e.target.value)}
+									inputMode={offer.txCode.input_mode === 'text' ? 'text' : 'numeric'}
+									maxLength={offer.txCode.length}
+									required
+								/>
+								{offer.txCode.description && <p className='text-xs text-muted-foreground'>{offer.txCode.description}</p>}
+							</div>
+						)}
+
+						<KeystoreUnlock />
+					</>
+				)}
+			</CardContent>
+			{!received && (
+				<CardFooter className='flex gap-2'>
+					<Button className='flex-1' onClick={handleAccept} disabled={loading || !unlocked || !selectedDid || (!!offer.txCode && !txCode.trim())}>
+						{loading ? 'Receiving...' : 'Accept'}
+					</Button>
+					<Button variant='outline' onClick={() => router.push('/')} disabled={loading}>
+						Cancel
+					</Button>
+				</CardFooter>
+			)}
+		</Card>
+	)
+}
+
+export default function OpenID4VCIPage() {
+	return (
+		<div className='min-h-screen flex items-center justify-center bg-background p-4'>
+			<Suspense fallback={<div className='min-h-screen flex items-center justify-center bg-background p-4'>Loading...</div>}>
+				<CredentialOfferHandler />
+			</Suspense>
+		</div>
+	)
+}
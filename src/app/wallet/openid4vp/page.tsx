@@ -0,0 +1,229 @@
+'use client'
+
+import {Suspense, useEffect, useMemo, useState} from 'react'
+import {useRouter, useSearchParams} from 'next/navigation'
+import {credentialWallet, type WalletCredential} from '@/lib/credential-wallet'
+import {getCredentialStatus} from '@/lib/credentials'
+import {PresentationDefinitionError, checkSubmissionRequirements, type DescriptorSelection} from '@/lib/presentation-exchange'
+import {
+	buildWalletRequestLink,
+	declineAuthorizationRequest,
+	matchAuthorizationRequest,
+	resolveAuthorizationRequest,
+	respondToAuthorizationRequest,
+	type AuthorizationRequest,
+} from '@/lib/openid4vp'
+import DescriptorMatchList from '@/components/DescriptorMatchList'
+import KeystoreUnlock from '@/components/KeystoreUnlock'
+import {Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle} from '@/components/ui/card'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {AlertCircle, CheckCircle2, ScanLine} from 'lucide-react'
+
+function errorMessage(err: unknown, fallback: string): string {
+	if (err instanceof PresentationDefinitionError && err.errors.length > 0) return `${err.message}: ${err.errors.join('; ')}`
+	return err instanceof Error ? err.message : fallback
+}
+
+function OpenID4VPHandler() {
+	const router = useRouter()
+	const searchParams = useSearchParams()
+	const query = searchParams.toString()
+
+	const [request, setRequest] = useState<AuthorizationRequest | null>(null)
+	const [resolving, setResolving] = useState(false)
+	const [manualURI, setManualURI] = useState('')
+	const [entries, setEntries] = useState<WalletCredential[]>([])
+	const [selection, setSelection] = useState<DescriptorSelection>({})
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+	const [outcome, setOutcome] = useState<{shared: boolean; redirectUri?: string} | null>(null)
+
+	useEffect(() => {
+		credentialWallet
+			.list()
+			.then((list) => setEntries(list.filter((entry) => getCredentialStatus(entry.credential) === 'active')))
+			.catch((err) => setError(err instanceof Error ? err.message : 'Failed to load credentials'))
+	}, [])
+
+	// Requests by reference need a fetch, so the query is resolved asynchronously
+	useEffect(() => {
+		setRequest(null)
+		setOutcome(null)
+		if (!query) return
+		let cancelled = false
+		setResolving(true)
+		setError(null)
+		resolveAuthorizationRequest(query)
+			.then((resolved) => !cancelled && setRequest(resolved))
+			.catch((err) => !cancelled && setError(err instanceof Error ? err.message : 'Invalid presentation request'))
+			.finally(() => !cancelled && setResolving(false))
+		return () => {
+			cancelled = true
+		}
+	}, [query])
+
+	const matches = useMemo(() => (request ? matchAuthorizationRequest(request, entries) : []), [request, entries])
+	const problems = useMemo(
+		() => (request ? checkSubmissionRequirements(request.presentationDefinition, Object.keys(selection).filter((id) => selection[id])) : []),
+		[request, selection]
+	)
+
+	// Preselect the first candidate of every answerable descriptor
+	useEffect(() => {
+		setSelection(Object.fromEntries(matches.map((match) => [match.descriptor.id, match.candidates[0]?.id])))
+	}, [matches])
+
+	const handleOpenURI = (e: React.FormEvent) => {
+		e.preventDefault()
+		setError(null)
+		try {
+			router.push(buildWalletRequestLink(manualURI))
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Invalid request URI')
+		}
+	}
+
+	const handleShare = async () => {
+		if (!request) return
+		setError(null)
+		setLoading(true)
+		try {
+			const result = await respondToAuthorizationRequest(request, selection, entries)
+			setOutcome({shared: true, redirectUri: result.redirectUri})
+		} catch (err) {
+			setError(errorMessage(err, 'Failed to share credentials'))
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	const handleDecline = async () => {
+		if (!request) return
+		setError(null)
+		setLoading(true)
+		try {
+			await declineAuthorizationRequest(request)
+			setOutcome({shared: false})
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to decline request')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	if (!request) {
+		return (
+			<Card className='w-full max-w-md'>
+				<CardHeader>
+					<CardTitle className='flex items-center space-x-2'>
+						<ScanLine className='w-5 h-5' />
+						<span>Presentation Request</span>
+					</CardTitle>
+					<CardDescription>Scan a verifier&apos;s QR code with your camera, or paste its openid4vp:// link below</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{error && (
+						<Alert variant='destructive' className='mb-4'>
+							<AlertCircle className='h-4 w-4' />
+							<AlertDescription>{error}</AlertDescription>
+						</Alert>
+					)}
+					{resolving ? (
+						<p className='text-sm text-muted-foreground'>Loading request...</p>
+					) : (
+						<form onSubmit={handleOpenURI} className='space-y-4'>
+							<div className='space-y-2'>
+								<Label htmlFor='requestURI'>Request link</Label>
+								<Input id='requestURI' value={manualURI} onChange={(e) => setManualURI(e.target.value)} placeholder='openid4vp://?client_id=...&request_uri=...' required />
+							</div>
+							<Button type='submit' className='w-full'>
+								Open Request
+							</Button>
+						</form>
+					)}
+				</CardContent>
+			</Card>
+		)
+	}
+
+	const verifier = request.clientName || new URL(request.responseUri).host
+	const definition = request.presentationDefinition
+
+	return (
+		<Card className='w-full max-w-md'>
+			<CardHeader>
+				<CardTitle>{verifier} requests credentials</CardTitle>
+				<CardDescription className='break-all'>The presentation will be sent to {request.responseUri}</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-4'>
+				{error && (
+					<Alert variant='destructive'>
+						<AlertCircle className='h-4 w-4' />
+						<AlertDescription>{error}</AlertDescription>
+					</Alert>
+				)}
+
+				{outcome ? (
+					<Alert variant={outcome.shared ? 'success' : 'default'}>
+						<CheckCircle2 className='h-4 w-4' />
+						<AlertDescription>
+							{outcome.shared ? `Presentation sent to ${verifier}.` : 'Request declined.'}
+							{outcome.redirectUri && (
+								<a href={outcome.redirectUri} className='block underline mt-2'>
+									Continue to {verifier}
+								</a>
+							)}
+						</AlertDescription>
+					</Alert>
+				) : (
+					<>
+						<div>
+							<h4 className='font-medium'>{definition.name || definition.id}</h4>
+							{definition.purpose && <p className='text-sm text-muted-foreground'>{definition.purpose}</p>}
+						</div>
+
+						<DescriptorMatchList matches={matches} selection={selection} onSelect={(id, entryId) => setSelection((prev) => ({...prev, [id]: entryId}))} />
+
+						{problems.length > 0 && (
+							<Alert variant='destructive'>
+								<AlertCircle className='h-4 w-4' />
+								<AlertDescription>
+									<ul className='list-disc pl-4'>
+										{problems.map((problem) => (
+											<li key={problem}>{problem}</li>
+										))}
+									</ul>
+								</AlertDescription>
+							</Alert>
+						)}
+
+						<KeystoreUnlock />
+					</>
+				)}
+			</CardContent>
+			{!outcome && (
+				<CardFooter className='flex gap-2'>
+					<Button className='flex-1' onClick={handleShare} disabled={loading || problems.length > 0}>
+						{loading ? 'Generating Proofs...' : 'Share'}
+					</Button>
+					<Button variant='outline' onClick={handleDecline} disabled={loading}>
+						Decline
+					</Button>
+				</CardFooter>
+			)}
+		</Card>
+	)
+}
+
+export default function OpenID4VPPage() {
+	return (
+		<div className='min-h-screen flex items-center justify-center bg-background p-4'>
+			<Suspense fallback={<div className='min-h-screen flex items-center justify-center bg-background p-4'>Loading...</div>}>
+				<OpenID4VPHandler />
+			</Suspense>
+		</div>
+	)
+}
@@ -0,0 +1,204 @@
+'use client'
+
+import {Suspense, useEffect, useMemo, useState} from 'react'
+import {useRouter, useSearchParams} from 'next/navigation'
+import {keystore, StoredKeyInfo} from '@/lib/keystore'
+import {buildQRLoginURI, isQRLoginExpired, parseQRLoginURI, resolveQRLoginClaims, respondToQRLogin} from '@/lib/qr-login'
+import type {QRLoginRequest} from '@/lib/qr-login'
+import KeystoreUnlock from '@/components/KeystoreUnlock'
+import {Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle} from '@/components/ui/card'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {Badge} from '@/components/ui/badge'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {AlertCircle, CheckCircle2, QrCode} from 'lucide-react'
+
+function QRLoginHandler() {
+	const router = useRouter()
+	const searchParams = useSearchParams()
+	const query = searchParams.toString()
+
+	const parsed = useMemo<{request: QRLoginRequest | null; error: string | null}>(() => {
+		if (!query) return {request: null, error: null}
+		try {
+			return {request: parseQRLoginURI(query), error: null}
+		} catch (err) {
+			return {request: null, error: err instanceof Error ? err.message : 'Invalid login request'}
+		}
+	}, [query])
+	const request = parsed.request
+
+	const [manualURI, setManualURI] = useState('')
+	const [storedKeys, setStoredKeys] = useState<StoredKeyInfo[]>([])
+	const [selectedDid, setSelectedDid] = useState('')
+	const [unlocked, setUnlocked] = useState(keystore.isUnlocked)
+	const [missingClaims, setMissingClaims] = useState<string[]>([])
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+	const [done, setDone] = useState(false)
+
+	useEffect(() => {
+		keystore
+			.listKeys()
+			.then((keys) => {
+				setStoredKeys(keys)
+				setSelectedDid((current) => current || keys[0]?.didId || '')
+			})
+			.catch((err) => setError(err instanceof Error ? err.message : 'Failed to load stored DIDs'))
+		return keystore.onLockStateChange(setUnlocked)
+	}, [])
+
+	const handleOpenURI = (e: React.FormEvent) => {
+		e.preventDefault()
+		setError(null)
+		try {
+			router.push(buildQRLoginURI(parseQRLoginURI(manualURI)))
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Invalid login URI')
+		}
+	}
+
+	const handleApprove = async () => {
+		if (!request || !selectedDid) return
+		setError(null)
+		setLoading(true)
+
+		try {
+			const claims = await resolveQRLoginClaims(request, selectedDid)
+			setMissingClaims(claims.missing)
+			await respondToQRLogin(request, selectedDid, claims.provided)
+			setDone(true)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to approve login')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	if (!request) {
+		return (
+			<Card className='w-full max-w-md'>
+				<CardHeader>
+					<CardTitle className='flex items-center space-x-2'>
+						<QrCode className='w-5 h-5' />
+						<span>QR Login</span>
+					</CardTitle>
+					<CardDescription>Scan a login QR code with your camera, or paste its link below</CardDescription>
+				</CardHeader>
+				<CardContent>
+					{(parsed.error || error) && (
+						<Alert variant='destructive' className='mb-4'>
+							<AlertCircle className='h-4 w-4' />
+							<AlertDescription>{parsed.error || error}</AlertDescription>
+						</Alert>
+					)}
+					<form onSubmit={handleOpenURI} className='space-y-4'>
+						<div className='space-y-2'>
+							<Label htmlFor='loginURI'>Login link</Label>
+							<Input id='loginURI' value={manualURI} onChange={(e) => setManualURI(e.target.value)} placeholder='https://.../wallet/qr-login?v=1&...' required />
+						</div>
+						<Button type='submit' className='w-full'>
+							Open Request
+						</Button>
+					</form>
+				</CardContent>
+			</Card>
+		)
+	}
+
+	const expired = isQRLoginExpired(request)
+
+	return (
+		<Card className='w-full max-w-md'>
+			<CardHeader>
+				<CardTitle>Sign in to {request.domain}</CardTitle>
+				<CardDescription className='break-all'>The response will be sent to {new URL(request.callback).origin}</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-4'>
+				{error && (
+					<Alert variant='destructive'>
+						<AlertCircle className='h-4 w-4' />
+						<AlertDescription>{error}</AlertDescription>
+					</Alert>
+				)}
+
+				{done ? (
+					<Alert variant='success'>
+						<CheckCircle2 className='h-4 w-4' />
+						<AlertDescription>
+							Login approved. You can return to {request.domain}.
+							{missingClaims.length > 0 && ` Not shared: ${missingClaims.join(', ')}.`}
+						</AlertDescription>
+					</Alert>
+				) : expired ? (
+					<Alert variant='destructive'>
+						<AlertCircle className='h-4 w-4' />
+						<AlertDescription>This login request expired at {new Date(request.expiresAt).toLocaleTimeString()}. Generate a new QR code and scan again.</AlertDescription>
+					</Alert>
+				) : (
+					<>
+						<div className='text-sm text-muted-foreground'>Expires at {new Date(request.expiresAt).toLocaleTimeString()}</div>
+
+						{request.claims.length > 0 && (
+							<div className='space-y-2'>
+								<Label>Requested claims</Label>
+								<div className='flex flex-wrap gap-2'>
+									{request.claims.map((claim) => (
+										<Badge key={claim} variant='secondary'>
+											{claim}
+										</Badge>
+									))}
+								</div>
+							</div>
+						)}
+
+						{storedKeys.length === 0 ? (
+							<p className='text-sm text-muted-foreground'>No DIDs are stored in this browser&apos;s keystore.</p>
+						) : (
+							<div className='space-y-2'>
+								<Label>Sign in as</Label>
+								<div className='flex flex-col space-y-1'>
+									{storedKeys.map((key) => (
+										<Button
+											key={key.didId}
+											type='button'
+											variant={selectedDid === key.didId ? 'default' : 'outline'}
+											size='sm'
+											className='justify-start truncate'
+											onClick={() => setSelectedDid(key.didId)}>
+											{key.label ? `${key.label} · ` : ''}
+											{key.didId}
+										</Button>
+									))}
+								</div>
+							</div>
+						)}
+
+						<KeystoreUnlock />
+					</>
+				)}
+			</CardContent>
+			{!done && !expired && (
+				<CardFooter className='flex gap-2'>
+					<Button className='flex-1' onClick={handleApprove} disabled={loading || !unlocked || !selectedDid}>
+						{loading ? 'Signing...' : 'Approve'}
+					</Button>
+					<Button variant='outline' onClick={() => router.push('/')} disabled={loading}>
+						Cancel
+					</Button>
+				</CardFooter>
+			)}
+		</Card>
+	)
+}
+
+export default function QRLoginPage() {
+	return (
+		<div className='min-h-screen flex items-center justify-center bg-background p-4'>
+			<Suspense fallback={<div className='min-h-screen flex items-center justify-center bg-background p-4'>Loading...</div>}>
+				<QRLoginHandler />
+			</Suspense>
+		</div>
+	)
+}
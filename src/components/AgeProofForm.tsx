@@ -0,0 +1,170 @@
+'use client'
+
+import {useEffect, useState} from 'react'
+import {QRCodeSVG} from 'qrcode.react'
+import {credentialWallet, WalletCredential} from '@/lib/credential-wallet'
+import {AGE_CREDENTIAL_TYPE, getCredentialStatus} from '@/lib/credentials'
+import {AgeProofPackage, encodeAgeProofPackage, generateAgeProof} from '@/lib/age-proof'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {Progress} from '@/components/ui/progress'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {AlertCircle, CheckCircle2, Copy} from 'lucide-react'
+
+interface AgeProofFormProps {
+	// When omitted, the holder picks one of the active age credentials in the wallet
+	entry?: WalletCredential
+}
+
+const THRESHOLD_PRESETS = ['18', '21']
+
+export default function AgeProofForm({entry}: AgeProofFormProps) {
+	const [credentials, setCredentials] = useState<WalletCredential[]>(entry ? [entry] : [])
+	const [selectedId, setSelectedId] = useState(entry?.id || '')
+	const [preset, setPreset] = useState('18')
+	const [customThreshold, setCustomThreshold] = useState('')
+	const [proofPackage, setProofPackage] = useState<AgeProofPackage | null>(null)
+	const [progress, setProgress] = useState<{value: number; stage: string} | null>(null)
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+	const [copied, setCopied] = useState(false)
+
+	useEffect(() => {
+		if (entry) return
+
+		credentialWallet
+			.findByType(AGE_CREDENTIAL_TYPE)
+			.then((found) => {
+				const usable = found.filter((item) => item.secrets?.kind === 'age' && getCredentialStatus(item.credential) === 'active')
+				setCredentials(usable)
+				setSelectedId((current) => current || usable[0]?.id || '')
+			})
+			.catch((err) => setError(err instanceof Error ? err.message : 'Failed to load credentials'))
+	}, [entry])
+
+	const threshold = preset === 'custom' ? customThreshold : preset
+	const encoded = proofPackage ? encodeAgeProofPackage(proofPackage) : ''
+
+	const handleGenerate = async (e: React.FormEvent) => {
+		e.preventDefault()
+		setError(null)
+		setProofPackage(null)
+		setCopied(false)
+		setLoading(true)
+
+		try {
+			const selected = credentials.find((item) => item.id === selectedId)
+			if (!selected) {
+				throw new Error('Select an age credential first')
+			}
+
+			const ageThreshold = parseInt(threshold, 10)
+			if (Number.isNaN(ageThreshold)) {
+				throw new Error('Threshold must be a number')
+			}
+
+			setProofPackage(await generateAgeProof(selected, ageThreshold, (value, stage) => setProgress({value, stage})))
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to create age proof')
+		} finally {
+			setLoading(false)
+			setProgress(null)
+		}
+	}
+
+	const handleCopy = async () => {
+		await navigator.clipboard.writeText(encoded)
+		setCopied(true)
+	}
+
+	return (
+		<div className='space-y-4'>
+			{error && (
+				<Alert variant='destructive'>
+					<AlertCircle className='h-4 w-4' />
+					<AlertDescription>{error}</AlertDescription>
+				</Alert>
+			)}
+
+			<form onSubmit={handleGenerate} className='space-y-4'>
+				{!entry && (
+					<div className='space-y-2'>
+						<Label htmlFor='ageCredential'>Credential</Label>
+						{credentials.length === 0 ? (
+							<p className='text-sm text-muted-foreground'>No active age credentials with stored secrets in this wallet.</p>
+						) : (
+							<select
+								id='ageCredential'
+								value={selectedId}
+								onChange={(e) => setSelectedId(e.target.value)}
+								className='flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm'
+							>
+								{credentials.map((item) => (
+									<option key={item.id} value={item.id}>
+										{item.credential.credentialSubject.id} — added {new Date(item.addedAt).toLocaleDateString()}
+									</option>
+								))}
+							</select>
+						)}
+					</div>
+				)}
+
+				<div className='space-y-2'>
+					<Label>Minimum age</Label>
+					<div className='flex gap-2'>
+						{[...THRESHOLD_PRESETS, 'custom'].map((value) => (
+							<Button key={value} type='button' variant={preset === value ? 'default' : 'outline'} onClick={() => setPreset(value)}>
+								{value === 'custom' ? 'Custom' : `${value}+`}
+							</Button>
+						))}
+					</div>
+					{preset === 'custom' && (
+						<Input
+							id='ageThreshold'
+							type='number'
+							min={0}
+							placeholder='Enter a minimum age'
+							value={customThreshold}
+							onChange={(e) => setCustomThreshold(e.target.value)}
+							required
+						/>
+					)}
+				</div>
+
+				{progress && (
+					<div className='space-y-1'>
+						<Progress value={progress.value} />
+						<p className='text-xs text-muted-foreground'>{progress.stage}</p>
+					</div>
+				)}
+
+				<Button type='submit' className='w-full' disabled={loading || credentials.length === 0}>
+					{loading ? 'Generating Proof...' : 'Generate Age Proof'}
+				</Button>
+			</form>
+
+			{proofPackage && (
+				<div className='space-y-2'>
+					<Alert variant='success'>
+						<CheckCircle2 className='h-4 w-4' />
+						<AlertDescription>Age proof generated for threshold {proofPackage.threshold}+</AlertDescription>
+					</Alert>
+					<div className='flex justify-center p-4 bg-white rounded-md'>
+						<QRCodeSVG value={encoded} size={240} level='L' includeMargin={true} />
+					</div>
+					<div className='flex items-center justify-between'>
+						<Label>Proof package</Label>
+						<Button type='button' variant='outline' size='sm' onClick={handleCopy}>
+							<Copy className='w-4 h-4 mr-2' />
+							{copied ? 'Copied' : 'Copy'}
+						</Button>
+					</div>
+					<div className='p-3 bg-muted rounded-md'>
+						<code className='text-xs break-all'>{encoded}</code>
+					</div>
+				</div>
+			)}
+		</div>
+	)
+}
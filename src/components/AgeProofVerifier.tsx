@@ -0,0 +1,109 @@
+'use client'
+
+import {useState} from 'react'
+import {parseAgeProofPackage, verifyAgeProofPackage} from '@/lib/age-proof'
+import type {AgeProofVerification} from '@/lib/age-proof'
+import {decodeQRImage} from '@/lib/qr-image'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {Alert, AlertDescription, AlertTitle} from '@/components/ui/alert'
+import {AlertCircle, CheckCircle2, XCircle} from 'lucide-react'
+
+export default function AgeProofVerifier() {
+	const [input, setInput] = useState('')
+	const [minimumAge, setMinimumAge] = useState('')
+	const [result, setResult] = useState<AgeProofVerification | null>(null)
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+
+	const handleImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0]
+		e.target.value = ''
+		if (!file) return
+
+		setError(null)
+		setResult(null)
+		try {
+			setInput(await decodeQRImage(file))
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to read QR code')
+		}
+	}
+
+	const handleVerify = async (e: React.FormEvent) => {
+		e.preventDefault()
+		setError(null)
+		setResult(null)
+		setLoading(true)
+
+		try {
+			const proofPackage = parseAgeProofPackage(input)
+			const minimum = minimumAge ? parseInt(minimumAge, 10) : undefined
+			setResult(await verifyAgeProofPackage(proofPackage, Number.isNaN(minimum) ? undefined : minimum))
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to verify age proof')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	const required = minimumAge ? parseInt(minimumAge, 10) : NaN
+	const belowRequired = result !== null && !Number.isNaN(required) && result.threshold < required
+
+	return (
+		<div className='space-y-4'>
+			{error && (
+				<Alert variant='destructive'>
+					<AlertCircle className='h-4 w-4' />
+					<AlertDescription>{error}</AlertDescription>
+				</Alert>
+			)}
+
+			<form onSubmit={handleVerify} className='space-y-4'>
+				<div className='space-y-2'>
+					<Label htmlFor='ageProofInput'>Proof package</Label>
+					<textarea
+						id='ageProofInput'
+						value={input}
+						onChange={(e) => setInput(e.target.value)}
+						placeholder='Paste the age proof JSON'
+						rows={6}
+						className='flex w-full rounded-md border border-input bg-background px-3 py-2 text-xs font-mono'
+						required
+					/>
+				</div>
+				<div className='grid grid-cols-1 md:grid-cols-2 gap-4'>
+					<div className='space-y-2'>
+						<Label htmlFor='ageProofImage'>Or scan a QR image</Label>
+						<Input id='ageProofImage' type='file' accept='image/*' capture='environment' onChange={handleImage} />
+					</div>
+					<div className='space-y-2'>
+						<Label htmlFor='minimumAge'>Require at least (optional)</Label>
+						<Input id='minimumAge' type='number' min={0} placeholder='e.g. 21' value={minimumAge} onChange={(e) => setMinimumAge(e.target.value)} />
+					</div>
+				</div>
+				<Button type='submit' className='w-full' disabled={loading || !input.trim()}>
+					{loading ? 'Verifying...' : 'Verify Age Proof'}
+				</Button>
+			</form>
+
+			{result &&
+				(result.verified ? (
+					<Alert variant='success'>
+						<CheckCircle2 className='h-4 w-4' />
+						<AlertTitle>Verified: age {result.threshold} or older</AlertTitle>
+						<AlertDescription className='break-all'>Holder {result.didId}</AlertDescription>
+					</Alert>
+				) : (
+					<Alert variant='destructive'>
+						<XCircle className='h-4 w-4' />
+						<AlertTitle>Not verified for age {belowRequired ? required : result.threshold}+</AlertTitle>
+						<AlertDescription className='break-all'>
+							{belowRequired ? `The proof only covers age ${result.threshold}+` : `The proof for ${result.didId} is invalid`}
+						</AlertDescription>
+					</Alert>
+				))}
+		</div>
+	)
+}
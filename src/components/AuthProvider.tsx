@@ -0,0 +1,103 @@
+'use client'
+
+import {createContext, useCallback, useContext, useEffect, useMemo, useState} from 'react'
+import {useRouter} from 'next/navigation'
+import {getDIDSettings, getToken, getUserData, isAuthenticated, logout as logoutSession, onAuthChange, scheduleTokenRefresh, updateDIDSettings} from '@/lib/auth'
+import {startSessionSync} from '@/lib/session-sync'
+import type {AuthResponse, AuthStrategy, DIDSettings, UpdateDIDSettingsData, User} from '@/lib/auth'
+
+interface AuthContextValue {
+	user: User | null
+	didSettings: DIDSettings | null
+	isAuthenticated: boolean
+	// Current access token, undecoded and unverified; changes on login, refresh and logout
+	token: string | null
+	// True until the stored session has been read on the client
+	loading: boolean
+	login: <TCredentials>(strategy: AuthStrategy<TCredentials>, credentials: TCredentials) => Promise<AuthResponse>
+	logout: () => void
+	updateDIDSettings: (data: UpdateDIDSettingsData) => Promise<void>
+}
+
+const AuthContext = createContext<AuthContextValue | null>(null)
+
+export default function AuthProvider({children}: {children: React.ReactNode}) {
+	const router = useRouter()
+	const [user, setUser] = useState<User | null>(null)
+	const [didSettings, setDidSettings] = useState<DIDSettings | null>(null)
+	const [authenticated, setAuthenticated] = useState(false)
+	const [token, setToken] = useState<string | null>(null)
+	const [loading, setLoading] = useState(true)
+
+	useEffect(() => {
+		setUser(getUserData())
+		setDidSettings(getDIDSettings())
+		setAuthenticated(isAuthenticated())
+		setToken(getToken())
+		setLoading(false)
+		// Resume proactive refresh for a session restored from storage
+		scheduleTokenRefresh()
+
+		const stopSync = startSessionSync()
+		const unsubscribe = onAuthChange((event) => {
+			switch (event.type) {
+				case 'login':
+					setUser(event.user)
+					setAuthenticated(true)
+					setToken(getToken())
+					break
+				case 'logout':
+					setUser(null)
+					setDidSettings(null)
+					setAuthenticated(false)
+					setToken(null)
+					break
+				case 'user-updated':
+					setUser(event.user)
+					break
+				case 'did-updated':
+					setDidSettings(event.settings)
+					break
+				case 'token-refreshed':
+					setToken(getToken())
+					break
+			}
+		})
+
+		return () => {
+			unsubscribe()
+			stopSync()
+		}
+	}, [])
+
+	const login = useCallback(<TCredentials,>(strategy: AuthStrategy<TCredentials>, credentials: TCredentials) => strategy.login(credentials), [])
+
+	const logout = useCallback(() => {
+		logoutSession()
+		router.push('/login')
+	}, [router])
+
+	const value = useMemo<AuthContextValue>(
+		() => ({user, didSettings, isAuthenticated: authenticated, token, loading, login, logout, updateDIDSettings}),
+		[user, didSettings, authenticated, token, loading, login, logout]
+	)
+
+	return <AuthContext.Provider value={value}>{children}</AuthContext.Provider>
+}
+
+export function useAuth(): AuthContextValue {
+	const context = useContext(AuthContext)
+	if (!context) {
+		throw new Error('useAuth must be used within an AuthProvider')
+	}
+	return context
+}
+
+export function useUser(): User | null {
+	return useAuth().user
+}
+
+export function useDID() {
+	const {didSettings, updateDIDSettings} = useAuth()
+	return {didSettings, updateDIDSettings}
+}
@@ -0,0 +1,327 @@
+'use client'
+
+import {useCallback, useEffect, useMemo, useState} from 'react'
+import {didDocumentSchema, VERIFICATION_RELATIONSHIPS, getVerificationRelationships, type DIDDocument, type VerificationRelationship} from '@/lib/did-document'
+import {getCurrentDIDDocument} from '@/lib/did-document-history'
+import {
+	SERVICE_TYPES,
+	VERIFICATION_METHOD_TYPES,
+	buildService,
+	buildVerificationMethod,
+	removeService,
+	removeVerificationMethod,
+	updateDIDDocument,
+	upsertService,
+	upsertVerificationMethod,
+	type EditableVerificationMethodType,
+} from '@/lib/did-document-update'
+import KeystoreUnlock from '@/components/KeystoreUnlock'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {Badge} from '@/components/ui/badge'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {AlertCircle, CheckCircle2, KeyRound, Link2, Pencil, Plus, Send, Trash2} from 'lucide-react'
+
+interface DIDDocumentEditorProps {
+	didId: string
+	// Called after a new version has been registered
+	onUpdated?: (document: DIDDocument) => void
+}
+
+const selectClassName = 'flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm'
+
+// Fragment after '#', for editing an existing entry
+function fragmentOf(id: string): string {
+	return id.slice(id.indexOf('#') + 1)
+}
+
+export default function DIDDocumentEditor({didId, onUpdated}: DIDDocumentEditorProps) {
+	const [original, setOriginal] = useState<DIDDocument | null>(null)
+	const [document, setDocument] = useState<DIDDocument | null>(null)
+	const [keyId, setKeyId] = useState('')
+	const [error, setError] = useState<string | null>(null)
+	const [success, setSuccess] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+
+	const [serviceFragment, setServiceFragment] = useState('')
+	const [serviceType, setServiceType] = useState<string>(SERVICE_TYPES[0])
+	const [serviceEndpoint, setServiceEndpoint] = useState('')
+
+	const [methodFragment, setMethodFragment] = useState('')
+	const [methodType, setMethodType] = useState<EditableVerificationMethodType>('Multikey')
+	const [methodKey, setMethodKey] = useState('')
+	const [methodRelationships, setMethodRelationships] = useState<VerificationRelationship[]>(['assertionMethod'])
+
+	const [useOtherKey, setUseOtherKey] = useState(false)
+	const [privateKey, setPrivateKey] = useState('')
+
+	const load = useCallback(async () => {
+		const current = await getCurrentDIDDocument(didId)
+		setOriginal(current.document)
+		setDocument(current.document)
+		setKeyId(current.keyId)
+	}, [didId])
+
+	useEffect(() => {
+		load().catch((err) => setError(err instanceof Error ? err.message : 'Failed to load DID document'))
+	}, [load])
+
+	const validation = useMemo(() => (document ? didDocumentSchema.safeParse(document) : null), [document])
+	const changed = useMemo(() => JSON.stringify(document) !== JSON.stringify(original), [document, original])
+
+	// Apply an edit, reporting input errors instead of throwing
+	const edit = (change: (current: DIDDocument) => DIDDocument) => {
+		if (!document) return false
+		setError(null)
+		setSuccess(null)
+		try {
+			setDocument(change(document))
+			return true
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Invalid input')
+			return false
+		}
+	}
+
+	const handleAddService = (e: React.FormEvent) => {
+		e.preventDefault()
+		if (edit((current) => upsertService(current, buildService(didId, serviceFragment, serviceType, serviceEndpoint)))) {
+			setServiceFragment('')
+			setServiceEndpoint('')
+		}
+	}
+
+	const handleEditService = (id: string) => {
+		const service = document?.service?.find((entry) => entry.id === id)
+		if (!service) return
+		setServiceFragment(fragmentOf(service.id))
+		setServiceType(Array.isArray(service.type) ? service.type[0] : service.type)
+		setServiceEndpoint(typeof service.serviceEndpoint === 'string' ? service.serviceEndpoint : JSON.stringify(service.serviceEndpoint))
+	}
+
+	const handleAddMethod = (e: React.FormEvent) => {
+		e.preventDefault()
+		if (edit((current) => upsertVerificationMethod(current, buildVerificationMethod(didId, methodFragment, methodType, methodKey), methodRelationships))) {
+			setMethodFragment('')
+			setMethodKey('')
+		}
+	}
+
+	const toggleRelationship = (relationship: VerificationRelationship, checked: boolean) => {
+		setMethodRelationships((prev) => (checked ? [...prev, relationship] : prev.filter((entry) => entry !== relationship)))
+	}
+
+	const handleSubmit = async () => {
+		if (!document) return
+		if (!window.confirm('Publish this document? It replaces the document your DID currently resolves to.')) return
+
+		setError(null)
+		setSuccess(null)
+		setLoading(true)
+		try {
+			const version = await updateDIDDocument(didId, document, useOtherKey ? {privateKey: privateKey.trim()} : {})
+			setPrivateKey('')
+			setOriginal(version.document)
+			setDocument(version.document)
+			setSuccess(`Document version ${version.version} registered`)
+			onUpdated?.(version.document)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to update DID document')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	if (!document) {
+		return error ? (
+			<Alert variant='destructive'>
+				<AlertCircle className='h-4 w-4' />
+				<AlertDescription>{error}</AlertDescription>
+			</Alert>
+		) : (
+			<p className='text-sm text-muted-foreground'>Loading document...</p>
+		)
+	}
+
+	return (
+		<div className='space-y-6'>
+			{success && (
+				<Alert variant='success'>
+					<CheckCircle2 className='h-4 w-4' />
+					<AlertDescription>{success}</AlertDescription>
+				</Alert>
+			)}
+
+			{error && (
+				<Alert variant='destructive'>
+					<AlertCircle className='h-4 w-4' />
+					<AlertDescription>{error}</AlertDescription>
+				</Alert>
+			)}
+
+			<div className='space-y-3'>
+				<h4 className='flex items-center gap-2 font-medium'>
+					<Link2 className='w-4 h-4' />
+					Services
+				</h4>
+				{(document.service || []).length > 0 && (
+					<ul className='space-y-2'>
+						{(document.service || []).map((service) => (
+							<li key={service.id} className='flex items-start justify-between gap-2 rounded-lg border p-3 text-sm'>
+								<div className='space-y-1 min-w-0'>
+									<div className='flex flex-wrap items-center gap-2'>
+										<code className='break-all'>{service.id}</code>
+										<Badge variant='outline'>{Array.isArray(service.type) ? service.type.join(', ') : service.type}</Badge>
+									</div>
+									<p className='font-mono text-xs break-all text-muted-foreground'>
+										{typeof service.serviceEndpoint === 'string' ? service.serviceEndpoint : JSON.stringify(service.serviceEndpoint)}
+									</p>
+								</div>
+								<div className='flex gap-1'>
+									<Button type='button' variant='ghost' size='sm' onClick={() => handleEditService(service.id)} aria-label='Edit service'>
+										<Pencil className='w-4 h-4' />
+									</Button>
+									<Button type='button' variant='ghost' size='sm' onClick={() => edit((current) => removeService(current, service.id))} aria-label='Remove service'>
+										<Trash2 className='w-4 h-4' />
+									</Button>
+								</div>
+							</li>
+						))}
+					</ul>
+				)}
+				<form onSubmit={handleAddService} className='grid gap-2 sm:grid-cols-3'>
+					<div className='space-y-1'>
+						<Label htmlFor='service-fragment'>Id</Label>
+						<Input id='service-fragment' value={serviceFragment} onChange={(e) => setServiceFragment(e.target.value)} placeholder='messaging' required />
+					</div>
+					<div className='space-y-1'>
+						<Label htmlFor='service-type'>Type</Label>
+						<Input id='service-type' list='service-types' value={serviceType} onChange={(e) => setServiceType(e.target.value)} required />
+						<datalist id='service-types'>
+							{SERVICE_TYPES.map((type) => (
+								<option key={type} value={type} />
+							))}
+						</datalist>
+					</div>
+					<div className='space-y-1'>
+						<Label htmlFor='service-endpoint'>Endpoint</Label>
+						<Input id='service-endpoint' value={serviceEndpoint} onChange={(e) => setServiceEndpoint(e.target.value)} placeholder='https://example.com/didcomm' required />
+					</div>
+					<Button type='submit' variant='outline' size='sm' className='sm:col-span-3'>
+						<Plus className='w-4 h-4 mr-2' />
+						Save service
+					</Button>
+				</form>
+			</div>
+
+			<div className='space-y-3'>
+				<h4 className='flex items-center gap-2 font-medium'>
+					<KeyRound className='w-4 h-4' />
+					Verification methods
+				</h4>
+				<ul className='space-y-2'>
+					{(document.verificationMethod || []).map((method) => (
+						<li key={method.id} className='flex items-start justify-between gap-2 rounded-lg border p-3 text-sm'>
+							<div className='space-y-1 min-w-0'>
+								<div className='flex flex-wrap items-center gap-2'>
+									<code className='break-all'>{method.id}</code>
+									<Badge variant='outline'>{method.type}</Badge>
+									{method.id === keyId && <Badge>DID key</Badge>}
+								</div>
+								<div className='flex flex-wrap gap-1'>
+									{getVerificationRelationships(document, method.id).map((purpose) => (
+										<Badge key={purpose} variant='secondary'>
+											{purpose}
+										</Badge>
+									))}
+								</div>
+							</div>
+							{method.id !== keyId && (
+								<Button type='button' variant='ghost' size='sm' onClick={() => edit((current) => removeVerificationMethod(current, method.id))} aria-label='Remove verification method'>
+									<Trash2 className='w-4 h-4' />
+								</Button>
+							)}
+						</li>
+					))}
+				</ul>
+				<form onSubmit={handleAddMethod} className='space-y-2'>
+					<div className='grid gap-2 sm:grid-cols-2'>
+						<div className='space-y-1'>
+							<Label htmlFor='method-fragment'>Id</Label>
+							<Input id='method-fragment' value={methodFragment} onChange={(e) => setMethodFragment(e.target.value)} placeholder='signing-key' required />
+						</div>
+						<div className='space-y-1'>
+							<Label htmlFor='method-type'>Type</Label>
+							<select id='method-type' value={methodType} onChange={(e) => setMethodType(e.target.value as EditableVerificationMethodType)} className={selectClassName}>
+								{Object.keys(VERIFICATION_METHOD_TYPES).map((type) => (
+									<option key={type} value={type}>
+										{type}
+									</option>
+								))}
+							</select>
+						</div>
+					</div>
+					<div className='space-y-1'>
+						<Label htmlFor='method-key'>Public key ({VERIFICATION_METHOD_TYPES[methodType]})</Label>
+						<Input id='method-key' value={methodKey} onChange={(e) => setMethodKey(e.target.value)} required />
+					</div>
+					<div className='flex flex-wrap gap-4'>
+						{VERIFICATION_RELATIONSHIPS.map((relationship) => (
+							<label key={relationship} className='flex items-center gap-2 text-sm'>
+								<input type='checkbox' checked={methodRelationships.includes(relationship)} onChange={(e) => toggleRelationship(relationship, e.target.checked)} />
+								{relationship}
+							</label>
+						))}
+					</div>
+					<Button type='submit' variant='outline' size='sm' className='w-full'>
+						<Plus className='w-4 h-4 mr-2' />
+						Save verification method
+					</Button>
+				</form>
+			</div>
+
+			<div className='space-y-2'>
+				<h4 className='font-medium'>Preview</h4>
+				{validation && !validation.success && (
+					<Alert variant='destructive'>
+						<AlertCircle className='h-4 w-4' />
+						<AlertDescription>
+							<ul className='list-disc pl-4'>
+								{validation.error.issues.map((issue, index) => (
+									<li key={index}>
+										{issue.path.join('.') || 'document'}: {issue.message}
+									</li>
+								))}
+							</ul>
+						</AlertDescription>
+					</Alert>
+				)}
+				<pre className='p-3 bg-muted rounded-md text-xs overflow-x-auto max-h-96'>{JSON.stringify(document, null, 2)}</pre>
+			</div>
+
+			<div className='space-y-4'>
+				<KeystoreUnlock />
+				<label className='flex items-center gap-2 text-sm'>
+					<input type='checkbox' checked={useOtherKey} onChange={(e) => setUseOtherKey(e.target.checked)} />
+					Sign with a private key instead of the keystore
+				</label>
+				{useOtherKey && (
+					<div className='space-y-1'>
+						<Label htmlFor='document-private-key'>DID private key</Label>
+						<Input id='document-private-key' type='password' value={privateKey} onChange={(e) => setPrivateKey(e.target.value)} placeholder='Hex private key' />
+					</div>
+				)}
+				<div className='flex gap-2'>
+					<Button type='button' onClick={handleSubmit} disabled={loading || !changed || !validation?.success || (useOtherKey && !privateKey.trim())}>
+						<Send className='w-4 h-4 mr-2' />
+						{loading ? 'Publishing...' : 'Sign & publish'}
+					</Button>
+					<Button type='button' variant='outline' onClick={() => setDocument(original)} disabled={loading || !changed}>
+						Reset
+					</Button>
+				</div>
+			</div>
+		</div>
+	)
+}
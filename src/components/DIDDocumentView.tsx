@@ -0,0 +1,86 @@
+'use client'
+
+import {useState} from 'react'
+import {getServices, getVerificationRelationships, type DIDDocument, type VerificationMethod} from '@/lib/did-document'
+import {Badge} from '@/components/ui/badge'
+import {Button} from '@/components/ui/button'
+import {Code, KeyRound, Link2} from 'lucide-react'
+
+interface DIDDocumentViewProps {
+	document: DIDDocument
+}
+
+// Short description of where a verification method's key material lives
+function describeKey(method: VerificationMethod): string {
+	if (method.publicKeyMultibase) return `multibase ${method.publicKeyMultibase}`
+	if (method.publicKeyJwk) return `JWK ${method.publicKeyJwk.kty}${method.publicKeyJwk.crv ? `/${method.publicKeyJwk.crv}` : ''}`
+	if (method.publicKeyHex) return `hex ${method.publicKeyHex}`
+	if (method.publicKeyBase58) return `base58 ${method.publicKeyBase58}`
+	return 'no key material'
+}
+
+export default function DIDDocumentView({document}: DIDDocumentViewProps) {
+	const [showRaw, setShowRaw] = useState(false)
+	const services = getServices(document)
+
+	return (
+		<div className='space-y-4'>
+			<div className='space-y-2'>
+				<h4 className='flex items-center gap-2 font-medium'>
+					<KeyRound className='w-4 h-4' />
+					Verification methods
+				</h4>
+				{(document.verificationMethod || []).length === 0 ? (
+					<p className='text-sm text-muted-foreground'>The document lists no verification methods.</p>
+				) : (
+					<ul className='space-y-2'>
+						{(document.verificationMethod || []).map((method) => (
+							<li key={method.id} className='rounded-lg border p-3 text-sm space-y-1'>
+								<div className='flex flex-wrap items-center gap-2'>
+									<code className='break-all'>{method.id}</code>
+									<Badge variant='outline'>{method.type}</Badge>
+								</div>
+								<p className='font-mono text-xs break-all text-muted-foreground'>{describeKey(method)}</p>
+								<div className='flex flex-wrap gap-1'>
+									{getVerificationRelationships(document, method.id).map((purpose) => (
+										<Badge key={purpose} variant='secondary'>
+											{purpose}
+										</Badge>
+									))}
+								</div>
+							</li>
+						))}
+					</ul>
+				)}
+			</div>
+
+			{services.length > 0 && (
+				<div className='space-y-2'>
+					<h4 className='flex items-center gap-2 font-medium'>
+						<Link2 className='w-4 h-4' />
+						Services
+					</h4>
+					<ul className='space-y-2'>
+						{services.map((service) => (
+							<li key={service.id} className='rounded-lg border p-3 text-sm space-y-1'>
+								<div className='flex flex-wrap items-center gap-2'>
+									<code className='break-all'>{service.id}</code>
+									<Badge variant='outline'>{Array.isArray(service.type) ? service.type.join(', ') : service.type}</Badge>
+								</div>
+								<p className='font-mono text-xs break-all text-muted-foreground'>
+									{typeof service.serviceEndpoint === 'string' ? service.serviceEndpoint : JSON.stringify(service.serviceEndpoint)}
+								</p>
+							</li>
+						))}
+					</ul>
+				</div>
+			)}
+
+			<Button type='button' variant='outline' size='sm' onClick={() => setShowRaw((prev) => !prev)}>
+				<Code className='w-4 h-4 mr-2' />
+				{showRaw ? 'Hide JSON' : 'Show JSON'}
+			</Button>
+			{showRaw && <pre className='p-3 bg-muted rounded-md text-xs overflow-x-auto'>{JSON.stringify(document, null, 2)}</pre>}
+		</div>
+	)
+}
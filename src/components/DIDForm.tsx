@@ -1,7 +1,9 @@
 import {useState, useEffect} from 'react'
 import {createDID, authenticateDID, verifyDID, batchCreateDIDAndIssueCredential, batchAuthenticateAndVerifyDID, shouldUseBatching, DIDCrypto, authenticateDIDBinary, verifyDIDBinary} from '../app/api/did'
 import type {DID} from '../app/api/did'
+import type {DIDKeyType} from '../lib/did-methods'
 import {wasmLoader} from '../lib/wasm-loader'
+import DIDDocumentView from './DIDDocumentView'
 
 export default function DIDForm() {
 	const [formData, setFormData] = useState({
@@ -9,6 +11,9 @@ export default function DIDForm() {
 		dob: '2000-01-01',
 	})
 
+	// 'gnark' for the WASM module's own DIDs, otherwise `${method}:${keyType}`
+	const [didMethod, setDidMethod] = useState('gnark')
+
 	const [didInfo, setDidInfo] = useState<{
 		did: DID
 		privateKey: string
@@ -65,7 +70,14 @@ export default function DIDForm() {
 		try {
 			setError(null)
 
-			if (useBatching) {
+			if (didMethod !== 'gnark') {
+				// did:key and did:jwk are created locally; the WASM credential issuance only applies to gnark DIDs
+				const [method, keyType] = didMethod.split(':')
+				const response = await createDID(formData, method, keyType as DIDKeyType)
+				setDidInfo(response)
+				setAuthenticationState({challenge: 'xxxxxxxx', proof: '', signature: ''})
+				setVerificationResult(null)
+			} else if (useBatching) {
 				// Use batch operation to create DID and issue credential
 				const response = await batchCreateDIDAndIssueCredential({
 					name: formData.name,
@@ -170,11 +182,11 @@ export default function DIDForm() {
 			if (useBinaryEncoding) {
 				// Use binary encoding for verification
 				const signatureBytes = DIDCrypto.hexToUint8Array(authenticationState.signature)
-				const isValid = await verifyDIDBinary(didInfo.did.ID, signatureBytes, authenticationState.proof)
+				const isValid = await verifyDIDBinary(didInfo.did.ID, signatureBytes, authenticationState.proof, authenticationState.challenge)
 				setVerificationResult(isValid)
 			} else {
 				// Use string encoding for verification
-				const isValid = await verifyDID(didInfo.did.ID, authenticationState.signature, authenticationState.proof)
+				const isValid = await verifyDID(didInfo.did.ID, authenticationState.signature, authenticationState.proof, authenticationState.challenge)
 				setVerificationResult(isValid)
 			}
 		} catch (err) {
@@ -247,6 +259,19 @@ export default function DIDForm() {
 					<input type='date' id='dob' value={formData.dob} onChange={(e) => setFormData({...formData, dob: e.target.value})} className='mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500' required />
 				</div>
 
+				<div>
+					<label htmlFor='didMethod' className='block text-sm font-medium text-gray-700'>
+						DID Method
+					</label>
+					<select id='didMethod' value={didMethod} onChange={(e) => setDidMethod(e.target.value)} className='mt-1 block w-full rounded-md border-gray-300 shadow-sm focus:border-indigo-500 focus:ring-indigo-500'>
+						<option value='gnark'>gnark (WASM)</option>
+						<option value='key:Ed25519'>did:key (Ed25519)</option>
+						<option value='key:secp256k1'>did:key (secp256k1)</option>
+						<option value='jwk:Ed25519'>did:jwk (Ed25519)</option>
+						<option value='jwk:secp256k1'>did:jwk (secp256k1)</option>
+					</select>
+				</div>
+
 				<button type='submit' disabled={isLoading || wasmStatus.loading || !(wasmStatus.crypto && wasmStatus.did)} className='w-full py-2 px-4 border border-transparent rounded-md shadow-sm text-sm font-medium text-white bg-indigo-600 hover:bg-indigo-700 focus:outline-none focus:ring-2 focus:ring-offset-2 focus:ring-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed'>
 					{isLoading ? (
 						<div className='flex items-center justify-center'>
@@ -276,6 +301,7 @@ export default function DIDForm() {
 					<h3 className='text-lg font-medium text-gray-900'>DID Information</h3>
 					<p className='text-sm text-gray-500 break-all'>DID ID: {didInfo.did.ID}</p>
 					<p className='text-sm text-gray-500 break-all'>Private Key: {didInfo.privateKey}</p>
+					{didInfo.did.Document && <DIDDocumentView document={didInfo.did.Document} />}
 
 					<div className='space-y-2'>
 						<label htmlFor='challenge' className='block text-sm font-medium text-gray-700'>
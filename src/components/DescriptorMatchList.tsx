@@ -0,0 +1,53 @@
+'use client'
+
+import {getCredentialType} from '@/lib/credentials'
+import type {DescriptorMatch, DescriptorSelection, ProofRequest} from '@/lib/presentation-exchange'
+import {Badge} from '@/components/ui/badge'
+
+interface DescriptorMatchListProps {
+	matches: DescriptorMatch[]
+	selection: DescriptorSelection
+	onSelect: (descriptorId: string, entryId: string | undefined) => void
+}
+
+function describeProofRequest(request: ProofRequest): string {
+	return request.type === 'AgeProof' ? `Zero-knowledge proof of age ${request.threshold}+` : `Zero-knowledge proof of membership with balance ${request.balanceRangeMin}-${request.balanceRangeMax}`
+}
+
+// Input descriptors of a presentation request with a choice of wallet credential for each
+export default function DescriptorMatchList({matches, selection, onSelect}: DescriptorMatchListProps) {
+	return (
+		<ul className='space-y-2'>
+			{matches.map(({descriptor, proofRequest, candidates, reason}) => (
+				<li key={descriptor.id} className='rounded-lg border p-3 text-sm space-y-2'>
+					<div className='flex flex-wrap items-center gap-2'>
+						<span className='font-medium'>{descriptor.name || descriptor.id}</span>
+						{descriptor.group?.map((group) => (
+							<Badge key={group} variant='secondary'>
+								{group}
+							</Badge>
+						))}
+					</div>
+					{descriptor.purpose && <p className='text-muted-foreground'>{descriptor.purpose}</p>}
+					{proofRequest && <p className='text-xs'>{describeProofRequest(proofRequest)}</p>}
+					{candidates.length === 0 ? (
+						<p className='text-xs text-destructive'>{reason}</p>
+					) : (
+						<select
+							value={selection[descriptor.id] || ''}
+							onChange={(e) => onSelect(descriptor.id, e.target.value || undefined)}
+							className='flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm'
+						>
+							<option value=''>Do not answer</option>
+							{candidates.map((entry) => (
+								<option key={entry.id} value={entry.id}>
+									{getCredentialType(entry.credential)} — {entry.id}
+								</option>
+							))}
+						</select>
+					)}
+				</li>
+			))}
+		</ul>
+	)
+}
@@ -2,6 +2,14 @@
 
 import {useState, useEffect} from 'react'
 import {wasmAuth} from '@/lib/wasm-auth'
+import {keystore} from '@/lib/keystore'
+import {createMembershipCredential, serializeCredential, type VerifiableCredential} from '@/lib/credentials'
+import {credentialWallet} from '@/lib/credential-wallet'
+import {getDIDSettings} from '@/lib/auth'
+import type {DIDDocument} from '@/lib/did-document'
+import KeystoreUnlock from '@/components/KeystoreUnlock'
+import MnemonicBackup from '@/components/MnemonicBackup'
+import DIDDocumentView from '@/components/DIDDocumentView'
 import {Card, CardContent, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
 import {Button} from '@/components/ui/button'
 import {Input} from '@/components/ui/input'
@@ -12,10 +20,11 @@ import {Badge} from '@/components/ui/badge'
 import {AlertCircle, CheckCircle, Key, User, Shield, Cpu, Hash, Zap, RefreshCw} from 'lucide-react'
 
 interface DIDCreationResult {
-	did: any
+	did: {id: string; publicKey: string; document?: DIDDocument}
 	privateKey: string
-	credential: any
+	credential: VerifiableCredential
 	salt: string
+	age: number
 }
 
 interface MembershipProofResult {
@@ -37,6 +46,7 @@ export default function EnhancedDIDForm() {
 		dob: '',
 	})
 	const [didResult, setDidResult] = useState<DIDCreationResult | null>(null)
+	const [keySaved, setKeySaved] = useState(false)
 
 	// Membership Proof Form
 	const [membershipForm, setMembershipForm] = useState({
@@ -149,8 +159,12 @@ export default function EnhancedDIDForm() {
 
 			const result = await wasmAuth.createDIDClientSide(didForm.name, didForm.dob)
 			setDidResult(result)
+			setKeySaved(false)
 
-			setSuccess('DID created successfully with client-side cryptographic operations!')
+			// Keep the credential and its proof secrets in the wallet so it survives a reload
+			await credentialWallet.add(result.credential, {kind: 'age', age: result.age, salt: result.salt})
+
+			setSuccess('DID created successfully with client-side cryptographic operations! The age credential was added to your wallet.')
 		} catch (err) {
 			setError(err instanceof Error ? err.message : 'Failed to create DID')
 		} finally {
@@ -158,6 +172,22 @@ export default function EnhancedDIDForm() {
 		}
 	}
 
+	const handleSaveToKeystore = async () => {
+		if (!didResult) return
+		setError(null)
+
+		try {
+			await keystore.storeKey(didResult.did.id, didResult.privateKey, {
+				publicKey: didResult.did.publicKey,
+				label: didForm.name,
+			})
+			setKeySaved(true)
+			setSuccess('Private key encrypted and saved to the local keystore')
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to save key to keystore')
+		}
+	}
+
 	const handleCreateMembershipProof = async (e: React.FormEvent) => {
 		e.preventDefault()
 		setLoading(true)
@@ -187,7 +217,21 @@ export default function EnhancedDIDForm() {
 			const result = await wasmAuth.createMembershipProofClientSide(organizationId, balanceNum, minNum, maxNum)
 
 			setMembershipResult(result)
-			setSuccess('Membership and balance proof created successfully!')
+
+			// Store a membership credential when we know which DID holds it
+			const holderDid = didResult?.did.id || getDIDSettings()?.id
+			if (holderDid) {
+				const credential = createMembershipCredential({
+					issuer: holderDid,
+					subject: holderDid,
+					organizationIdHash: result.organizationIdHash,
+					commitment: result.commitment,
+				})
+				await credentialWallet.add(credential, {kind: 'membership', organizationId, balance: balanceNum, salt: result.salt})
+				setSuccess('Membership and balance proof created successfully! The membership credential was added to your wallet.')
+			} else {
+				setSuccess('Membership and balance proof created successfully!')
+			}
 		} catch (err) {
 			setError(err instanceof Error ? err.message : 'Failed to create membership proof')
 		} finally {
@@ -328,12 +372,40 @@ export default function EnhancedDIDForm() {
 												<code className='text-sm break-all'>{didResult.privateKey}</code>
 											</div>
 										</div>
+										{didResult.did.document && (
+											<div className='space-y-2'>
+												<Label>DID Document</Label>
+												<DIDDocumentView document={didResult.did.document} />
+											</div>
+										)}
+										<div className='space-y-2'>
+											<Label>Recovery Phrase</Label>
+											<MnemonicBackup didId={didResult.did.id} privateKey={didResult.privateKey} />
+										</div>
+										<div className='space-y-2'>
+											<Label>Age Credential (W3C VC)</Label>
+											<pre className='p-3 bg-muted rounded-md text-xs overflow-x-auto'>{serializeCredential(didResult.credential)}</pre>
+										</div>
 										<div className='space-y-2'>
 											<Label>Age Credential Salt</Label>
 											<div className='p-3 bg-muted rounded-md'>
 												<code className='text-sm break-all'>{didResult.salt}</code>
 											</div>
 										</div>
+										<div className='space-y-2'>
+											<Label>Keystore</Label>
+											{keySaved ? (
+												<p className='text-sm text-muted-foreground'>The private key is stored encrypted in this browser. You can sign in by DID without pasting it.</p>
+											) : (
+												<div className='space-y-2'>
+													<KeystoreUnlock />
+													<Button type='button' variant='outline' className='w-full' onClick={handleSaveToKeystore}>
+														<Key className='w-4 h-4 mr-2' />
+														Save private key to keystore
+													</Button>
+												</div>
+											)}
+										</div>
 									</div>
 								</div>
 							)}
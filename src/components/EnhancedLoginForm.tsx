@@ -1,12 +1,15 @@
 'use client'
 
-import {useState, useEffect} from 'react'
+import {useCallback, useState, useEffect} from 'react'
 import {useRouter, useSearchParams} from 'next/navigation'
 import Link from 'next/link'
-import {QRCodeSVG} from 'qrcode.react'
-import {wasmAuth} from '@/lib/wasm-auth'
-import {generateQRChallenge, pollQRAuthentication} from '@/app/api/did'
-import {generateRandomData} from '@/lib/qr-code-utils'
+import {enhancedCryptoStrategy, enhancedDIDStrategy, wasmAuth} from '@/lib/wasm-auth'
+import {didStrategy, TwoFactorRequiredError, TwoFactorChallenge} from '@/lib/auth'
+import {useAuth} from '@/components/AuthProvider'
+import {keystore, StoredKeyInfo} from '@/lib/keystore'
+import KeystoreUnlock from '@/components/KeystoreUnlock'
+import QRLoginPanel from '@/components/QRLoginPanel'
+import TwoFactorStep from '@/components/TwoFactorStep'
 import {Card, CardContent, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
 import {Tabs, TabsContent, TabsList, TabsTrigger} from '@/components/ui/tabs'
 import {Button} from '@/components/ui/button'
@@ -18,6 +21,7 @@ import {AlertCircle, Key, QrCode, User, Shield, Cpu} from 'lucide-react'
 export default function EnhancedLoginForm() {
 	const router = useRouter()
 	const searchParams = useSearchParams()
+	const {login} = useAuth()
 
 	type LoginMethodType = 'password' | 'did' | 'qr'
 	const [loginMethod, setLoginMethod] = useState<LoginMethodType>('password')
@@ -40,8 +44,8 @@ export default function EnhancedLoginForm() {
 		hashComputed: false,
 		didVerified: false,
 	})
-	const [qrData, setQRData] = useState<{challenge: string; qrCode: string} | null>(null)
-	const [qrCodeData, setQRCodeData] = useState<string>('')
+	const [storedKeys, setStoredKeys] = useState<StoredKeyInfo[]>([])
+	const [twoFactor, setTwoFactor] = useState<TwoFactorChallenge | null>(null)
 
 	useEffect(() => {
 		const errorMsg = searchParams.get('error')
@@ -50,53 +54,33 @@ export default function EnhancedLoginForm() {
 		}
 	}, [searchParams])
 
-	const setupQRAuthentication = async () => {
-		try {
-			setLoading(true)
-			// Generate random data for the QR code
-			const randomData = generateRandomData(64)
-			setQRCodeData(randomData)
-
-			// For demonstration purposes, we'll use the random data as both challenge and display data
-			setQRData({
-				challenge: randomData,
-				qrCode: randomData,
-			})
-
-			// In a real implementation, you would start polling here
-			// startPolling(randomData)
-		} catch (err) {
-			setError('Failed to generate QR code')
-		} finally {
-			setLoading(false)
-		}
-	}
-
-	const startPolling = async (challenge: string) => {
-		const pollInterval = setInterval(async () => {
+	useEffect(() => {
+		keystore
+			.listKeys()
+			.then(setStoredKeys)
+			.catch(() => setStoredKeys([]))
+	}, [])
+
+	const handleDIDLoginWithQR = useCallback(
+		async (didId: string, challenge: string) => {
+			// The holder's wallet signed the challenge and the backend verified it; exchange the approved nonce for a session
 			try {
-				const result = await pollQRAuthentication(challenge)
-				if (result.authenticated && result.didId) {
-					clearInterval(pollInterval)
-					// Use client-side DID authentication
-					await handleDIDLoginWithQR(result.didId, challenge)
-				}
+				await login(didStrategy, {didId, challenge, signature: '', proof: '', nonce: challenge})
+				router.push('/dashboard/profile')
 			} catch (err) {
-				clearInterval(pollInterval)
-				setError('QR authentication failed')
+				if (!(err instanceof TwoFactorRequiredError)) throw err
+				setTwoFactor(err.challenge)
 			}
-		}, 2000)
-
-		return () => clearInterval(pollInterval)
-	}
+		},
+		[login, router]
+	)
 
-	const handleDIDLoginWithQR = async (didId: string, challenge: string) => {
-		try {
-			// For QR login, we would need the private key from the mobile wallet
-			// This is a simplified version - in production, the mobile wallet would handle this
-			setError('QR login requires mobile wallet integration - use DID Key method instead')
-		} catch (err) {
-			setError('QR DID authentication failed')
+	// A second-factor challenge is not a failure: switch to the code step instead of showing an error
+	const handleLoginError = (err: unknown, fallback: string) => {
+		if (err instanceof TwoFactorRequiredError) {
+			setTwoFactor(err.challenge)
+		} else {
+			setError(err instanceof Error ? err.message : fallback)
 		}
 	}
 
@@ -137,11 +121,11 @@ export default function EnhancedLoginForm() {
 
 			// Step 2: Perform client-side crypto login
 			setCryptoStatus((prev) => ({...prev, hashComputed: true}))
-			await wasmAuth.loginWithClientSideCrypto(formData.username, formData.password)
+			await login(enhancedCryptoStrategy, formData)
 
 			router.push('/dashboard/profile')
 		} catch (err) {
-			setError(err instanceof Error ? err.message : 'Login failed')
+			handleLoginError(err, 'Login failed')
 		} finally {
 			setLoading(false)
 		}
@@ -154,8 +138,11 @@ export default function EnhancedLoginForm() {
 		resetCryptoStatus()
 
 		try {
-			if (!didFormData.didId || !didFormData.privateKey) {
-				throw new Error('DID ID and Private Key are required')
+			if (!didFormData.didId) {
+				throw new Error('DID ID is required')
+			}
+			if (!didFormData.privateKey && !storedKeys.some((key) => key.didId === didFormData.didId)) {
+				throw new Error('Private Key is required for DIDs not stored in the keystore')
 			}
 
 			// Step 1: Generate authentication keypair
@@ -166,11 +153,11 @@ export default function EnhancedLoginForm() {
 
 			// Step 3: Verify DID authentication
 			setCryptoStatus((prev) => ({...prev, didVerified: true}))
-			await wasmAuth.loginWithDIDClientSide(didFormData.didId, didFormData.privateKey)
+			await login(enhancedDIDStrategy, {didId: didFormData.didId, privateKey: didFormData.privateKey || undefined})
 
 			router.push('/dashboard/profile')
 		} catch (err) {
-			setError(err instanceof Error ? err.message : 'DID login failed')
+			handleLoginError(err, 'DID login failed')
 		} finally {
 			setLoading(false)
 		}
@@ -207,13 +194,6 @@ export default function EnhancedLoginForm() {
 		}
 	}
 
-	useEffect(() => {
-		if (loginMethod !== 'qr') {
-			setQRData(null)
-			setQRCodeData('')
-		}
-	}, [loginMethod])
-
 	const CryptoStatusIndicator = () => (
 		<div className='flex items-center space-x-2 text-xs text-muted-foreground'>
 			<Cpu className='w-3 h-3' />
@@ -244,116 +224,110 @@ export default function EnhancedLoginForm() {
 					</CardDescription>
 				</CardHeader>
 				<CardContent>
-					{error && (
-						<Alert variant='destructive' className='mb-6'>
-							<AlertCircle className='h-4 w-4' />
-							<AlertDescription>{error}</AlertDescription>
-						</Alert>
-					)}
-
-					<CryptoStatusIndicator />
-
-					<Tabs value={loginMethod} onValueChange={(v) => setLoginMethod(v as LoginMethodType)} className='mt-4'>
-						<TabsList className='grid w-full grid-cols-3'>
-							<TabsTrigger value='password'>
-								<User className='w-4 h-4 mr-2' />
-								Password
-							</TabsTrigger>
-							<TabsTrigger value='did'>
-								<Key className='w-4 h-4 mr-2' />
-								DID Key
-							</TabsTrigger>
-							<TabsTrigger value='qr'>
-								<QrCode className='w-4 h-4 mr-2' />
-								DID QR
-							</TabsTrigger>
-						</TabsList>
-
-						<TabsContent value='password'>
-							<form onSubmit={handlePasswordLogin} className='space-y-4 mt-4'>
-								<div className='space-y-2'>
-									<Label htmlFor='username'>Username</Label>
-									<Input id='username' name='username' type='text' required value={formData.username} onChange={handleChange} />
-								</div>
-								<div className='space-y-2'>
-									<Label htmlFor='password'>Password</Label>
-									<Input id='password' name='password' type='password' required value={formData.password} onChange={handleChange} />
-								</div>
-								<div className='flex space-x-2'>
-									<Button type='submit' className='flex-1' disabled={loading}>
-										{loading ? 'Signing in...' : 'Sign in with WASM'}
-									</Button>
-									<Button type='button' variant='outline' onClick={handleTestCrypto} disabled={loading}>
-										Test
-									</Button>
-								</div>
-							</form>
-						</TabsContent>
-
-						<TabsContent value='did'>
-							<form onSubmit={handleDIDLogin} className='space-y-4 mt-4'>
-								<div className='space-y-2'>
-									<Label htmlFor='didId'>DID Identifier</Label>
-									<Input id='didId' name='didId' value={didFormData.didId} onChange={handleDidChange} placeholder='did:example:123...' />
-								</div>
-								<div className='space-y-2'>
-									<Label htmlFor='privateKey'>Private Key</Label>
-									<Input id='privateKey' name='privateKey' value={didFormData.privateKey} onChange={handleDidChange} type='password' />
-								</div>
-								<div className='flex space-x-2'>
-									<Button type='submit' className='flex-1' disabled={loading}>
-										{loading ? 'Authenticating...' : 'Authenticate with DID'}
-									</Button>
-									<Button type='button' variant='outline' onClick={handleTestCrypto} disabled={loading}>
-										Test
-									</Button>
-								</div>
-							</form>
-						</TabsContent>
-
-						<TabsContent value='qr'>
-							<div className='mt-4 flex flex-col items-center space-y-4'>
-								<div className='w-48 h-48 bg-muted rounded-lg flex items-center justify-center p-4'>
-									{loading ? (
-										<div className='animate-pulse bg-muted w-full h-full rounded-lg' />
-									) : qrCodeData ? (
-										<QRCodeSVG value={qrCodeData} size={180} level='M' includeMargin={true} />
-									) : (
-										<Button variant='outline' onClick={setupQRAuthentication}>
-											<QrCode className='w-6 h-6 mr-2' />
-											Generate QR Code
-										</Button>
-									)}
-								</div>
-
-								<div className='text-center space-y-2'>
-									<div className='flex items-center justify-center space-x-2'>
-										<div className='w-2 h-2 rounded-full bg-primary animate-pulse' />
-										<span className='text-sm text-muted-foreground'>{qrCodeData ? 'Scan with mobile wallet...' : 'Click to generate QR code'}</span>
-									</div>
-
-									{qrCodeData && (
+					{twoFactor ? (
+						<TwoFactorStep challenge={twoFactor} onComplete={() => router.push('/dashboard/profile')} onCancel={() => setTwoFactor(null)} />
+					) : (
+						<>
+							{error && (
+								<Alert variant='destructive' className='mb-6'>
+									<AlertCircle className='h-4 w-4' />
+									<AlertDescription>{error}</AlertDescription>
+								</Alert>
+							)}
+
+							<CryptoStatusIndicator />
+
+							<Tabs value={loginMethod} onValueChange={(v) => setLoginMethod(v as LoginMethodType)} className='mt-4'>
+								<TabsList className='grid w-full grid-cols-3'>
+									<TabsTrigger value='password'>
+										<User className='w-4 h-4 mr-2' />
+										Password
+									</TabsTrigger>
+									<TabsTrigger value='did'>
+										<Key className='w-4 h-4 mr-2' />
+										DID Key
+									</TabsTrigger>
+									<TabsTrigger value='qr'>
+										<QrCode className='w-4 h-4 mr-2' />
+										DID QR
+									</TabsTrigger>
+								</TabsList>
+
+								<TabsContent value='password'>
+									<form onSubmit={handlePasswordLogin} className='space-y-4 mt-4'>
 										<div className='space-y-2'>
-											<div className='text-xs text-muted-foreground max-w-xs break-all'>Data: {qrCodeData.substring(0, 32)}...</div>
-											<Button
-												variant='ghost'
-												size='sm'
-												onClick={() => {
-													setQRData(null)
-													setQRCodeData('')
-													setupQRAuthentication()
-												}}>
-												Generate new QR code
+											<Label htmlFor='username'>Username</Label>
+											<Input id='username' name='username' type='text' required value={formData.username} onChange={handleChange} />
+										</div>
+										<div className='space-y-2'>
+											<Label htmlFor='password'>Password</Label>
+											<Input id='password' name='password' type='password' required value={formData.password} onChange={handleChange} />
+										</div>
+										<div className='flex space-x-2'>
+											<Button type='submit' className='flex-1' disabled={loading}>
+												{loading ? 'Signing in...' : 'Sign in with WASM'}
 											</Button>
-											<Button variant='outline' size='sm' onClick={handleTestCrypto} disabled={loading}>
-												Test Crypto
+											<Button type='button' variant='outline' onClick={handleTestCrypto} disabled={loading}>
+												Test
 											</Button>
 										</div>
-									)}
-								</div>
-							</div>
-						</TabsContent>
-					</Tabs>
+									</form>
+								</TabsContent>
+
+								<TabsContent value='did'>
+									<div className='space-y-4 mt-4'>
+										{storedKeys.length > 0 && (
+											<div className='space-y-2'>
+												<Label>Stored DIDs</Label>
+												<div className='flex flex-col space-y-1'>
+													{storedKeys.map((key) => (
+														<Button
+															key={key.didId}
+															type='button'
+															variant={didFormData.didId === key.didId ? 'default' : 'outline'}
+															size='sm'
+															className='justify-start truncate'
+															onClick={() => setDidFormData({didId: key.didId, privateKey: ''})}>
+															{key.label ? `${key.label} · ` : ''}
+															{key.didId}
+														</Button>
+													))}
+												</div>
+												{/* Kept outside the DID form: KeystoreUnlock renders its own form */}
+												<KeystoreUnlock />
+											</div>
+										)}
+										<form onSubmit={handleDIDLogin} className='space-y-4'>
+											<div className='space-y-2'>
+												<Label htmlFor='didId'>DID Identifier</Label>
+												<Input id='didId' name='didId' value={didFormData.didId} onChange={handleDidChange} placeholder='did:example:123...' />
+											</div>
+											<div className='space-y-2'>
+												<Label htmlFor='privateKey'>Private Key</Label>
+												<Input id='privateKey' name='privateKey' value={didFormData.privateKey} onChange={handleDidChange} type='password' placeholder={storedKeys.length > 0 ? 'Leave empty to use the keystore' : undefined} />
+											</div>
+											<div className='flex space-x-2'>
+												<Button type='submit' className='flex-1' disabled={loading}>
+													{loading ? 'Authenticating...' : 'Authenticate with DID'}
+												</Button>
+												<Button type='button' variant='outline' onClick={handleTestCrypto} disabled={loading}>
+													Test
+												</Button>
+											</div>
+										</form>
+									</div>
+								</TabsContent>
+
+								<TabsContent value='qr'>
+									<QRLoginPanel onApproved={handleDIDLoginWithQR} onError={setError}>
+										<Button variant='outline' size='sm' onClick={handleTestCrypto} disabled={loading}>
+											Test Crypto
+										</Button>
+									</QRLoginPanel>
+								</TabsContent>
+							</Tabs>
+						</>
+					)}
 				</CardContent>
 			</Card>
 		</div>
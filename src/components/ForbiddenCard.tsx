@@ -0,0 +1,51 @@
+'use client'
+
+import Link from 'next/link'
+import type {PolicyRequirement} from '@/lib/route-policy'
+import {Card, CardContent, CardHeader, CardTitle} from '@/components/ui/card'
+import {Button} from '@/components/ui/button'
+import {Home} from 'lucide-react'
+
+const requirementMessages: Record<PolicyRequirement, {text: string; href?: string; action?: string}> = {
+	role: {text: 'Your account does not have a role that can open this page.'},
+	did: {text: 'This page requires a session signed in with your DID.', href: '/login', action: 'Sign in with DID'},
+	'2fa': {text: 'This page requires two-factor authentication.', href: '/dashboard/profile', action: 'Set up two-factor authentication'},
+}
+
+interface ForbiddenCardProps {
+	missing: PolicyRequirement[]
+}
+
+export default function ForbiddenCard({missing}: ForbiddenCardProps) {
+	return (
+		<div className='min-h-screen flex items-center justify-center bg-background p-4'>
+			<Card className='w-full max-w-md'>
+				<CardHeader className='space-y-1'>
+					<CardTitle className='text-3xl font-bold text-center'>403</CardTitle>
+				</CardHeader>
+				<CardContent className='space-y-4 text-center'>
+					<p className='text-muted-foreground'>You don&apos;t have access to this page.</p>
+					{missing.map((requirement) => {
+						const message = requirementMessages[requirement]
+						return (
+							<div key={requirement} className='text-sm space-y-1'>
+								<p>{message.text}</p>
+								{message.href && (
+									<Link href={message.href} className='text-primary hover:underline'>
+										{message.action}
+									</Link>
+								)}
+							</div>
+						)
+					})}
+					<Button asChild>
+						<Link href='/'>
+							<Home className='mr-2 h-4 w-4' />
+							Back to Home
+						</Link>
+					</Button>
+				</CardContent>
+			</Card>
+		</div>
+	)
+}
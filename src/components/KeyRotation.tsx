@@ -0,0 +1,158 @@
+'use client'
+
+import {useCallback, useEffect, useState} from 'react'
+import {discardRotation, getPendingRotation, resumeRotation, rotateDIDKey} from '@/lib/key-rotation'
+import {listDIDDocumentVersions, type DIDDocumentVersion} from '@/lib/did-document-history'
+import KeystoreUnlock from '@/components/KeystoreUnlock'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {Badge} from '@/components/ui/badge'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {AlertCircle, CheckCircle2, RefreshCw} from 'lucide-react'
+
+interface KeyRotationProps {
+	didId: string
+}
+
+export default function KeyRotation({didId}: KeyRotationProps) {
+	const [versions, setVersions] = useState<DIDDocumentVersion[]>([])
+	const [pending, setPending] = useState<DIDDocumentVersion | null>(null)
+	const [useRecoveryKey, setUseRecoveryKey] = useState(false)
+	const [recoveryKey, setRecoveryKey] = useState('')
+	const [recoveryMethod, setRecoveryMethod] = useState(`${didId}#recovery`)
+	const [error, setError] = useState<string | null>(null)
+	const [success, setSuccess] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+
+	const refresh = useCallback(async () => {
+		setVersions(await listDIDDocumentVersions(didId))
+		setPending(await getPendingRotation(didId))
+	}, [didId])
+
+	useEffect(() => {
+		refresh().catch((err) => setError(err instanceof Error ? err.message : 'Failed to load document history'))
+	}, [refresh])
+
+	const run = async (action: () => Promise<string>, fallback: string) => {
+		setError(null)
+		setSuccess(null)
+		setLoading(true)
+		try {
+			setSuccess(await action())
+		} catch (err) {
+			setError(err instanceof Error ? err.message : fallback)
+		} finally {
+			setLoading(false)
+			await refresh().catch(() => undefined)
+		}
+	}
+
+	const handleRotate = (e: React.FormEvent) => {
+		e.preventDefault()
+		if (!window.confirm('Replace the key of this DID? The current key stops working once the new document is registered.')) return
+
+		run(async () => {
+			const version = await rotateDIDKey(didId, useRecoveryKey ? {recoveryKey: {privateKey: recoveryKey.trim(), verificationMethod: recoveryMethod.trim()}} : {})
+			setRecoveryKey('')
+			return `Key rotated. Document version ${version.version} is now active.`
+		}, 'Failed to rotate DID key')
+	}
+
+	const handleResume = () =>
+		run(async () => {
+			const version = await resumeRotation(didId)
+			return `Rotation completed. Document version ${version.version} is now active.`
+		}, 'Failed to resume rotation')
+
+	const handleDiscard = () => {
+		if (!window.confirm('Discard the interrupted rotation? If the server already registered it, the new key is lost.')) return
+		run(async () => {
+			await discardRotation(didId)
+			return 'Interrupted rotation discarded'
+		}, 'Failed to discard rotation')
+	}
+
+	return (
+		<div className='space-y-4'>
+			{success && (
+				<Alert variant='success'>
+					<CheckCircle2 className='h-4 w-4' />
+					<AlertDescription>{success}</AlertDescription>
+				</Alert>
+			)}
+
+			{error && (
+				<Alert variant='destructive'>
+					<AlertCircle className='h-4 w-4' />
+					<AlertDescription>{error}</AlertDescription>
+				</Alert>
+			)}
+
+			<KeystoreUnlock />
+
+			{pending ? (
+				<div className='rounded-lg border p-4 space-y-3'>
+					<p className='text-sm'>
+						Rotation to version {pending.version} was started {new Date(pending.createdAt).toLocaleString()} but not confirmed by the server. The new key is held encrypted
+						in the keystore until it is.
+					</p>
+					<div className='flex gap-2'>
+						<Button type='button' size='sm' onClick={handleResume} disabled={loading}>
+							<RefreshCw className='w-4 h-4 mr-2' />
+							Resume
+						</Button>
+						<Button type='button' size='sm' variant='outline' onClick={handleDiscard} disabled={loading}>
+							Discard
+						</Button>
+					</div>
+				</div>
+			) : (
+				<form onSubmit={handleRotate} className='space-y-4'>
+					<label className='flex items-center gap-2 text-sm'>
+						<input type='checkbox' checked={useRecoveryKey} onChange={(e) => setUseRecoveryKey(e.target.checked)} />
+						Sign with a recovery key instead of the current key
+					</label>
+					{useRecoveryKey && (
+						<div className='space-y-2'>
+							<Label htmlFor='rotation-recovery-key'>Recovery private key</Label>
+							<Input id='rotation-recovery-key' type='password' value={recoveryKey} onChange={(e) => setRecoveryKey(e.target.value)} placeholder='Hex private key' required />
+							<Label htmlFor='rotation-recovery-method'>Recovery verification method</Label>
+							<Input id='rotation-recovery-method' value={recoveryMethod} onChange={(e) => setRecoveryMethod(e.target.value)} required />
+						</div>
+					)}
+					<p className='text-sm text-muted-foreground'>
+						A registered rotation cannot be undone. It is only started when the DID module accepts the new key for this DID, since login and document updates go through
+						it.
+					</p>
+					<Button type='submit' disabled={loading}>
+						<RefreshCw className='w-4 h-4 mr-2' />
+						{loading ? 'Rotating...' : 'Rotate key'}
+					</Button>
+				</form>
+			)}
+
+			{versions.length > 0 && (
+				<div className='space-y-2'>
+					<h4 className='font-medium'>Document history</h4>
+					<ul className='space-y-2'>
+						{versions.map((version) => (
+							<li key={version.id} className='rounded-lg border p-3 text-sm space-y-1'>
+								<div className='flex items-center justify-between'>
+									<span className='font-medium'>
+										Version {version.version} · {version.change === 'rotation' ? 'key rotation' : 'document update'}
+									</span>
+									<Badge variant={version.status === 'active' ? 'default' : 'secondary'}>{version.status}</Badge>
+								</div>
+								<p className='text-muted-foreground'>
+									{new Date(version.createdAt).toLocaleString()} · signed by {version.proof.signer === 'recovery' ? 'recovery key' : version.proof.verificationMethod}
+								</p>
+								<p className='font-mono text-xs break-all'>{version.documentHash}</p>
+							</li>
+						))}
+					</ul>
+				</div>
+			)}
+		</div>
+	)
+}
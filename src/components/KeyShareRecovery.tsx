@@ -0,0 +1,161 @@
+'use client'
+
+import {useState} from 'react'
+import {keystore} from '@/lib/keystore'
+import {decryptKeyShare, isEncryptedKeyShare, parseKeyShare, reconstructDIDKey, validateKeyShares} from '@/lib/social-recovery'
+import type {EncryptedKeyShare, KeyShare} from '@/lib/social-recovery'
+import {decodeQRImage} from '@/lib/qr-image'
+import KeystoreUnlock from '@/components/KeystoreUnlock'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {Badge} from '@/components/ui/badge'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {AlertCircle, Lock, Plus, RotateCcw, X} from 'lucide-react'
+
+interface KeyShareRecoveryProps {
+	onRecovered: (didId: string, privateKey: string) => void
+}
+
+export default function KeyShareRecovery({onRecovered}: KeyShareRecoveryProps) {
+	const [input, setInput] = useState('')
+	const [shares, setShares] = useState<KeyShare[]>([])
+	const [sealed, setSealed] = useState<EncryptedKeyShare | null>(null)
+	const [guardianKey, setGuardianKey] = useState('')
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+
+	const addShare = (share: KeyShare) => {
+		if (shares.some((existing) => existing.index === share.index && existing.setId === share.setId)) {
+			throw new Error(`Share ${share.index} was already added`)
+		}
+		setShares((prev) => [...prev, share])
+	}
+
+	const handleAdd = (text: string) => {
+		setError(null)
+		try {
+			const parsed = parseKeyShare(text)
+			if (isEncryptedKeyShare(parsed)) {
+				setSealed(parsed)
+			} else {
+				addShare(parsed)
+			}
+			setInput('')
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Invalid share')
+		}
+	}
+
+	const handleImage = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0]
+		e.target.value = ''
+		if (!file) return
+
+		try {
+			handleAdd(await decodeQRImage(file))
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to read QR code')
+		}
+	}
+
+	// Guardians open their share with the DID key in their keystore, or a pasted key
+	const handleOpenSealed = async () => {
+		if (!sealed) return
+		setError(null)
+		try {
+			const key = guardianKey.trim() || (await keystore.getPrivateKey(sealed.guardian))
+			addShare(decryptKeyShare(sealed, key))
+			setSealed(null)
+			setGuardianKey('')
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to open share')
+		}
+	}
+
+	const handleReconstruct = async () => {
+		setError(null)
+		setLoading(true)
+		try {
+			const {didId, privateKey} = await reconstructDIDKey(shares)
+			setShares([])
+			onRecovered(didId, privateKey)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Reconstruction failed')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	const status = shares.length > 0 ? validateKeyShares(shares) : null
+
+	return (
+		<div className='space-y-4'>
+			{error && (
+				<Alert variant='destructive'>
+					<AlertCircle className='h-4 w-4' />
+					<AlertDescription>{error}</AlertDescription>
+				</Alert>
+			)}
+
+			{sealed ? (
+				<div className='rounded-lg border p-4 space-y-3'>
+					<p className='text-sm'>
+						Share {sealed.index} is encrypted for <code className='break-all'>{sealed.guardian}</code>. Unlock the keystore holding that DID or paste its private key.
+					</p>
+					<KeystoreUnlock />
+					<Input type='password' value={guardianKey} onChange={(e) => setGuardianKey(e.target.value)} placeholder='Guardian private key (hex, optional)' />
+					<div className='flex gap-2'>
+						<Button type='button' size='sm' onClick={handleOpenSealed}>
+							<Lock className='w-4 h-4 mr-2' />
+							Open share
+						</Button>
+						<Button type='button' size='sm' variant='outline' onClick={() => setSealed(null)}>
+							Cancel
+						</Button>
+					</div>
+				</div>
+			) : (
+				<div className='space-y-2'>
+					<Label htmlFor='share-input'>Add a share</Label>
+					<textarea
+						id='share-input'
+						value={input}
+						onChange={(e) => setInput(e.target.value)}
+						placeholder='Paste a key share'
+						rows={4}
+						className='flex w-full rounded-md border border-input bg-background px-3 py-2 text-xs font-mono'
+					/>
+					<div className='flex items-center gap-2'>
+						<Button type='button' size='sm' onClick={() => handleAdd(input)} disabled={!input.trim()}>
+							<Plus className='w-4 h-4 mr-2' />
+							Add share
+						</Button>
+						<Input type='file' accept='image/*' onChange={handleImage} className='max-w-xs' />
+					</div>
+				</div>
+			)}
+
+			{shares.length > 0 && (
+				<div className='space-y-2'>
+					<div className='flex flex-wrap gap-2'>
+						{shares.map((share) => (
+							<Badge key={`${share.setId}-${share.index}`} variant='secondary' className='flex items-center gap-1'>
+								Share {share.index} of {share.total}
+								<button type='button' aria-label={`Remove share ${share.index}`} onClick={() => setShares((prev) => prev.filter((item) => item !== share))}>
+									<X className='w-3 h-3' />
+								</button>
+							</Badge>
+						))}
+					</div>
+					<p className='text-sm text-muted-foreground'>{status || `Ready to recover ${shares[0].didId}`}</p>
+				</div>
+			)}
+
+			<Button type='button' className='w-full' onClick={handleReconstruct} disabled={loading || shares.length === 0 || status !== null}>
+				<RotateCcw className='w-4 h-4 mr-2' />
+				{loading ? 'Reconstructing...' : 'Reconstruct key'}
+			</Button>
+		</div>
+	)
+}
@@ -0,0 +1,175 @@
+'use client'
+
+import {useEffect, useState} from 'react'
+import {QRCodeSVG} from 'qrcode.react'
+import {keystore} from '@/lib/keystore'
+import {createKeyShares, encodeKeyShare, encryptKeyShare} from '@/lib/social-recovery'
+import type {EncryptedKeyShare, KeyShare} from '@/lib/social-recovery'
+import KeystoreUnlock from '@/components/KeystoreUnlock'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {Badge} from '@/components/ui/badge'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {AlertCircle, Copy, Download, Lock, Split} from 'lucide-react'
+
+interface KeySharesFormProps {
+	didId: string
+}
+
+interface ShareEntry {
+	share: KeyShare
+	// Set once the share has been sealed to a guardian; only this form is exported afterwards
+	encrypted?: EncryptedKeyShare
+}
+
+function ShareCard({entry, onEncrypt}: {entry: ShareEntry; onEncrypt: (guardianDid: string, publicKey: string) => void}) {
+	const [guardianDid, setGuardianDid] = useState('')
+	const [guardianKey, setGuardianKey] = useState('')
+	const encoded = encodeKeyShare(entry.encrypted || entry.share)
+
+	const handleDownload = () => {
+		const url = URL.createObjectURL(new Blob([encoded], {type: 'application/json'}))
+		const link = document.createElement('a')
+		link.href = url
+		link.download = `did-key-share-${entry.share.index}-of-${entry.share.total}.json`
+		link.click()
+		URL.revokeObjectURL(url)
+	}
+
+	return (
+		<div className='rounded-lg border p-4 space-y-3'>
+			<div className='flex items-center justify-between'>
+				<h4 className='font-medium'>
+					Share {entry.share.index} of {entry.share.total}
+				</h4>
+				{entry.encrypted ? (
+					<Badge variant='default'>
+						<Lock className='w-3 h-3 mr-1' />
+						{entry.encrypted.guardian}
+					</Badge>
+				) : (
+					<Badge variant='secondary'>Unencrypted</Badge>
+				)}
+			</div>
+			<div className='flex justify-center'>
+				<QRCodeSVG value={encoded} size={200} level='L' includeMargin={true} />
+			</div>
+			<div className='flex gap-2'>
+				<Button type='button' variant='outline' size='sm' onClick={() => navigator.clipboard.writeText(encoded)}>
+					<Copy className='w-4 h-4 mr-2' />
+					Copy
+				</Button>
+				<Button type='button' variant='outline' size='sm' onClick={handleDownload}>
+					<Download className='w-4 h-4 mr-2' />
+					Download
+				</Button>
+			</div>
+			{!entry.encrypted && (
+				<div className='space-y-2'>
+					<Label htmlFor={`guardian-did-${entry.share.index}`}>Encrypt for a guardian (optional)</Label>
+					<Input id={`guardian-did-${entry.share.index}`} value={guardianDid} onChange={(e) => setGuardianDid(e.target.value)} placeholder='Guardian DID' />
+					<Input value={guardianKey} onChange={(e) => setGuardianKey(e.target.value)} placeholder='Guardian Ed25519 public key (hex)' />
+					<Button type='button' size='sm' disabled={!guardianDid || !guardianKey} onClick={() => onEncrypt(guardianDid.trim(), guardianKey.trim())}>
+						<Lock className='w-4 h-4 mr-2' />
+						Encrypt share
+					</Button>
+				</div>
+			)}
+		</div>
+	)
+}
+
+export default function KeySharesForm({didId}: KeySharesFormProps) {
+	const [total, setTotal] = useState('5')
+	const [threshold, setThreshold] = useState('3')
+	const [pastedKey, setPastedKey] = useState('')
+	const [inKeystore, setInKeystore] = useState(false)
+	const [entries, setEntries] = useState<ShareEntry[]>([])
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		keystore
+			.hasKey(didId)
+			.then(setInKeystore)
+			.catch(() => setInKeystore(false))
+	}, [didId])
+
+	const handleSplit = async (e: React.FormEvent) => {
+		e.preventDefault()
+		setError(null)
+
+		try {
+			const key = pastedKey.trim() || (await keystore.getPrivateKey(didId))
+			const shares = await createKeyShares(didId, key, parseInt(total, 10), parseInt(threshold, 10))
+			setEntries(shares.map((share) => ({share})))
+			setPastedKey('')
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to split key')
+		}
+	}
+
+	const handleEncrypt = (index: number, guardianDid: string, publicKey: string) => {
+		setError(null)
+		try {
+			const target = entries.find((entry) => entry.share.index === index)
+			if (!target) return
+			const encrypted = encryptKeyShare(target.share, {didId: guardianDid, publicKey})
+			setEntries((prev) => prev.map((entry) => (entry.share.index === index ? {...entry, encrypted} : entry)))
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to encrypt share')
+		}
+	}
+
+	return (
+		<div className='space-y-4'>
+			{error && (
+				<Alert variant='destructive'>
+					<AlertCircle className='h-4 w-4' />
+					<AlertDescription>{error}</AlertDescription>
+				</Alert>
+			)}
+
+			{entries.length === 0 ? (
+				<div className='space-y-4'>
+					{/* Kept outside the split form: KeystoreUnlock renders its own form */}
+					{inKeystore && <KeystoreUnlock />}
+					<form onSubmit={handleSplit} className='space-y-4'>
+						{!inKeystore && (
+							<div className='space-y-2'>
+								<Label htmlFor='shares-private-key'>Private Key</Label>
+								<Input id='shares-private-key' type='password' value={pastedKey} onChange={(e) => setPastedKey(e.target.value)} placeholder='Hex private key for this DID' required />
+							</div>
+						)}
+						<div className='grid grid-cols-2 gap-4'>
+							<div className='space-y-2'>
+								<Label htmlFor='share-total'>Number of shares</Label>
+								<Input id='share-total' type='number' min={2} max={10} value={total} onChange={(e) => setTotal(e.target.value)} required />
+							</div>
+							<div className='space-y-2'>
+								<Label htmlFor='share-threshold'>Shares needed to recover</Label>
+								<Input id='share-threshold' type='number' min={2} max={parseInt(total, 10) || 2} value={threshold} onChange={(e) => setThreshold(e.target.value)} required />
+							</div>
+						</div>
+						<p className='text-sm text-muted-foreground'>Fewer shares than the threshold reveal nothing about the key. Give each share to a different guardian.</p>
+						<Button type='submit'>
+							<Split className='w-4 h-4 mr-2' />
+							Split key
+						</Button>
+					</form>
+				</div>
+			) : (
+				<div className='space-y-4'>
+					<div className='grid gap-4 md:grid-cols-2'>
+						{entries.map((entry) => (
+							<ShareCard key={entry.share.index} entry={entry} onEncrypt={(guardianDid, publicKey) => handleEncrypt(entry.share.index, guardianDid, publicKey)} />
+						))}
+					</div>
+					<Button type='button' variant='outline' onClick={() => setEntries([])}>
+						Done
+					</Button>
+				</div>
+			)}
+		</div>
+	)
+}
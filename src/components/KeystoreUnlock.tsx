@@ -0,0 +1,111 @@
+'use client'
+
+import {useState, useEffect} from 'react'
+import {keystore} from '@/lib/keystore'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {AlertCircle, Lock, Unlock} from 'lucide-react'
+
+interface KeystoreUnlockProps {
+	onUnlocked?: () => void
+}
+
+export default function KeystoreUnlock({onUnlocked}: KeystoreUnlockProps) {
+	const [initialized, setInitialized] = useState<boolean | null>(null)
+	const [unlocked, setUnlocked] = useState(keystore.isUnlocked)
+	const [passphrase, setPassphrase] = useState('')
+	const [confirmPassphrase, setConfirmPassphrase] = useState('')
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+
+	useEffect(() => {
+		keystore
+			.isInitialized()
+			.then(setInitialized)
+			.catch((err) => {
+				setInitialized(false)
+				setError(err instanceof Error ? err.message : 'Keystore unavailable')
+			})
+		return keystore.onLockStateChange(setUnlocked)
+	}, [])
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault()
+		setError(null)
+		setLoading(true)
+
+		try {
+			if (initialized) {
+				await keystore.unlock(passphrase)
+			} else {
+				if (passphrase.length < 8) {
+					throw new Error('Passphrase must be at least 8 characters')
+				}
+				if (passphrase !== confirmPassphrase) {
+					throw new Error('Passphrases do not match')
+				}
+				await keystore.initialize(passphrase)
+				setInitialized(true)
+			}
+			setPassphrase('')
+			setConfirmPassphrase('')
+			onUnlocked?.()
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to unlock keystore')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	if (initialized === null) {
+		return null
+	}
+
+	if (unlocked) {
+		return (
+			<div className='flex items-center justify-between rounded-lg border p-3 text-sm'>
+				<span className='flex items-center space-x-2 text-muted-foreground'>
+					<Unlock className='w-4 h-4' />
+					<span>Keystore unlocked</span>
+				</span>
+				<Button type='button' variant='ghost' size='sm' onClick={() => keystore.lock()}>
+					<Lock className='w-4 h-4 mr-2' />
+					Lock
+				</Button>
+			</div>
+		)
+	}
+
+	return (
+		<form onSubmit={handleSubmit} className='space-y-3 rounded-lg border p-3'>
+			<div className='flex items-center space-x-2 text-sm font-medium'>
+				<Lock className='w-4 h-4' />
+				<span>{initialized ? 'Unlock keystore' : 'Create keystore passphrase'}</span>
+			</div>
+
+			{error && (
+				<Alert variant='destructive'>
+					<AlertCircle className='h-4 w-4' />
+					<AlertDescription>{error}</AlertDescription>
+				</Alert>
+			)}
+
+			<div className='space-y-2'>
+				<Label htmlFor='keystorePassphrase'>Passphrase</Label>
+				<Input id='keystorePassphrase' type='password' value={passphrase} onChange={(e) => setPassphrase(e.target.value)} required />
+			</div>
+			{!initialized && (
+				<div className='space-y-2'>
+					<Label htmlFor='keystorePassphraseConfirm'>Confirm passphrase</Label>
+					<Input id='keystorePassphraseConfirm' type='password' value={confirmPassphrase} onChange={(e) => setConfirmPassphrase(e.target.value)} required />
+				</div>
+			)}
+
+			<Button type='submit' variant='outline' className='w-full' disabled={loading}>
+				{loading ? 'Deriving key...' : initialized ? 'Unlock' : 'Create keystore'}
+			</Button>
+		</form>
+	)
+}
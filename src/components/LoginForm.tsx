@@ -1,13 +1,17 @@
 'use client'
 
-import {useState, useEffect} from 'react'
+import {useCallback, useState, useEffect} from 'react'
 import {useRouter, useSearchParams} from 'next/navigation'
 import Link from 'next/link'
-import {QRCodeSVG} from 'qrcode.react'
-import {login, loginWithDID, LoginData, DIDLoginData} from '@/lib/auth'
-import {wasmAuth} from '@/lib/wasm-auth'
-import {authenticateDID, generateQRChallenge, pollQRAuthentication} from '@/app/api/did'
-import {generateRandomData} from '@/lib/qr-code-utils'
+import {didStrategy, passwordStrategy, LoginData, DIDLoginData, TwoFactorRequiredError, TwoFactorChallenge} from '@/lib/auth'
+import {enhancedCryptoStrategy, wasmAuth} from '@/lib/wasm-auth'
+import {useAuth} from '@/components/AuthProvider'
+import {keystore} from '@/lib/keystore'
+import {prepareDIDChallenge} from '@/lib/did-challenge'
+import KeystoreUnlock from '@/components/KeystoreUnlock'
+import QRLoginPanel from '@/components/QRLoginPanel'
+import TwoFactorStep from '@/components/TwoFactorStep'
+import {authenticateDID} from '@/app/api/did'
 import {Card, CardContent, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
 import {Tabs, TabsContent, TabsList, TabsTrigger} from '@/components/ui/tabs'
 import {Button} from '@/components/ui/button'
@@ -19,6 +23,7 @@ import {AlertCircle, Key, QrCode, User} from 'lucide-react'
 export default function LoginForm() {
 	const router = useRouter()
 	const searchParams = useSearchParams()
+	const {login} = useAuth()
 
 	type LoginMethodType = 'password' | 'did' | 'qr'
 	const [loginMethod, setLoginMethod] = useState<LoginMethodType>('password')
@@ -29,7 +34,8 @@ export default function LoginForm() {
 	const [didFormData, setDidFormData] = useState({
 		didId: '',
 		privateKey: '',
-		challenge: 'login-challenge-' + Math.random().toString(36).substring(2, 10),
+		challenge: '',
+		nonce: '',
 	})
 	const [didAuthData, setDidAuthData] = useState<{
 		proof: string
@@ -38,8 +44,7 @@ export default function LoginForm() {
 	const [error, setError] = useState<string | null>(null)
 	const [loading, setLoading] = useState(false)
 	const [didStep, setDidStep] = useState<'input' | 'authenticate' | 'verify'>('input')
-	const [qrData, setQRData] = useState<{challenge: string; qrCode: string} | null>(null)
-	const [qrCodeData, setQRCodeData] = useState<string>('')
+	const [twoFactor, setTwoFactor] = useState<TwoFactorChallenge | null>(null)
 
 	useEffect(() => {
 		const errorMsg = searchParams.get('error')
@@ -48,52 +53,6 @@ export default function LoginForm() {
 		}
 	}, [searchParams])
 
-	const setupQRAuthentication = async () => {
-		try {
-			setLoading(true)
-			// Generate random data for the QR code
-			const randomData = generateRandomData(64)
-			setQRCodeData(randomData)
-
-			// For demonstration purposes, we'll use the random data as both challenge and display data
-			setQRData({
-				challenge: randomData,
-				qrCode: randomData,
-			})
-
-			// In a real implementation, you would start polling here
-			// startPolling(randomData)
-		} catch (err) {
-			setError('Failed to generate QR code')
-		} finally {
-			setLoading(false)
-		}
-	}
-
-	const startPolling = async (challenge: string) => {
-		const pollInterval = setInterval(async () => {
-			try {
-				const result = await pollQRAuthentication(challenge)
-				if (result.authenticated && result.didId) {
-					clearInterval(pollInterval)
-					const didLoginData: DIDLoginData = {
-						didId: result.didId,
-						challenge: challenge,
-						signature: '',
-						proof: '',
-					}
-					await loginWithDID(didLoginData)
-					router.push('/dashboard/profile')
-				}
-			} catch (err) {
-				clearInterval(pollInterval)
-				setError('QR authentication failed')
-			}
-		}, 2000)
-
-		return () => clearInterval(pollInterval)
-	}
-
 	const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
 		const {name, value} = e.target
 		setFormData((prev) => ({...prev, [name]: value}))
@@ -111,6 +70,15 @@ export default function LoginForm() {
 		window.history.replaceState({}, '', url.toString())
 	}
 
+	// A second-factor challenge is not a failure: switch to the code step instead of showing an error
+	const handleLoginError = (err: unknown, fallback: string) => {
+		if (err instanceof TwoFactorRequiredError) {
+			setTwoFactor(err.challenge)
+		} else {
+			setError(err instanceof Error ? err.message : fallback)
+		}
+	}
+
 	const handleSubmit = async (e: React.FormEvent) => {
 		e.preventDefault()
 		setError(null)
@@ -118,7 +86,7 @@ export default function LoginForm() {
 
 		try {
 			if (loginMethod === 'password') {
-				await login(formData)
+				await login(passwordStrategy, formData)
 				router.push('/dashboard/profile')
 			} else if (loginMethod === 'did' && didStep === 'verify' && didAuthData) {
 				const didLoginData: DIDLoginData = {
@@ -126,20 +94,21 @@ export default function LoginForm() {
 					challenge: didFormData.challenge,
 					signature: didAuthData.signature,
 					proof: didAuthData.proof,
+					nonce: didFormData.nonce,
 				}
-				await loginWithDID(didLoginData)
+				await login(didStrategy, didLoginData)
 				router.push('/dashboard/profile')
 			}
 		} catch (err) {
-			setError(err instanceof Error ? err.message : 'Login failed')
+			handleLoginError(err, 'Login failed')
 		} finally {
 			setLoading(false)
 		}
 	}
 
 	const handleDidAuthenticate = async () => {
-		if (!didFormData.didId || !didFormData.privateKey || !didFormData.challenge) {
-			setError('All DID fields are required')
+		if (!didFormData.didId) {
+			setError('DID Identifier is required')
 			return
 		}
 
@@ -147,8 +116,15 @@ export default function LoginForm() {
 		setLoading(true)
 
 		try {
+			// Fall back to the key held in the unlocked keystore when none is pasted
+			const privateKey = didFormData.privateKey || (await keystore.getPrivateKey(didFormData.didId))
+
+			// Request a server-issued challenge; it is rejected here if expired or bound to another domain
+			const {challenge, message} = await prepareDIDChallenge(didFormData.didId)
+			setDidFormData((prev) => ({...prev, challenge: message, nonce: challenge.nonce}))
+
 			// Use enhanced WASM authentication with client-side verification
-			const authResult = await wasmAuth.authenticateDIDClientSide(didFormData.didId, didFormData.privateKey, didFormData.challenge)
+			const authResult = await wasmAuth.authenticateDIDClientSide(didFormData.didId, privateKey, message)
 
 			if (!authResult.verified) {
 				throw new Error('Client-side DID verification failed')
@@ -167,12 +143,19 @@ export default function LoginForm() {
 		}
 	}
 
-	useEffect(() => {
-		if (loginMethod !== 'qr') {
-			setQRData(null)
-			setQRCodeData('')
-		}
-	}, [loginMethod])
+	const handleQRApproved = useCallback(
+		async (didId: string, challenge: string) => {
+			// The holder's signed response was already verified by the backend against this nonce
+			try {
+				await login(didStrategy, {didId, challenge, signature: '', proof: '', nonce: challenge})
+				router.push('/dashboard/profile')
+			} catch (err) {
+				if (!(err instanceof TwoFactorRequiredError)) throw err
+				setTwoFactor(err.challenge)
+			}
+		},
+		[login, router]
+	)
 
 	return (
 		<div className='min-h-screen flex items-center justify-center bg-background p-4'>
@@ -188,166 +171,145 @@ export default function LoginForm() {
 					</CardDescription>
 				</CardHeader>
 				<CardContent>
-					{error && (
-						<Alert variant='destructive' className='mb-6'>
-							<AlertCircle className='h-4 w-4' />
-							<AlertDescription>{error}</AlertDescription>
-						</Alert>
-					)}
-
-					<Tabs value={loginMethod} onValueChange={(v) => setLoginMethod(v as LoginMethodType)}>
-						<TabsList className='grid w-full grid-cols-3'>
-							<TabsTrigger value='password'>
-								<User className='w-4 h-4 mr-2' />
-								Password
-							</TabsTrigger>
-							<TabsTrigger value='did'>
-								<Key className='w-4 h-4 mr-2' />
-								DID Key
-							</TabsTrigger>
-							<TabsTrigger value='qr'>
-								<QrCode className='w-4 h-4 mr-2' />
-								DID QR
-							</TabsTrigger>
-						</TabsList>
-
-						<TabsContent value='password'>
-							<form onSubmit={handleSubmit} className='space-y-4 mt-4'>
-								<div className='space-y-2'>
-									<Label htmlFor='username'>Username</Label>
-									<Input id='username' name='username' type='text' required value={formData.username} onChange={handleChange} />
-								</div>
-								<div className='space-y-2'>
-									<Label htmlFor='password'>Password</Label>
-									<Input id='password' name='password' type='password' required value={formData.password} onChange={handleChange} />
-								</div>
-								<div className='flex space-x-2'>
-									<Button type='submit' className='flex-1' disabled={loading}>
-										{loading ? 'Signing in...' : 'Sign in'}
-									</Button>
-									<Button
-										type='button'
-										variant='outline'
-										onClick={async () => {
-											setError(null)
-											setLoading(true)
-											try {
-												await wasmAuth.loginWithClientSideCrypto(formData.username, formData.password)
-												router.push('/dashboard/profile')
-											} catch (err) {
-												setError(err instanceof Error ? err.message : 'WASM login failed')
-											} finally {
-												setLoading(false)
-											}
-										}}
-										disabled={loading}>
-										WASM
-									</Button>
-								</div>
-							</form>
-						</TabsContent>
-
-						<TabsContent value='did'>
-							<div className='space-y-4 mt-4'>
-								{didStep === 'input' && (
-									<div className='space-y-4'>
-										<div className='space-y-2'>
-											<Label htmlFor='didId'>DID Identifier</Label>
-											<Input id='didId' name='didId' value={didFormData.didId} onChange={handleDidChange} placeholder='did:example:123...' />
-										</div>
-										<div className='space-y-2'>
-											<Label htmlFor='privateKey'>Private Key</Label>
-											<Input id='privateKey' name='privateKey' value={didFormData.privateKey} onChange={handleDidChange} type='password' />
-										</div>
+					{twoFactor ? (
+						<TwoFactorStep challenge={twoFactor} onComplete={() => router.push('/dashboard/profile')} onCancel={() => setTwoFactor(null)} />
+					) : (
+						<>
+							{error && (
+								<Alert variant='destructive' className='mb-6'>
+									<AlertCircle className='h-4 w-4' />
+									<AlertDescription>{error}</AlertDescription>
+								</Alert>
+							)}
+
+							<Tabs value={loginMethod} onValueChange={(v) => setLoginMethod(v as LoginMethodType)}>
+								<TabsList className='grid w-full grid-cols-3'>
+									<TabsTrigger value='password'>
+										<User className='w-4 h-4 mr-2' />
+										Password
+									</TabsTrigger>
+									<TabsTrigger value='did'>
+										<Key className='w-4 h-4 mr-2' />
+										DID Key
+									</TabsTrigger>
+									<TabsTrigger value='qr'>
+										<QrCode className='w-4 h-4 mr-2' />
+										DID QR
+									</TabsTrigger>
+								</TabsList>
+
+								<TabsContent value='password'>
+									<form onSubmit={handleSubmit} className='space-y-4 mt-4'>
 										<div className='space-y-2'>
-											<Label htmlFor='challenge'>Challenge</Label>
-											<Input id='challenge' name='challenge' value={didFormData.challenge} onChange={handleDidChange} readOnly />
-										</div>
-										<Button onClick={handleDidAuthenticate} disabled={loading} className='w-full'>
-											{loading ? 'Authenticating...' : 'Authenticate with DID'}
-										</Button>
-									</div>
-								)}
-
-								{didStep === 'verify' && didAuthData && (
-									<div className='space-y-4'>
-										<Alert variant='success'>
-											<AlertDescription>Your DID has been authenticated. You can now sign in.</AlertDescription>
-										</Alert>
-
-										<div className='space-y-2'>
-											<Label>Proof</Label>
-											<div className='p-2 bg-muted rounded-md'>
-												<code className='text-xs break-all'>{didAuthData.proof}</code>
-											</div>
+											<Label htmlFor='username'>Username</Label>
+											<Input id='username' name='username' type='text' required value={formData.username} onChange={handleChange} />
 										</div>
-
 										<div className='space-y-2'>
-											<Label>Signature</Label>
-											<div className='p-2 bg-muted rounded-md'>
-												<code className='text-xs break-all'>{didAuthData.signature}</code>
-											</div>
+											<Label htmlFor='password'>Password</Label>
+											<Input id='password' name='password' type='password' required value={formData.password} onChange={handleChange} />
 										</div>
-
-										<div className='space-y-2'>
-											<Button onClick={handleSubmit} disabled={loading} className='w-full'>
-												{loading ? 'Signing in...' : 'Sign in with DID'}
+										<div className='flex space-x-2'>
+											<Button type='submit' className='flex-1' disabled={loading}>
+												{loading ? 'Signing in...' : 'Sign in'}
 											</Button>
 											<Button
+												type='button'
 												variant='outline'
-												onClick={() => {
-													setDidStep('input')
-													setDidAuthData(null)
+												onClick={async () => {
+													setError(null)
+													setLoading(true)
+													try {
+														await login(enhancedCryptoStrategy, formData)
+														router.push('/dashboard/profile')
+													} catch (err) {
+														handleLoginError(err, 'WASM login failed')
+													} finally {
+														setLoading(false)
+													}
 												}}
-												className='w-full'>
-												Start Over
+												disabled={loading}>
+												WASM
 											</Button>
 										</div>
+									</form>
+								</TabsContent>
+
+								<TabsContent value='did'>
+									<div className='space-y-4 mt-4'>
+										{didStep === 'input' && (
+											<div className='space-y-4'>
+												<div className='space-y-2'>
+													<Label htmlFor='didId'>DID Identifier</Label>
+													<Input id='didId' name='didId' value={didFormData.didId} onChange={handleDidChange} placeholder='did:example:123...' />
+												</div>
+												<div className='space-y-2'>
+													<Label htmlFor='privateKey'>Private Key</Label>
+													<Input id='privateKey' name='privateKey' value={didFormData.privateKey} onChange={handleDidChange} type='password' placeholder='Leave empty to use the unlocked keystore' />
+												</div>
+												<KeystoreUnlock />
+												<p className='text-xs text-muted-foreground'>A one-time challenge is requested from the server and signed when you authenticate.</p>
+												<p className='text-xs text-muted-foreground'>
+													Lost your key?{' '}
+													<Link href='/recover' className='text-primary hover:underline'>
+														Recover it from your recovery phrase
+													</Link>
+												</p>
+												<Button onClick={handleDidAuthenticate} disabled={loading} className='w-full'>
+													{loading ? 'Authenticating...' : 'Authenticate with DID'}
+												</Button>
+											</div>
+										)}
+
+										{didStep === 'verify' && didAuthData && (
+											<div className='space-y-4'>
+												<Alert variant='success'>
+													<AlertDescription>Your DID has been authenticated. You can now sign in.</AlertDescription>
+												</Alert>
+
+												<div className='space-y-2'>
+													<Label>Signed Challenge</Label>
+													<pre className='p-2 bg-muted rounded-md text-xs whitespace-pre-wrap break-all'>{didFormData.challenge}</pre>
+												</div>
+
+												<div className='space-y-2'>
+													<Label>Proof</Label>
+													<div className='p-2 bg-muted rounded-md'>
+														<code className='text-xs break-all'>{didAuthData.proof}</code>
+													</div>
+												</div>
+
+												<div className='space-y-2'>
+													<Label>Signature</Label>
+													<div className='p-2 bg-muted rounded-md'>
+														<code className='text-xs break-all'>{didAuthData.signature}</code>
+													</div>
+												</div>
+
+												<div className='space-y-2'>
+													<Button onClick={handleSubmit} disabled={loading} className='w-full'>
+														{loading ? 'Signing in...' : 'Sign in with DID'}
+													</Button>
+													<Button
+														variant='outline'
+														onClick={() => {
+															setDidStep('input')
+															setDidAuthData(null)
+														}}
+														className='w-full'>
+														Start Over
+													</Button>
+												</div>
+											</div>
+										)}
 									</div>
-								)}
-							</div>
-						</TabsContent>
-
-						<TabsContent value='qr'>
-							<div className='mt-4 flex flex-col items-center space-y-4'>
-								<div className='w-48 h-48 bg-muted rounded-lg flex items-center justify-center p-4'>
-									{loading ? (
-										<div className='animate-pulse bg-muted w-full h-full rounded-lg' />
-									) : qrCodeData ? (
-										<QRCodeSVG value={qrCodeData} size={180} level='M' includeMargin={true} />
-									) : (
-										<Button variant='outline' onClick={setupQRAuthentication}>
-											<QrCode className='w-6 h-6 mr-2' />
-											Generate QR Code
-										</Button>
-									)}
-								</div>
-
-								<div className='text-center space-y-2'>
-									<div className='flex items-center justify-center space-x-2'>
-										<div className='w-2 h-2 rounded-full bg-primary animate-pulse' />
-										<span className='text-sm text-muted-foreground'>{qrCodeData ? 'Scan with mobile wallet...' : 'Click to generate QR code'}</span>
-									</div>
+								</TabsContent>
 
-									{qrCodeData && (
-										<div className='space-y-2'>
-											<div className='text-xs text-muted-foreground max-w-xs break-all'>Data: {qrCodeData.substring(0, 32)}...</div>
-											<Button
-												variant='ghost'
-												size='sm'
-												onClick={() => {
-													setQRData(null)
-													setQRCodeData('')
-													setupQRAuthentication()
-												}}>
-												Generate new QR code
-											</Button>
-										</div>
-									)}
-								</div>
-							</div>
-						</TabsContent>
-					</Tabs>
+								<TabsContent value='qr'>
+									<QRLoginPanel onApproved={handleQRApproved} onError={setError} />
+								</TabsContent>
+							</Tabs>
+						</>
+					)}
 				</CardContent>
 			</Card>
 		</div>
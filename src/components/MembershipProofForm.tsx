@@ -0,0 +1,128 @@
+'use client'
+
+import {useState} from 'react'
+import {wasmAuth} from '@/lib/wasm-auth'
+import type {WalletCredential} from '@/lib/credential-wallet'
+import {getCredentialCommitment} from '@/lib/credentials'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {AlertCircle, CheckCircle2} from 'lucide-react'
+
+interface MembershipProofFormProps {
+	entry: WalletCredential
+}
+
+interface MembershipProofResult {
+	proof: string
+	salt: string
+	commitment: string
+	organizationIdHash: string
+}
+
+export default function MembershipProofForm({entry}: MembershipProofFormProps) {
+	const secrets = entry.secrets?.kind === 'membership' ? entry.secrets : null
+
+	const [form, setForm] = useState({
+		organizationId: secrets?.organizationId || '',
+		balance: secrets ? String(secrets.balance) : '',
+		balanceRangeMin: '',
+		balanceRangeMax: '',
+	})
+	const [result, setResult] = useState<MembershipProofResult | null>(null)
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+
+	const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+		const {name, value} = e.target
+		setForm((prev) => ({...prev, [name]: value}))
+	}
+
+	const handleGenerate = async (e: React.FormEvent) => {
+		e.preventDefault()
+		setError(null)
+		setResult(null)
+		setLoading(true)
+
+		try {
+			const balance = parseInt(form.balance, 10)
+			const min = parseInt(form.balanceRangeMin, 10)
+			const max = parseInt(form.balanceRangeMax, 10)
+
+			if (!form.organizationId || [balance, min, max].some(Number.isNaN)) {
+				throw new Error('All membership fields are required')
+			}
+			if (balance < min || balance > max) {
+				throw new Error('Balance must be within the specified range')
+			}
+
+			if (!secrets) {
+				throw new Error('This credential has no membership secrets stored in the wallet')
+			}
+
+			// The stored salt reproduces the credential's commitment, which ties the proof to this credential
+			const proofResult = await wasmAuth.createMembershipProofClientSide(form.organizationId, balance, min, max, secrets.salt)
+			if (proofResult.commitment !== getCredentialCommitment(entry.credential)) {
+				throw new Error('The stored membership secrets do not match this credential')
+			}
+			setResult(proofResult)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to create membership proof')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	return (
+		<div className='space-y-4'>
+			{error && (
+				<Alert variant='destructive'>
+					<AlertCircle className='h-4 w-4' />
+					<AlertDescription>{error}</AlertDescription>
+				</Alert>
+			)}
+
+			<form onSubmit={handleGenerate} className='space-y-4'>
+				<div className='space-y-2'>
+					<Label htmlFor='organizationId'>Organization ID</Label>
+					<Input id='organizationId' name='organizationId' value={form.organizationId} onChange={handleChange} readOnly={!!secrets} required />
+				</div>
+				<div className='grid grid-cols-3 gap-4'>
+					<div className='space-y-2'>
+						<Label htmlFor='balance'>Your Balance</Label>
+						<Input id='balance' name='balance' type='number' value={form.balance} onChange={handleChange} readOnly={!!secrets} required />
+					</div>
+					<div className='space-y-2'>
+						<Label htmlFor='balanceRangeMin'>Range Min</Label>
+						<Input id='balanceRangeMin' name='balanceRangeMin' type='number' value={form.balanceRangeMin} onChange={handleChange} required />
+					</div>
+					<div className='space-y-2'>
+						<Label htmlFor='balanceRangeMax'>Range Max</Label>
+						<Input id='balanceRangeMax' name='balanceRangeMax' type='number' value={form.balanceRangeMax} onChange={handleChange} required />
+					</div>
+				</div>
+				<Button type='submit' className='w-full' disabled={loading}>
+					{loading ? 'Generating Proof...' : 'Generate Membership Proof'}
+				</Button>
+			</form>
+
+			{result && (
+				<div className='space-y-2'>
+					<Alert variant='success'>
+						<CheckCircle2 className='h-4 w-4' />
+						<AlertDescription>Membership and balance proof generated</AlertDescription>
+					</Alert>
+					<Label>Zero-Knowledge Proof</Label>
+					<div className='p-3 bg-muted rounded-md'>
+						<code className='text-xs break-all'>{result.proof}</code>
+					</div>
+					<Label>Commitment Hash</Label>
+					<div className='p-3 bg-muted rounded-md'>
+						<code className='text-xs break-all'>{result.commitment}</code>
+					</div>
+				</div>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,146 @@
+'use client'
+
+import {useEffect, useState} from 'react'
+import {keystore} from '@/lib/keystore'
+import {markDIDBackupVerified} from '@/lib/auth'
+import {normalizeMnemonic, pickQuizPositions, privateKeyToMnemonic} from '@/lib/mnemonic'
+import KeystoreUnlock from '@/components/KeystoreUnlock'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {AlertCircle, CheckCircle2, Eye} from 'lucide-react'
+
+interface MnemonicBackupProps {
+	didId: string
+	// Key to back up; when omitted it is read from the keystore or pasted
+	privateKey?: string
+	onComplete?: () => void
+}
+
+type Step = 'source' | 'words' | 'quiz' | 'done'
+
+export default function MnemonicBackup({didId, privateKey, onComplete}: MnemonicBackupProps) {
+	const [step, setStep] = useState<Step>('source')
+	const [words, setWords] = useState<string[]>([])
+	const [pastedKey, setPastedKey] = useState('')
+	const [inKeystore, setInKeystore] = useState(false)
+	const [quizPositions, setQuizPositions] = useState<number[]>([])
+	const [answers, setAnswers] = useState<Record<number, string>>({})
+	const [error, setError] = useState<string | null>(null)
+
+	useEffect(() => {
+		keystore
+			.hasKey(didId)
+			.then(setInKeystore)
+			.catch(() => setInKeystore(false))
+	}, [didId])
+
+	const reveal = async () => {
+		setError(null)
+		try {
+			const key = privateKey || pastedKey.trim() || (await keystore.getPrivateKey(didId))
+			setWords(privateKeyToMnemonic(key))
+			setStep('words')
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to create recovery phrase')
+		}
+	}
+
+	const startQuiz = () => {
+		setQuizPositions(pickQuizPositions(words.length))
+		setAnswers({})
+		setError(null)
+		setStep('quiz')
+	}
+
+	const handleQuizSubmit = (e: React.FormEvent) => {
+		e.preventDefault()
+		const correct = quizPositions.every((position) => normalizeMnemonic(answers[position] || '')[0] === words[position])
+		if (!correct) {
+			setError('One or more words are wrong. Check your written copy and try again.')
+			return
+		}
+
+		markDIDBackupVerified(didId)
+		setWords([])
+		setStep('done')
+		onComplete?.()
+	}
+
+	return (
+		<div className='space-y-4'>
+			{error && (
+				<Alert variant='destructive'>
+					<AlertCircle className='h-4 w-4' />
+					<AlertDescription>{error}</AlertDescription>
+				</Alert>
+			)}
+
+			{step === 'source' && (
+				<div className='space-y-4'>
+					{!privateKey && inKeystore && <KeystoreUnlock />}
+					{!privateKey && !inKeystore && (
+						<div className='space-y-2'>
+							<Label htmlFor='backup-private-key'>Private Key</Label>
+							<Input id='backup-private-key' type='password' value={pastedKey} onChange={(e) => setPastedKey(e.target.value)} placeholder='Hex private key for this DID' />
+						</div>
+					)}
+					<p className='text-sm text-muted-foreground'>Your recovery phrase is the private key written as words. Anyone who sees it can take over this DID.</p>
+					<Button type='button' onClick={reveal} disabled={!privateKey && !inKeystore && !pastedKey}>
+						<Eye className='w-4 h-4 mr-2' />
+						Show recovery phrase
+					</Button>
+				</div>
+			)}
+
+			{step === 'words' && (
+				<div className='space-y-4'>
+					<p className='text-sm'>Write these {words.length} words down in order and keep them offline.</p>
+					<ol className='grid grid-cols-3 gap-2 p-4 bg-muted rounded-md font-mono text-sm'>
+						{words.map((word, index) => (
+							<li key={index}>
+								<span className='text-muted-foreground mr-1'>{index + 1}.</span>
+								{word}
+							</li>
+						))}
+					</ol>
+					<Button type='button' onClick={startQuiz}>
+						I&apos;ve written them down
+					</Button>
+				</div>
+			)}
+
+			{step === 'quiz' && (
+				<form onSubmit={handleQuizSubmit} className='space-y-4'>
+					<p className='text-sm'>Confirm your backup by entering the requested words.</p>
+					{quizPositions.map((position) => (
+						<div key={position} className='space-y-2'>
+							<Label htmlFor={`quiz-word-${position}`}>Word #{position + 1}</Label>
+							<Input
+								id={`quiz-word-${position}`}
+								autoComplete='off'
+								required
+								value={answers[position] || ''}
+								onChange={(e) => setAnswers((prev) => ({...prev, [position]: e.target.value}))}
+							/>
+						</div>
+					))}
+					<div className='flex gap-2'>
+						<Button type='submit'>Verify backup</Button>
+						<Button type='button' variant='outline' onClick={() => setStep('words')}>
+							Show words again
+						</Button>
+					</div>
+				</form>
+			)}
+
+			{step === 'done' && (
+				<Alert variant='success'>
+					<CheckCircle2 className='h-4 w-4' />
+					<AlertDescription>Recovery phrase verified. Keep it somewhere safe.</AlertDescription>
+				</Alert>
+			)}
+		</div>
+	)
+}
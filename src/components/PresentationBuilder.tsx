@@ -0,0 +1,221 @@
+'use client'
+
+import {useEffect, useMemo, useState} from 'react'
+import {credentialWallet, type WalletCredential} from '@/lib/credential-wallet'
+import {getCredentialStatus, getCredentialType} from '@/lib/credentials'
+import {generateAgeProof} from '@/lib/age-proof'
+import {generateMembershipProof} from '@/lib/membership-proof'
+import {createPresentation, serializePresentation, type VerifiablePresentation, type ZKProofPackage} from '@/lib/presentations'
+import KeystoreUnlock from '@/components/KeystoreUnlock'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {Badge} from '@/components/ui/badge'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {AlertCircle, CheckCircle2, Copy} from 'lucide-react'
+
+// What to present from one wallet credential
+interface Selection {
+	includeCredential: boolean
+	ageThreshold: string
+	balanceRangeMin: string
+	balanceRangeMax: string
+}
+
+const emptySelection: Selection = {includeCredential: false, ageThreshold: '', balanceRangeMin: '', balanceRangeMax: ''}
+
+interface PresentationBuilderProps {
+	// Prefilled from a verifier's request
+	challenge?: string
+	domain?: string
+}
+
+export default function PresentationBuilder({challenge: initialChallenge = '', domain: initialDomain = ''}: PresentationBuilderProps) {
+	const [credentials, setCredentials] = useState<WalletCredential[]>([])
+	const [holder, setHolder] = useState('')
+	const [selections, setSelections] = useState<Record<string, Selection>>({})
+	const [challenge, setChallenge] = useState(initialChallenge)
+	const [domain, setDomain] = useState(initialDomain)
+	const [presentation, setPresentation] = useState<VerifiablePresentation | null>(null)
+	const [stage, setStage] = useState<string | null>(null)
+	const [error, setError] = useState<string | null>(null)
+	const [copied, setCopied] = useState(false)
+
+	useEffect(() => {
+		credentialWallet
+			.list()
+			.then((entries) => {
+				const active = entries.filter((entry) => getCredentialStatus(entry.credential) === 'active')
+				setCredentials(active)
+				setHolder((prev) => prev || active[0]?.credential.credentialSubject.id || '')
+			})
+			.catch((err) => setError(err instanceof Error ? err.message : 'Failed to load credentials'))
+	}, [])
+
+	const holders = useMemo(() => Array.from(new Set(credentials.map((entry) => entry.credential.credentialSubject.id))), [credentials])
+	const held = credentials.filter((entry) => entry.credential.credentialSubject.id === holder)
+	const encoded = presentation ? serializePresentation(presentation) : ''
+
+	const select = (id: string, change: Partial<Selection>) => {
+		setSelections((prev) => ({...prev, [id]: {...emptySelection, ...prev[id], ...change}}))
+	}
+
+	const handleBuild = async (e: React.FormEvent) => {
+		e.preventDefault()
+		setError(null)
+		setPresentation(null)
+		setCopied(false)
+
+		try {
+			const included: WalletCredential[] = []
+			const proofs: ZKProofPackage[] = []
+			for (const entry of held) {
+				const selection = selections[entry.id] || emptySelection
+				const provesMembership = !!(selection.balanceRangeMin && selection.balanceRangeMax)
+				if (selection.ageThreshold) {
+					setStage(`Proving age for ${getCredentialType(entry.credential)}`)
+					proofs.push(await generateAgeProof(entry, parseInt(selection.ageThreshold, 10)))
+				}
+				if (provesMembership) {
+					setStage(`Proving membership for ${getCredentialType(entry.credential)}`)
+					proofs.push(await generateMembershipProof(entry, parseInt(selection.balanceRangeMin, 10), parseInt(selection.balanceRangeMax, 10)))
+				}
+				// Verifiers need the credential a proof was derived from
+				if (selection.ageThreshold || provesMembership || selection.includeCredential) {
+					included.push(entry)
+				}
+			}
+
+			setStage('Signing presentation')
+			setPresentation(
+				await createPresentation({
+					holder,
+					challenge: challenge.trim(),
+					domain: domain.trim(),
+					credentials: included.map((entry) => entry.credential),
+					proofs,
+				})
+			)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to create presentation')
+		} finally {
+			setStage(null)
+		}
+	}
+
+	const handleCopy = async () => {
+		await navigator.clipboard.writeText(encoded)
+		setCopied(true)
+	}
+
+	return (
+		<div className='space-y-4'>
+			{error && (
+				<Alert variant='destructive'>
+					<AlertCircle className='h-4 w-4' />
+					<AlertDescription>{error}</AlertDescription>
+				</Alert>
+			)}
+
+			<KeystoreUnlock />
+
+			<form onSubmit={handleBuild} className='space-y-4'>
+				<div className='grid gap-4 sm:grid-cols-2'>
+					<div className='space-y-2'>
+						<Label htmlFor='presentationChallenge'>Verifier nonce</Label>
+						<Input id='presentationChallenge' value={challenge} onChange={(e) => setChallenge(e.target.value)} required />
+					</div>
+					<div className='space-y-2'>
+						<Label htmlFor='presentationDomain'>Verifier audience</Label>
+						<Input id='presentationDomain' value={domain} onChange={(e) => setDomain(e.target.value)} placeholder='https://verifier.example' required />
+					</div>
+				</div>
+
+				{holders.length === 0 ? (
+					<p className='text-sm text-muted-foreground'>No active credentials in this wallet.</p>
+				) : (
+					<>
+						{holders.length > 1 && (
+							<div className='space-y-2'>
+								<Label htmlFor='presentationHolder'>Holder</Label>
+								<select id='presentationHolder' value={holder} onChange={(e) => setHolder(e.target.value)} className='flex h-10 w-full rounded-md border border-input bg-background px-3 py-2 text-sm'>
+									{holders.map((did) => (
+										<option key={did} value={did}>
+											{did}
+										</option>
+									))}
+								</select>
+							</div>
+						)}
+
+						<ul className='space-y-2'>
+							{held.map((entry) => {
+								const selection = selections[entry.id] || emptySelection
+								return (
+									<li key={entry.id} className='rounded-lg border p-3 text-sm space-y-3'>
+										<div className='flex flex-wrap items-center gap-2'>
+											<Badge variant='outline'>{getCredentialType(entry.credential)}</Badge>
+											<code className='text-xs break-all'>{entry.id}</code>
+										</div>
+										<label className='flex items-center gap-2'>
+											<input
+												type='checkbox'
+												checked={selection.includeCredential || !!selection.ageThreshold}
+												disabled={!!selection.ageThreshold}
+												onChange={(e) => select(entry.id, {includeCredential: e.target.checked})}
+											/>
+											Include credential
+										</label>
+										{entry.secrets?.kind === 'age' && (
+											<div className='space-y-1'>
+												<Label htmlFor={`age-${entry.id}`}>Prove minimum age (optional)</Label>
+												<Input id={`age-${entry.id}`} type='number' min={0} value={selection.ageThreshold} onChange={(e) => select(entry.id, {ageThreshold: e.target.value})} />
+											</div>
+										)}
+										{entry.secrets?.kind === 'membership' && (
+											<div className='grid gap-2 sm:grid-cols-2'>
+												<div className='space-y-1'>
+													<Label htmlFor={`min-${entry.id}`}>Prove balance from (optional)</Label>
+													<Input id={`min-${entry.id}`} type='number' value={selection.balanceRangeMin} onChange={(e) => select(entry.id, {balanceRangeMin: e.target.value})} />
+												</div>
+												<div className='space-y-1'>
+													<Label htmlFor={`max-${entry.id}`}>to</Label>
+													<Input id={`max-${entry.id}`} type='number' value={selection.balanceRangeMax} onChange={(e) => select(entry.id, {balanceRangeMax: e.target.value})} />
+												</div>
+											</div>
+										)}
+									</li>
+								)
+							})}
+						</ul>
+					</>
+				)}
+
+				{stage && <p className='text-xs text-muted-foreground'>{stage}...</p>}
+
+				<Button type='submit' className='w-full' disabled={!!stage || !holder}>
+					{stage ? 'Building Presentation...' : 'Build & Sign Presentation'}
+				</Button>
+			</form>
+
+			{presentation && (
+				<div className='space-y-2'>
+					<Alert variant='success'>
+						<CheckCircle2 className='h-4 w-4' />
+						<AlertDescription>
+							Presentation signed with {presentation.verifiableCredential?.length || 0} credential(s) and {presentation.zeroKnowledgeProof?.length || 0} proof(s)
+						</AlertDescription>
+					</Alert>
+					<div className='flex items-center justify-between'>
+						<Label>Presentation</Label>
+						<Button type='button' variant='outline' size='sm' onClick={handleCopy}>
+							<Copy className='w-4 h-4 mr-2' />
+							{copied ? 'Copied' : 'Copy'}
+						</Button>
+					</div>
+					<pre className='p-3 bg-muted rounded-md text-xs overflow-x-auto max-h-96'>{encoded}</pre>
+				</div>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,179 @@
+'use client'
+
+import {useEffect, useMemo, useState} from 'react'
+import {credentialWallet, type WalletCredential} from '@/lib/credential-wallet'
+import {getCredentialStatus} from '@/lib/credentials'
+import {
+	PresentationDefinitionError,
+	checkSubmissionRequirements,
+	fulfillPresentationDefinition,
+	matchPresentationDefinition,
+	parsePresentationDefinition,
+	type DescriptorSelection,
+	type PresentationDefinition,
+} from '@/lib/presentation-exchange'
+import {serializePresentation, type VerifiablePresentation} from '@/lib/presentations'
+import DescriptorMatchList from '@/components/DescriptorMatchList'
+import KeystoreUnlock from '@/components/KeystoreUnlock'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {AlertCircle, CheckCircle2, Copy} from 'lucide-react'
+
+interface PresentationRequestFormProps {
+	challenge?: string
+	domain?: string
+}
+
+function errorMessage(err: unknown, fallback: string): string {
+	if (err instanceof PresentationDefinitionError && err.errors.length > 0) return `${err.message}: ${err.errors.join('; ')}`
+	return err instanceof Error ? err.message : fallback
+}
+
+export default function PresentationRequestForm({challenge: initialChallenge = '', domain: initialDomain = ''}: PresentationRequestFormProps) {
+	const [entries, setEntries] = useState<WalletCredential[]>([])
+	const [input, setInput] = useState('')
+	const [challenge, setChallenge] = useState(initialChallenge)
+	const [domain, setDomain] = useState(initialDomain)
+	const [definition, setDefinition] = useState<PresentationDefinition | null>(null)
+	const [selection, setSelection] = useState<DescriptorSelection>({})
+	const [presentation, setPresentation] = useState<VerifiablePresentation | null>(null)
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+	const [copied, setCopied] = useState(false)
+
+	useEffect(() => {
+		credentialWallet
+			.list()
+			.then((list) => setEntries(list.filter((entry) => getCredentialStatus(entry.credential) === 'active')))
+			.catch((err) => setError(err instanceof Error ? err.message : 'Failed to load credentials'))
+	}, [])
+
+	const matches = useMemo(() => (definition ? matchPresentationDefinition(definition, entries) : []), [definition, entries])
+	const problems = useMemo(
+		() => (definition ? checkSubmissionRequirements(definition, Object.keys(selection).filter((id) => selection[id])) : []),
+		[definition, selection]
+	)
+	const encoded = presentation ? serializePresentation(presentation) : ''
+
+	const handleLoad = (e: React.FormEvent) => {
+		e.preventDefault()
+		setError(null)
+		setPresentation(null)
+		try {
+			const parsed = parsePresentationDefinition(JSON.parse(input.trim()))
+			setDefinition(parsed)
+			// Preselect the first candidate of every answerable descriptor
+			setSelection(Object.fromEntries(matchPresentationDefinition(parsed, entries).map((match) => [match.descriptor.id, match.candidates[0]?.id])))
+		} catch (err) {
+			setDefinition(null)
+			setError(errorMessage(err, 'Failed to read presentation request'))
+		}
+	}
+
+	const handleRespond = async () => {
+		if (!definition) return
+		setError(null)
+		setCopied(false)
+		setLoading(true)
+		try {
+			setPresentation(await fulfillPresentationDefinition(definition, selection, entries, {challenge: challenge.trim(), domain: domain.trim()}))
+		} catch (err) {
+			setError(errorMessage(err, 'Failed to create presentation'))
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	const handleCopy = async () => {
+		await navigator.clipboard.writeText(encoded)
+		setCopied(true)
+	}
+
+	return (
+		<div className='space-y-4'>
+			{error && (
+				<Alert variant='destructive'>
+					<AlertCircle className='h-4 w-4' />
+					<AlertDescription>{error}</AlertDescription>
+				</Alert>
+			)}
+
+			<form onSubmit={handleLoad} className='space-y-4'>
+				<div className='grid gap-4 sm:grid-cols-2'>
+					<div className='space-y-2'>
+						<Label htmlFor='requestChallenge'>Verifier nonce</Label>
+						<Input id='requestChallenge' value={challenge} onChange={(e) => setChallenge(e.target.value)} required />
+					</div>
+					<div className='space-y-2'>
+						<Label htmlFor='requestDomain'>Verifier audience</Label>
+						<Input id='requestDomain' value={domain} onChange={(e) => setDomain(e.target.value)} placeholder='https://verifier.example' required />
+					</div>
+				</div>
+				<div className='space-y-2'>
+					<Label htmlFor='presentationDefinition'>Presentation definition</Label>
+					<textarea
+						id='presentationDefinition'
+						value={input}
+						onChange={(e) => setInput(e.target.value)}
+						rows={8}
+						className='flex w-full rounded-md border border-input bg-background px-3 py-2 text-xs font-mono'
+						placeholder='Paste the presentation_definition JSON from the verifier'
+						required
+					/>
+				</div>
+				<Button type='submit' variant='outline' className='w-full'>
+					Load Request
+				</Button>
+			</form>
+
+			{definition && (
+				<div className='space-y-4'>
+					<div>
+						<h4 className='font-medium'>{definition.name || definition.id}</h4>
+						{definition.purpose && <p className='text-sm text-muted-foreground'>{definition.purpose}</p>}
+					</div>
+
+					<DescriptorMatchList matches={matches} selection={selection} onSelect={(id, entryId) => setSelection((prev) => ({...prev, [id]: entryId}))} />
+
+					{problems.length > 0 && (
+						<Alert variant='destructive'>
+							<AlertCircle className='h-4 w-4' />
+							<AlertDescription>
+								<ul className='list-disc pl-4'>
+									{problems.map((problem) => (
+										<li key={problem}>{problem}</li>
+									))}
+								</ul>
+							</AlertDescription>
+						</Alert>
+					)}
+
+					<KeystoreUnlock />
+
+					<Button type='button' className='w-full' onClick={handleRespond} disabled={loading || problems.length > 0}>
+						{loading ? 'Generating Proofs...' : 'Create Presentation'}
+					</Button>
+				</div>
+			)}
+
+			{presentation && (
+				<div className='space-y-2'>
+					<Alert variant='success'>
+						<CheckCircle2 className='h-4 w-4' />
+						<AlertDescription>Presentation created for {definition?.name || definition?.id}</AlertDescription>
+					</Alert>
+					<div className='flex items-center justify-between'>
+						<Label>Presentation</Label>
+						<Button type='button' variant='outline' size='sm' onClick={handleCopy}>
+							<Copy className='w-4 h-4 mr-2' />
+							{copied ? 'Copied' : 'Copy'}
+						</Button>
+					</div>
+					<pre className='p-3 bg-muted rounded-md text-xs overflow-x-auto max-h-96'>{encoded}</pre>
+				</div>
+			)}
+		</div>
+	)
+}
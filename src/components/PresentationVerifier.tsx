@@ -0,0 +1,144 @@
+'use client'
+
+import {useEffect, useState} from 'react'
+import {parsePresentationJSON, verifyPresentation, type PresentationVerification} from '@/lib/presentations'
+import {evaluatePresentationSubmission, parsePresentationDefinition} from '@/lib/presentation-exchange'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {Alert, AlertDescription, AlertTitle} from '@/components/ui/alert'
+import {AlertCircle, CheckCircle2, RefreshCw, XCircle} from 'lucide-react'
+
+// Random hex nonce for the holder to sign
+function createNonce(): string {
+	return Array.from(crypto.getRandomValues(new Uint8Array(16)), (byte) => byte.toString(16).padStart(2, '0')).join('')
+}
+
+export default function PresentationVerifier() {
+	const [input, setInput] = useState('')
+	const [challenge, setChallenge] = useState('')
+	const [domain, setDomain] = useState('')
+	const [minimumAge, setMinimumAge] = useState('')
+	const [definitionInput, setDefinitionInput] = useState('')
+	const [result, setResult] = useState<PresentationVerification | null>(null)
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+
+	// Generated after mount so server and client render the same markup
+	useEffect(() => {
+		setChallenge(createNonce())
+		setDomain(window.location.origin)
+	}, [])
+
+	const handleVerify = async (e: React.FormEvent) => {
+		e.preventDefault()
+		setError(null)
+		setResult(null)
+		setLoading(true)
+
+		try {
+			const minimum = minimumAge ? parseInt(minimumAge, 10) : undefined
+			const data = parsePresentationJSON(input)
+			const definition = definitionInput.trim() ? parsePresentationDefinition(JSON.parse(definitionInput)) : null
+			const verification = await verifyPresentation(data, {
+				challenge: challenge.trim(),
+				domain: domain.trim(),
+				minimumAgeThreshold: Number.isNaN(minimum) ? undefined : minimum,
+			})
+
+			// Also check the presentation answers what was asked for
+			if (definition && data && typeof data === 'object') {
+				const errors = evaluatePresentationSubmission(definition, data as Record<string, unknown>)
+				verification.checks.push({name: `Answers ${definition.name || definition.id}`, passed: errors.length === 0, detail: errors.join('; ') || undefined})
+				verification.verified = verification.verified && errors.length === 0
+			}
+			setResult(verification)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Failed to verify presentation')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	return (
+		<div className='space-y-4'>
+			{error && (
+				<Alert variant='destructive'>
+					<AlertCircle className='h-4 w-4' />
+					<AlertDescription>{error}</AlertDescription>
+				</Alert>
+			)}
+
+			<form onSubmit={handleVerify} className='space-y-4'>
+				<div className='grid gap-4 sm:grid-cols-2'>
+					<div className='space-y-2'>
+						<Label htmlFor='verifierChallenge'>Nonce</Label>
+						<div className='flex gap-2'>
+							<Input id='verifierChallenge' value={challenge} onChange={(e) => setChallenge(e.target.value)} required />
+							<Button type='button' variant='outline' size='icon' onClick={() => setChallenge(createNonce())} aria-label='New nonce'>
+								<RefreshCw className='w-4 h-4' />
+							</Button>
+						</div>
+					</div>
+					<div className='space-y-2'>
+						<Label htmlFor='verifierDomain'>Audience</Label>
+						<Input id='verifierDomain' value={domain} onChange={(e) => setDomain(e.target.value)} required />
+					</div>
+				</div>
+				<p className='text-xs text-muted-foreground'>Give the holder this nonce and audience; the presentation must be signed for both.</p>
+
+				<div className='space-y-2'>
+					<Label htmlFor='verifierMinimumAge'>Required minimum age (optional)</Label>
+					<Input id='verifierMinimumAge' type='number' min={0} value={minimumAge} onChange={(e) => setMinimumAge(e.target.value)} />
+				</div>
+
+				<div className='space-y-2'>
+					<Label htmlFor='verifierDefinition'>Presentation definition (optional)</Label>
+					<textarea
+						id='verifierDefinition'
+						value={definitionInput}
+						onChange={(e) => setDefinitionInput(e.target.value)}
+						rows={4}
+						className='flex w-full rounded-md border border-input bg-background px-3 py-2 text-xs font-mono'
+						placeholder='The DIF Presentation Exchange definition the presentation should answer'
+					/>
+				</div>
+
+				<div className='space-y-2'>
+					<Label htmlFor='presentationInput'>Presentation</Label>
+					<textarea
+						id='presentationInput'
+						value={input}
+						onChange={(e) => setInput(e.target.value)}
+						rows={8}
+						className='flex w-full rounded-md border border-input bg-background px-3 py-2 text-xs font-mono'
+						placeholder='Paste the presentation JSON'
+						required
+					/>
+				</div>
+
+				<Button type='submit' className='w-full' disabled={loading}>
+					{loading ? 'Verifying...' : 'Verify Presentation'}
+				</Button>
+			</form>
+
+			{result && (
+				<Alert variant={result.verified ? 'success' : 'destructive'}>
+					{result.verified ? <CheckCircle2 className='h-4 w-4' /> : <XCircle className='h-4 w-4' />}
+					<AlertTitle>{result.verified ? 'Presentation verified' : 'Presentation rejected'}</AlertTitle>
+					<AlertDescription>
+						{result.holder && <p className='break-all mb-2'>Holder: {result.holder}</p>}
+						<ul className='space-y-1'>
+							{result.checks.map((check, index) => (
+								<li key={index}>
+									{check.passed ? '✓' : '✗'} {check.name}
+									{check.detail && <span className='block text-xs break-all'>{check.detail}</span>}
+								</li>
+							))}
+						</ul>
+					</AlertDescription>
+				</Alert>
+			)}
+		</div>
+	)
+}
@@ -0,0 +1,106 @@
+'use client'
+
+import {useEffect, useRef, useState} from 'react'
+import {QRCodeSVG} from 'qrcode.react'
+import {generateQRChallenge} from '@/app/api/did'
+import type {QRLoginRequest} from '@/lib/qr-login'
+import type {QRSessionState} from '@/lib/qr-session'
+import {useQRSession} from '@/hooks/use-qr-session'
+import {Button} from '@/components/ui/button'
+import {QrCode} from 'lucide-react'
+
+interface QRLoginPanelProps {
+	// Called once the holder approved the request; exchanges the approved challenge for a session
+	onApproved: (didId: string, challenge: string) => Promise<void>
+	onError: (message: string) => void
+	children?: React.ReactNode
+}
+
+const stateLabels: Record<QRSessionState, string> = {
+	pending: 'Scan with your wallet...',
+	scanned: 'Scanned, waiting for approval...',
+	approved: 'Approved, signing you in...',
+	rejected: 'Login was rejected in the wallet',
+	expired: 'QR code expired',
+}
+
+const stateColors: Record<QRSessionState, string> = {
+	pending: 'bg-primary animate-pulse',
+	scanned: 'bg-yellow-500 animate-pulse',
+	approved: 'bg-green-500',
+	rejected: 'bg-red-500',
+	expired: 'bg-gray-400',
+}
+
+export default function QRLoginPanel({onApproved, onError, children}: QRLoginPanelProps) {
+	const [request, setRequest] = useState<QRLoginRequest | null>(null)
+	const [uri, setURI] = useState('')
+	const [loading, setLoading] = useState(false)
+	const {status} = useQRSession(request)
+	const completedRef = useRef<string | null>(null)
+
+	const state = status?.state
+	const didId = status?.didId
+
+	const generate = async () => {
+		try {
+			setLoading(true)
+			setRequest(null)
+			setURI('')
+			// The QR encodes the server challenge as a versioned login URI the holder's wallet can open
+			const result = await generateQRChallenge()
+			setRequest(result.request)
+			setURI(result.uri)
+		} catch (err) {
+			onError(err instanceof Error ? err.message : 'Failed to generate QR code')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	useEffect(() => {
+		if (state !== 'approved' || !didId || !request || completedRef.current === request.challenge) return
+		completedRef.current = request.challenge
+		onApproved(didId, request.challenge).catch((err) => onError(err instanceof Error ? err.message : 'QR authentication failed'))
+	}, [state, didId, request, onApproved, onError])
+
+	const finished = state === 'rejected' || state === 'expired'
+
+	return (
+		<div className='mt-4 flex flex-col items-center space-y-4'>
+			<div className='w-48 h-48 bg-muted rounded-lg flex items-center justify-center p-4'>
+				{loading ? (
+					<div className='animate-pulse bg-muted w-full h-full rounded-lg' />
+				) : uri && !finished ? (
+					<QRCodeSVG value={uri} size={180} level='M' includeMargin={true} />
+				) : (
+					<Button variant='outline' onClick={generate}>
+						<QrCode className='w-6 h-6 mr-2' />
+						{finished ? 'New QR Code' : 'Generate QR Code'}
+					</Button>
+				)}
+			</div>
+
+			<div className='text-center space-y-2'>
+				<div className='flex items-center justify-center space-x-2'>
+					<div className={`w-2 h-2 rounded-full ${state ? stateColors[state] : 'bg-primary animate-pulse'}`} />
+					<span className='text-sm text-muted-foreground'>{state ? stateLabels[state] : 'Click to generate QR code'}</span>
+				</div>
+				{status?.error && <div className='text-xs text-muted-foreground'>Connection problem, retrying: {status.error}</div>}
+
+				{request && (
+					<div className='space-y-2'>
+						<div className='text-xs text-muted-foreground max-w-xs break-all'>Challenge: {request.challenge}</div>
+						<div className='text-xs text-muted-foreground'>Expires {new Date(request.expiresAt).toLocaleTimeString()}</div>
+						{!finished && (
+							<Button variant='ghost' size='sm' onClick={generate}>
+								Generate new QR code
+							</Button>
+						)}
+						{children}
+					</div>
+				)}
+			</div>
+		</div>
+	)
+}
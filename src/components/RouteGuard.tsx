@@ -0,0 +1,30 @@
+'use client'
+
+import {useMemo} from 'react'
+import {usePathname} from 'next/navigation'
+import {decodeTokenClaims} from '@/lib/auth'
+import {evaluateRoutePolicy, getSessionClaims} from '@/lib/route-policy'
+import {useAuth} from '@/components/AuthProvider'
+import ForbiddenCard from '@/components/ForbiddenCard'
+
+// Client-side mirror of the middleware's route policy so in-app navigation gets the same answer.
+// The token is not verified here; the middleware remains the enforcement point.
+export default function RouteGuard({children}: {children: React.ReactNode}) {
+	const pathname = usePathname()
+	const {token, isAuthenticated, loading} = useAuth()
+
+	const decision = useMemo(() => {
+		if (loading) return null
+		const claims = isAuthenticated && token ? decodeTokenClaims(token) : null
+		return evaluateRoutePolicy(pathname, claims ? getSessionClaims(claims) : null)
+	}, [pathname, isAuthenticated, token, loading])
+
+	if (!decision) {
+		return null
+	}
+	if (!decision.allowed) {
+		// Unauthenticated sessions are redirected by the dashboard layout
+		return decision.reason === 'forbidden' ? <ForbiddenCard missing={decision.missing} /> : null
+	}
+	return <>{children}</>
+}
@@ -0,0 +1,198 @@
+'use client'
+
+import {useState} from 'react'
+import {QRCodeSVG} from 'qrcode.react'
+import {confirmTwoFactorEnrollment, disableTwoFactor, formatRecoveryCodes, regenerateRecoveryCodes, startTwoFactorEnrollment} from '@/lib/two-factor'
+import type {TwoFactorEnrollment} from '@/lib/two-factor'
+import {useUser} from '@/components/AuthProvider'
+import {Card, CardContent, CardDescription, CardHeader, CardTitle} from '@/components/ui/card'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {Badge} from '@/components/ui/badge'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {AlertCircle, Copy, Download, ShieldCheck} from 'lucide-react'
+
+type Step = 'idle' | 'enrolling' | 'recovery-codes'
+
+export default function TwoFactorSettings() {
+	const user = useUser()
+	const [step, setStep] = useState<Step>('idle')
+	const [enrollment, setEnrollment] = useState<TwoFactorEnrollment | null>(null)
+	const [recoveryCodes, setRecoveryCodes] = useState<string[]>([])
+	const [code, setCode] = useState('')
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+
+	if (!user) return null
+
+	const run = async (action: () => Promise<void>, fallback: string) => {
+		setError(null)
+		setLoading(true)
+		try {
+			await action()
+		} catch (err) {
+			setError(err instanceof Error ? err.message : fallback)
+		} finally {
+			setLoading(false)
+			setCode('')
+		}
+	}
+
+	const handleStart = () =>
+		run(async () => {
+			setEnrollment(await startTwoFactorEnrollment())
+			setStep('enrolling')
+		}, 'Failed to start two-factor enrollment')
+
+	const handleConfirm = (e: React.FormEvent) => {
+		e.preventDefault()
+		run(async () => {
+			setRecoveryCodes(await confirmTwoFactorEnrollment(code))
+			setEnrollment(null)
+			setStep('recovery-codes')
+		}, 'Invalid verification code')
+	}
+
+	const handleRegenerate = () =>
+		run(async () => {
+			setRecoveryCodes(await regenerateRecoveryCodes(code))
+			setStep('recovery-codes')
+		}, 'Failed to regenerate recovery codes')
+
+	const handleDisable = () => run(() => disableTwoFactor(code), 'Failed to disable two-factor authentication')
+
+	const handleCancel = () => {
+		setEnrollment(null)
+		setStep('idle')
+		setCode('')
+		setError(null)
+	}
+
+	const handleDownload = () => {
+		const url = URL.createObjectURL(new Blob([formatRecoveryCodes(recoveryCodes, user.username)], {type: 'text/plain'}))
+		const link = document.createElement('a')
+		link.href = url
+		link.download = `recovery-codes-${user.username}.txt`
+		link.click()
+		URL.revokeObjectURL(url)
+	}
+
+	return (
+		<Card className='mt-6'>
+			<CardHeader>
+				<CardTitle className='flex items-center gap-2'>
+					<ShieldCheck className='h-5 w-5' />
+					Two-Factor Authentication
+					<Badge variant={user.is_two_factor_enabled ? 'default' : 'secondary'}>{user.is_two_factor_enabled ? 'Enabled' : 'Disabled'}</Badge>
+				</CardTitle>
+				<CardDescription>Require a code from an authenticator app when signing in</CardDescription>
+			</CardHeader>
+			<CardContent className='space-y-4'>
+				{error && (
+					<Alert variant='destructive'>
+						<AlertCircle className='h-4 w-4' />
+						<AlertDescription>{error}</AlertDescription>
+					</Alert>
+				)}
+
+				{step === 'idle' && !user.is_two_factor_enabled && (
+					<Button onClick={handleStart} disabled={loading}>
+						{loading ? 'Starting...' : 'Set up authenticator app'}
+					</Button>
+				)}
+
+				{step === 'idle' && user.is_two_factor_enabled && (
+					<div className='space-y-4'>
+						<div className='space-y-2'>
+							<Label htmlFor='two-factor-code'>Current code</Label>
+							<Input
+								id='two-factor-code'
+								autoComplete='one-time-code'
+								placeholder='Authenticator or recovery code'
+								value={code}
+								onChange={(e) => setCode(e.target.value.trim())}
+							/>
+							<p className='text-xs text-muted-foreground'>Required to change two-factor settings.</p>
+						</div>
+						<div className='flex gap-2'>
+							<Button variant='outline' onClick={handleRegenerate} disabled={loading || !code}>
+								Regenerate recovery codes
+							</Button>
+							<Button variant='destructive' onClick={handleDisable} disabled={loading || !code}>
+								Disable
+							</Button>
+						</div>
+					</div>
+				)}
+
+				{step === 'enrolling' && enrollment && (
+					<form onSubmit={handleConfirm} className='space-y-4'>
+						<p className='text-sm'>Scan this QR code with your authenticator app, then enter the code it shows.</p>
+						<div className='flex justify-center'>
+							<QRCodeSVG value={enrollment.otpauthUri} size={180} level='M' includeMargin={true} />
+						</div>
+						<div className='space-y-1'>
+							<Label>Can&apos;t scan? Enter this key manually</Label>
+							<code className='block p-2 bg-muted rounded-md text-xs break-all'>{enrollment.secret}</code>
+						</div>
+						<div className='space-y-2'>
+							<Label htmlFor='enroll-code'>Verification code</Label>
+							<Input
+								id='enroll-code'
+								inputMode='numeric'
+								autoComplete='one-time-code'
+								pattern='[0-9]{6}'
+								maxLength={6}
+								placeholder='123456'
+								required
+								value={code}
+								onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+							/>
+						</div>
+						<div className='flex gap-2'>
+							<Button type='submit' disabled={loading || code.length !== 6}>
+								{loading ? 'Verifying...' : 'Verify and enable'}
+							</Button>
+							<Button type='button' variant='outline' onClick={handleCancel}>
+								Cancel
+							</Button>
+						</div>
+					</form>
+				)}
+
+				{step === 'recovery-codes' && (
+					<div className='space-y-4'>
+						<Alert variant='success'>
+							<AlertDescription>
+								Save these recovery codes somewhere safe. Each one signs you in once if you lose your authenticator, and they will not be shown again.
+							</AlertDescription>
+						</Alert>
+						<div className='grid grid-cols-2 gap-2 p-4 bg-muted rounded-md font-mono text-sm'>
+							{recoveryCodes.map((recoveryCode) => (
+								<span key={recoveryCode}>{recoveryCode}</span>
+							))}
+						</div>
+						<div className='flex gap-2'>
+							<Button variant='outline' onClick={handleDownload}>
+								<Download className='mr-2 h-4 w-4' />
+								Download
+							</Button>
+							<Button variant='outline' onClick={() => navigator.clipboard.writeText(recoveryCodes.join('\n'))}>
+								<Copy className='mr-2 h-4 w-4' />
+								Copy
+							</Button>
+							<Button
+								onClick={() => {
+									setRecoveryCodes([])
+									setStep('idle')
+								}}>
+								I&apos;ve saved them
+							</Button>
+						</div>
+					</div>
+				)}
+			</CardContent>
+		</Card>
+	)
+}
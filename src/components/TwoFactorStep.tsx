@@ -0,0 +1,108 @@
+'use client'
+
+import {useState} from 'react'
+import {twoFactorStrategy} from '@/lib/auth'
+import type {AuthResponse, TwoFactorChallenge, TwoFactorMethod} from '@/lib/auth'
+import {useAuth} from '@/components/AuthProvider'
+import {Button} from '@/components/ui/button'
+import {Input} from '@/components/ui/input'
+import {Label} from '@/components/ui/label'
+import {Alert, AlertDescription} from '@/components/ui/alert'
+import {AlertCircle, ShieldCheck} from 'lucide-react'
+
+interface TwoFactorStepProps {
+	challenge: TwoFactorChallenge
+	onComplete: (response: AuthResponse) => void
+	onCancel: () => void
+}
+
+export default function TwoFactorStep({challenge, onComplete, onCancel}: TwoFactorStepProps) {
+	const {login} = useAuth()
+	const [method, setMethod] = useState<TwoFactorMethod>(challenge.methods.includes('totp') ? 'totp' : 'recovery')
+	const [code, setCode] = useState('')
+	const [error, setError] = useState<string | null>(null)
+	const [loading, setLoading] = useState(false)
+
+	const handleSubmit = async (e: React.FormEvent) => {
+		e.preventDefault()
+		setError(null)
+		setLoading(true)
+
+		try {
+			const response = await login(twoFactorStrategy, {challenge, code: code.trim(), method})
+			onComplete(response)
+		} catch (err) {
+			setError(err instanceof Error ? err.message : 'Two-factor verification failed')
+			setCode('')
+		} finally {
+			setLoading(false)
+		}
+	}
+
+	const switchMethod = (next: TwoFactorMethod) => {
+		setMethod(next)
+		setCode('')
+		setError(null)
+	}
+
+	return (
+		<form onSubmit={handleSubmit} className='space-y-4'>
+			<div className='flex items-center gap-2'>
+				<ShieldCheck className='h-5 w-5 text-primary' />
+				<h3 className='font-medium'>Two-factor authentication</h3>
+			</div>
+
+			{error && (
+				<Alert variant='destructive'>
+					<AlertCircle className='h-4 w-4' />
+					<AlertDescription>{error}</AlertDescription>
+				</Alert>
+			)}
+
+			{method === 'totp' ? (
+				<div className='space-y-2'>
+					<Label htmlFor='totp-code'>Authentication code</Label>
+					<Input
+						id='totp-code'
+						inputMode='numeric'
+						autoComplete='one-time-code'
+						pattern='[0-9]{6}'
+						maxLength={6}
+						placeholder='123456'
+						required
+						autoFocus
+						value={code}
+						onChange={(e) => setCode(e.target.value.replace(/\D/g, ''))}
+					/>
+					<p className='text-xs text-muted-foreground'>Enter the 6-digit code from your authenticator app.</p>
+				</div>
+			) : (
+				<div className='space-y-2'>
+					<Label htmlFor='recovery-code'>Recovery code</Label>
+					<Input id='recovery-code' autoComplete='off' required autoFocus value={code} onChange={(e) => setCode(e.target.value)} />
+					<p className='text-xs text-muted-foreground'>Each recovery code can only be used once.</p>
+				</div>
+			)}
+
+			<Button type='submit' className='w-full' disabled={loading || !code}>
+				{loading ? 'Verifying...' : 'Verify'}
+			</Button>
+
+			<div className='flex justify-between text-sm'>
+				{challenge.methods.includes('recovery') && method === 'totp' && (
+					<button type='button' className='text-primary hover:underline' onClick={() => switchMethod('recovery')}>
+						Use a recovery code
+					</button>
+				)}
+				{challenge.methods.includes('totp') && method === 'recovery' && (
+					<button type='button' className='text-primary hover:underline' onClick={() => switchMethod('totp')}>
+						Use authenticator app
+					</button>
+				)}
+				<button type='button' className='text-muted-foreground hover:underline ml-auto' onClick={onCancel}>
+					Cancel
+				</button>
+			</div>
+		</form>
+	)
+}
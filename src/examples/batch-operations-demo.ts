@@ -27,10 +27,11 @@ export async function demonstrateIndividualOperations() {
 
 		// Step 2: Authenticate DID
 		console.log('2. Authenticating DID...');
+		const challenge = 'demo-challenge-123';
 		const authResponse = await authenticateDID(
 			didResponse.did.ID,
 			didResponse.privateKey,
-			'demo-challenge-123'
+			challenge
 		);
 		console.log('Authentication proof generated');
 
@@ -39,7 +40,8 @@ export async function demonstrateIndividualOperations() {
 		const verified = await verifyDID(
 			didResponse.did.ID,
 			authResponse.signature,
-			authResponse.proof
+			authResponse.proof,
+			challenge
 		);
 		console.log('Verification result:', verified);
 
@@ -0,0 +1,41 @@
+'use client'
+
+import {useCallback, useEffect, useRef, useState} from 'react'
+import {QRSessionClient, QRSessionStatus} from '@/lib/qr-session'
+
+interface QRSessionTarget {
+	challenge: string
+	expiresAt: string
+}
+
+// Watch a QR login session for as long as the component is mounted and the session is set
+export function useQRSession(session: QRSessionTarget | null) {
+	const [status, setStatus] = useState<QRSessionStatus | null>(null)
+	const clientRef = useRef<QRSessionClient | null>(null)
+	const challenge = session?.challenge
+	const expiresAt = session?.expiresAt
+
+	useEffect(() => {
+		if (!challenge || !expiresAt) {
+			setStatus(null)
+			return
+		}
+
+		const client = new QRSessionClient(challenge, expiresAt)
+		clientRef.current = client
+		setStatus(client.current)
+		client.start(setStatus)
+
+		return () => {
+			client.cancel()
+			clientRef.current = null
+		}
+	}, [challenge, expiresAt])
+
+	const cancel = useCallback(() => {
+		clientRef.current?.cancel()
+		clientRef.current = null
+	}, [])
+
+	return {status, cancel}
+}
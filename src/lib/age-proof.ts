@@ -0,0 +1,106 @@
+// Age proof packages: generate from a wallet credential and verify with the DID WASM module
+import { z } from 'zod';
+import { wasmLoader, type ProgressCallback } from './wasm-loader';
+import { getCredentialCommitment } from './credentials';
+import type { WalletCredential } from './credential-wallet';
+
+export const AGE_PROOF_PACKAGE_TYPE = 'AgeProof';
+export const AGE_PROOF_PACKAGE_VERSION = 1;
+
+export const ageProofPackageSchema = z.object({
+	type: z.literal(AGE_PROOF_PACKAGE_TYPE),
+	version: z.literal(AGE_PROOF_PACKAGE_VERSION),
+	didId: z.string().min(1),
+	credentialId: z.string().min(1),
+	threshold: z.number().int().nonnegative(),
+	proof: z.string().min(1),
+	createdAt: z.string().datetime({ offset: true }),
+});
+
+export type AgeProofPackage = z.infer<typeof ageProofPackageSchema>;
+
+export interface AgeProofVerification {
+	verified: boolean;
+	threshold: number;
+	didId: string;
+}
+
+// Build an age proof for a held AgeCredential, reporting progress while the DID module loads
+export async function generateAgeProof(
+	entry: WalletCredential,
+	threshold: number,
+	progressCallback?: ProgressCallback
+): Promise<AgeProofPackage> {
+	const secrets = entry.secrets;
+	if (!secrets || secrets.kind !== 'age') {
+		throw new Error('This credential has no age secrets stored in the wallet');
+	}
+	if (!Number.isInteger(threshold) || threshold < 0) {
+		throw new Error('Threshold must be a positive whole number');
+	}
+	if (secrets.age < threshold) {
+		throw new Error(`This credential cannot prove an age of at least ${threshold}`);
+	}
+
+	progressCallback?.(0, 'Loading DID module');
+	await wasmLoader.loadDID((progress, stage) => {
+		progressCallback?.(progress * 0.6, stage);
+	});
+
+	const didId = entry.credential.credentialSubject.id;
+	const credentialId = getCredentialCommitment(entry.credential);
+
+	progressCallback?.(60, 'Generating zero-knowledge proof');
+	const result = await wasmLoader.createAgeProof(didId, credentialId, threshold, secrets.age, secrets.salt);
+	progressCallback?.(100, 'Proof generated');
+
+	return {
+		type: AGE_PROOF_PACKAGE_TYPE,
+		version: AGE_PROOF_PACKAGE_VERSION,
+		didId,
+		credentialId,
+		threshold,
+		proof: result.proof,
+		createdAt: new Date().toISOString(),
+	};
+}
+
+// Compact JSON used for copy/paste and QR codes
+export function encodeAgeProofPackage(proofPackage: AgeProofPackage): string {
+	return JSON.stringify(proofPackage);
+}
+
+export function parseAgeProofPackage(text: string): AgeProofPackage {
+	let data: unknown;
+	try {
+		data = JSON.parse(text.trim());
+	} catch {
+		throw new Error('Age proof is not valid JSON');
+	}
+
+	const parsed = ageProofPackageSchema.safeParse(data);
+	if (!parsed.success) {
+		throw new Error(`Invalid age proof: ${parsed.error.issues.map((issue) => `${issue.path.join('.')} ${issue.message}`).join(', ')}`);
+	}
+	return parsed.data;
+}
+
+// Run the ZK verifier; a minimum threshold lets the verifier insist on e.g. 21+
+export async function verifyAgeProofPackage(proofPackage: AgeProofPackage, minimumThreshold?: number): Promise<AgeProofVerification> {
+	if (minimumThreshold !== undefined && proofPackage.threshold < minimumThreshold) {
+		return { verified: false, threshold: proofPackage.threshold, didId: proofPackage.didId };
+	}
+
+	const result = await wasmLoader.verifyAgeProof(
+		proofPackage.didId,
+		proofPackage.credentialId,
+		proofPackage.threshold,
+		proofPackage.proof
+	);
+
+	return {
+		verified: result.verified,
+		threshold: proofPackage.threshold,
+		didId: proofPackage.didId,
+	};
+}
@@ -1,4 +1,5 @@
-import { buildApiUrl, getAuthCookieName, getAuthCookieMaxAge, setCookie, deleteCookie } from './config';
+import { buildApiUrl, getAuthCookieName, getAuthCookieMaxAge, getAuthRefreshMargin, setCookie, deleteCookie } from './config';
+import { keystore } from './keystore';
 
 export interface User {
 	id: number;
@@ -13,9 +14,41 @@ export interface User {
 
 export interface AuthResponse {
 	token: string;
+	refresh_token?: string;
 	user: User;
 }
 
+export class SessionExpiredError extends Error {
+	constructor(message: string = 'Session expired. Please login again.') {
+		super(message);
+		this.name = 'SessionExpiredError';
+	}
+}
+
+export type TwoFactorMethod = 'totp' | 'recovery';
+
+// Returned instead of a session when the account has a second factor enabled
+export interface TwoFactorChallenge {
+	// Short-lived token identifying the half-finished login
+	mfaToken: string;
+	methods: TwoFactorMethod[];
+	// DID the first factor was proven with, remembered once the login completes
+	didId?: string;
+}
+
+export class TwoFactorRequiredError extends Error {
+	constructor(public challenge: TwoFactorChallenge) {
+		super('Two-factor authentication required');
+		this.name = 'TwoFactorRequiredError';
+	}
+}
+
+export interface TwoFactorLoginData {
+	challenge: TwoFactorChallenge;
+	code: string;
+	method: TwoFactorMethod;
+}
+
 export interface LoginData {
 	username: string;
 	password: string;
@@ -26,6 +59,7 @@ export interface DIDLoginData {
 	challenge: string;
 	signature: string;
 	proof: string;
+	nonce?: string;
 }
 
 export interface UpdateProfileData {
@@ -47,20 +81,112 @@ export interface UpdateDIDSettingsData {
 	enabled: boolean;
 }
 
+// A login method (password, enhanced crypto, DID, ...) that exchanges credentials for a session
+export interface AuthStrategy<TCredentials> {
+	id: string;
+	login(credentials: TCredentials): Promise<AuthResponse>;
+}
+
+export type AuthEvent =
+	| { type: 'login'; user: User }
+	| { type: 'logout' }
+	| { type: 'user-updated'; user: User }
+	| { type: 'did-updated'; settings: DIDSettings | null }
+	| { type: 'token-refreshed' };
+
+// 'remote' events originate in another tab and were relayed by session-sync
+export type AuthEventSource = 'local' | 'remote';
+
+export type AuthListener = (event: AuthEvent, source: AuthEventSource) => void;
+
+const authListeners = new Set<AuthListener>();
+
+// Subscribe to session changes; returns an unsubscribe function
+export function onAuthChange(listener: AuthListener): () => void {
+	authListeners.add(listener);
+	return () => {
+		authListeners.delete(listener);
+	};
+}
+
+function emitAuthEvent(event: AuthEvent, source: AuthEventSource = 'local'): void {
+	authListeners.forEach((listener) => {
+		try {
+			listener(event, source);
+		} catch (error) {
+			console.error('Auth listener failed:', error);
+		}
+	});
+}
+
+// Apply a session change made in another tab; storage is shared, so only in-memory state needs updating
+export function applyRemoteAuthEvent(event: AuthEvent): void {
+	if (event.type === 'logout') {
+		cancelTokenRefresh();
+		keystore.lock();
+	} else if (event.type === 'login' || event.type === 'token-refreshed') {
+		scheduleTokenRefresh();
+	}
+	emitAuthEvent(event, 'remote');
+}
+
 // Update DID settings
 export async function updateDIDSettings(data: UpdateDIDSettingsData): Promise<void> {
-	const settings = {
+	const settings: DIDSettings = {
 		id: data.didId,
 		enabled: data.enabled,
 		lastAuthenticated: new Date().toISOString(),
+		backupVerifiedAt: getBackupVerifiedAt(data.didId),
 	};
 	localStorage.setItem('did_settings', JSON.stringify(settings));
+	emitAuthEvent({ type: 'did-updated', settings });
 
 	// Update user data with new DID
 	const userData = getUserData();
 	if (userData) {
 		userData.did = data.enabled ? data.didId : undefined;
 		setUserData(userData);
+		emitAuthEvent({ type: 'user-updated', user: userData });
+	}
+}
+
+// Remember the DID a session was authenticated with
+export function storeDIDSettings(didId: string): void {
+	const settings: DIDSettings = {
+		id: didId,
+		enabled: true,
+		lastAuthenticated: new Date().toISOString(),
+		backupVerifiedAt: getBackupVerifiedAt(didId),
+	};
+	localStorage.setItem('did_settings', JSON.stringify(settings));
+	emitAuthEvent({ type: 'did-updated', settings });
+}
+
+// Verified recovery phrase backups by DID; kept across logins because they describe the key, not the session
+function getBackupRecords(): Record<string, string> {
+	try {
+		return JSON.parse(localStorage.getItem('did_backups') || '{}');
+	} catch {
+		return {};
+	}
+}
+
+// Keep the backup marker when the settings are rewritten, including for a DID backed up before it was configured
+function getBackupVerifiedAt(didId: string): string | undefined {
+	const current = getDIDSettings();
+	return getBackupRecords()[didId] ?? (current?.id === didId ? current.backupVerifiedAt : undefined);
+}
+
+// Record a completed recovery phrase backup, and show it in the DID settings when didId is the configured DID
+export function markDIDBackupVerified(didId: string): void {
+	const verifiedAt = new Date().toISOString();
+	localStorage.setItem('did_backups', JSON.stringify({ ...getBackupRecords(), [didId]: verifiedAt }));
+
+	const current = getDIDSettings();
+	if (current?.id === didId) {
+		const settings: DIDSettings = { ...current, backupVerifiedAt: verifiedAt };
+		localStorage.setItem('did_settings', JSON.stringify(settings));
+		emitAuthEvent({ type: 'did-updated', settings });
 	}
 }
 
@@ -75,10 +201,146 @@ export function getToken(): string | null {
 	return localStorage.getItem('auth_token');
 }
 
-// Clear auth token from both localStorage and cookies
+// Clear auth and refresh tokens from both localStorage and cookies
 function clearToken(): void {
 	localStorage.removeItem('auth_token');
+	localStorage.removeItem('refresh_token');
 	deleteCookie(getAuthCookieName());
+	cancelTokenRefresh();
+}
+
+export function getRefreshToken(): string | null {
+	return localStorage.getItem('refresh_token');
+}
+
+// Decode the token payload without verifying it; only the middleware/server may trust these claims
+export function decodeTokenClaims(token: string): Record<string, unknown> | null {
+	try {
+		const [, payload] = token.split('.');
+		if (!payload) return null;
+
+		return JSON.parse(atob(payload.replace(/-/g, '+').replace(/_/g, '/')));
+	} catch {
+		return null;
+	}
+}
+
+// Read the exp claim as epoch ms
+export function getTokenExpiry(token: string): number | null {
+	const claims = decodeTokenClaims(token);
+	return typeof claims?.exp === 'number' ? claims.exp * 1000 : null;
+}
+
+// True when the token expires within the refresh margin
+function isTokenExpiring(token: string): boolean {
+	const expiry = getTokenExpiry(token);
+	return expiry !== null && expiry - Date.now() <= getAuthRefreshMargin();
+}
+
+let refreshPromise: Promise<string> | null = null;
+let refreshTimer: ReturnType<typeof setTimeout> | null = null;
+
+// setTimeout fires immediately for longer delays; the timer re-arms itself until the token is due
+const MAX_TIMER_DELAY_MS = 2147483647;
+const REFRESH_LOCK_NAME = 'did-auth-refresh';
+
+// Run refreshes one tab at a time, so a rotated refresh token is only redeemed once
+function withRefreshLock<T>(task: () => Promise<T>): Promise<T> {
+	if (typeof navigator === 'undefined' || !navigator.locks) {
+		return task();
+	}
+	return navigator.locks.request(REFRESH_LOCK_NAME, task);
+}
+
+// Exchange the refresh token for a new access token; concurrent callers (in any tab) share one request
+export function refreshSession(): Promise<string> {
+	if (!refreshPromise) {
+		const staleToken = getToken();
+		refreshPromise = withRefreshLock(async () => {
+			// Another tab refreshed while this one waited for the lock; storage already holds its tokens
+			const current = getToken();
+			if (current && current !== staleToken) {
+				return current;
+			}
+			return performRefresh();
+		}).finally(() => {
+			refreshPromise = null;
+		});
+	}
+	return refreshPromise;
+}
+
+async function performRefresh(): Promise<string> {
+	const refreshToken = getRefreshToken();
+	if (!refreshToken) {
+		logout();
+		throw new SessionExpiredError();
+	}
+
+	try {
+		const response = await fetch(buildApiUrl('/auth/refresh'), {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+			},
+			body: JSON.stringify({ refresh_token: refreshToken }),
+		});
+
+		if (!response.ok) {
+			const errorData = await response.json().catch(() => ({}));
+			throw new Error(errorData.message || 'Token refresh failed');
+		}
+
+		const data: Partial<AuthResponse> = await response.json();
+		if (!data.token) {
+			throw new Error('Token refresh returned no token');
+		}
+
+		setToken(data.token);
+		if (data.refresh_token) {
+			localStorage.setItem('refresh_token', data.refresh_token);
+		}
+		if (data.user) {
+			setUserData(data.user);
+			emitAuthEvent({ type: 'user-updated', user: data.user });
+		}
+		scheduleTokenRefresh();
+		emitAuthEvent({ type: 'token-refreshed' });
+		return data.token;
+	} catch (error) {
+		console.error('Session refresh failed:', error);
+		logout();
+		throw new SessionExpiredError();
+	}
+}
+
+function cancelTokenRefresh(): void {
+	if (refreshTimer) {
+		clearTimeout(refreshTimer);
+		refreshTimer = null;
+	}
+}
+
+// Refresh the access token shortly before it expires; call again whenever the token changes
+export function scheduleTokenRefresh(): void {
+	cancelTokenRefresh();
+
+	const token = getToken();
+	const expiry = token ? getTokenExpiry(token) : null;
+	if (expiry === null || !getRefreshToken()) return;
+
+	const delay = Math.min(Math.max(expiry - Date.now() - getAuthRefreshMargin(), 0), MAX_TIMER_DELAY_MS);
+	refreshTimer = setTimeout(() => {
+		// Another tab may have refreshed in the meantime
+		const current = getToken();
+		if (current && !isTokenExpiring(current)) {
+			scheduleTokenRefresh();
+			return;
+		}
+		refreshSession().catch(() => {
+			// refreshSession already logged the user out
+		});
+	}, delay);
 }
 
 // Store user data in localStorage
@@ -102,13 +364,29 @@ export function isAuthenticated(): boolean {
 	return !!getToken();
 }
 
-// Handle successful authentication
-function handleAuthSuccess(authResponse: AuthResponse) {
+// Persist a new session and notify subscribers; shared by every login strategy
+export function handleAuthSuccess(authResponse: AuthResponse): void {
 	setToken(authResponse.token);
+	if (authResponse.refresh_token) {
+		localStorage.setItem('refresh_token', authResponse.refresh_token);
+	} else {
+		localStorage.removeItem('refresh_token');
+	}
 	setUserData(authResponse.user);
-	// Dispatch an event that can be caught by layout components
-	const event = new CustomEvent('auth-success', { detail: authResponse });
-	window.dispatchEvent(event);
+	scheduleTokenRefresh();
+	emitAuthEvent({ type: 'login', user: authResponse.user });
+}
+
+// Throw TwoFactorRequiredError when a first-factor login answered with { two_factor_required, mfa_token } instead of a session
+export function assertNoTwoFactorChallenge(data: unknown, didId?: string): asserts data is AuthResponse {
+	const challenge = data as { two_factor_required?: boolean; mfa_token?: string; methods?: TwoFactorMethod[] };
+	if (challenge?.two_factor_required && challenge.mfa_token) {
+		throw new TwoFactorRequiredError({
+			mfaToken: challenge.mfa_token,
+			methods: challenge.methods?.length ? challenge.methods : ['totp', 'recovery'],
+			didId,
+		});
+	}
 }
 
 // Login user
@@ -127,6 +405,7 @@ export async function login(data: LoginData): Promise<AuthResponse> {
 	}
 
 	const authResponse = await response.json();
+	assertNoTwoFactorChallenge(authResponse);
 	handleAuthSuccess(authResponse);
 	return authResponse;
 }
@@ -147,15 +426,41 @@ export async function loginWithDID(data: DIDLoginData): Promise<AuthResponse> {
 	}
 
 	const authResponse = await response.json();
+	assertNoTwoFactorChallenge(authResponse, data.didId);
 	handleAuthSuccess(authResponse);
 
 	// Store DID settings
 	if (authResponse.user?.did) {
-		localStorage.setItem('did_settings', JSON.stringify({
-			id: authResponse.user.did,
-			enabled: true,
-			lastAuthenticated: new Date().toISOString(),
-		}));
+		storeDIDSettings(authResponse.user.did);
+	}
+
+	return authResponse;
+}
+
+// Finish a login that was interrupted by a second-factor challenge
+export async function verifyTwoFactorLogin(data: TwoFactorLoginData): Promise<AuthResponse> {
+	const response = await fetch(buildApiUrl('/auth/2fa/verify'), {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+		},
+		body: JSON.stringify({
+			mfa_token: data.challenge.mfaToken,
+			code: data.code,
+			method: data.method,
+		}),
+	});
+
+	if (!response.ok) {
+		const errorData = await response.json().catch(() => ({}));
+		throw new Error(errorData.message || 'Two-factor verification failed');
+	}
+
+	const authResponse = await response.json();
+	handleAuthSuccess(authResponse);
+
+	if (data.challenge.didId && authResponse.user?.did) {
+		storeDIDSettings(authResponse.user.did);
 	}
 
 	return authResponse;
@@ -181,21 +486,30 @@ export async function register(data: LoginData): Promise<AuthResponse> {
 	return authResponse;
 }
 
-// Logout user
+export const passwordStrategy: AuthStrategy<LoginData> = {
+	id: 'password',
+	login,
+};
+
+export const didStrategy: AuthStrategy<DIDLoginData> = {
+	id: 'did',
+	login: loginWithDID,
+};
+
+export const twoFactorStrategy: AuthStrategy<TwoFactorLoginData> = {
+	id: 'two-factor',
+	login: verifyTwoFactorLogin,
+};
+
+// Logout user; navigation is left to the caller (see AuthProvider)
 export function logout(): void {
 	clearToken();
 	removeUserData();
 	localStorage.removeItem('did_settings');
+	localStorage.removeItem('client_keypair');
+	keystore.lock();
 
-	// Dispatch logout event
-	window.dispatchEvent(new Event('auth-logout'));
-
-	// Let Next.js handle navigation
-	const event = new Event('auth-navigate', {
-		bubbles: true,
-		cancelable: true
-	});
-	window.dispatchEvent(event);
+	emitAuthEvent({ type: 'logout' });
 }
 
 // Update user profile
@@ -215,6 +529,7 @@ export async function updateProfile(data: UpdateProfileData): Promise<User> {
 
 	const updatedUser = await response.json();
 	setUserData(updatedUser);
+	emitAuthEvent({ type: 'user-updated', user: updatedUser });
 	return updatedUser;
 }
 
@@ -236,15 +551,21 @@ export async function updateSecurity(data: UpdateSecurityData): Promise<{ succes
 	const result = await response.json();
 	// Update user data in localStorage if security settings changed
 	if (result.success) {
-		const userData = getUserData();
-		if (userData) {
-			userData.is_two_factor_enabled = data.enable_two_factor;
-			setUserData(userData);
-		}
+		setTwoFactorEnabled(data.enable_two_factor);
 	}
 	return result;
 }
 
+// Reflect a two-factor enrollment change in the stored user
+export function setTwoFactorEnabled(enabled: boolean): void {
+	const userData = getUserData();
+	if (userData) {
+		userData.is_two_factor_enabled = enabled;
+		setUserData(userData);
+		emitAuthEvent({ type: 'user-updated', user: userData });
+	}
+}
+
 // Update password
 export async function updatePassword(data: UpdatePasswordData): Promise<{ success: boolean, message: string }> {
 	const response = await authenticatedFetch(buildApiUrl('/users/me/password'), {
@@ -268,6 +589,8 @@ export interface DIDSettings {
 	id: string;
 	enabled: boolean;
 	lastAuthenticated: string;
+	// Set once the user has passed the recovery phrase quiz for this DID
+	backupVerifiedAt?: string;
 }
 
 export function getDIDSettings(): DIDSettings | null {
@@ -275,20 +598,36 @@ export function getDIDSettings(): DIDSettings | null {
 	return settings ? JSON.parse(settings) : null;
 }
 
-// API request with authentication
+// API request with authentication; refreshes an expiring token first and retries once on 401
 export async function authenticatedFetch(url: string, options: RequestInit = {}): Promise<Response> {
-	const token = getToken();
+	let token = getToken();
 	if (!token) {
 		throw new Error('Not authenticated');
 	}
 
-	const headers = {
-		...options.headers,
-		Authorization: `Bearer ${token}`,
-	};
+	if (isTokenExpiring(token) && getRefreshToken()) {
+		token = await refreshSession();
+	}
 
-	return fetch(url, {
-		...options,
-		headers,
-	});
+	const send = (accessToken: string) =>
+		fetch(url, {
+			...options,
+			headers: {
+				...options.headers,
+				Authorization: `Bearer ${accessToken}`,
+			},
+		});
+
+	const response = await send(token);
+	if (response.status !== 401) {
+		return response;
+	}
+
+	if (!getRefreshToken()) {
+		logout();
+		throw new SessionExpiredError();
+	}
+
+	// refreshSession logs out and throws if the refresh token is rejected
+	return send(await refreshSession());
 }
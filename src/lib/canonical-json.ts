@@ -0,0 +1,13 @@
+// Deterministic JSON for hashing and signing: object keys sorted, undefined properties dropped
+export function canonicalJSON(value: unknown): string {
+	if (Array.isArray(value)) {
+		return `[${value.map(canonicalJSON).join(',')}]`;
+	}
+	if (value && typeof value === 'object') {
+		const entries = Object.entries(value as Record<string, unknown>)
+			.filter(([, item]) => item !== undefined)
+			.sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+		return `{${entries.map(([key, item]) => `${JSON.stringify(key)}:${canonicalJSON(item)}`).join(',')}}`;
+	}
+	return JSON.stringify(value);
+}
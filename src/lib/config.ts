@@ -3,10 +3,18 @@ interface Config {
 	auth: {
 		cookieName: string;
 		cookieMaxAge: number;
+		refreshMargin: number;
+		passwordKdfIterations: number;
 	};
 	did: {
 		pollingInterval: number;
+		maxPollingInterval: number;
 		qrSize: number;
+		resolverCacheTtl: number;
+	};
+	keystore: {
+		autoLockTimeout: number;
+		kdfIterations: number;
 	};
 }
 
@@ -15,10 +23,18 @@ const config: Config = {
 	auth: {
 		cookieName: process.env.NEXT_PUBLIC_AUTH_COOKIE_NAME || 'auth_token',
 		cookieMaxAge: parseInt(process.env.NEXT_PUBLIC_AUTH_COOKIE_MAX_AGE || '86400', 10),
+		refreshMargin: parseInt(process.env.NEXT_PUBLIC_AUTH_REFRESH_MARGIN || '60000', 10),
+		passwordKdfIterations: parseInt(process.env.NEXT_PUBLIC_AUTH_PASSWORD_KDF_ITERATIONS || '600000', 10),
 	},
 	did: {
 		pollingInterval: parseInt(process.env.NEXT_PUBLIC_DID_POLLING_INTERVAL || '2000', 10),
+		maxPollingInterval: parseInt(process.env.NEXT_PUBLIC_DID_MAX_POLLING_INTERVAL || '15000', 10),
 		qrSize: parseInt(process.env.NEXT_PUBLIC_DID_QR_SIZE || '256', 10),
+		resolverCacheTtl: parseInt(process.env.NEXT_PUBLIC_DID_RESOLVER_CACHE_TTL || '300000', 10),
+	},
+	keystore: {
+		autoLockTimeout: parseInt(process.env.NEXT_PUBLIC_KEYSTORE_AUTO_LOCK_TIMEOUT || '300000', 10),
+		kdfIterations: parseInt(process.env.NEXT_PUBLIC_KEYSTORE_KDF_ITERATIONS || '310000', 10),
 	},
 };
 
@@ -41,16 +57,68 @@ export function getAuthCookieMaxAge(): number {
 	return config.auth.cookieMaxAge;
 }
 
+// Helper function to get how long before expiry (ms) the access token is refreshed
+export function getAuthRefreshMargin(): number {
+	return config.auth.refreshMargin;
+}
+
+// Helper function to get the PBKDF2 iteration count for new password registrations
+export function getPasswordKdfIterations(): number {
+	return config.auth.passwordKdfIterations;
+}
+
 // Helper function to get DID polling interval
 export function getDidPollingInterval(): number {
 	return config.did.pollingInterval;
 }
 
+// Helper function to get the upper bound for QR status polling backoff
+export function getDidMaxPollingInterval(): number {
+	return config.did.maxPollingInterval;
+}
+
 // Helper function to get QR code size
 export function getDidQrSize(): number {
 	return config.did.qrSize;
 }
 
+// Helper function to get how long (ms) resolved DID documents are cached; 0 disables the cache
+export function getDidResolverCacheTtl(): number {
+	return config.did.resolverCacheTtl;
+}
+
+// Helper function to get the keystore auto-lock timeout (ms, 0 disables auto-lock)
+export function getKeystoreAutoLockTimeout(): number {
+	return config.keystore.autoLockTimeout;
+}
+
+// Helper function to get the PBKDF2 iteration count for new keystores
+export function getKeystoreKdfIterations(): number {
+	return config.keystore.kdfIterations;
+}
+
+// Server-side token verification settings (not NEXT_PUBLIC: only read by the middleware and server code)
+export interface JwtVerificationConfig {
+	jwksUrl?: string;
+	publicKey?: string;
+	issuer?: string;
+	audience?: string;
+	algorithms: string[];
+	clockTolerance: number;
+}
+
+export function getJwtVerificationConfig(): JwtVerificationConfig {
+	return {
+		jwksUrl: process.env.AUTH_JWKS_URL || undefined,
+		// PEM values in env files usually carry escaped newlines
+		publicKey: process.env.AUTH_JWT_PUBLIC_KEY?.replace(/\\n/g, '\n') || undefined,
+		issuer: process.env.AUTH_JWT_ISSUER || undefined,
+		audience: process.env.AUTH_JWT_AUDIENCE || undefined,
+		algorithms: (process.env.AUTH_JWT_ALGORITHMS || 'RS256,ES256,EdDSA').split(',').map((alg) => alg.trim()),
+		clockTolerance: parseInt(process.env.AUTH_JWT_CLOCK_TOLERANCE || '30', 10),
+	};
+}
+
 // Helper functions for cookie management
 export function setCookie(name: string, value: string, maxAge: number): void {
 	document.cookie = `${name}=${value}; path=/; max-age=${maxAge}; samesite=strict`;
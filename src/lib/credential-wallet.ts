@@ -0,0 +1,98 @@
+// Credential wallet: verifiable credentials held by the user, persisted in IndexedDB
+import { STORES, getRecord, getAllRecords, putRecord, deleteRecord } from './indexed-db';
+import {
+	CredentialValidationError,
+	serializeCredential,
+	verifiableCredentialSchema,
+	type VerifiableCredential,
+} from './credentials';
+
+// Private inputs needed to build zero-knowledge proofs from a credential
+export interface AgeCredentialSecrets {
+	kind: 'age';
+	age: number;
+	salt: string;
+}
+
+export interface MembershipCredentialSecrets {
+	kind: 'membership';
+	organizationId: string;
+	balance: number;
+	salt: string;
+}
+
+export type CredentialSecrets = AgeCredentialSecrets | MembershipCredentialSecrets;
+
+export interface WalletCredential {
+	id: string;
+	credential: VerifiableCredential;
+	secrets?: CredentialSecrets;
+	addedAt: string;
+}
+
+export class CredentialWallet {
+	/**
+	 * List every held credential, newest first
+	 */
+	async list(): Promise<WalletCredential[]> {
+		const entries = await getAllRecords<WalletCredential>(STORES.credentials);
+		return entries.sort((a, b) => b.addedAt.localeCompare(a.addedAt));
+	}
+
+	async get(id: string): Promise<WalletCredential | undefined> {
+		return getRecord<WalletCredential>(STORES.credentials, id);
+	}
+
+	/**
+	 * Validate and store a credential together with its proof secrets
+	 */
+	async add(credential: VerifiableCredential, secrets?: CredentialSecrets): Promise<WalletCredential> {
+		const parsed = verifiableCredentialSchema.safeParse(credential);
+		if (!parsed.success) {
+			throw new CredentialValidationError(
+				'Invalid verifiable credential',
+				parsed.error.issues.map((issue) => `${issue.path.join('.') || 'credential'}: ${issue.message}`)
+			);
+		}
+
+		const entry: WalletCredential = {
+			id: credential.id || `urn:uuid:${crypto.randomUUID()}`,
+			credential,
+			secrets,
+			addedAt: new Date().toISOString(),
+		};
+
+		try {
+			await putRecord(STORES.credentials, entry);
+			return entry;
+		} catch (error) {
+			throw new Error(`Failed to store credential: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	async remove(id: string): Promise<void> {
+		await deleteRecord(STORES.credentials, id);
+	}
+
+	/**
+	 * Serialize a credential for export (secrets are never included)
+	 */
+	async export(id: string): Promise<string> {
+		const entry = await this.get(id);
+		if (!entry) {
+			throw new Error(`Credential ${id} not found`);
+		}
+		return serializeCredential(entry.credential);
+	}
+
+	/**
+	 * Find held credentials of a given type, e.g. AgeCredential
+	 */
+	async findByType(type: string): Promise<WalletCredential[]> {
+		const entries = await this.list();
+		return entries.filter((entry) => entry.credential.type.includes(type));
+	}
+}
+
+// Export singleton instance
+export const credentialWallet = new CredentialWallet();
@@ -0,0 +1,243 @@
+// W3C Verifiable Credential (Data Model 2.0) envelope for the gnark credentials issued by the DID WASM module
+import { z } from 'zod';
+import nacl from 'tweetnacl';
+import { canonicalJSON } from './canonical-json';
+import { didResolver } from './did-resolver';
+import { getVerificationMethodKey } from './did-methods';
+import { findVerificationMethod, isAuthorizedFor } from './did-document';
+import { hexToBytes } from './encoding';
+import type { CredentialResult } from './wasm-loader';
+
+export const VC_CONTEXT_V2 = 'https://www.w3.org/ns/credentials/v2';
+export const ZK_CREDENTIAL_CONTEXT = 'https://w3id.org/gnark-did/credentials/v1';
+
+export const AGE_CREDENTIAL_TYPE = 'AgeCredential';
+export const MEMBERSHIP_CREDENTIAL_TYPE = 'MembershipCredential';
+export const GNARK_COMMITMENT_PROOF_TYPE = 'GnarkCommitmentProof2024';
+
+const DEFAULT_VALIDITY_MS = 365 * 24 * 60 * 60 * 1000;
+
+const didSchema = z.string().regex(/^did:[a-z0-9]+:.+$/, 'Must be a DID');
+const dateTimeSchema = z.string().datetime({ offset: true });
+
+export const credentialProofSchema = z.object({
+	type: z.string().min(1),
+	created: dateTimeSchema,
+	verificationMethod: z.string().min(1),
+	proofPurpose: z.string().min(1),
+	proofValue: z.string().min(1),
+	// Issuer's Ed25519 signature (hex) over the credential, made with the verificationMethod key
+	signatureValue: z.string().min(1).optional(),
+}).passthrough();
+
+export const credentialSubjectSchema = z.object({
+	id: didSchema,
+}).passthrough();
+
+export const verifiableCredentialSchema = z.object({
+	'@context': z.array(z.union([z.string(), z.record(z.unknown())]))
+		.refine((contexts) => contexts[0] === VC_CONTEXT_V2, `First @context entry must be ${VC_CONTEXT_V2}`),
+	id: z.string().optional(),
+	type: z.array(z.string())
+		.refine((types) => types.includes('VerifiableCredential'), 'type must include VerifiableCredential'),
+	issuer: z.union([didSchema, z.object({ id: didSchema }).passthrough()]),
+	validFrom: dateTimeSchema.optional(),
+	validUntil: dateTimeSchema.optional(),
+	credentialSubject: credentialSubjectSchema,
+	proof: credentialProofSchema,
+}).passthrough();
+
+export type CredentialProof = z.infer<typeof credentialProofSchema>;
+export type VerifiableCredential = z.infer<typeof verifiableCredentialSchema>;
+
+export type CredentialStatus = 'active' | 'expired' | 'pending';
+
+export interface CredentialValidationResult {
+	valid: boolean;
+	errors: string[];
+}
+
+export class CredentialValidationError extends Error {
+	constructor(message: string, public readonly errors: string[] = []) {
+		super(message);
+		this.name = 'CredentialValidationError';
+	}
+}
+
+export interface AgeCredentialOptions {
+	issuer: string;
+	subject: string;
+	credentialResult: CredentialResult;
+	validFrom?: Date;
+	validUntil?: Date;
+}
+
+export interface MembershipCredentialOptions {
+	issuer: string;
+	subject: string;
+	organizationIdHash: string;
+	commitment: string;
+	validFrom?: Date;
+	validUntil?: Date;
+}
+
+// Calculate age in whole years from an ISO date of birth
+export function calculateAge(dob: string, today: Date = new Date()): number {
+	const dobDate = new Date(dob);
+	let age = today.getFullYear() - dobDate.getFullYear();
+	const monthDiff = today.getMonth() - dobDate.getMonth();
+	if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < dobDate.getDate())) {
+		age--;
+	}
+	return age;
+}
+
+// Build a VC whose proof section carries a gnark commitment
+function buildCommitmentCredential(
+	type: string,
+	options: { issuer: string; validFrom?: Date; validUntil?: Date },
+	credentialSubject: VerifiableCredential['credentialSubject'],
+	commitment: string
+): VerifiableCredential {
+	const validFrom = options.validFrom ?? new Date();
+	const validUntil = options.validUntil ?? new Date(validFrom.getTime() + DEFAULT_VALIDITY_MS);
+
+	return {
+		'@context': [VC_CONTEXT_V2, ZK_CREDENTIAL_CONTEXT],
+		id: `urn:uuid:${crypto.randomUUID()}`,
+		type: ['VerifiableCredential', type],
+		issuer: options.issuer,
+		validFrom: validFrom.toISOString(),
+		validUntil: validUntil.toISOString(),
+		credentialSubject,
+		proof: {
+			type: GNARK_COMMITMENT_PROOF_TYPE,
+			created: validFrom.toISOString(),
+			verificationMethod: `${options.issuer}#key-1`,
+			proofPurpose: 'assertionMethod',
+			proofValue: commitment,
+		},
+	};
+}
+
+// Wrap the WASM age credential commitment in a VC; the salt stays with the holder
+export function createAgeCredential(options: AgeCredentialOptions): VerifiableCredential {
+	return buildCommitmentCredential(
+		AGE_CREDENTIAL_TYPE,
+		options,
+		{ id: options.subject },
+		options.credentialResult.credential
+	);
+}
+
+// Wrap a membership commitment in a VC; organization ID, balance and salt stay with the holder
+export function createMembershipCredential(options: MembershipCredentialOptions): VerifiableCredential {
+	return buildCommitmentCredential(
+		MEMBERSHIP_CREDENTIAL_TYPE,
+		options,
+		{ id: options.subject, organizationIdHash: options.organizationIdHash },
+		options.commitment
+	);
+}
+
+// Get the specific credential type (the entry after VerifiableCredential)
+export function getCredentialType(credential: VerifiableCredential): string {
+	return credential.type.find((type) => type !== 'VerifiableCredential') || 'VerifiableCredential';
+}
+
+// Determine whether a credential is currently inside its validity period
+export function getCredentialStatus(credential: VerifiableCredential, now: Date = new Date()): CredentialStatus {
+	if (credential.validFrom && Date.parse(credential.validFrom) > now.getTime()) {
+		return 'pending';
+	}
+	if (credential.validUntil && Date.parse(credential.validUntil) <= now.getTime()) {
+		return 'expired';
+	}
+	return 'active';
+}
+
+// Get the issuer DID whether issuer is a string or an object
+export function getCredentialIssuer(credential: VerifiableCredential): string {
+	return typeof credential.issuer === 'string' ? credential.issuer : credential.issuer.id;
+}
+
+// The issuer signature covers the whole credential, including the proof options, minus the signature itself
+export function getCredentialSigningInput(credential: VerifiableCredential): string {
+	return canonicalJSON({ ...credential, proof: { ...credential.proof, signatureValue: undefined } });
+}
+
+/**
+ * Check the issuer signature against the issuer's DID document: the proof must be signed with one of
+ * the issuer's assertion methods. Unsigned credentials fail.
+ */
+export async function verifyIssuerSignature(credential: VerifiableCredential): Promise<void> {
+	const issuer = getCredentialIssuer(credential);
+	const { verificationMethod, signatureValue } = credential.proof;
+	if (!signatureValue) {
+		throw new Error('The credential is not signed by its issuer');
+	}
+
+	const document = await didResolver.resolveDocument(issuer);
+	const method = findVerificationMethod(document, verificationMethod);
+	if (!method || !isAuthorizedFor(document, method.id, 'assertionMethod')) {
+		throw new Error(`${verificationMethod} is not an assertion method of ${issuer}`);
+	}
+	const { keyType, publicKey } = getVerificationMethodKey(method);
+	if (keyType !== 'Ed25519') {
+		throw new Error(`Issuer signatures must use an Ed25519 key, not ${keyType}`);
+	}
+	if (!nacl.sign.detached.verify(new TextEncoder().encode(getCredentialSigningInput(credential)), hexToBytes(signatureValue), publicKey)) {
+		throw new Error('The issuer signature on the credential does not match');
+	}
+}
+
+// Get the gnark commitment carried in the proof section
+export function getCredentialCommitment(credential: VerifiableCredential): string {
+	return credential.proof.proofValue;
+}
+
+// Check structure and validity period
+export function validateCredential(credential: unknown, now: Date = new Date()): CredentialValidationResult {
+	const parsed = verifiableCredentialSchema.safeParse(credential);
+	if (!parsed.success) {
+		return {
+			valid: false,
+			errors: parsed.error.issues.map((issue) => `${issue.path.join('.') || 'credential'}: ${issue.message}`),
+		};
+	}
+
+	const errors: string[] = [];
+	const { validFrom, validUntil } = parsed.data;
+	if (validFrom && validUntil && Date.parse(validUntil) <= Date.parse(validFrom)) {
+		errors.push('validUntil must be after validFrom');
+	}
+	if (validFrom && Date.parse(validFrom) > now.getTime()) {
+		errors.push('Credential is not valid yet');
+	}
+	if (validUntil && Date.parse(validUntil) <= now.getTime()) {
+		errors.push('Credential has expired');
+	}
+
+	return { valid: errors.length === 0, errors };
+}
+
+export function serializeCredential(credential: VerifiableCredential): string {
+	return JSON.stringify(credential, null, 2);
+}
+
+// Parse a JSON credential, throwing when the structure is invalid
+export function parseCredential(json: string): VerifiableCredential {
+	let data: unknown;
+	try {
+		data = JSON.parse(json);
+	} catch {
+		throw new CredentialValidationError('Credential is not valid JSON');
+	}
+
+	const parsed = verifiableCredentialSchema.safeParse(data);
+	if (!parsed.success) {
+		const errors = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'credential'}: ${issue.message}`);
+		throw new CredentialValidationError('Invalid verifiable credential', errors);
+	}
+	return parsed.data;
+}
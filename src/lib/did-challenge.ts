@@ -0,0 +1,172 @@
+// Server-issued, domain-bound login challenges (modelled on Sign-In-With-Ethereum messages)
+import { buildApiUrl } from './config';
+
+export const CHALLENGE_VERSION = '1';
+
+export interface DIDChallenge {
+	domain: string;
+	uri: string;
+	didId: string;
+	nonce: string;
+	issuedAt: string;
+	expirationTime: string;
+	purpose: string;
+	version: string;
+}
+
+export interface ChallengeValidationOptions {
+	domain?: string;
+	didId?: string;
+	purpose?: string;
+	now?: Date;
+	clockSkewMs?: number;
+}
+
+export class ChallengeValidationError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'ChallengeValidationError';
+	}
+}
+
+const DEFAULT_CLOCK_SKEW_MS = 60 * 1000;
+const NONCE_PATTERN = /^[A-Za-z0-9]{8,}$/;
+
+// Domain the client is currently served from
+export function getCurrentDomain(): string {
+	return typeof window !== 'undefined' ? window.location.host : '';
+}
+
+// Request a fresh nonce from the backend and build the challenge for a DID
+export async function requestDIDChallenge(didId: string, purpose: string = 'authentication'): Promise<DIDChallenge> {
+	const domain = getCurrentDomain();
+	const response = await fetch(buildApiUrl('/auth/challenge'), {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+		},
+		body: JSON.stringify({
+			did_id: didId,
+			domain,
+			purpose,
+		}),
+	});
+
+	if (!response.ok) {
+		const errorData = await response.json().catch(() => ({}));
+		throw new Error(errorData.message || 'Failed to request login challenge');
+	}
+
+	const data = await response.json();
+	// Falling back to our own domain or version would make validateChallenge compare them with themselves
+	if (!data.domain || !data.version) {
+		throw new ChallengeValidationError('The server challenge is missing its domain or version');
+	}
+	return {
+		domain: data.domain,
+		uri: data.uri || (typeof window !== 'undefined' ? window.location.origin : ''),
+		didId: data.did_id || didId,
+		nonce: data.nonce,
+		issuedAt: data.issued_at,
+		expirationTime: data.expiration_time,
+		purpose: data.purpose || purpose,
+		version: String(data.version),
+	};
+}
+
+// Render the challenge as the human-readable message that gets signed
+export function formatChallengeMessage(challenge: DIDChallenge): string {
+	return [
+		`${challenge.domain} wants you to sign in with your DID:`,
+		challenge.didId,
+		'',
+		`Purpose: ${challenge.purpose}`,
+		`URI: ${challenge.uri}`,
+		`Version: ${challenge.version}`,
+		`Nonce: ${challenge.nonce}`,
+		`Issued At: ${challenge.issuedAt}`,
+		`Expiration Time: ${challenge.expirationTime}`,
+	].join('\n');
+}
+
+// Parse a message produced by formatChallengeMessage
+export function parseChallengeMessage(message: string): DIDChallenge {
+	const lines = message.split('\n');
+	const header = lines[0]?.match(/^(\S+) wants you to sign in with your DID:$/);
+	if (!header || !lines[1]) {
+		throw new ChallengeValidationError('Malformed challenge message');
+	}
+
+	const fields: Record<string, string> = {};
+	for (const line of lines.slice(3)) {
+		const separator = line.indexOf(': ');
+		if (separator > 0) {
+			fields[line.slice(0, separator)] = line.slice(separator + 2);
+		}
+	}
+
+	const required = ['Purpose', 'URI', 'Version', 'Nonce', 'Issued At', 'Expiration Time'];
+	const missing = required.filter((field) => !fields[field]);
+	if (missing.length > 0) {
+		throw new ChallengeValidationError(`Challenge message is missing: ${missing.join(', ')}`);
+	}
+
+	return {
+		domain: header[1],
+		didId: lines[1],
+		purpose: fields['Purpose'],
+		uri: fields['URI'],
+		version: fields['Version'],
+		nonce: fields['Nonce'],
+		issuedAt: fields['Issued At'],
+		expirationTime: fields['Expiration Time'],
+	};
+}
+
+// Reject challenges that are expired, not yet valid, or bound to another domain or DID
+export function validateChallenge(challenge: DIDChallenge, options: ChallengeValidationOptions = {}): void {
+	const expectedDomain = options.domain ?? getCurrentDomain();
+	const now = (options.now ?? new Date()).getTime();
+	const skew = options.clockSkewMs ?? DEFAULT_CLOCK_SKEW_MS;
+
+	if (challenge.version !== CHALLENGE_VERSION) {
+		throw new ChallengeValidationError(`Unsupported challenge version: ${challenge.version}`);
+	}
+	if (!NONCE_PATTERN.test(challenge.nonce || '')) {
+		throw new ChallengeValidationError('Challenge nonce is missing or too short');
+	}
+	if (expectedDomain && challenge.domain !== expectedDomain) {
+		throw new ChallengeValidationError(`Challenge was issued for ${challenge.domain}, not ${expectedDomain}`);
+	}
+	if (options.didId && challenge.didId !== options.didId) {
+		throw new ChallengeValidationError('Challenge was issued for a different DID');
+	}
+	if (options.purpose && challenge.purpose !== options.purpose) {
+		throw new ChallengeValidationError(`Challenge purpose must be ${options.purpose}`);
+	}
+
+	const issuedAt = Date.parse(challenge.issuedAt);
+	const expiresAt = Date.parse(challenge.expirationTime);
+	if (Number.isNaN(issuedAt) || Number.isNaN(expiresAt)) {
+		throw new ChallengeValidationError('Challenge timestamps are invalid');
+	}
+	if (expiresAt <= issuedAt) {
+		throw new ChallengeValidationError('Challenge expires before it was issued');
+	}
+	if (issuedAt - skew > now) {
+		throw new ChallengeValidationError('Challenge is not valid yet');
+	}
+	if (expiresAt <= now) {
+		throw new ChallengeValidationError('Challenge has expired');
+	}
+}
+
+// Fetch and validate a challenge, returning it together with the message to sign
+export async function prepareDIDChallenge(didId: string, purpose: string = 'authentication'): Promise<{ challenge: DIDChallenge; message: string }> {
+	const challenge = await requestDIDChallenge(didId, purpose);
+	validateChallenge(challenge, { didId, purpose });
+	return {
+		challenge,
+		message: formatChallengeMessage(challenge),
+	};
+}
@@ -0,0 +1,177 @@
+// Version history of registry-managed DID documents: each change is a hash-chained version signed by the DID key
+import { buildApiUrl } from './config';
+import { authenticatedFetch } from './auth';
+import { STORES, getAllRecords } from './indexed-db';
+import type { RelatedRecord, SealedKey } from './keystore';
+import { wasmAuth } from './wasm-auth';
+import { DIDResolutionError, didResolver } from './did-resolver';
+import { canonicalJSON } from './canonical-json';
+import { bytesToHex } from './encoding';
+import { DID_CONTEXT, getVerificationMethods, type DIDDocument } from './did-document';
+
+export type DIDDocumentVersionStatus = 'pending' | 'active' | 'superseded';
+
+// 'rotation' replaces the DID key, 'update' edits services and additional verification methods
+export type DIDDocumentChange = 'rotation' | 'update';
+
+export interface DocumentVersionProof {
+	// 'controller' when signed by the current DID key, 'recovery' when signed by a separate recovery key
+	signer: 'controller' | 'recovery';
+	verificationMethod: string;
+	// Signed message, binding the change, version number, document hash and previous version hash
+	message: string;
+	signature: string;
+	// DID module proof; only present for controller signatures
+	proof?: string;
+	// Rotations only: signature over the same message by the new key, proving possession
+	newKeySignature?: string;
+	created: string;
+}
+
+export interface DIDDocumentVersion {
+	// `${didId}#${version}`
+	id: string;
+	didId: string;
+	version: number;
+	change: DIDDocumentChange;
+	status: DIDDocumentVersionStatus;
+	document: DIDDocument;
+	documentHash: string;
+	previousHash: string | null;
+	// Verification method backed by the DID key in this version
+	keyId: string;
+	proof: DocumentVersionProof;
+	createdAt: string;
+	// New private key, sealed by the keystore, kept only until the backend accepts a rotation
+	pendingKey?: SealedKey;
+}
+
+// Methods whose documents are derived from the identifier or hosted elsewhere, so the registry cannot change them
+const UNMANAGED_METHODS = ['key', 'jwk', 'web'];
+
+// Client errors that are worth retrying, so they do not prove the version was refused
+const TRANSIENT_STATUSES = [408, 429];
+
+// The backend answered and refused the version, so nothing was registered
+export class VersionRejectedError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'VersionRejectedError';
+	}
+}
+
+export async function hashDIDDocument(document: DIDDocument): Promise<string> {
+	const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(canonicalJSON(document)));
+	return bytesToHex(new Uint8Array(digest));
+}
+
+export function versionMessage(change: DIDDocumentChange, version: number, documentHash: string, previousHash: string | null): string {
+	return `did-${change}:${version}:${documentHash}:${previousHash || 'genesis'}`;
+}
+
+export function assertManagedDID(didId: string): void {
+	const method = /^did:([a-z0-9]+):/.exec(didId)?.[1];
+	if (method && UNMANAGED_METHODS.includes(method)) {
+		throw new Error(`did:${method} documents cannot be changed through the DID registry`);
+	}
+}
+
+// Every stored version of a DID document, newest first
+export async function listDIDDocumentVersions(didId: string): Promise<DIDDocumentVersion[]> {
+	const records = await getAllRecords<DIDDocumentVersion>(STORES.didDocuments);
+	return records.filter((record) => record.didId === didId).sort((a, b) => b.version - a.version);
+}
+
+export async function getActiveDIDDocumentVersion(didId: string): Promise<DIDDocumentVersion | null> {
+	const versions = await listDIDDocumentVersions(didId);
+	return versions.find((version) => version.status === 'active') || null;
+}
+
+/**
+ * The document the next version builds on, as the registry has it: the version number comes from the
+ * registry's versionId and the next version chains onto the hash of the registered document. Local history
+ * alone is not trusted, since the DID may have changed on another device. Only an unregistered DID starts
+ * from an empty document (version 0), and a registered one whose version is not reported cannot be changed.
+ */
+export async function getCurrentDIDDocument(didId: string): Promise<{ document: DIDDocument; version: number; keyId: string; previousHash: string | null }> {
+	const { didDocument, didResolutionMetadata, didDocumentMetadata } = await didResolver.resolve(didId, { noCache: true });
+	if (!didDocument) {
+		// Building on an empty document after any other failure would publish a version without the DID's keys and services
+		if (didResolutionMetadata.error !== 'notFound') {
+			throw new DIDResolutionError(didResolutionMetadata.error || 'internalError', didResolutionMetadata.message || `Could not resolve ${didId}`);
+		}
+		return { document: { '@context': [DID_CONTEXT], id: didId }, version: 0, keyId: `${didId}#key-1`, previousHash: null };
+	}
+
+	const versionId = String(didDocumentMetadata.versionId ?? '');
+	if (!/^[1-9]\d*$/.test(versionId)) {
+		throw new Error(`The registry does not report the current version of ${didId}, so a new version cannot be chained onto it`);
+	}
+	const version = Number(versionId);
+	// The local record names the DID key; without one for this version, fall back to the first authentication method
+	const active = await getActiveDIDDocumentVersion(didId);
+	return {
+		document: didDocument,
+		version,
+		keyId: (active?.version === version && active.keyId) || getVerificationMethods(didDocument, 'authentication')[0]?.id || `${didId}#key-1`,
+		previousHash: await hashDIDDocument(didDocument),
+	};
+}
+
+/**
+ * Sign a version message with the DID key through the DID module, which also checks the key controls the DID
+ */
+export async function signAsController(didId: string, privateKey: string, message: string, verificationMethod: string): Promise<DocumentVersionProof> {
+	const auth = await wasmAuth.authenticateDIDClientSide(didId, privateKey, message);
+	if (!auth.verified) {
+		throw new Error(`The key does not control ${didId}`);
+	}
+	return {
+		signer: 'controller',
+		verificationMethod,
+		message,
+		signature: auth.signature,
+		proof: auth.proof,
+		created: new Date().toISOString(),
+	};
+}
+
+/**
+ * Submit a version to the backend; throws VersionRejectedError when the backend refuses it
+ */
+export async function registerDocumentVersion(version: DIDDocumentVersion): Promise<void> {
+	const response = await authenticatedFetch(buildApiUrl(version.change === 'rotation' ? '/did/rotate' : '/did/update'), {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+		},
+		body: JSON.stringify({
+			did_id: version.didId,
+			version: version.version,
+			document: version.document,
+			document_hash: version.documentHash,
+			previous_hash: version.previousHash,
+			proof: version.proof,
+		}),
+	});
+
+	if (!response.ok) {
+		const errorData = await response.json().catch(() => ({}));
+		if (response.status === 409) {
+			throw new VersionRejectedError(errorData.message || `Version ${version.version} conflicts with the registered DID document`);
+		}
+		// Only the backend's own 4xx answers are refusals; a 5xx may come from a proxy after the version was registered
+		if (response.status >= 400 && response.status < 500 && !TRANSIENT_STATUSES.includes(response.status)) {
+			throw new VersionRejectedError(errorData.message || 'Failed to register DID document version');
+		}
+		throw new Error(errorData.message || `Registering the DID document version failed with status ${response.status}; it may still have been registered`);
+	}
+	didResolver.clearCache(version.didId);
+}
+
+// Records that mark the currently active versions superseded, to write in the same transaction as a new version
+export async function supersedeActiveVersions(didId: string): Promise<RelatedRecord[]> {
+	return (await listDIDDocumentVersions(didId))
+		.filter((version) => version.status === 'active')
+		.map((version) => ({ store: STORES.didDocuments, value: { ...version, status: 'superseded' } }));
+}
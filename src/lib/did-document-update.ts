@@ -0,0 +1,200 @@
+// Editing registry-managed DID documents: services and additional verification methods, published as signed versions
+import { STORES, runTransaction } from './indexed-db';
+import { keystore } from './keystore';
+import { DIDDocumentValidationError, VERIFICATION_RELATIONSHIPS, isAuthorizedFor, parseDIDDocument, type DIDDocument, type Service, type VerificationMethod, type VerificationRelationship } from './did-document';
+import {
+	assertManagedDID,
+	getCurrentDIDDocument,
+	hashDIDDocument,
+	listDIDDocumentVersions,
+	registerDocumentVersion,
+	signAsController,
+	supersedeActiveVersions,
+	versionMessage,
+	type DIDDocumentVersion,
+} from './did-document-history';
+
+// Service types offered by the editor; any other type string is accepted as well
+export const SERVICE_TYPES = ['DIDCommMessaging', 'LinkedDomains', 'Profile'] as const;
+
+// Verification method types the editor can add, and the property each one keeps its key in
+export const VERIFICATION_METHOD_TYPES = {
+	Multikey: 'publicKeyMultibase',
+	JsonWebKey2020: 'publicKeyJwk',
+	Ed25519VerificationKey2018: 'publicKeyHex',
+} as const;
+
+export type EditableVerificationMethodType = keyof typeof VERIFICATION_METHOD_TYPES;
+
+export interface UpdateDocumentOptions {
+	// Sign with this key instead of the one in the keystore
+	privateKey?: string;
+}
+
+// '#messaging' or 'messaging' -> 'did:example:123#messaging'
+export function toFragmentId(didId: string, fragment: string): string {
+	const trimmed = fragment.trim().replace(/^#/, '');
+	if (!/^[A-Za-z0-9._~!$&'()*+,;=:@/?-]+$/.test(trimmed)) {
+		throw new Error(`"${fragment}" is not a valid id fragment`);
+	}
+	return `${didId}#${trimmed}`;
+}
+
+// Whether two ids name the same entry, either may be relative to the document
+function sameId(document: DIDDocument, a: string, b: string): boolean {
+	const absolute = (id: string) => (id.startsWith('#') ? `${document.id}${id}` : id);
+	return absolute(a) === absolute(b);
+}
+
+export function buildService(didId: string, fragment: string, type: string, endpoint: string): Service {
+	const serviceEndpoint = endpoint.trim();
+	let valid = /^did:[a-z0-9]+:\S+$/.test(serviceEndpoint);
+	try {
+		valid = valid || !!new URL(serviceEndpoint);
+	} catch {
+		// not a URL either
+	}
+	if (!valid) {
+		throw new Error('Service endpoint must be a URL or a DID');
+	}
+	if (!type.trim()) {
+		throw new Error('Service type is required');
+	}
+	return { id: toFragmentId(didId, fragment), type: type.trim(), serviceEndpoint };
+}
+
+/**
+ * Build a verification method controlled by the DID; JsonWebKey2020 keys are given as JSON
+ */
+export function buildVerificationMethod(didId: string, fragment: string, type: EditableVerificationMethodType, publicKey: string): VerificationMethod {
+	const key = publicKey.trim();
+	if (!key) {
+		throw new Error('Public key is required');
+	}
+
+	const method: VerificationMethod = { id: toFragmentId(didId, fragment), type, controller: didId };
+	switch (VERIFICATION_METHOD_TYPES[type]) {
+		case 'publicKeyMultibase':
+			if (!key.startsWith('z')) {
+				throw new Error('Multikey public keys must be base58btc multibase (starting with "z")');
+			}
+			method.publicKeyMultibase = key;
+			break;
+		case 'publicKeyJwk':
+			try {
+				method.publicKeyJwk = JSON.parse(key);
+			} catch {
+				throw new Error('JsonWebKey2020 public keys must be a JWK in JSON form');
+			}
+			break;
+		case 'publicKeyHex':
+			if (!/^(0x)?[0-9a-fA-F]+$/.test(key)) {
+				throw new Error('Ed25519VerificationKey2018 public keys must be hex');
+			}
+			method.publicKeyHex = key.replace(/^0x/, '').toLowerCase();
+			break;
+	}
+	return method;
+}
+
+// Add a service, or replace the one with the same id
+export function upsertService(document: DIDDocument, service: Service): DIDDocument {
+	const services = document.service || [];
+	const index = services.findIndex((entry) => sameId(document, entry.id, service.id));
+	return {
+		...document,
+		service: index === -1 ? [...services, service] : services.map((entry, i) => (i === index ? service : entry)),
+	};
+}
+
+export function removeService(document: DIDDocument, id: string): DIDDocument {
+	const service = (document.service || []).filter((entry) => !sameId(document, entry.id, id));
+	const next: DIDDocument = { ...document, service };
+	if (service.length === 0) delete next.service;
+	return next;
+}
+
+/**
+ * Add a verification method (or replace the one with the same id) and reference it from exactly the given relationships
+ */
+export function upsertVerificationMethod(document: DIDDocument, method: VerificationMethod, relationships: VerificationRelationship[]): DIDDocument {
+	const next = removeVerificationMethod(document, method.id);
+	next.verificationMethod = [...(next.verificationMethod || []), method];
+	for (const relationship of relationships) {
+		next[relationship] = [...(next[relationship] || []), method.id];
+	}
+	return next;
+}
+
+// Remove a verification method and every reference to it; references to keys of other DIDs are left alone
+export function removeVerificationMethod(document: DIDDocument, id: string): DIDDocument {
+	const matches = (entry: string | { id: string }) => sameId(document, typeof entry === 'string' ? entry : entry.id, id);
+
+	const next: DIDDocument = { ...document, verificationMethod: (document.verificationMethod || []).filter((method) => !matches(method)) };
+	if (next.verificationMethod?.length === 0) delete next.verificationMethod;
+	for (const relationship of VERIFICATION_RELATIONSHIPS) {
+		const remaining = (document[relationship] || []).filter((entry) => !matches(entry));
+		if (remaining.length > 0) {
+			next[relationship] = remaining;
+		} else {
+			delete next[relationship];
+		}
+	}
+	return next;
+}
+
+/**
+ * Publish an edited DID document: validate it, sign a new version with the DID key,
+ * register it with the backend and record it in the local history.
+ * The DID key itself has to stay in the document; replacing it is a rotation.
+ */
+export async function updateDIDDocument(didId: string, document: DIDDocument, options: UpdateDocumentOptions = {}): Promise<DIDDocumentVersion> {
+	try {
+		assertManagedDID(didId);
+		if ((await listDIDDocumentVersions(didId)).some((version) => version.status === 'pending')) {
+			throw new Error('A key rotation of this DID was interrupted; resume or discard it first');
+		}
+
+		const parsed = parseDIDDocument(document);
+		if (parsed.id !== didId) {
+			throw new Error(`The document describes ${parsed.id}, not ${didId}`);
+		}
+
+		const current = await getCurrentDIDDocument(didId);
+		if (!isAuthorizedFor(parsed, current.keyId, 'authentication')) {
+			throw new Error(`${current.keyId} must remain an authentication method; use key rotation to replace it`);
+		}
+
+		const versionNumber = current.version + 1;
+		const documentHash = await hashDIDDocument(parsed);
+		const message = versionMessage('update', versionNumber, documentHash, current.previousHash);
+		const signingKey = options.privateKey || (await keystore.getPrivateKey(didId));
+
+		const version: DIDDocumentVersion = {
+			id: `${didId}#${versionNumber}`,
+			didId,
+			version: versionNumber,
+			change: 'update',
+			status: 'active',
+			document: parsed,
+			documentHash,
+			previousHash: current.previousHash,
+			keyId: current.keyId,
+			proof: await signAsController(didId, signingKey, message, current.keyId),
+			createdAt: new Date().toISOString(),
+		};
+
+		await registerDocumentVersion(version);
+
+		const records = [...(await supersedeActiveVersions(didId)), { store: STORES.didDocuments, value: version }];
+		await runTransaction([STORES.didDocuments], 'readwrite', (tx) => {
+			for (const record of records) {
+				tx.objectStore(record.store).put(record.value);
+			}
+		});
+		return version;
+	} catch (error) {
+		const details = error instanceof DIDDocumentValidationError ? `${error.message}: ${error.errors.join('; ')}` : error instanceof Error ? error.message : 'Unknown error';
+		throw new Error(`Failed to update DID document: ${details}`);
+	}
+}
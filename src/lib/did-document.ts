@@ -0,0 +1,162 @@
+// W3C DID Core document model with zod validation and key lookup by verification relationship
+import { z } from 'zod';
+
+export const DID_CONTEXT = 'https://www.w3.org/ns/did/v1';
+
+export const VERIFICATION_RELATIONSHIPS = ['authentication', 'assertionMethod', 'keyAgreement', 'capabilityInvocation', 'capabilityDelegation'] as const;
+
+export type VerificationRelationship = (typeof VERIFICATION_RELATIONSHIPS)[number];
+
+const didPattern = /^did:[a-z0-9]+:\S+$/;
+// Absolute DID URL or a fragment relative to the document id
+const didUrl = z.string().regex(/^(did:[a-z0-9]+:\S+|#\S+)$/, 'must be a DID URL');
+
+export const publicKeyJwkSchema = z
+	.object({
+		kty: z.string().min(1),
+		crv: z.string().optional(),
+		x: z.string().optional(),
+		y: z.string().optional(),
+		n: z.string().optional(),
+		e: z.string().optional(),
+	})
+	.passthrough()
+	// A published key must never carry private key material
+	.refine((jwk) => !('d' in jwk), 'must not contain private key material');
+
+export const verificationMethodSchema = z
+	.object({
+		id: didUrl,
+		type: z.string().min(1),
+		controller: z.string().regex(didPattern, 'must be a DID'),
+		publicKeyMultibase: z.string().optional(),
+		publicKeyJwk: publicKeyJwkSchema.optional(),
+		publicKeyHex: z.string().optional(),
+		publicKeyBase58: z.string().optional(),
+	})
+	.passthrough();
+
+// Relationships list either references to verificationMethod entries or embedded methods
+const verificationRelationshipSchema = z.array(z.union([didUrl, verificationMethodSchema]));
+
+export const serviceSchema = z
+	.object({
+		id: z.string().min(1),
+		type: z.union([z.string().min(1), z.array(z.string().min(1)).min(1)]),
+		serviceEndpoint: z.union([z.string().min(1), z.record(z.unknown()), z.array(z.union([z.string(), z.record(z.unknown())]))]),
+	})
+	.passthrough();
+
+export const didDocumentSchema = z
+	.object({
+		'@context': z.union([z.string(), z.array(z.union([z.string(), z.record(z.unknown())]))]).optional(),
+		id: z.string().regex(didPattern, 'must be a DID'),
+		controller: z.union([z.string(), z.array(z.string())]).optional(),
+		alsoKnownAs: z.array(z.string()).optional(),
+		verificationMethod: z.array(verificationMethodSchema).optional(),
+		authentication: verificationRelationshipSchema.optional(),
+		assertionMethod: verificationRelationshipSchema.optional(),
+		keyAgreement: verificationRelationshipSchema.optional(),
+		capabilityInvocation: verificationRelationshipSchema.optional(),
+		capabilityDelegation: verificationRelationshipSchema.optional(),
+		service: z.array(serviceSchema).optional(),
+	})
+	.passthrough()
+	.superRefine((document, ctx) => {
+		const ids = new Set<string>();
+		const declare = (id: string, path: (string | number)[]) => {
+			const absolute = absoluteId(document.id, id);
+			if (ids.has(absolute)) {
+				ctx.addIssue({ code: z.ZodIssueCode.custom, path, message: `duplicate id ${id}` });
+			}
+			ids.add(absolute);
+		};
+
+		document.verificationMethod?.forEach((method, index) => declare(method.id, ['verificationMethod', index, 'id']));
+		for (const relationship of VERIFICATION_RELATIONSHIPS) {
+			document[relationship]?.forEach((entry, index) => {
+				if (typeof entry !== 'string') declare(entry.id, [relationship, index, 'id']);
+			});
+		}
+		document.service?.forEach((service, index) => declare(service.id, ['service', index, 'id']));
+
+		// Every reference must point at a verification method of this document or of another DID
+		for (const relationship of VERIFICATION_RELATIONSHIPS) {
+			document[relationship]?.forEach((entry, index) => {
+				if (typeof entry === 'string' && absoluteId(document.id, entry).startsWith(`${document.id}#`) && !ids.has(absoluteId(document.id, entry))) {
+					ctx.addIssue({ code: z.ZodIssueCode.custom, path: [relationship, index], message: `references unknown verification method ${entry}` });
+				}
+			});
+		}
+	});
+
+export type PublicKeyJwkEntry = z.infer<typeof publicKeyJwkSchema>;
+export type VerificationMethod = z.infer<typeof verificationMethodSchema>;
+export type Service = z.infer<typeof serviceSchema>;
+export type DIDDocument = z.infer<typeof didDocumentSchema>;
+
+export class DIDDocumentValidationError extends Error {
+	constructor(message: string, public readonly errors: string[] = []) {
+		super(message);
+		this.name = 'DIDDocumentValidationError';
+	}
+}
+
+// Expand '#key-1' to 'did:example:123#key-1'
+function absoluteId(documentId: string, id: string): string {
+	return id.startsWith('#') ? `${documentId}${id}` : id;
+}
+
+/**
+ * Validate an unknown value as a DID document, throwing DIDDocumentValidationError with every problem found
+ */
+export function parseDIDDocument(data: unknown): DIDDocument {
+	const parsed = didDocumentSchema.safeParse(data);
+	if (!parsed.success) {
+		const errors = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'document'}: ${issue.message}`);
+		throw new DIDDocumentValidationError('Invalid DID document', errors);
+	}
+	return parsed.data;
+}
+
+// Parse a document that may be missing or malformed (e.g. from the WASM module); undefined when invalid
+export function toDIDDocument(data: unknown): DIDDocument | undefined {
+	const parsed = didDocumentSchema.safeParse(data);
+	return parsed.success ? parsed.data : undefined;
+}
+
+/**
+ * Find a verification method by absolute or relative id, whether listed in verificationMethod or embedded in a relationship
+ */
+export function findVerificationMethod(document: DIDDocument, id: string): VerificationMethod | undefined {
+	const target = absoluteId(document.id, id);
+	const embedded = VERIFICATION_RELATIONSHIPS.flatMap((relationship) => document[relationship] || []).filter(
+		(entry): entry is VerificationMethod => typeof entry !== 'string'
+	);
+	return [...(document.verificationMethod || []), ...embedded].find((method) => absoluteId(document.id, method.id) === target);
+}
+
+/**
+ * Verification methods usable for a purpose, e.g. 'authentication' for logins or 'assertionMethod' for issuing credentials
+ */
+export function getVerificationMethods(document: DIDDocument, purpose: VerificationRelationship): VerificationMethod[] {
+	return (document[purpose] || [])
+		.map((entry) => (typeof entry === 'string' ? findVerificationMethod(document, entry) : entry))
+		.filter((method): method is VerificationMethod => !!method);
+}
+
+// Whether the method with this id may be used for the purpose
+export function isAuthorizedFor(document: DIDDocument, id: string, purpose: VerificationRelationship): boolean {
+	const target = absoluteId(document.id, id);
+	return getVerificationMethods(document, purpose).some((method) => absoluteId(document.id, method.id) === target);
+}
+
+// Services, optionally filtered by type
+export function getServices(document: DIDDocument, type?: string): Service[] {
+	return (document.service || []).filter((service) => !type || (Array.isArray(service.type) ? service.type.includes(type) : service.type === type));
+}
+
+// Relationships a verification method appears in, for display
+export function getVerificationRelationships(document: DIDDocument, id: string): VerificationRelationship[] {
+	return VERIFICATION_RELATIONSHIPS.filter((purpose) => isAuthorizedFor(document, id, purpose));
+}
@@ -0,0 +1,43 @@
+// did:web fixtures served by the dev-only /did-fixtures routes, for exercising the resolver locally
+import { encodeDIDKey, getPublicKey, publicKeyToJwk, type DIDKeyType } from './did-methods';
+import { DID_CONTEXT, type DIDDocument } from './did-document';
+import { hexToBytes } from './encoding';
+
+export interface DIDFixture {
+	name: string;
+	keyType: DIDKeyType;
+	// Published on purpose: fixtures are test identities and must never hold anything of value
+	privateKey: string;
+}
+
+export const DID_FIXTURES: DIDFixture[] = [
+	{ name: 'alice', keyType: 'Ed25519', privateKey: '01'.repeat(32) },
+	{ name: 'bob', keyType: 'secp256k1', privateKey: '02'.repeat(32) },
+	// Issuer of the credentials handed out by the dev-only /mock-issuer
+	{ name: 'issuer', keyType: 'Ed25519', privateKey: '03'.repeat(32) },
+];
+
+// did:web identifier of a fixture served from host (host may include a port)
+export function getFixtureDID(host: string, name: string): string {
+	return `did:web:${encodeURIComponent(host)}:did-fixtures:${name}`;
+}
+
+export function buildFixtureDocument(host: string, fixture: DIDFixture): DIDDocument {
+	const id = getFixtureDID(host, fixture.name);
+	const keyId = `${id}#key-1`;
+	const publicKey = getPublicKey(fixture.keyType, hexToBytes(fixture.privateKey));
+
+	// Ed25519 as Multikey, secp256k1 as JsonWebKey2020, so both verification method shapes are covered
+	const verificationMethod =
+		fixture.keyType === 'Ed25519'
+			? { id: keyId, type: 'Multikey', controller: id, publicKeyMultibase: encodeDIDKey(fixture.keyType, publicKey).replace(/^did:key:/, '') }
+			: { id: keyId, type: 'JsonWebKey2020', controller: id, publicKeyJwk: publicKeyToJwk(fixture.keyType, publicKey) };
+
+	return {
+		'@context': [DID_CONTEXT],
+		id,
+		verificationMethod: [verificationMethod],
+		authentication: [keyId],
+		assertionMethod: [keyId],
+	};
+}
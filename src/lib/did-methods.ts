@@ -0,0 +1,425 @@
+// DID method registry: did:key and did:jwk next to the gnark DIDs created by the WASM module
+import nacl from 'tweetnacl';
+import { secp256k1 } from '@noble/curves/secp256k1';
+import { wasmLoader, type AuthenticationResult } from './wasm-loader';
+import { DID_CONTEXT, toDIDDocument, type DIDDocument, type VerificationMethod } from './did-document';
+import { bytesToHex, decodeBase64Url, encodeBase64Url, hexToBytes } from './encoding';
+
+export type DIDKeyType = 'Ed25519' | 'secp256k1';
+
+export type PublicKeyJwk = {
+	kty: 'OKP' | 'EC';
+	crv: DIDKeyType;
+	x: string;
+	y?: string;
+};
+
+export interface CreatedDID {
+	didId: string;
+	// Hex; a 32-byte seed for Ed25519 and a 32-byte scalar for secp256k1
+	privateKey: string;
+	publicKey: string;
+	document?: DIDDocument;
+}
+
+export interface DIDMethodDriver {
+	method: string;
+	create(options?: { keyType?: DIDKeyType }): Promise<CreatedDID>;
+	authenticate(didId: string, privateKey: string, challenge: string): Promise<AuthenticationResult>;
+	// expectedChallenge is the challenge the verifier issued; a proof over any other challenge fails
+	verifyAuthentication(didId: string, proof: string, signature: string, expectedChallenge: string): Promise<boolean>;
+	// Not every method can be resolved locally
+	resolve?(didId: string): Promise<DIDDocument>;
+}
+
+// Proof carried next to a plain signature by did:key and did:jwk authentication
+interface KeyAuthenticationProof {
+	verificationMethod: string;
+	challenge: string;
+	created: string;
+}
+
+// Multicodec varint prefixes for public keys
+const MULTICODEC_PREFIX: Record<DIDKeyType, [number, number]> = {
+	Ed25519: [0xed, 0x01],
+	secp256k1: [0xe7, 0x01],
+};
+
+// Key-based authentication proofs older than this (or dated this far ahead) are refused
+const AUTHENTICATION_MAX_AGE_MS = 5 * 60 * 1000;
+
+const BASE58_ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz';
+
+export class DIDMethodError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'DIDMethodError';
+	}
+}
+
+function encodeBase58(bytes: Uint8Array): string {
+	const digits: number[] = [];
+	for (const byte of bytes) {
+		let carry = byte;
+		for (let i = 0; i < digits.length; i++) {
+			carry += digits[i] << 8;
+			digits[i] = carry % 58;
+			carry = Math.floor(carry / 58);
+		}
+		while (carry > 0) {
+			digits.push(carry % 58);
+			carry = Math.floor(carry / 58);
+		}
+	}
+	let zeros = '';
+	for (let i = 0; i < bytes.length && bytes[i] === 0; i++) {
+		zeros += BASE58_ALPHABET[0];
+	}
+	return zeros + digits.reverse().map((digit) => BASE58_ALPHABET[digit]).join('');
+}
+
+function decodeBase58(text: string): Uint8Array {
+	const bytes: number[] = [];
+	for (const char of text) {
+		let carry = BASE58_ALPHABET.indexOf(char);
+		if (carry < 0) {
+			throw new DIDMethodError(`Invalid base58 character "${char}"`);
+		}
+		for (let i = 0; i < bytes.length; i++) {
+			carry += bytes[i] * 58;
+			bytes[i] = carry & 0xff;
+			carry >>= 8;
+		}
+		while (carry > 0) {
+			bytes.push(carry & 0xff);
+			carry >>= 8;
+		}
+	}
+	for (let i = 0; i < text.length && text[i] === BASE58_ALPHABET[0]; i++) {
+		bytes.push(0);
+	}
+	return new Uint8Array(bytes.reverse());
+}
+
+// Key operations shared by both methods; public keys are raw (Ed25519) or compressed (secp256k1)
+
+function ed25519KeyPair(privateKey: Uint8Array): nacl.SignKeyPair {
+	if (privateKey.length !== 32 && privateKey.length !== 64) {
+		throw new DIDMethodError('Ed25519 private keys must be a 32-byte seed or a 64-byte secret key');
+	}
+	return nacl.sign.keyPair.fromSeed(privateKey.slice(0, 32));
+}
+
+export function getPublicKey(keyType: DIDKeyType, privateKey: Uint8Array): Uint8Array {
+	return keyType === 'Ed25519' ? ed25519KeyPair(privateKey).publicKey : secp256k1.getPublicKey(privateKey, true);
+}
+
+function generatePrivateKey(keyType: DIDKeyType): Uint8Array {
+	return keyType === 'Ed25519' ? nacl.randomBytes(32) : secp256k1.utils.randomPrivateKey();
+}
+
+function signBytes(keyType: DIDKeyType, privateKey: Uint8Array, message: Uint8Array): Uint8Array {
+	if (keyType === 'Ed25519') {
+		return nacl.sign.detached(message, ed25519KeyPair(privateKey).secretKey);
+	}
+	return secp256k1.sign(message, privateKey, { prehash: true }).toCompactRawBytes();
+}
+
+function verifyBytes(keyType: DIDKeyType, publicKey: Uint8Array, message: Uint8Array, signature: Uint8Array): boolean {
+	try {
+		if (keyType === 'Ed25519') {
+			return nacl.sign.detached.verify(message, signature, publicKey);
+		}
+		return secp256k1.verify(signature, message, publicKey, { prehash: true });
+	} catch {
+		return false;
+	}
+}
+
+export function publicKeyToJwk(keyType: DIDKeyType, publicKey: Uint8Array): PublicKeyJwk {
+	if (keyType === 'Ed25519') {
+		return { kty: 'OKP', crv: 'Ed25519', x: encodeBase64Url(publicKey) };
+	}
+	const point = secp256k1.ProjectivePoint.fromHex(publicKey).toRawBytes(false);
+	return { kty: 'EC', crv: 'secp256k1', x: encodeBase64Url(point.slice(1, 33)), y: encodeBase64Url(point.slice(33, 65)) };
+}
+
+export function jwkToPublicKey(jwk: PublicKeyJwk): { keyType: DIDKeyType; publicKey: Uint8Array } {
+	if (jwk.kty === 'OKP' && jwk.crv === 'Ed25519') {
+		return { keyType: 'Ed25519', publicKey: decodeBase64Url(jwk.x) };
+	}
+	if (jwk.kty === 'EC' && jwk.crv === 'secp256k1' && jwk.y) {
+		const uncompressed = new Uint8Array(65);
+		uncompressed[0] = 0x04;
+		uncompressed.set(decodeBase64Url(jwk.x), 1);
+		uncompressed.set(decodeBase64Url(jwk.y), 33);
+		return { keyType: 'secp256k1', publicKey: secp256k1.ProjectivePoint.fromHex(uncompressed).toRawBytes(true) };
+	}
+	throw new DIDMethodError(`Unsupported JWK ${jwk.kty}/${jwk.crv}`);
+}
+
+/**
+ * Public key of a DID document verification method, from hex, base58, multibase (multicodec) or JWK key material
+ */
+export function getVerificationMethodKey(method: VerificationMethod): { keyType: DIDKeyType; publicKey: Uint8Array } {
+	if (method.publicKeyJwk) {
+		return jwkToPublicKey(method.publicKeyJwk as PublicKeyJwk);
+	}
+
+	let bytes: Uint8Array;
+	if (method.publicKeyMultibase) {
+		if (!method.publicKeyMultibase.startsWith('z')) {
+			throw new DIDMethodError('Only base58btc (z) multibase keys are supported');
+		}
+		bytes = decodeBase58(method.publicKeyMultibase.slice(1));
+		const keyType = (Object.keys(MULTICODEC_PREFIX) as DIDKeyType[]).find((type) => bytes[0] === MULTICODEC_PREFIX[type][0] && bytes[1] === MULTICODEC_PREFIX[type][1]);
+		if (keyType) {
+			return { keyType, publicKey: bytes.slice(2) };
+		}
+	} else if (method.publicKeyHex) {
+		bytes = hexToBytes(method.publicKeyHex);
+	} else if (method.publicKeyBase58) {
+		bytes = decodeBase58(method.publicKeyBase58);
+	} else {
+		throw new DIDMethodError(`${method.id} has no key material`);
+	}
+
+	// Raw keys: 32 bytes is Ed25519, 33 a compressed secp256k1 point
+	if (bytes.length === 32) {
+		return { keyType: 'Ed25519', publicKey: bytes };
+	}
+	if (bytes.length === 33) {
+		return { keyType: 'secp256k1', publicKey: bytes };
+	}
+	throw new DIDMethodError(`Unsupported key length ${bytes.length} in ${method.id}`);
+}
+
+export function getDIDMethodName(didId: string): string {
+	const match = /^did:([a-z0-9]+):(.+)$/.exec(didId);
+	if (!match) {
+		throw new DIDMethodError(`${didId} is not a DID`);
+	}
+	return match[1];
+}
+
+// did:key:z<base58btc(multicodec prefix || public key)>
+export function encodeDIDKey(keyType: DIDKeyType, publicKey: Uint8Array): string {
+	const prefixed = new Uint8Array(publicKey.length + 2);
+	prefixed.set(MULTICODEC_PREFIX[keyType]);
+	prefixed.set(publicKey, 2);
+	return `did:key:z${encodeBase58(prefixed)}`;
+}
+
+// did:key and did:jwk carry their key, so authentication is a plain signature plus a proof naming the key used
+function createKeyBasedDriver(
+	method: string,
+	describe: (didId: string) => { keyType: DIDKeyType; publicKey: Uint8Array; verificationMethod: VerificationMethod },
+	encode: (keyType: DIDKeyType, publicKey: Uint8Array) => string
+): DIDMethodDriver {
+	const resolve = async (didId: string): Promise<DIDDocument> => {
+		const { verificationMethod } = describe(didId);
+		return {
+			'@context': [DID_CONTEXT],
+			id: didId,
+			verificationMethod: [verificationMethod],
+			authentication: [verificationMethod.id],
+			assertionMethod: [verificationMethod.id],
+		};
+	};
+
+	return {
+		method,
+		resolve,
+
+		async create({ keyType = 'Ed25519' } = {}) {
+			const privateKey = generatePrivateKey(keyType);
+			const publicKey = getPublicKey(keyType, privateKey);
+			const didId = encode(keyType, publicKey);
+			return {
+				didId,
+				privateKey: bytesToHex(privateKey),
+				publicKey: bytesToHex(publicKey),
+				document: await resolve(didId),
+			};
+		},
+
+		async authenticate(didId, privateKey, challenge) {
+			const { keyType, publicKey, verificationMethod } = describe(didId);
+			const key = hexToBytes(privateKey);
+			if (bytesToHex(getPublicKey(keyType, key)) !== bytesToHex(publicKey)) {
+				throw new DIDMethodError(`The private key does not belong to ${didId}`);
+			}
+
+			const proof: KeyAuthenticationProof = {
+				verificationMethod: verificationMethod.id,
+				challenge,
+				created: new Date().toISOString(),
+			};
+			return {
+				proof: JSON.stringify(proof),
+				signature: bytesToHex(signBytes(keyType, key, new TextEncoder().encode(challenge))),
+			};
+		},
+
+		async verifyAuthentication(didId, proof, signature, expectedChallenge) {
+			let parsed: KeyAuthenticationProof;
+			try {
+				parsed = JSON.parse(proof);
+			} catch {
+				return false;
+			}
+
+			const { keyType, publicKey, verificationMethod } = describe(didId);
+			// The proof names its own challenge, so without these checks any earlier signature would replay
+			if (parsed.verificationMethod !== verificationMethod.id || parsed.challenge !== expectedChallenge) {
+				return false;
+			}
+			const created = Date.parse(parsed.created);
+			if (Number.isNaN(created) || Math.abs(Date.now() - created) > AUTHENTICATION_MAX_AGE_MS) {
+				return false;
+			}
+			return verifyBytes(keyType, publicKey, new TextEncoder().encode(parsed.challenge), hexToBytes(signature));
+		},
+	};
+}
+
+export const didKeyMethod = createKeyBasedDriver(
+	'key',
+	(didId) => {
+		const identifier = didId.replace(/^did:key:/, '').split('#')[0];
+		if (!identifier.startsWith('z')) {
+			throw new DIDMethodError('Only base58btc (z) did:key identifiers are supported');
+		}
+
+		const bytes = decodeBase58(identifier.slice(1));
+		const keyType = (Object.keys(MULTICODEC_PREFIX) as DIDKeyType[]).find((type) => {
+			const [first, second] = MULTICODEC_PREFIX[type];
+			return bytes[0] === first && bytes[1] === second;
+		});
+		if (!keyType) {
+			throw new DIDMethodError('Unsupported did:key multicodec');
+		}
+
+		const publicKey = bytes.slice(2);
+		if (publicKey.length !== (keyType === 'Ed25519' ? 32 : 33)) {
+			throw new DIDMethodError(`Invalid ${keyType} public key length in did:key`);
+		}
+		return {
+			keyType,
+			publicKey,
+			verificationMethod: {
+				id: `did:key:${identifier}#${identifier}`,
+				type: 'Multikey',
+				controller: `did:key:${identifier}`,
+				publicKeyMultibase: identifier,
+			},
+		};
+	},
+	encodeDIDKey
+);
+
+// did:jwk:<base64url(JSON public JWK)>
+export const didJwkMethod = createKeyBasedDriver(
+	'jwk',
+	(didId) => {
+		const identifier = didId.replace(/^did:jwk:/, '').split('#')[0];
+		let jwk: PublicKeyJwk;
+		try {
+			jwk = JSON.parse(new TextDecoder().decode(decodeBase64Url(identifier)));
+		} catch {
+			throw new DIDMethodError('did:jwk identifier is not a base64url encoded JWK');
+		}
+
+		const { keyType, publicKey } = jwkToPublicKey(jwk);
+		return {
+			keyType,
+			publicKey,
+			verificationMethod: {
+				id: `did:jwk:${identifier}#0`,
+				type: 'JsonWebKey2020',
+				controller: `did:jwk:${identifier}`,
+				publicKeyJwk: jwk,
+			},
+		};
+	},
+	(keyType, publicKey) => `did:jwk:${encodeBase64Url(new TextEncoder().encode(JSON.stringify(publicKeyToJwk(keyType, publicKey))))}`
+);
+
+// DIDs created by the DID WASM module; used for every method without its own driver
+export const wasmDIDMethod: DIDMethodDriver = {
+	method: 'gnark',
+
+	async create() {
+		const result = await wasmLoader.createDID();
+		return {
+			didId: result.did.id,
+			privateKey: result.privateKey,
+			publicKey: result.did.publicKey,
+			// The WASM module's document is only passed on when it is a valid DID document
+			document: toDIDDocument(result.did.document),
+		};
+	},
+
+	async authenticate(didId, privateKey, challenge) {
+		return wasmLoader.authenticateDID(didId, privateKey, challenge);
+	},
+
+	// The module's proof format is opaque to this code; the module binds it to the challenge
+	async verifyAuthentication(didId, proof, signature) {
+		const result = await wasmLoader.verifyAuthentication(didId, proof, signature);
+		return result.verified;
+	},
+};
+
+export class DIDMethodRegistry {
+	private drivers = new Map<string, DIDMethodDriver>();
+
+	constructor(private fallback: DIDMethodDriver) {}
+
+	register(driver: DIDMethodDriver): void {
+		this.drivers.set(driver.method, driver);
+	}
+
+	/**
+	 * Driver for a DID; methods without a registered driver are handled by the WASM module
+	 */
+	forDID(didId: string): DIDMethodDriver {
+		const method = /^did:([a-z0-9]+):/.exec(didId)?.[1];
+		return (method && this.drivers.get(method)) || this.fallback;
+	}
+
+	/**
+	 * Driver by method name, e.g. 'key' or 'jwk'; the fallback when no name is given
+	 */
+	forMethod(method?: string): DIDMethodDriver {
+		if (!method || method === this.fallback.method) {
+			return this.fallback;
+		}
+		const driver = this.drivers.get(method);
+		if (!driver) {
+			throw new DIDMethodError(`Unsupported DID method: ${method}`);
+		}
+		return driver;
+	}
+
+	listMethods(): string[] {
+		return [this.fallback.method, ...Array.from(this.drivers.keys())];
+	}
+
+	async create(method?: string, options?: { keyType?: DIDKeyType }): Promise<CreatedDID> {
+		return this.forMethod(method).create(options);
+	}
+
+	async authenticate(didId: string, privateKey: string, challenge: string): Promise<AuthenticationResult> {
+		return this.forDID(didId).authenticate(didId, privateKey, challenge);
+	}
+
+	async verifyAuthentication(didId: string, proof: string, signature: string, expectedChallenge: string): Promise<boolean> {
+		return this.forDID(didId).verifyAuthentication(didId, proof, signature, expectedChallenge);
+	}
+}
+
+// Export singleton instance
+export const didMethods = new DIDMethodRegistry(wasmDIDMethod);
+didMethods.register(didKeyMethod);
+didMethods.register(didJwkMethod);
@@ -0,0 +1,246 @@
+// DID resolution (W3C DID Resolution result shape) with per-method drivers and a TTL cache
+import { buildApiUrl, getDidResolverCacheTtl } from './config';
+import { didJwkMethod, didKeyMethod, type DIDMethodDriver } from './did-methods';
+import { DIDDocumentValidationError, parseDIDDocument, type DIDDocument } from './did-document';
+
+export type DIDResolutionErrorCode = 'invalidDid' | 'invalidDidDocument' | 'notFound' | 'methodNotSupported' | 'representationNotSupported' | 'internalError';
+
+export interface DIDResolutionMetadata {
+	contentType?: string;
+	error?: DIDResolutionErrorCode;
+	message?: string;
+	// ISO time the result was produced, so cached results can be told apart
+	retrieved?: string;
+}
+
+export interface DIDDocumentMetadata {
+	created?: string;
+	updated?: string;
+	deactivated?: boolean;
+	versionId?: string;
+}
+
+export interface DIDResolutionResult {
+	didDocument: DIDDocument | null;
+	didResolutionMetadata: DIDResolutionMetadata;
+	didDocumentMetadata: DIDDocumentMetadata;
+}
+
+export interface DIDResolverDriver {
+	method: string;
+	resolve(did: string): Promise<DIDResolutionResult>;
+}
+
+export class DIDResolutionError extends Error {
+	constructor(public code: DIDResolutionErrorCode, message: string) {
+		super(message);
+		this.name = 'DIDResolutionError';
+	}
+}
+
+const DID_PATTERN = /^did:([a-z0-9]+):(\S+)$/;
+const DID_JSON_CONTENT_TYPE = 'application/did+json';
+
+function failure(error: DIDResolutionErrorCode, message: string): DIDResolutionResult {
+	return {
+		didDocument: null,
+		didResolutionMetadata: { error, message },
+		didDocumentMetadata: {},
+	};
+}
+
+function success(didDocument: DIDDocument, didDocumentMetadata: DIDDocumentMetadata = {}): DIDResolutionResult {
+	return {
+		didDocument,
+		didResolutionMetadata: { contentType: DID_JSON_CONTENT_TYPE, retrieved: new Date().toISOString() },
+		didDocumentMetadata,
+	};
+}
+
+// Validate the returned document and make sure it describes the DID that was asked for
+function checkDocument(did: string, document: unknown): DIDDocument {
+	let parsed: DIDDocument;
+	try {
+		parsed = parseDIDDocument(document);
+	} catch (error) {
+		const details = error instanceof DIDDocumentValidationError ? error.errors.join('; ') : 'malformed document';
+		throw new DIDResolutionError('invalidDidDocument', `The document returned for ${did} is invalid: ${details}`);
+	}
+	if (parsed.id !== did) {
+		throw new DIDResolutionError('invalidDidDocument', `The document returned for ${did} describes ${parsed.id}`);
+	}
+	return parsed;
+}
+
+// Drivers for methods whose documents can be derived from the identifier
+function localDriver(driver: DIDMethodDriver): DIDResolverDriver {
+	return {
+		method: driver.method,
+		async resolve(did) {
+			if (!driver.resolve) {
+				return failure('methodNotSupported', `did:${driver.method} cannot be resolved locally`);
+			}
+			try {
+				return success(await driver.resolve(did));
+			} catch (error) {
+				return failure('invalidDid', error instanceof Error ? error.message : 'Invalid DID');
+			}
+		},
+	};
+}
+
+export const didKeyResolver = localDriver(didKeyMethod);
+export const didJwkResolver = localDriver(didJwkMethod);
+
+// did:web:host[%3Aport][:path...] -> https://host[:port]/.well-known/did.json or https://host[:port]/path/.../did.json
+export function didWebToUrl(did: string): string {
+	const [host, ...path] = did.replace(/^did:web:/, '').split(':').map(decodeURIComponent);
+	if (!host || path.some((segment) => !segment)) {
+		throw new DIDResolutionError('invalidDid', `${did} is not a valid did:web identifier`);
+	}
+
+	// Plain HTTP is only accepted for local development hosts
+	const hostname = host.split(':')[0];
+	const scheme = hostname === 'localhost' || hostname === '127.0.0.1' ? 'http' : 'https';
+	return path.length > 0 ? `${scheme}://${host}/${path.join('/')}/did.json` : `${scheme}://${host}/.well-known/did.json`;
+}
+
+export const didWebResolver: DIDResolverDriver = {
+	method: 'web',
+	async resolve(did) {
+		let url: string;
+		try {
+			url = didWebToUrl(did);
+		} catch (error) {
+			return failure('invalidDid', error instanceof Error ? error.message : 'Invalid did:web identifier');
+		}
+
+		const response = await fetch(url, { headers: { Accept: `${DID_JSON_CONTENT_TYPE}, application/json` } });
+		if (response.status === 404) {
+			return failure('notFound', `No DID document at ${url}`);
+		}
+		if (!response.ok) {
+			return failure('internalError', `Fetching ${url} failed with status ${response.status}`);
+		}
+
+		const document = await response.json().catch(() => null);
+		if (!document) {
+			return failure('representationNotSupported', `${url} did not return JSON`);
+		}
+		return success(checkDocument(did, document));
+	},
+};
+
+// DIDs created by the DID WASM module are registered with the backend, which resolves them
+export const nativeDIDResolver: DIDResolverDriver = {
+	method: 'gnark',
+	async resolve(did) {
+		const response = await fetch(buildApiUrl(`/did/resolve/${encodeURIComponent(did)}`));
+		if (response.status === 404) {
+			return failure('notFound', `${did} is not registered`);
+		}
+		if (!response.ok) {
+			const errorData = await response.json().catch(() => ({}));
+			return failure('internalError', errorData.message || 'Failed to resolve DID');
+		}
+
+		const data = await response.json();
+		// Accept a full resolution result or a bare document
+		if (data && 'didDocument' in data) {
+			return {
+				didDocument: checkDocument(did, data.didDocument),
+				didResolutionMetadata: { contentType: DID_JSON_CONTENT_TYPE, ...data.didResolutionMetadata, retrieved: new Date().toISOString() },
+				didDocumentMetadata: data.didDocumentMetadata || {},
+			};
+		}
+		return success(checkDocument(did, data));
+	},
+};
+
+interface CacheEntry {
+	result: DIDResolutionResult;
+	expiresAt: number;
+}
+
+export class DIDResolver {
+	private drivers = new Map<string, DIDResolverDriver>();
+	private cache = new Map<string, CacheEntry>();
+	private inFlight = new Map<string, Promise<DIDResolutionResult>>();
+
+	constructor(private fallback: DIDResolverDriver) {}
+
+	register(driver: DIDResolverDriver): void {
+		this.drivers.set(driver.method, driver);
+	}
+
+	/**
+	 * Resolve a DID; never throws, problems are reported in didResolutionMetadata.error
+	 */
+	async resolve(did: string, options: { noCache?: boolean } = {}): Promise<DIDResolutionResult> {
+		const match = DID_PATTERN.exec(did);
+		if (!match) {
+			return failure('invalidDid', `${did} is not a valid DID`);
+		}
+
+		if (!options.noCache) {
+			const cached = this.cache.get(did);
+			if (cached && cached.expiresAt > Date.now()) {
+				return cached.result;
+			}
+			const pending = this.inFlight.get(did);
+			if (pending) {
+				return pending;
+			}
+		}
+
+		const driver = this.drivers.get(match[1]) || this.fallback;
+		const request = driver
+			.resolve(did)
+			.catch((error) =>
+				error instanceof DIDResolutionError
+					? failure(error.code, error.message)
+					: failure('internalError', error instanceof Error ? error.message : 'Resolution failed')
+			)
+			.then((result) => {
+				// Only successful results are cached, so a DID published later is picked up on the next call
+				const ttl = getDidResolverCacheTtl();
+				if (result.didDocument && ttl > 0) {
+					this.cache.set(did, { result, expiresAt: Date.now() + ttl });
+				}
+				return result;
+			})
+			.finally(() => this.inFlight.delete(did));
+
+		this.inFlight.set(did, request);
+		return request;
+	}
+
+	/**
+	 * Resolve a DID to its document, throwing DIDResolutionError when there is none
+	 */
+	async resolveDocument(did: string): Promise<DIDDocument> {
+		const { didDocument, didResolutionMetadata, didDocumentMetadata } = await this.resolve(did);
+		if (!didDocument) {
+			throw new DIDResolutionError(didResolutionMetadata.error || 'notFound', didResolutionMetadata.message || `Could not resolve ${did}`);
+		}
+		if (didDocumentMetadata.deactivated) {
+			throw new DIDResolutionError('notFound', `${did} has been deactivated`);
+		}
+		return didDocument;
+	}
+
+	// Drop one cached DID, or everything
+	clearCache(did?: string): void {
+		if (did) {
+			this.cache.delete(did);
+		} else {
+			this.cache.clear();
+		}
+	}
+}
+
+// Export singleton instance
+export const didResolver = new DIDResolver(nativeDIDResolver);
+didResolver.register(didKeyResolver);
+didResolver.register(didJwkResolver);
+didResolver.register(didWebResolver);
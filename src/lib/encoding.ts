@@ -0,0 +1,42 @@
+// Hex and base64url helpers shared by the DID, recovery and OpenID modules; no WASM or Node APIs, so they run anywhere
+
+// Parse hex (optionally 0x-prefixed), rejecting odd lengths and non-hex characters
+export function hexToBytes(hex: string): Uint8Array {
+	const clean = hex.trim().replace(/^0x/, '');
+	if (clean.length % 2 !== 0 || !/^[0-9a-fA-F]*$/.test(clean)) {
+		throw new Error('Expected a hex string');
+	}
+	const bytes = new Uint8Array(clean.length / 2);
+	for (let i = 0; i < bytes.length; i++) {
+		bytes[i] = parseInt(clean.substr(i * 2, 2), 16);
+	}
+	return bytes;
+}
+
+// Lowercase hex without prefix
+export function bytesToHex(bytes: Uint8Array): string {
+	return Array.from(bytes, (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+export function randomHex(length: number): string {
+	return bytesToHex(crypto.getRandomValues(new Uint8Array(length)));
+}
+
+// Unpadded base64url (RFC 4648 section 5), as used in JWTs and JWKs
+export function encodeBase64Url(bytes: Uint8Array): string {
+	let binary = '';
+	bytes.forEach((byte) => {
+		binary += String.fromCharCode(byte);
+	});
+	return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function decodeBase64Url(text: string): Uint8Array {
+	const base64 = text.replace(/-/g, '+').replace(/_/g, '/');
+	return Uint8Array.from(atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4)), (char) => char.charCodeAt(0));
+}
+
+// Decode one JWT segment (header or payload)
+export function decodeBase64UrlJSON(segment: string): Record<string, unknown> {
+	return JSON.parse(new TextDecoder().decode(decodeBase64Url(segment)));
+}
@@ -0,0 +1,131 @@
+// Small promise wrapper around IndexedDB shared by the client-side stores
+
+const DB_NAME = 'did-zk-client';
+const DB_VERSION = 3;
+
+export const STORES = {
+	keystoreMeta: 'keystore-meta',
+	keys: 'did-keys',
+	credentials: 'credentials',
+	didDocuments: 'did-documents',
+} as const;
+
+export type StoreName = typeof STORES[keyof typeof STORES];
+
+// Key path used by every object store
+const STORE_KEY_PATHS: Record<StoreName, string> = {
+	[STORES.keystoreMeta]: 'id',
+	[STORES.keys]: 'didId',
+	[STORES.credentials]: 'id',
+	[STORES.didDocuments]: 'id',
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+// Check if IndexedDB can be used in the current environment
+export function isIndexedDBAvailable(): boolean {
+	return typeof window !== 'undefined' && 'indexedDB' in window;
+}
+
+// Open (and upgrade if needed) the shared database
+export function openDatabase(): Promise<IDBDatabase> {
+	if (!isIndexedDBAvailable()) {
+		return Promise.reject(new Error('IndexedDB is not available in this environment'));
+	}
+
+	if (!dbPromise) {
+		dbPromise = new Promise((resolve, reject) => {
+			const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+			request.onupgradeneeded = () => {
+				const db = request.result;
+				for (const [store, keyPath] of Object.entries(STORE_KEY_PATHS)) {
+					if (!db.objectStoreNames.contains(store)) {
+						db.createObjectStore(store, { keyPath });
+					}
+				}
+			};
+
+			request.onsuccess = () => {
+				const db = request.result;
+				// Drop the cached connection if another tab upgrades the schema
+				db.onversionchange = () => {
+					db.close();
+					dbPromise = null;
+				};
+				resolve(db);
+			};
+
+			request.onerror = () => {
+				dbPromise = null;
+				reject(new Error(`Failed to open database: ${request.error?.message || 'Unknown error'}`));
+			};
+		});
+	}
+
+	return dbPromise;
+}
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+	return new Promise((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error || new Error('IndexedDB request failed'));
+	});
+}
+
+// Get a single record by key
+export async function getRecord<T>(store: StoreName, key: IDBValidKey): Promise<T | undefined> {
+	const db = await openDatabase();
+	const tx = db.transaction(store, 'readonly');
+	return requestToPromise<T | undefined>(tx.objectStore(store).get(key));
+}
+
+// Get every record in a store
+export async function getAllRecords<T>(store: StoreName): Promise<T[]> {
+	const db = await openDatabase();
+	const tx = db.transaction(store, 'readonly');
+	return requestToPromise<T[]>(tx.objectStore(store).getAll());
+}
+
+// Insert or replace a record
+export async function putRecord<T>(store: StoreName, value: T): Promise<void> {
+	await runTransaction([store], 'readwrite', (tx) => {
+		tx.objectStore(store).put(value);
+	});
+}
+
+// Delete a record by key
+export async function deleteRecord(store: StoreName, key: IDBValidKey): Promise<void> {
+	await runTransaction([store], 'readwrite', (tx) => {
+		tx.objectStore(store).delete(key);
+	});
+}
+
+// Remove every record in a store
+export async function clearStore(store: StoreName): Promise<void> {
+	await runTransaction([store], 'readwrite', (tx) => {
+		tx.objectStore(store).clear();
+	});
+}
+
+// Run several operations atomically; resolves once the transaction commits
+export async function runTransaction(
+	stores: StoreName[],
+	mode: IDBTransactionMode,
+	operations: (tx: IDBTransaction) => void
+): Promise<void> {
+	const db = await openDatabase();
+	return new Promise((resolve, reject) => {
+		const tx = db.transaction(stores, mode);
+		tx.oncomplete = () => resolve();
+		tx.onerror = () => reject(tx.error || new Error('IndexedDB transaction failed'));
+		tx.onabort = () => reject(tx.error || new Error('IndexedDB transaction aborted'));
+
+		try {
+			operations(tx);
+		} catch (error) {
+			tx.abort();
+			reject(error);
+		}
+	});
+}
@@ -0,0 +1,186 @@
+// JWT signature and claim verification using WebCrypto only, so it runs in the Edge middleware runtime
+import { getJwtVerificationConfig, type JwtVerificationConfig } from './config';
+import { decodeBase64Url } from './encoding';
+
+export interface JWTHeader {
+	alg: string;
+	kid?: string;
+	typ?: string;
+}
+
+export interface JWTPayload {
+	iss?: string;
+	sub?: string;
+	aud?: string | string[];
+	exp?: number;
+	nbf?: number;
+	iat?: number;
+	[claim: string]: unknown;
+}
+
+export type JWTVerificationErrorCode =
+	| 'not_configured'
+	| 'malformed'
+	| 'unsupported_alg'
+	| 'no_key'
+	| 'bad_signature'
+	| 'expired'
+	| 'not_before'
+	| 'issuer'
+	| 'audience';
+
+export class JWTVerificationError extends Error {
+	constructor(
+		message: string,
+		public code: JWTVerificationErrorCode
+	) {
+		super(message);
+		this.name = 'JWTVerificationError';
+	}
+}
+
+// Request headers carrying verified claims to server components; the middleware strips any client-supplied copies
+export const CLAIM_HEADERS = {
+	subject: 'x-auth-sub',
+	claims: 'x-auth-claims',
+} as const;
+
+// Claims travel as base64 JSON so non-ASCII values survive the header encoding
+export function encodeClaimsHeader(claims: JWTPayload): string {
+	const bytes = new TextEncoder().encode(JSON.stringify(claims));
+	let binary = '';
+	bytes.forEach((byte) => {
+		binary += String.fromCharCode(byte);
+	});
+	return btoa(binary);
+}
+
+export function decodeClaimsHeader(value: string): JWTPayload | null {
+	try {
+		return JSON.parse(new TextDecoder().decode(Uint8Array.from(atob(value), (char) => char.charCodeAt(0))));
+	} catch {
+		return null;
+	}
+}
+
+interface AlgorithmParams {
+	importParams: RsaHashedImportParams | EcKeyImportParams | Algorithm;
+	verifyParams: AlgorithmIdentifier | RsaPssParams | EcdsaParams;
+}
+
+const ALGORITHMS: Record<string, AlgorithmParams> = {
+	RS256: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-256' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+	RS384: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-384' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+	RS512: { importParams: { name: 'RSASSA-PKCS1-v1_5', hash: 'SHA-512' }, verifyParams: 'RSASSA-PKCS1-v1_5' },
+	PS256: { importParams: { name: 'RSA-PSS', hash: 'SHA-256' }, verifyParams: { name: 'RSA-PSS', saltLength: 32 } },
+	PS384: { importParams: { name: 'RSA-PSS', hash: 'SHA-384' }, verifyParams: { name: 'RSA-PSS', saltLength: 48 } },
+	ES256: { importParams: { name: 'ECDSA', namedCurve: 'P-256' }, verifyParams: { name: 'ECDSA', hash: 'SHA-256' } },
+	ES384: { importParams: { name: 'ECDSA', namedCurve: 'P-384' }, verifyParams: { name: 'ECDSA', hash: 'SHA-384' } },
+	EdDSA: { importParams: { name: 'Ed25519' }, verifyParams: 'Ed25519' },
+};
+
+const JWKS_CACHE_TTL_MS = 10 * 60 * 1000;
+let jwksCache: { url: string; keys: JsonWebKey[]; fetchedAt: number } | null = null;
+
+function decodeSegment<T>(segment: string): T {
+	try {
+		return JSON.parse(new TextDecoder().decode(decodeBase64Url(segment)));
+	} catch {
+		throw new JWTVerificationError('Token segment is not valid base64url JSON', 'malformed');
+	}
+}
+
+function pemToDer(pem: string): Uint8Array {
+	const body = pem.replace(/-----(BEGIN|END) PUBLIC KEY-----/g, '').replace(/\s+/g, '');
+	return Uint8Array.from(atob(body), (char) => char.charCodeAt(0));
+}
+
+async function fetchJwks(url: string, forceRefresh: boolean): Promise<JsonWebKey[]> {
+	if (!forceRefresh && jwksCache && jwksCache.url === url && Date.now() - jwksCache.fetchedAt < JWKS_CACHE_TTL_MS) {
+		return jwksCache.keys;
+	}
+
+	const response = await fetch(url, { headers: { Accept: 'application/json' } });
+	if (!response.ok) {
+		throw new JWTVerificationError(`Failed to fetch JWKS (${response.status})`, 'no_key');
+	}
+
+	const data = await response.json();
+	const keys: JsonWebKey[] = Array.isArray(data.keys) ? data.keys : [];
+	jwksCache = { url, keys, fetchedAt: Date.now() };
+	return keys;
+}
+
+// Pick the verification key: by kid from the JWKS (refetching once for unknown kids), else the configured PEM key
+async function resolveKey(header: JWTHeader, algorithm: AlgorithmParams, config: JwtVerificationConfig): Promise<CryptoKey> {
+	if (config.jwksUrl) {
+		const matches = (keys: JsonWebKey[]) =>
+			keys.find((key) => {
+				const jwk = key as JsonWebKey & { kid?: string; use?: string };
+				return (!header.kid || jwk.kid === header.kid) && (!jwk.alg || jwk.alg === header.alg) && jwk.use !== 'enc';
+			});
+
+		const jwk = matches(await fetchJwks(config.jwksUrl, false)) || matches(await fetchJwks(config.jwksUrl, true));
+		if (!jwk) {
+			throw new JWTVerificationError(`No JWKS key matches kid ${header.kid || '(none)'}`, 'no_key');
+		}
+		return crypto.subtle.importKey('jwk', jwk, algorithm.importParams, false, ['verify']);
+	}
+
+	if (config.publicKey) {
+		return crypto.subtle.importKey('spki', pemToDer(config.publicKey), algorithm.importParams, false, ['verify']);
+	}
+
+	throw new JWTVerificationError('No JWKS URL or public key configured for token verification', 'not_configured');
+}
+
+function validateClaims(payload: JWTPayload, config: JwtVerificationConfig, now: number): void {
+	const tolerance = config.clockTolerance;
+
+	if (typeof payload.exp !== 'number') {
+		throw new JWTVerificationError('Token has no expiry', 'malformed');
+	}
+	if (now - tolerance >= payload.exp) {
+		throw new JWTVerificationError('Token has expired', 'expired');
+	}
+	if (typeof payload.nbf === 'number' && now + tolerance < payload.nbf) {
+		throw new JWTVerificationError('Token is not valid yet', 'not_before');
+	}
+	if (config.issuer && payload.iss !== config.issuer) {
+		throw new JWTVerificationError('Token issuer is not trusted', 'issuer');
+	}
+	if (config.audience) {
+		const audiences = Array.isArray(payload.aud) ? payload.aud : payload.aud ? [payload.aud] : [];
+		if (!audiences.includes(config.audience)) {
+			throw new JWTVerificationError('Token audience does not match', 'audience');
+		}
+	}
+}
+
+// Verify signature, exp/nbf and (when configured) iss/aud; returns the trusted payload
+export async function verifyJWT(token: string, config: JwtVerificationConfig = getJwtVerificationConfig()): Promise<JWTPayload> {
+	const parts = token.split('.');
+	if (parts.length !== 3) {
+		throw new JWTVerificationError('Token must have three segments', 'malformed');
+	}
+
+	const [encodedHeader, encodedPayload, encodedSignature] = parts;
+	const header = decodeSegment<JWTHeader>(encodedHeader);
+	const algorithm = ALGORITHMS[header.alg];
+	if (!algorithm || !config.algorithms.includes(header.alg)) {
+		throw new JWTVerificationError(`Token algorithm ${header.alg} is not allowed`, 'unsupported_alg');
+	}
+
+	const key = await resolveKey(header, algorithm, config);
+	const signature = decodeBase64Url(encodedSignature);
+	const signingInput = new TextEncoder().encode(`${encodedHeader}.${encodedPayload}`);
+
+	const valid = await crypto.subtle.verify(algorithm.verifyParams, key, signature, signingInput);
+	if (!valid) {
+		throw new JWTVerificationError('Token signature is invalid', 'bad_signature');
+	}
+
+	const payload = decodeSegment<JWTPayload>(encodedPayload);
+	validateClaims(payload, config, Math.floor(Date.now() / 1000));
+	return payload;
+}
@@ -0,0 +1,175 @@
+// DID key rotation: each rotation produces a new DID document version signed by the previous key (or a recovery key)
+import { STORES, deleteRecord, putRecord } from './indexed-db';
+import { keystore } from './keystore';
+import { wasmAuth } from './wasm-auth';
+import { VERIFICATION_RELATIONSHIPS, type DIDDocument } from './did-document';
+import {
+	VersionRejectedError,
+	assertManagedDID,
+	getCurrentDIDDocument,
+	hashDIDDocument,
+	listDIDDocumentVersions,
+	registerDocumentVersion,
+	signAsController,
+	supersedeActiveVersions,
+	versionMessage,
+	type DIDDocumentVersion,
+	type DocumentVersionProof,
+} from './did-document-history';
+
+export const ROTATION_VERIFICATION_KEY_TYPE = 'Ed25519VerificationKey2018';
+
+export interface RotateKeyOptions {
+	// Sign with a recovery key instead of the key in the keystore, e.g. when the current key is lost
+	recoveryKey?: {
+		privateKey: string;
+		verificationMethod: string;
+	};
+}
+
+// Swap the old key's verification method for the new one, keeping services and any other methods
+function replaceKey(document: DIDDocument, oldKeyId: string, newKeyId: string, publicKeyHex: string): DIDDocument {
+	const isOldKey = (entry: string | { id: string }) => {
+		const id = typeof entry === 'string' ? entry : entry.id;
+		return id === oldKeyId || `${document.id}${id}` === oldKeyId;
+	};
+
+	const next: DIDDocument = {
+		...document,
+		verificationMethod: [
+			{ id: newKeyId, type: ROTATION_VERIFICATION_KEY_TYPE, controller: document.id, publicKeyHex },
+			...(document.verificationMethod || []).filter((method) => !isOldKey(method)),
+		],
+	};
+	for (const relationship of VERIFICATION_RELATIONSHIPS) {
+		const remaining = (document[relationship] || []).filter((entry) => !isOldKey(entry));
+		const withNewKey = relationship === 'authentication' || relationship === 'assertionMethod' ? [newKeyId, ...remaining] : remaining;
+		if (withNewKey.length > 0) {
+			next[relationship] = withNewKey;
+		} else {
+			delete next[relationship];
+		}
+	}
+	return next;
+}
+
+// A rotation that was staged locally but never confirmed by the backend
+export async function getPendingRotation(didId: string): Promise<DIDDocumentVersion | null> {
+	const versions = await listDIDDocumentVersions(didId);
+	return versions.find((version) => version.status === 'pending') || null;
+}
+
+// Swap the keystore key and the version history in one IndexedDB transaction
+async function activateVersion(pending: DIDDocumentVersion): Promise<DIDDocumentVersion> {
+	if (!pending.pendingKey) {
+		throw new Error(`Version ${pending.version} has no staged key`);
+	}
+
+	const { pendingKey, ...rest } = pending;
+	const active: DIDDocumentVersion = { ...rest, status: 'active' };
+	const newKey = pending.document.verificationMethod?.find((method) => method.id === pending.keyId);
+
+	await keystore.activateSealedKey(pending.didId, pendingKey, { publicKey: newKey?.publicKeyHex }, [
+		{ store: STORES.didDocuments, value: active },
+		...(await supersedeActiveVersions(pending.didId)),
+	]);
+	return active;
+}
+
+/**
+ * Rotate a DID key: generate a new key pair, sign a new document version with the old (or recovery) key,
+ * register it with the backend and only then switch the keystore over.
+ * The new key is staged (encrypted) before the backend call, so an interrupted rotation can be resumed.
+ * Login and later document updates authenticate through the DID module, so the rotation is refused unless
+ * the module already accepts the new key for this DID; a registered rotation cannot be undone.
+ */
+export async function rotateDIDKey(didId: string, options: RotateKeyOptions = {}): Promise<DIDDocumentVersion> {
+	assertManagedDID(didId);
+	if (await getPendingRotation(didId)) {
+		throw new Error('A previous rotation of this DID was interrupted; resume or discard it first');
+	}
+
+	try {
+		const signingKey = options.recoveryKey?.privateKey || (await keystore.getPrivateKey(didId));
+		const newKey = await wasmAuth.generateAuthKeyPair();
+		// Checked before anything is registered: a key the module rejects would lock the DID out for good
+		if (!(await wasmAuth.verifyKeyControlsDID(didId, newKey.privateKey))) {
+			throw new Error(`The DID module does not accept a new key for ${didId}, so rotating would lock you out of it`);
+		}
+
+		const current = await getCurrentDIDDocument(didId);
+		const versionNumber = current.version + 1;
+		const keyId = `${didId}#key-${versionNumber}`;
+		const document = replaceKey(current.document, current.keyId, keyId, newKey.publicKey);
+		const documentHash = await hashDIDDocument(document);
+		const message = versionMessage('rotation', versionNumber, documentHash, current.previousHash);
+
+		const newKeySignature = await wasmAuth.signDataClientSide(newKey.privateKey, message);
+		let proof: DocumentVersionProof;
+		if (options.recoveryKey) {
+			proof = {
+				signer: 'recovery',
+				verificationMethod: options.recoveryKey.verificationMethod,
+				message,
+				signature: await wasmAuth.signDataClientSide(signingKey, message),
+				newKeySignature,
+				created: new Date().toISOString(),
+			};
+		} else {
+			proof = { ...(await signAsController(didId, signingKey, message, current.keyId)), newKeySignature };
+		}
+
+		const pending: DIDDocumentVersion = {
+			id: `${didId}#${versionNumber}`,
+			didId,
+			version: versionNumber,
+			change: 'rotation',
+			status: 'pending',
+			document,
+			documentHash,
+			previousHash: current.previousHash,
+			keyId,
+			proof,
+			createdAt: new Date().toISOString(),
+			pendingKey: await keystore.sealKey(newKey.privateKey),
+		};
+		await putRecord(STORES.didDocuments, pending);
+
+		try {
+			await registerDocumentVersion(pending);
+		} catch (error) {
+			// Only a refusal proves nothing was registered; on network errors keep the staged key for resumeRotation
+			if (error instanceof VersionRejectedError) {
+				await deleteRecord(STORES.didDocuments, pending.id);
+			}
+			throw error;
+		}
+
+		return await activateVersion(pending);
+	} catch (error) {
+		throw new Error(`Failed to rotate DID key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+	}
+}
+
+// Retry registering an interrupted rotation; the backend accepts the same document hash again
+export async function resumeRotation(didId: string): Promise<DIDDocumentVersion> {
+	const pending = await getPendingRotation(didId);
+	if (!pending) {
+		throw new Error('No interrupted rotation to resume');
+	}
+
+	try {
+		await registerDocumentVersion(pending);
+		return await activateVersion(pending);
+	} catch (error) {
+		throw new Error(`Failed to resume DID key rotation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+	}
+}
+
+// Drop an interrupted rotation; if the backend did register it, the staged key is lost with it
+export async function discardRotation(didId: string): Promise<void> {
+	const pending = await getPendingRotation(didId);
+	if (pending) {
+		await deleteRecord(STORES.didDocuments, pending.id);
+	}
+}
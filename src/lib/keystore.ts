@@ -0,0 +1,320 @@
+// Encrypted local keystore for DID private keys, persisted in IndexedDB
+import { encodeBase64, decodeBase64 } from 'tweetnacl-util';
+import { STORES, getRecord, getAllRecords, putRecord, deleteRecord, runTransaction, type StoreName } from './indexed-db';
+import { getKeystoreAutoLockTimeout, getKeystoreKdfIterations } from './config';
+
+export interface StoredKeyInfo {
+	didId: string;
+	publicKey?: string;
+	label?: string;
+	createdAt: string;
+}
+
+interface EncryptedPayload {
+	ciphertext: string;
+	iv: string;
+}
+
+// A private key encrypted under the keystore key but not yet active for any DID
+export type SealedKey = EncryptedPayload;
+
+// Extra record written in the same transaction as a key change
+export interface RelatedRecord {
+	store: StoreName;
+	value: unknown;
+}
+
+interface EncryptedKeyRecord extends StoredKeyInfo, EncryptedPayload {}
+
+interface KeystoreMeta {
+	id: 'meta';
+	salt: string;
+	iterations: number;
+	verifier: EncryptedPayload;
+	createdAt: string;
+}
+
+export type LockStateListener = (unlocked: boolean) => void;
+
+const META_ID = 'meta';
+const VERIFIER_PLAINTEXT = 'did-keystore-verifier';
+
+export class KeystoreLockedError extends Error {
+	constructor(message = 'Keystore is locked') {
+		super(message);
+		this.name = 'KeystoreLockedError';
+	}
+}
+
+export class DIDKeystore {
+	private encryptionKey: CryptoKey | null = null;
+	private autoLockTimer: ReturnType<typeof setTimeout> | null = null;
+	private listeners = new Set<LockStateListener>();
+
+	/**
+	 * Check whether a passphrase has already been set up
+	 */
+	async isInitialized(): Promise<boolean> {
+		const meta = await getRecord<KeystoreMeta>(STORES.keystoreMeta, META_ID);
+		return !!meta;
+	}
+
+	/**
+	 * Create the keystore with a new passphrase and leave it unlocked
+	 */
+	async initialize(passphrase: string): Promise<void> {
+		if (!passphrase) {
+			throw new Error('Passphrase cannot be empty');
+		}
+		if (await this.isInitialized()) {
+			throw new Error('Keystore is already initialized');
+		}
+
+		try {
+			const salt = crypto.getRandomValues(new Uint8Array(16));
+			const iterations = getKeystoreKdfIterations();
+			const key = await this.deriveKey(passphrase, salt, iterations);
+			const verifier = await this.encrypt(key, VERIFIER_PLAINTEXT);
+
+			const meta: KeystoreMeta = {
+				id: META_ID,
+				salt: encodeBase64(salt),
+				iterations,
+				verifier,
+				createdAt: new Date().toISOString(),
+			};
+			await putRecord(STORES.keystoreMeta, meta);
+
+			this.setUnlocked(key);
+		} catch (error) {
+			throw new Error(`Failed to initialize keystore: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	/**
+	 * Unlock the keystore with the user's passphrase
+	 */
+	async unlock(passphrase: string): Promise<void> {
+		const meta = await getRecord<KeystoreMeta>(STORES.keystoreMeta, META_ID);
+		if (!meta) {
+			throw new Error('Keystore is not initialized');
+		}
+
+		const key = await this.deriveKey(passphrase, decodeBase64(meta.salt), meta.iterations);
+		try {
+			const plaintext = await this.decrypt(key, meta.verifier);
+			if (plaintext !== VERIFIER_PLAINTEXT) {
+				throw new Error('Verifier mismatch');
+			}
+		} catch {
+			throw new Error('Invalid keystore passphrase');
+		}
+
+		this.setUnlocked(key);
+	}
+
+	/**
+	 * Forget the derived encryption key
+	 */
+	lock(): void {
+		if (this.autoLockTimer) {
+			clearTimeout(this.autoLockTimer);
+			this.autoLockTimer = null;
+		}
+		if (!this.encryptionKey) return;
+
+		this.encryptionKey = null;
+		this.notify();
+	}
+
+	get isUnlocked(): boolean {
+		return this.encryptionKey !== null;
+	}
+
+	/**
+	 * Subscribe to lock/unlock changes, returns an unsubscribe function
+	 */
+	onLockStateChange(listener: LockStateListener): () => void {
+		this.listeners.add(listener);
+		return () => {
+			this.listeners.delete(listener);
+		};
+	}
+
+	/**
+	 * Encrypt and persist a DID private key (replaces any existing entry for the DID)
+	 */
+	async storeKey(didId: string, privateKey: string, options: { publicKey?: string; label?: string } = {}): Promise<void> {
+		const key = this.requireKey();
+		if (!didId || !privateKey) {
+			throw new Error('DID and private key are required');
+		}
+
+		try {
+			const payload = await this.encrypt(key, privateKey);
+			const record: EncryptedKeyRecord = {
+				didId,
+				publicKey: options.publicKey,
+				label: options.label,
+				createdAt: new Date().toISOString(),
+				...payload,
+			};
+			await putRecord(STORES.keys, record);
+		} catch (error) {
+			throw new Error(`Failed to store DID key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	/**
+	 * Decrypt the private key stored for a DID
+	 */
+	async getPrivateKey(didId: string): Promise<string> {
+		const key = this.requireKey();
+		const record = await getRecord<EncryptedKeyRecord>(STORES.keys, didId);
+		if (!record) {
+			throw new Error(`No key stored for ${didId}`);
+		}
+
+		try {
+			return await this.decrypt(key, record);
+		} catch (error) {
+			throw new Error(`Failed to decrypt DID key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	/**
+	 * List stored DIDs without decrypting anything
+	 */
+	async listKeys(): Promise<StoredKeyInfo[]> {
+		const records = await getAllRecords<EncryptedKeyRecord>(STORES.keys);
+		return records.map(({ didId, publicKey, label, createdAt }) => ({ didId, publicKey, label, createdAt }));
+	}
+
+	async hasKey(didId: string): Promise<boolean> {
+		const record = await getRecord<EncryptedKeyRecord>(STORES.keys, didId);
+		return !!record;
+	}
+
+	/**
+	 * Encrypt a private key without storing it, e.g. to stage a rotated key before it becomes active
+	 */
+	async sealKey(privateKey: string): Promise<SealedKey> {
+		const key = this.requireKey();
+		if (!privateKey) {
+			throw new Error('Private key is required');
+		}
+		return this.encrypt(key, privateKey);
+	}
+
+	/**
+	 * Make a sealed key the DID's key, writing the related records in the same transaction
+	 */
+	async activateSealedKey(
+		didId: string,
+		sealed: SealedKey,
+		options: { publicKey?: string; label?: string } = {},
+		related: RelatedRecord[] = []
+	): Promise<void> {
+		this.requireKey();
+		const existing = await getRecord<EncryptedKeyRecord>(STORES.keys, didId);
+		const record: EncryptedKeyRecord = {
+			didId,
+			publicKey: options.publicKey,
+			label: options.label ?? existing?.label,
+			createdAt: new Date().toISOString(),
+			ciphertext: sealed.ciphertext,
+			iv: sealed.iv,
+		};
+
+		const stores = Array.from(new Set<StoreName>([STORES.keys, ...related.map((item) => item.store)]));
+		try {
+			await runTransaction(stores, 'readwrite', (tx) => {
+				tx.objectStore(STORES.keys).put(record);
+				related.forEach((item) => tx.objectStore(item.store).put(item.value));
+			});
+		} catch (error) {
+			throw new Error(`Failed to activate DID key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+		}
+	}
+
+	async removeKey(didId: string): Promise<void> {
+		this.requireKey();
+		await deleteRecord(STORES.keys, didId);
+	}
+
+	private requireKey(): CryptoKey {
+		if (!this.encryptionKey) {
+			throw new KeystoreLockedError();
+		}
+		this.scheduleAutoLock();
+		return this.encryptionKey;
+	}
+
+	private setUnlocked(key: CryptoKey): void {
+		this.encryptionKey = key;
+		this.scheduleAutoLock();
+		this.notify();
+	}
+
+	// Restart the inactivity timer on every keystore access
+	private scheduleAutoLock(): void {
+		if (this.autoLockTimer) {
+			clearTimeout(this.autoLockTimer);
+			this.autoLockTimer = null;
+		}
+
+		const timeout = getKeystoreAutoLockTimeout();
+		if (timeout > 0) {
+			this.autoLockTimer = setTimeout(() => this.lock(), timeout);
+		}
+	}
+
+	private notify(): void {
+		const unlocked = this.isUnlocked;
+		this.listeners.forEach((listener) => listener(unlocked));
+	}
+
+	private async deriveKey(passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> {
+		const baseKey = await crypto.subtle.importKey(
+			'raw',
+			new TextEncoder().encode(passphrase),
+			'PBKDF2',
+			false,
+			['deriveKey']
+		);
+
+		return crypto.subtle.deriveKey(
+			{ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+			baseKey,
+			{ name: 'AES-GCM', length: 256 },
+			false,
+			['encrypt', 'decrypt']
+		);
+	}
+
+	private async encrypt(key: CryptoKey, plaintext: string): Promise<EncryptedPayload> {
+		const iv = crypto.getRandomValues(new Uint8Array(12));
+		const ciphertext = await crypto.subtle.encrypt(
+			{ name: 'AES-GCM', iv },
+			key,
+			new TextEncoder().encode(plaintext)
+		);
+
+		return {
+			ciphertext: encodeBase64(new Uint8Array(ciphertext)),
+			iv: encodeBase64(iv),
+		};
+	}
+
+	private async decrypt(key: CryptoKey, payload: EncryptedPayload): Promise<string> {
+		const plaintext = await crypto.subtle.decrypt(
+			{ name: 'AES-GCM', iv: decodeBase64(payload.iv) },
+			key,
+			decodeBase64(payload.ciphertext)
+		);
+		return new TextDecoder().decode(plaintext);
+	}
+}
+
+// Export singleton instance
+export const keystore = new DIDKeystore();
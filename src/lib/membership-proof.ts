@@ -0,0 +1,76 @@
+// Membership proof packages: generate from a wallet credential with the DID WASM module, verify through the backend
+import { z } from 'zod';
+import { buildApiUrl } from './config';
+import { wasmAuth } from './wasm-auth';
+import { getCredentialCommitment } from './credentials';
+import type { WalletCredential } from './credential-wallet';
+
+export const MEMBERSHIP_PROOF_PACKAGE_TYPE = 'MembershipProof';
+export const MEMBERSHIP_PROOF_PACKAGE_VERSION = 1;
+
+export const membershipProofPackageSchema = z.object({
+	type: z.literal(MEMBERSHIP_PROOF_PACKAGE_TYPE),
+	version: z.literal(MEMBERSHIP_PROOF_PACKAGE_VERSION),
+	didId: z.string().min(1),
+	organizationIdHash: z.string().min(1),
+	commitment: z.string().min(1),
+	balanceRangeMin: z.number().int(),
+	balanceRangeMax: z.number().int(),
+	proof: z.string().min(1),
+	createdAt: z.string().datetime({ offset: true }),
+});
+
+export type MembershipProofPackage = z.infer<typeof membershipProofPackageSchema>;
+
+// Prove membership of the credential's organization with a balance inside [min, max]
+export async function generateMembershipProof(entry: WalletCredential, balanceRangeMin: number, balanceRangeMax: number): Promise<MembershipProofPackage> {
+	const secrets = entry.secrets;
+	if (!secrets || secrets.kind !== 'membership') {
+		throw new Error('This credential has no membership secrets stored in the wallet');
+	}
+	if (secrets.balance < balanceRangeMin || secrets.balance > balanceRangeMax) {
+		throw new Error('Balance must be within the specified range');
+	}
+
+	// The stored salt reproduces the credential's commitment, so verifiers can match the proof to the credential
+	const result = await wasmAuth.createMembershipProofClientSide(secrets.organizationId, secrets.balance, balanceRangeMin, balanceRangeMax, secrets.salt);
+	if (result.commitment !== getCredentialCommitment(entry.credential)) {
+		throw new Error('The stored membership secrets do not match this credential');
+	}
+	return {
+		type: MEMBERSHIP_PROOF_PACKAGE_TYPE,
+		version: MEMBERSHIP_PROOF_PACKAGE_VERSION,
+		didId: entry.credential.credentialSubject.id,
+		organizationIdHash: result.organizationIdHash,
+		commitment: result.commitment,
+		balanceRangeMin,
+		balanceRangeMax,
+		proof: result.proof,
+		createdAt: new Date().toISOString(),
+	};
+}
+
+// The DID module has no membership verifier, so the backend checks these proofs
+export async function verifyMembershipProofPackage(proofPackage: MembershipProofPackage): Promise<boolean> {
+	const response = await fetch(buildApiUrl('/proofs/membership/verify'), {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+		},
+		body: JSON.stringify({
+			proof: proofPackage.proof,
+			commitment: proofPackage.commitment,
+			organization_id_hash: proofPackage.organizationIdHash,
+			balance_range_min: proofPackage.balanceRangeMin,
+			balance_range_max: proofPackage.balanceRangeMax,
+		}),
+	});
+
+	if (!response.ok) {
+		const errorData = await response.json().catch(() => ({}));
+		throw new Error(errorData.message || 'Failed to verify membership proof');
+	}
+
+	const data = await response.json();
+	return data.verified === true;
+}
@@ -0,0 +1,100 @@
+// BIP39 recovery phrases for DID private keys
+import { entropyToMnemonic, mnemonicToEntropy, validateMnemonic } from '@scure/bip39';
+import { wordlist } from '@scure/bip39/wordlists/english';
+import { bytesToHex, hexToBytes } from './encoding';
+import { wasmAuth } from './wasm-auth';
+
+// BIP39 entropy is 128-256 bits in 32-bit steps; longer keys are split into 24-word groups
+const MAX_CHUNK_BYTES = 32;
+const MIN_CHUNK_BYTES = 16;
+
+export class MnemonicError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'MnemonicError';
+	}
+}
+
+// Every 32-byte group and the shorter trailing group must be a valid BIP39 entropy length
+function assertEncodable(keyLength: number): void {
+	const trailing = keyLength % MAX_CHUNK_BYTES;
+	if (keyLength < MIN_CHUNK_BYTES || keyLength % 4 !== 0 || (trailing !== 0 && trailing < MIN_CHUNK_BYTES)) {
+		throw new MnemonicError(`A ${keyLength}-byte key cannot be encoded as a recovery phrase`);
+	}
+}
+
+// Split user input on any whitespace and lowercase it
+export function normalizeMnemonic(input: string | string[]): string[] {
+	const text = Array.isArray(input) ? input.join(' ') : input;
+	return text.toLowerCase().split(/\s+/).filter(Boolean);
+}
+
+// Encode a hex private key as recovery words; each group carries its own BIP39 checksum
+export function privateKeyToMnemonic(privateKey: string): string[] {
+	const bytes = hexToBytes(privateKey);
+	assertEncodable(bytes.length);
+
+	const words: string[] = [];
+	for (let offset = 0; offset < bytes.length; offset += MAX_CHUNK_BYTES) {
+		words.push(...entropyToMnemonic(bytes.slice(offset, offset + MAX_CHUNK_BYTES), wordlist).split(' '));
+	}
+	return words;
+}
+
+// Decode recovery words back to the hex private key, reporting unknown words and checksum failures
+export function mnemonicToPrivateKey(input: string | string[]): string {
+	const words = normalizeMnemonic(input);
+
+	const unknown = words.findIndex((word) => !wordlist.includes(word));
+	if (unknown !== -1) {
+		throw new MnemonicError(`Word ${unknown + 1} ("${words[unknown]}") is not in the recovery word list`);
+	}
+
+	// 24-word groups followed by one shorter group
+	const groups: string[][] = [];
+	for (let offset = 0; offset < words.length; offset += 24) {
+		groups.push(words.slice(offset, offset + 24));
+	}
+	if (groups.length === 0 || groups.some((group) => ![12, 15, 18, 21, 24].includes(group.length))) {
+		throw new MnemonicError(`A recovery phrase of ${words.length} words is not valid`);
+	}
+
+	const chunks = groups.map((group, index) => {
+		const phrase = group.join(' ');
+		if (!validateMnemonic(phrase, wordlist)) {
+			throw new MnemonicError(groups.length > 1 ? `Checksum failed in words ${index * 24 + 1}-${index * 24 + group.length}` : 'Recovery phrase checksum failed; check the word order and spelling');
+		}
+		return mnemonicToEntropy(phrase, wordlist);
+	});
+
+	const bytes = new Uint8Array(chunks.reduce((length, chunk) => length + chunk.length, 0));
+	let offset = 0;
+	for (const chunk of chunks) {
+		bytes.set(chunk, offset);
+		offset += chunk.length;
+	}
+	return bytesToHex(bytes);
+}
+
+// Distinct random word positions (0-based, ascending) for the backup quiz
+export function pickQuizPositions(wordCount: number, count: number = 3): number[] {
+	const positions = new Set<number>();
+	const random = new Uint32Array(1);
+	while (positions.size < Math.min(count, wordCount)) {
+		crypto.getRandomValues(random);
+		positions.add(random[0] % wordCount);
+	}
+	return Array.from(positions).sort((a, b) => a - b);
+}
+
+// Recover a DID key from its phrase and prove it controls the DID by signing and verifying a local challenge.
+// The DID module has no key-to-identifier derivation, so the identifier is supplied by the user.
+export async function recoverDIDKey(didId: string, input: string | string[]): Promise<string> {
+	const privateKey = mnemonicToPrivateKey(input);
+
+	if (!(await wasmAuth.verifyKeyControlsDID(didId, privateKey))) {
+		throw new MnemonicError(`The recovered key does not control ${didId}`);
+	}
+
+	return privateKey;
+}
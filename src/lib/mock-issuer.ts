@@ -0,0 +1,251 @@
+// In-memory OpenID4VCI issuer behind the dev-only /mock-issuer routes, for exercising the wallet flow locally
+import nacl from 'tweetnacl';
+import { didResolver } from './did-resolver';
+import { getVerificationMethodKey } from './did-methods';
+import { findVerificationMethod, isAuthorizedFor } from './did-document';
+import { DID_FIXTURES, getFixtureDID } from './did-fixtures';
+import { bytesToHex, decodeBase64Url, decodeBase64UrlJSON, hexToBytes, randomHex } from './encoding';
+import { CREDENTIAL_FORMAT } from './presentation-exchange';
+import { AGE_CREDENTIAL_TYPE, getCredentialSigningInput, type VerifiableCredential } from './credentials';
+import type { CredentialSecrets } from './credential-wallet';
+import { PRE_AUTHORIZED_CODE_GRANT, PROOF_JWT_TYPE, PROOF_SIGNING_ALG } from './openid4vci';
+
+export type MockIssuerStatus = 'offered' | 'token_issued' | 'issued' | 'expired';
+
+/**
+ * A credential is built by the mock issuer page before the offer exists, because the gnark commitment
+ * can only be computed in the browser; the offer is therefore bound to the credential subject's DID
+ */
+export interface MockIssuerOffer {
+	id: string;
+	preAuthorizedCode: string;
+	txCode?: string;
+	credential: VerifiableCredential;
+	secrets?: CredentialSecrets;
+	status: MockIssuerStatus;
+	expiresAt: string;
+	accessToken?: string;
+	cNonce?: string;
+}
+
+export interface MockIssuerError {
+	error: string;
+	error_description: string;
+	c_nonce?: string;
+}
+
+export const MOCK_ISSUER_OFFER_TTL_MS = 10 * 60 * 1000;
+export const MOCK_ISSUER_CONFIGURATION_ID = AGE_CREDENTIAL_TYPE;
+// Proofs of possession older than this are refused
+const PROOF_MAX_AGE_S = 5 * 60;
+// did:web fixture whose key signs the credentials; wallets only accept an issuer DID on the issuer's own host
+const ISSUER_FIXTURE = 'issuer';
+
+// Kept on globalThis so offers survive route module reloads in development
+const globalStore = globalThis as typeof globalThis & { mockIssuerOffers?: Map<string, MockIssuerOffer> };
+const offers = (globalStore.mockIssuerOffers ??= new Map<string, MockIssuerOffer>());
+
+function findOffer(predicate: (offer: MockIssuerOffer) => boolean): MockIssuerOffer | undefined {
+	return Array.from(offers.values()).find((offer) => getMockIssuerOffer(offer.id) && predicate(offer));
+}
+
+// Identifier of the mock issuer; its metadata is served under <issuer>/.well-known
+export function getMockIssuerURL(origin: string): string {
+	return `${origin}/mock-issuer`;
+}
+
+export function getMockIssuerMetadata(origin: string) {
+	const issuer = getMockIssuerURL(origin);
+	return {
+		credential_issuer: issuer,
+		credential_endpoint: `${issuer}/credential`,
+		display: [{ name: 'Mock Issuer', locale: 'en' }],
+		credential_configurations_supported: {
+			[MOCK_ISSUER_CONFIGURATION_ID]: {
+				format: CREDENTIAL_FORMAT,
+				credential_definition: { type: ['VerifiableCredential', AGE_CREDENTIAL_TYPE] },
+				cryptographic_binding_methods_supported: ['did'],
+				proof_types_supported: { jwt: { proof_signing_alg_values_supported: [PROOF_SIGNING_ALG] } },
+				display: [{ name: 'Age Credential', locale: 'en' }],
+			},
+		},
+	};
+}
+
+// DID the mock issuer signs credentials as, when served from host
+export function getMockIssuerDID(host: string): string {
+	return getFixtureDID(host, ISSUER_FIXTURE);
+}
+
+export function getMockAuthorizationServerMetadata(origin: string) {
+	const issuer = getMockIssuerURL(origin);
+	return {
+		issuer,
+		token_endpoint: `${issuer}/token`,
+		grant_types_supported: [PRE_AUTHORIZED_CODE_GRANT],
+		'pre-authorized_grant_anonymous_access_supported': true,
+	};
+}
+
+export function createMockIssuerOffer(credential: VerifiableCredential, options: { secrets?: CredentialSecrets; requireTxCode?: boolean } = {}): MockIssuerOffer {
+	const now = Date.now();
+	offers.forEach((offer, id) => {
+		if (Date.parse(offer.expiresAt) < now - MOCK_ISSUER_OFFER_TTL_MS) {
+			offers.delete(id);
+		}
+	});
+
+	const offer: MockIssuerOffer = {
+		id: randomHex(16),
+		preAuthorizedCode: randomHex(24),
+		txCode: options.requireTxCode ? String(crypto.getRandomValues(new Uint32Array(1))[0] % 1000000).padStart(6, '0') : undefined,
+		credential,
+		secrets: options.secrets,
+		status: 'offered',
+		expiresAt: new Date(now + MOCK_ISSUER_OFFER_TTL_MS).toISOString(),
+	};
+	offers.set(offer.id, offer);
+	return offer;
+}
+
+export function getMockIssuerOffer(id: string): MockIssuerOffer | undefined {
+	const offer = offers.get(id);
+	if (offer && offer.status !== 'issued' && Date.parse(offer.expiresAt) < Date.now()) {
+		offer.status = 'expired';
+	}
+	return offer;
+}
+
+// The credential offer object, returned from credential_offer_uri or embedded in credential_offer
+export function buildCredentialOffer(offer: MockIssuerOffer, origin: string) {
+	return {
+		credential_issuer: getMockIssuerURL(origin),
+		credential_configuration_ids: [MOCK_ISSUER_CONFIGURATION_ID],
+		grants: {
+			[PRE_AUTHORIZED_CODE_GRANT]: {
+				'pre-authorized_code': offer.preAuthorizedCode,
+				...(offer.txCode && { tx_code: { input_mode: 'numeric', length: offer.txCode.length, description: 'Shown on the mock issuer page' } }),
+			},
+		},
+	};
+}
+
+/**
+ * openid-credential-offer:// URIs for an offer: by reference (credential_offer_uri) and by value (credential_offer)
+ */
+export function buildCredentialOfferURIs(offer: MockIssuerOffer, origin: string): { byReference: string; byValue: string } {
+	const byReference = new URLSearchParams({ credential_offer_uri: `${getMockIssuerURL(origin)}/offers/${offer.id}` });
+	const byValue = new URLSearchParams({ credential_offer: JSON.stringify(buildCredentialOffer(offer, origin)) });
+	return { byReference: `openid-credential-offer://?${byReference}`, byValue: `openid-credential-offer://?${byValue}` };
+}
+
+/**
+ * Token endpoint: redeem a pre-authorized code (and transaction code) for an access token and c_nonce
+ */
+export function redeemPreAuthorizedCode(form: URLSearchParams): { access_token: string; token_type: 'Bearer'; expires_in: number; c_nonce: string } | MockIssuerError {
+	if (form.get('grant_type') !== PRE_AUTHORIZED_CODE_GRANT) {
+		return { error: 'unsupported_grant_type', error_description: 'Only the pre-authorized code grant is supported' };
+	}
+	const offer = findOffer((candidate) => candidate.preAuthorizedCode === form.get('pre-authorized_code'));
+	if (!offer || offer.status !== 'offered') {
+		return { error: 'invalid_grant', error_description: 'The offer code is unknown, expired or already used' };
+	}
+	if (offer.txCode && form.get('tx_code') !== offer.txCode) {
+		return { error: 'invalid_grant', error_description: 'The transaction code is wrong' };
+	}
+
+	offer.status = 'token_issued';
+	offer.accessToken = randomHex(32);
+	offer.cNonce = randomHex(16);
+	return {
+		access_token: offer.accessToken,
+		token_type: 'Bearer',
+		expires_in: Math.floor((Date.parse(offer.expiresAt) - Date.now()) / 1000),
+		c_nonce: offer.cNonce,
+	};
+}
+
+// Check a proof-of-possession JWT: issuer audience, current c_nonce, freshness and a signature by the subject's authentication key
+async function verifyProofJWT(jwt: string, offer: MockIssuerOffer, audience: string): Promise<string | null> {
+	const [header, payload, signature] = jwt.split('.');
+	if (!header || !payload || !signature) {
+		return 'The proof is not a JWT';
+	}
+
+	let protectedHeader: Record<string, unknown>;
+	let claims: Record<string, unknown>;
+	try {
+		protectedHeader = decodeBase64UrlJSON(header);
+		claims = decodeBase64UrlJSON(payload);
+	} catch {
+		return 'The proof JWT is malformed';
+	}
+	if (protectedHeader.typ !== PROOF_JWT_TYPE || protectedHeader.alg !== PROOF_SIGNING_ALG) {
+		return `The proof must be a ${PROOF_SIGNING_ALG} ${PROOF_JWT_TYPE}`;
+	}
+	if (claims.aud !== audience || claims.nonce !== offer.cNonce) {
+		return 'The proof is not for this issuer and c_nonce';
+	}
+	if (typeof claims.iat !== 'number' || Math.abs(Date.now() / 1000 - claims.iat) > PROOF_MAX_AGE_S) {
+		return 'The proof is stale';
+	}
+
+	// The key must belong to the DID the credential was prepared for
+	const subject = offer.credential.credentialSubject.id;
+	const kid = typeof protectedHeader.kid === 'string' ? protectedHeader.kid : '';
+	if (!kid.startsWith(`${subject}#`)) {
+		return `The proof must be signed with a key of ${subject}`;
+	}
+	try {
+		const document = await didResolver.resolveDocument(subject);
+		const method = findVerificationMethod(document, kid);
+		if (!method || !isAuthorizedFor(document, method.id, 'authentication')) {
+			return `${kid} is not an authentication method of ${subject}`;
+		}
+		const { keyType, publicKey } = getVerificationMethodKey(method);
+		const valid =
+			keyType === 'Ed25519' && nacl.sign.detached.verify(new TextEncoder().encode(`${header}.${payload}`), decodeBase64Url(signature), publicKey);
+		return valid ? null : 'The proof signature does not match';
+	} catch (error) {
+		return `Could not check the proof: ${error instanceof Error ? error.message : 'Unknown error'}`;
+	}
+}
+
+// Sign the prepared credential with the issuer fixture's key-1, its assertion method
+function signMockCredential(credential: VerifiableCredential): VerifiableCredential {
+	const fixture = DID_FIXTURES.find((candidate) => candidate.name === ISSUER_FIXTURE);
+	if (!fixture) {
+		throw new Error(`The ${ISSUER_FIXTURE} DID fixture is missing`);
+	}
+	const { secretKey } = nacl.sign.keyPair.fromSeed(hexToBytes(fixture.privateKey));
+	const signatureValue = nacl.sign.detached(new TextEncoder().encode(getCredentialSigningInput(credential)), secretKey);
+	return { ...credential, proof: { ...credential.proof, signatureValue: bytesToHex(signatureValue) } };
+}
+
+/**
+ * Credential endpoint: check the access token and proof of possession, then hand out the prepared
+ * credential with its proof secrets. A failed proof gets a fresh c_nonce so the wallet can retry.
+ */
+export async function issueMockCredential(authorization: string | null, body: Record<string, unknown>, origin: string): Promise<{ status: number; body: Record<string, unknown> }> {
+	const token = authorization?.replace(/^Bearer\s+/i, '');
+	const offer = token ? findOffer((candidate) => candidate.accessToken === token) : undefined;
+	if (!offer || offer.status !== 'token_issued') {
+		return { status: 401, body: { error: 'invalid_token', error_description: 'The access token is unknown or already used' } };
+	}
+
+	const types = (body.credential_definition as { type?: unknown } | undefined)?.type;
+	if (body.format !== CREDENTIAL_FORMAT || !Array.isArray(types) || !types.includes(AGE_CREDENTIAL_TYPE)) {
+		return { status: 400, body: { error: 'unsupported_credential_format', error_description: `Only ${CREDENTIAL_FORMAT} ${AGE_CREDENTIAL_TYPE} credentials are offered` } };
+	}
+
+	const proof = body.proof as { proof_type?: unknown; jwt?: unknown } | undefined;
+	const problem = proof?.proof_type === 'jwt' && typeof proof.jwt === 'string' ? await verifyProofJWT(proof.jwt, offer, getMockIssuerURL(origin)) : 'A jwt proof is required';
+	if (problem) {
+		offer.cNonce = randomHex(16);
+		return { status: 400, body: { error: 'invalid_proof', error_description: problem, c_nonce: offer.cNonce } };
+	}
+
+	offer.status = 'issued';
+	offer.accessToken = undefined;
+	return { status: 200, body: { credential: signMockCredential(offer.credential), credential_secrets: offer.secrets } };
+}
@@ -0,0 +1,172 @@
+// In-memory OpenID4VP verifier behind the dev-only /mock-verifier routes, for exercising the wallet flow locally
+import { canonicalJSON } from './canonical-json';
+import { encodeBase64Url, randomHex } from './encoding';
+import { ZK_PROOF_FORMAT, evaluatePresentationSubmission, type PresentationDefinition } from './presentation-exchange';
+
+export type MockVerifierStatus = 'pending' | 'received' | 'rejected' | 'declined' | 'expired';
+
+export interface MockVerifierSession {
+	id: string;
+	nonce: string;
+	state: string;
+	// client_id and response_uri (redirect_uri client id scheme)
+	responseUri: string;
+	definition: PresentationDefinition;
+	status: MockVerifierStatus;
+	createdAt: string;
+	expiresAt: string;
+	vpToken?: unknown;
+	// Why the response was rejected; signatures and proofs are left to the browser, which has the WASM module
+	errors?: string[];
+}
+
+export const MOCK_VERIFIER_SESSION_TTL_MS = 10 * 60 * 1000;
+
+// Asks for a zero-knowledge age proof, the common case for a relying party
+export const DEFAULT_MOCK_DEFINITION: PresentationDefinition = {
+	id: 'mock-verifier-age-over-18',
+	name: 'Mock verifier',
+	purpose: 'Prove that you are at least 18 years old',
+	input_descriptors: [
+		{
+			id: 'age_over_18',
+			name: 'Age 18+',
+			purpose: 'Only the fact that you are 18 or older is shared',
+			format: { [ZK_PROOF_FORMAT]: { proof_type: ['AgeProof'] } },
+			constraints: {
+				fields: [{ path: ['$.threshold'], filter: { type: 'number', minimum: 18 } }],
+			},
+		},
+	],
+};
+
+// Kept on globalThis so sessions survive route module reloads in development
+const globalStore = globalThis as typeof globalThis & { mockVerifierSessions?: Map<string, MockVerifierSession> };
+const sessions = (globalStore.mockVerifierSessions ??= new Map<string, MockVerifierSession>());
+
+function base64UrlJSON(value: unknown): string {
+	return encodeBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+}
+
+function pruneExpired(): void {
+	const now = Date.now();
+	sessions.forEach((session, id) => {
+		if (Date.parse(session.expiresAt) < now - MOCK_VERIFIER_SESSION_TTL_MS) {
+			sessions.delete(id);
+		}
+	});
+}
+
+export function createMockVerifierSession(origin: string, definition: PresentationDefinition = DEFAULT_MOCK_DEFINITION): MockVerifierSession {
+	pruneExpired();
+	const id = randomHex(16);
+	const now = Date.now();
+	const session: MockVerifierSession = {
+		id,
+		nonce: randomHex(16),
+		state: randomHex(16),
+		responseUri: `${origin}/mock-verifier/sessions/${id}/response`,
+		definition,
+		status: 'pending',
+		createdAt: new Date(now).toISOString(),
+		expiresAt: new Date(now + MOCK_VERIFIER_SESSION_TTL_MS).toISOString(),
+	};
+	sessions.set(id, session);
+	return session;
+}
+
+export function getMockVerifierSession(id: string): MockVerifierSession | undefined {
+	const session = sessions.get(id);
+	if (session?.status === 'pending' && Date.parse(session.expiresAt) < Date.now()) {
+		session.status = 'expired';
+	}
+	return session;
+}
+
+function getRequestParams(session: MockVerifierSession) {
+	return {
+		client_id: session.responseUri,
+		client_id_scheme: 'redirect_uri',
+		response_type: 'vp_token',
+		response_mode: 'direct_post',
+		response_uri: session.responseUri,
+		nonce: session.nonce,
+		state: session.state,
+		client_metadata: { client_name: 'Mock Verifier' },
+	};
+}
+
+// Unsigned request object (alg none), as the redirect_uri client id scheme allows
+export function buildRequestObject(session: MockVerifierSession): string {
+	return `${base64UrlJSON({ alg: 'none', typ: 'oauth-authz-req+jwt' })}.${base64UrlJSON({ ...getRequestParams(session), presentation_definition: session.definition })}.`;
+}
+
+/**
+ * openid4vp:// URIs for a session: by reference (request_uri) and by value (everything in the query)
+ */
+export function buildAuthorizationURIs(session: MockVerifierSession, origin: string): { byReference: string; byValue: string } {
+	const byReference = new URLSearchParams({
+		client_id: session.responseUri,
+		request_uri: `${origin}/mock-verifier/sessions/${session.id}/request`,
+	});
+	const { client_metadata, ...params } = getRequestParams(session);
+	const byValue = new URLSearchParams({
+		...params,
+		client_metadata: JSON.stringify(client_metadata),
+		presentation_definition: JSON.stringify(session.definition),
+	});
+	return { byReference: `openid4vp://?${byReference}`, byValue: `openid4vp://?${byValue}` };
+}
+
+function parseJSONObject(value: string): Record<string, unknown> | null {
+	try {
+		const parsed = JSON.parse(value);
+		return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : null;
+	} catch {
+		return null;
+	}
+}
+
+/**
+ * Handle a direct_post response. Checks what the server can check (state, nonce, audience and the
+ * presentation_submission) and stores the vp_token for the mock verifier page to verify cryptographically.
+ */
+export function receiveMockVerifierResponse(session: MockVerifierSession, form: URLSearchParams): { ok: boolean; error?: string } {
+	if (session.status !== 'pending') {
+		return { ok: false, error: `The session is ${session.status}` };
+	}
+	if (form.get('state') !== session.state) {
+		return { ok: false, error: 'state does not match the request' };
+	}
+
+	if (form.get('error')) {
+		session.status = 'declined';
+		session.errors = [form.get('error_description') || form.get('error') || 'declined'];
+		return { ok: true };
+	}
+
+	const vpToken = parseJSONObject(form.get('vp_token') || '');
+	if (!vpToken) {
+		return { ok: false, error: 'vp_token is missing or not a JSON presentation' };
+	}
+
+	const errors: string[] = [];
+	const proof = (vpToken.proof || {}) as { challenge?: unknown; domain?: unknown };
+	if (proof.challenge !== session.nonce) {
+		errors.push('The presentation is not bound to the request nonce');
+	}
+	if (proof.domain !== session.responseUri) {
+		errors.push('The presentation is not addressed to this verifier');
+	}
+	// The separate presentation_submission parameter must describe the signed one
+	const submission = form.get('presentation_submission');
+	if (submission && canonicalJSON(parseJSONObject(submission)) !== canonicalJSON(vpToken.presentation_submission ?? null)) {
+		errors.push('presentation_submission does not match the one in the presentation');
+	}
+	errors.push(...evaluatePresentationSubmission(session.definition, vpToken));
+
+	session.vpToken = vpToken;
+	session.errors = errors;
+	session.status = errors.length === 0 ? 'received' : 'rejected';
+	return { ok: true };
+}
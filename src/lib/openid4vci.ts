@@ -0,0 +1,404 @@
+// OpenID for Verifiable Credential Issuance (wallet side): pre-authorized code offers, token, proof of possession, credential
+import { z } from 'zod';
+import { keystore } from './keystore';
+import { wasmAuth } from './wasm-auth';
+import { didResolver, didWebToUrl } from './did-resolver';
+import { getVerificationMethodKey } from './did-methods';
+import { getVerificationMethods } from './did-document';
+import { CREDENTIAL_FORMAT } from './presentation-exchange';
+import { encodeBase64Url, hexToBytes } from './encoding';
+import { credentialWallet, type CredentialSecrets, type WalletCredential } from './credential-wallet';
+import {
+	CredentialValidationError,
+	getCredentialIssuer,
+	verifiableCredentialSchema,
+	verifyIssuerSignature,
+	type VerifiableCredential,
+} from './credentials';
+
+export const CREDENTIAL_OFFER_SCHEME = 'openid-credential-offer:';
+// Holder page that handles offers opened from a link or QR code
+export const OPENID4VCI_WALLET_PATH = '/wallet/openid4vci';
+export const PRE_AUTHORIZED_CODE_GRANT = 'urn:ietf:params:oauth:grant-type:pre-authorized_code';
+export const PROOF_JWT_TYPE = 'openid4vci-proof+jwt';
+// signDataClientSide produces Ed25519 signatures
+export const PROOF_SIGNING_ALG = 'EdDSA';
+
+const txCodeSchema = z.object({
+	input_mode: z.enum(['numeric', 'text']).optional(),
+	length: z.number().int().positive().optional(),
+	description: z.string().optional(),
+});
+
+export const credentialOfferSchema = z.object({
+	credential_issuer: z.string().url(),
+	credential_configuration_ids: z.array(z.string().min(1)).min(1),
+	grants: z
+		.object({
+			[PRE_AUTHORIZED_CODE_GRANT]: z
+				.object({
+					'pre-authorized_code': z.string().min(1),
+					tx_code: txCodeSchema.optional(),
+				})
+				.passthrough(),
+		})
+		.passthrough(),
+});
+
+const displaySchema = z.array(z.object({ name: z.string().optional(), locale: z.string().optional() }).passthrough()).optional();
+
+export const credentialConfigurationSchema = z
+	.object({
+		format: z.string().min(1),
+		credential_definition: z.object({ type: z.array(z.string()).min(1) }).passthrough().optional(),
+		proof_types_supported: z.record(z.object({ proof_signing_alg_values_supported: z.array(z.string()) }).passthrough()).optional(),
+		display: displaySchema,
+	})
+	.passthrough();
+
+export const issuerMetadataSchema = z
+	.object({
+		credential_issuer: z.string().url(),
+		authorization_servers: z.array(z.string().url()).optional(),
+		credential_endpoint: z.string().url(),
+		nonce_endpoint: z.string().url().optional(),
+		credential_configurations_supported: z.record(credentialConfigurationSchema),
+		display: displaySchema,
+	})
+	.passthrough();
+
+const tokenResponseSchema = z.object({
+	access_token: z.string().min(1),
+	token_type: z.string().refine((type) => type.toLowerCase() === 'bearer', 'only Bearer tokens are supported'),
+	c_nonce: z.string().optional(),
+});
+
+// Holder-only inputs for zero-knowledge proofs; an extension the gnark issuers add next to the credential
+const credentialSecretsSchema = z.discriminatedUnion('kind', [
+	z.object({ kind: z.literal('age'), age: z.number().int().nonnegative(), salt: z.string().min(1) }),
+	z.object({ kind: z.literal('membership'), organizationId: z.string().min(1), balance: z.number().int(), salt: z.string().min(1) }),
+]);
+
+export type CredentialOfferPayload = z.infer<typeof credentialOfferSchema>;
+export type IssuerMetadata = z.infer<typeof issuerMetadataSchema>;
+
+export interface OfferedCredential {
+	configurationId: string;
+	types: string[];
+	name?: string;
+}
+
+export interface ResolvedCredentialOffer {
+	credentialIssuer: string;
+	issuerName?: string;
+	metadata: IssuerMetadata;
+	credentials: OfferedCredential[];
+	preAuthorizedCode: string;
+	// Present when the issuer sent the user a transaction code out of band
+	txCode?: z.infer<typeof txCodeSchema>;
+}
+
+export interface AcceptOfferOptions {
+	txCode?: string;
+	privateKey?: string;
+}
+
+export class OpenID4VCIError extends Error {
+	constructor(message: string, public readonly code?: string) {
+		super(message);
+		this.name = 'OpenID4VCIError';
+	}
+}
+
+// Tokens and credentials travel over these endpoints, so only HTTPS (or localhost during development) is accepted
+function isAllowedEndpoint(uri: string): boolean {
+	try {
+		const url = new URL(uri);
+		return url.protocol === 'https:' || (url.protocol === 'http:' && ['localhost', '127.0.0.1'].includes(url.hostname));
+	} catch {
+		return false;
+	}
+}
+
+// Query parameters of an openid-credential-offer:// URI, a wallet page link or a bare query string
+function readParams(uri: string): URLSearchParams {
+	try {
+		return uri.includes('://') ? new URL(uri.trim()).searchParams : new URLSearchParams(uri.trim().replace(/^\?/, ''));
+	} catch {
+		throw new OpenID4VCIError('Not a valid credential offer URI');
+	}
+}
+
+async function fetchJSON(url: string, what: string): Promise<unknown> {
+	if (!isAllowedEndpoint(url)) {
+		throw new OpenID4VCIError(`The ${what} must be served over HTTPS`);
+	}
+	const response = await fetch(url, { headers: { Accept: 'application/json' } });
+	if (!response.ok) {
+		throw new OpenID4VCIError(`Fetching the ${what} failed with status ${response.status}`);
+	}
+	return response.json();
+}
+
+function describeIssues(error: z.ZodError): string {
+	return error.issues.map((issue) => `${issue.path.join('.') || 'value'} ${issue.message}`).join(', ');
+}
+
+// Issuer metadata lives at <credential_issuer>/.well-known/openid-credential-issuer
+async function fetchIssuerMetadata(credentialIssuer: string): Promise<IssuerMetadata> {
+	const parsed = issuerMetadataSchema.safeParse(await fetchJSON(`${credentialIssuer.replace(/\/$/, '')}/.well-known/openid-credential-issuer`, 'issuer metadata'));
+	if (!parsed.success) {
+		throw new OpenID4VCIError(`Invalid issuer metadata: ${describeIssues(parsed.error)}`);
+	}
+	// Guards against metadata served for a different issuer
+	if (parsed.data.credential_issuer !== credentialIssuer) {
+		throw new OpenID4VCIError('The issuer metadata belongs to a different issuer');
+	}
+	// The access token and proofs of possession are posted to these
+	if (!isAllowedEndpoint(parsed.data.credential_endpoint)) {
+		throw new OpenID4VCIError('The issuer credential_endpoint must be served over HTTPS');
+	}
+	if (parsed.data.nonce_endpoint !== undefined && !isAllowedEndpoint(parsed.data.nonce_endpoint)) {
+		throw new OpenID4VCIError('The issuer nonce_endpoint must be served over HTTPS');
+	}
+	return parsed.data;
+}
+
+/**
+ * Parse a credential offer passed by value (credential_offer) or by reference (credential_offer_uri)
+ * and load the issuer metadata. Only the pre-authorized code flow and ldp_vc credentials are supported.
+ */
+export async function resolveCredentialOffer(uri: string): Promise<ResolvedCredentialOffer> {
+	const params = readParams(uri);
+	let raw: unknown;
+	if (params.get('credential_offer')) {
+		try {
+			raw = JSON.parse(params.get('credential_offer') as string);
+		} catch {
+			throw new OpenID4VCIError('credential_offer is not valid JSON');
+		}
+	} else if (params.get('credential_offer_uri')) {
+		raw = await fetchJSON(params.get('credential_offer_uri') as string, 'credential offer');
+	} else {
+		throw new OpenID4VCIError('The link has no credential_offer or credential_offer_uri');
+	}
+
+	if (raw && typeof raw === 'object' && !(raw as { grants?: Record<string, unknown> }).grants?.[PRE_AUTHORIZED_CODE_GRANT]) {
+		throw new OpenID4VCIError('Only pre-authorized code offers are supported');
+	}
+	const parsed = credentialOfferSchema.safeParse(raw);
+	if (!parsed.success) {
+		throw new OpenID4VCIError(`Invalid credential offer: ${describeIssues(parsed.error)}`);
+	}
+
+	const offer = parsed.data;
+	const metadata = await fetchIssuerMetadata(offer.credential_issuer);
+	const credentials = offer.credential_configuration_ids.map((id): OfferedCredential => {
+		const configuration = metadata.credential_configurations_supported[id];
+		if (!configuration) {
+			throw new OpenID4VCIError(`The issuer does not describe the offered credential ${id}`);
+		}
+		if (configuration.format !== CREDENTIAL_FORMAT || !configuration.credential_definition) {
+			throw new OpenID4VCIError(`${id} is issued as ${configuration.format}; only ${CREDENTIAL_FORMAT} credentials are supported`);
+		}
+		const algorithms = configuration.proof_types_supported?.jwt?.proof_signing_alg_values_supported;
+		if (configuration.proof_types_supported && !algorithms?.includes(PROOF_SIGNING_ALG)) {
+			throw new OpenID4VCIError(`${id} needs a proof of possession this wallet cannot sign (${PROOF_SIGNING_ALG} JWT)`);
+		}
+		return { configurationId: id, types: configuration.credential_definition.type, name: configuration.display?.[0]?.name };
+	});
+
+	const grant = offer.grants[PRE_AUTHORIZED_CODE_GRANT];
+	return {
+		credentialIssuer: offer.credential_issuer,
+		issuerName: metadata.display?.[0]?.name,
+		metadata,
+		credentials,
+		preAuthorizedCode: grant['pre-authorized_code'],
+		txCode: grant.tx_code,
+	};
+}
+
+// Wallet page link for an offer URI, so offers can be opened from a scanned QR code
+export function buildWalletOfferLink(uri: string, origin?: string): string {
+	const base = origin || (typeof window !== 'undefined' ? window.location.origin : '');
+	return `${base}${OPENID4VCI_WALLET_PATH}?${readParams(uri).toString()}`;
+}
+
+async function readError(response: Response, fallback: string): Promise<OpenID4VCIError> {
+	const data = await response.json().catch(() => ({}));
+	return new OpenID4VCIError(data.error_description || data.error || fallback, data.error);
+}
+
+// Exchange the pre-authorized code for an access token at the authorization server
+async function requestAccessToken(offer: ResolvedCredentialOffer, txCode?: string): Promise<z.infer<typeof tokenResponseSchema>> {
+	const authorizationServer = offer.metadata.authorization_servers?.[0] || offer.credentialIssuer;
+	const serverMetadata = (await fetchJSON(`${authorizationServer.replace(/\/$/, '')}/.well-known/oauth-authorization-server`, 'authorization server metadata')) as { token_endpoint?: unknown };
+	if (typeof serverMetadata.token_endpoint !== 'string' || !isAllowedEndpoint(serverMetadata.token_endpoint)) {
+		throw new OpenID4VCIError('The authorization server has no usable token_endpoint');
+	}
+
+	const body = new URLSearchParams({ grant_type: PRE_AUTHORIZED_CODE_GRANT, 'pre-authorized_code': offer.preAuthorizedCode });
+	if (offer.txCode) {
+		if (!txCode) {
+			throw new OpenID4VCIError('Enter the transaction code the issuer sent you');
+		}
+		body.set('tx_code', txCode);
+	}
+
+	const response = await fetch(serverMetadata.token_endpoint, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/x-www-form-urlencoded',
+		},
+		body: body.toString(),
+	});
+	if (!response.ok) {
+		throw await readError(response, 'The issuer refused the offer code');
+	}
+	const parsed = tokenResponseSchema.safeParse(await response.json());
+	if (!parsed.success) {
+		throw new OpenID4VCIError(`Invalid token response: ${describeIssues(parsed.error)}`);
+	}
+	return parsed.data;
+}
+
+async function fetchNonce(offer: ResolvedCredentialOffer): Promise<string> {
+	if (!offer.metadata.nonce_endpoint) {
+		throw new OpenID4VCIError('The issuer provided no c_nonce to sign');
+	}
+	const response = await fetch(offer.metadata.nonce_endpoint, { method: 'POST' });
+	const data = await response.json().catch(() => ({}));
+	if (!response.ok || typeof data.c_nonce !== 'string') {
+		throw new OpenID4VCIError('Failed to get a c_nonce from the issuer');
+	}
+	return data.c_nonce;
+}
+
+/**
+ * Proof-of-possession JWT for a credential request: the holder's DID key signs the issuer
+ * audience and its c_nonce, and kid names the authentication method so the issuer can resolve the key
+ */
+export async function createProofJWT(holder: string, audience: string, nonce: string, privateKey?: string): Promise<string> {
+	const document = await didResolver.resolveDocument(holder);
+	const method = getVerificationMethods(document, 'authentication')[0];
+	if (!method) {
+		throw new OpenID4VCIError(`${holder} has no authentication method`);
+	}
+	if (getVerificationMethodKey(method).keyType !== 'Ed25519') {
+		throw new OpenID4VCIError('Proofs of possession need an Ed25519 authentication key');
+	}
+
+	const encode = (value: unknown) => encodeBase64Url(new TextEncoder().encode(JSON.stringify(value)));
+	const signingInput = `${encode({ alg: PROOF_SIGNING_ALG, typ: PROOF_JWT_TYPE, kid: method.id })}.${encode({ aud: audience, iat: Math.floor(Date.now() / 1000), nonce })}`;
+	const signature = await wasmAuth.signDataClientSide(privateKey || (await keystore.getPrivateKey(holder)), signingInput);
+	return `${signingInput}.${encodeBase64Url(hexToBytes(signature))}`;
+}
+
+// The issuer must be a did:web on the credential_issuer host, so the offering issuer vouches for it
+function checkIssuerBinding(credential: VerifiableCredential, credentialIssuer: string): void {
+	const issuer = getCredentialIssuer(credential);
+	if (!issuer.startsWith('did:web:') || new URL(didWebToUrl(issuer)).host !== new URL(credentialIssuer).host) {
+		throw new OpenID4VCIError(`The credential issuer ${issuer} does not belong to ${credentialIssuer}`);
+	}
+}
+
+// Validate the issued credential, its issuer signature and its secrets before anything is stored
+async function readCredentialResponse(
+	data: Record<string, unknown>,
+	offer: ResolvedCredentialOffer,
+	holder: string,
+	offered: OfferedCredential
+): Promise<{ credential: VerifiableCredential; secrets?: CredentialSecrets }> {
+	if (data.transaction_id) {
+		throw new OpenID4VCIError('The issuer deferred issuance, which this wallet does not support');
+	}
+	// Draft 13 returns credential, later drafts a credentials array
+	const raw = data.credential ?? (Array.isArray(data.credentials) ? (data.credentials[0] as { credential?: unknown })?.credential : undefined);
+	const parsed = verifiableCredentialSchema.safeParse(raw);
+	if (!parsed.success) {
+		throw new CredentialValidationError(
+			'The issuer returned an invalid credential',
+			parsed.error.issues.map((issue) => `${issue.path.join('.') || 'credential'}: ${issue.message}`)
+		);
+	}
+	const credential = parsed.data;
+	if (credential.credentialSubject.id !== holder) {
+		throw new OpenID4VCIError(`The credential was issued to ${credential.credentialSubject.id}, not ${holder}`);
+	}
+	const missing = offered.types.filter((type) => !credential.type.includes(type));
+	if (missing.length > 0) {
+		throw new OpenID4VCIError(`The credential is not a ${missing.join(', ')}`);
+	}
+	checkIssuerBinding(credential, offer.credentialIssuer);
+	await verifyIssuerSignature(credential);
+
+	if (data.credential_secrets === undefined) {
+		return { credential };
+	}
+	const secrets = credentialSecretsSchema.safeParse(data.credential_secrets);
+	if (!secrets.success) {
+		throw new OpenID4VCIError(`Invalid credential_secrets: ${describeIssues(secrets.error)}`);
+	}
+	return { credential, secrets: secrets.data };
+}
+
+/**
+ * Accept an offer for a holder DID: redeem the pre-authorized code, request every offered credential
+ * with a proof of possession (retrying once when the issuer answers invalid_proof with a fresh c_nonce)
+ * and store the credentials in the wallet
+ */
+export async function acceptCredentialOffer(offer: ResolvedCredentialOffer, holder: string, options: AcceptOfferOptions = {}): Promise<WalletCredential[]> {
+	try {
+		const token = await requestAccessToken(offer, options.txCode);
+		let nonce = token.c_nonce;
+		const received: { credential: VerifiableCredential; secrets?: CredentialSecrets }[] = [];
+
+		for (const offered of offer.credentials) {
+			let data: Record<string, unknown> | undefined;
+			for (let attempt = 0; attempt < 2 && !data; attempt++) {
+				nonce = nonce || (await fetchNonce(offer));
+				const response = await fetch(offer.metadata.credential_endpoint, {
+					method: 'POST',
+					headers: {
+						'Content-Type': 'application/json',
+						Authorization: `Bearer ${token.access_token}`,
+					},
+					body: JSON.stringify({
+						format: CREDENTIAL_FORMAT,
+						credential_definition: { type: offered.types },
+						proof: { proof_type: 'jwt', jwt: await createProofJWT(holder, offer.credentialIssuer, nonce, options.privateKey) },
+					}),
+				});
+
+				const body = await response.json().catch(() => ({}));
+				if (response.ok) {
+					data = body;
+				} else if (body.error === 'invalid_proof' && typeof body.c_nonce === 'string' && attempt === 0) {
+					nonce = body.c_nonce;
+				} else {
+					throw new OpenID4VCIError(body.error_description || body.error || `The issuer refused to issue ${offered.name || offered.configurationId}`, body.error);
+				}
+			}
+
+			const result = data as Record<string, unknown>;
+			nonce = typeof result.c_nonce === 'string' ? result.c_nonce : undefined;
+			received.push(await readCredentialResponse(result, offer, holder, offered));
+		}
+
+		// Stored only once every offered credential arrived, so a failed offer leaves the wallet unchanged
+		const entries: WalletCredential[] = [];
+		for (const { credential, secrets } of received) {
+			entries.push(await credentialWallet.add(credential, secrets));
+		}
+		return entries;
+	} catch (error) {
+		if (error instanceof CredentialValidationError) throw error;
+		throw new Error(`Failed to accept credential offer: ${error instanceof Error ? error.message : 'Unknown error'}`);
+	}
+}
+
+// Short label for an offered credential
+export function describeOfferedCredential(offered: OfferedCredential): string {
+	return offered.name || offered.types.filter((type) => type !== 'VerifiableCredential').join(', ') || offered.configurationId;
+}
@@ -0,0 +1,262 @@
+// OpenID for Verifiable Presentations (holder side): parse openid4vp:// requests, answer with a vp_token via direct_post
+import { z } from 'zod';
+import type { WalletCredential } from './credential-wallet';
+import { decodeBase64UrlJSON } from './encoding';
+import {
+	PresentationDefinitionError,
+	fulfillPresentationDefinition,
+	matchPresentationDefinition,
+	parsePresentationDefinition,
+	type DescriptorMatch,
+	type DescriptorSelection,
+	type PresentationDefinition,
+} from './presentation-exchange';
+
+export const OPENID4VP_SCHEME = 'openid4vp:';
+// Holder page that handles requests opened from a link or QR code
+export const OPENID4VP_WALLET_PATH = '/wallet/openid4vp';
+export const REQUEST_OBJECT_CONTENT_TYPE = 'application/oauth-authz-req+jwt';
+
+export interface AuthorizationRequest {
+	clientId: string;
+	clientIdScheme: 'redirect_uri';
+	responseUri: string;
+	nonce: string;
+	state?: string;
+	presentationDefinition: PresentationDefinition;
+	// Display name from client_metadata, when given
+	clientName?: string;
+}
+
+export interface AuthorizationResponseResult {
+	// Where the verifier wants the user to continue, if anywhere
+	redirectUri?: string;
+}
+
+export class OpenID4VPError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'OpenID4VPError';
+	}
+}
+
+const requestParamsSchema = z.object({
+	client_id: z.string().min(1),
+	client_id_scheme: z.literal('redirect_uri').optional(),
+	response_type: z.literal('vp_token', { errorMap: () => ({ message: 'only response_type=vp_token is supported' }) }),
+	response_mode: z.literal('direct_post', { errorMap: () => ({ message: 'only response_mode=direct_post is supported' }) }),
+	response_uri: z.string().url(),
+	nonce: z.string().min(1),
+	state: z.string().optional(),
+	presentation_definition: z.unknown().optional(),
+	presentation_definition_uri: z.string().url().optional(),
+	client_metadata: z.object({ client_name: z.string().optional() }).passthrough().optional(),
+});
+
+// Responses carry signed presentations, so only HTTPS (or localhost during development) is accepted
+function isAllowedEndpoint(uri: string): boolean {
+	try {
+		const url = new URL(uri);
+		return url.protocol === 'https:' || (url.protocol === 'http:' && ['localhost', '127.0.0.1'].includes(url.hostname));
+	} catch {
+		return false;
+	}
+}
+
+// Query parameters of an openid4vp:// URI, a wallet page link or a bare query string
+function readParams(uri: string): URLSearchParams {
+	try {
+		return uri.includes('://') ? new URL(uri.trim()).searchParams : new URLSearchParams(uri.trim().replace(/^\?/, ''));
+	} catch {
+		throw new OpenID4VPError('Not a valid OpenID4VP request URI');
+	}
+}
+
+// Objects arrive as JSON strings in query parameters and as JSON values in request objects
+function parseJSONParam(value: unknown, name: string): unknown {
+	if (typeof value !== 'string') return value;
+	try {
+		return JSON.parse(value);
+	} catch {
+		throw new OpenID4VPError(`${name} is not valid JSON`);
+	}
+}
+
+/**
+ * Fetch a request object by reference. Only unsigned request objects are supported, which the
+ * redirect_uri client id scheme requires anyway; signed ones would need verifier key trust we do not have.
+ */
+async function fetchRequestObject(requestUri: string): Promise<Record<string, unknown>> {
+	if (!isAllowedEndpoint(requestUri)) {
+		throw new OpenID4VPError('request_uri must be an HTTPS URL');
+	}
+
+	const response = await fetch(requestUri, { headers: { Accept: `${REQUEST_OBJECT_CONTENT_TYPE}, application/json` } });
+	if (!response.ok) {
+		throw new OpenID4VPError(`Fetching the request object failed with status ${response.status}`);
+	}
+
+	const body = (await response.text()).trim();
+	if (body.startsWith('{')) {
+		return JSON.parse(body);
+	}
+
+	const [header, payload, signature] = body.split('.');
+	if (!header || !payload) {
+		throw new OpenID4VPError('The request object is neither JSON nor a JWT');
+	}
+	let alg: unknown;
+	try {
+		alg = decodeBase64UrlJSON(header).alg;
+	} catch {
+		throw new OpenID4VPError('The request object header is malformed');
+	}
+	if (alg !== 'none' || signature) {
+		throw new OpenID4VPError(`Signed request objects (${String(alg)}) are not supported`);
+	}
+	try {
+		return decodeBase64UrlJSON(payload);
+	} catch {
+		throw new OpenID4VPError('The request object payload is malformed');
+	}
+}
+
+async function fetchPresentationDefinition(uri: string): Promise<unknown> {
+	if (!isAllowedEndpoint(uri)) {
+		throw new OpenID4VPError('presentation_definition_uri must be an HTTPS URL');
+	}
+	const response = await fetch(uri, { headers: { Accept: 'application/json' } });
+	if (!response.ok) {
+		throw new OpenID4VPError(`Fetching the presentation definition failed with status ${response.status}`);
+	}
+	return response.json();
+}
+
+/**
+ * Parse an authorization request passed by value (all parameters in the URI) or by reference (request_uri)
+ */
+export async function resolveAuthorizationRequest(uri: string): Promise<AuthorizationRequest> {
+	const params = readParams(uri);
+	let raw: Record<string, unknown> = Object.fromEntries(params.entries());
+
+	const requestUri = params.get('request_uri');
+	if (requestUri) {
+		const requestObject = await fetchRequestObject(requestUri);
+		// The client_id outside the request object must match the one inside
+		if (params.get('client_id') && requestObject.client_id !== params.get('client_id')) {
+			throw new OpenID4VPError('client_id does not match the request object');
+		}
+		raw = requestObject;
+	} else if (params.get('request')) {
+		throw new OpenID4VPError('Request objects passed by value are not supported; use request_uri');
+	}
+
+	const parsed = requestParamsSchema.safeParse({
+		...raw,
+		client_metadata: raw.client_metadata === undefined ? undefined : parseJSONParam(raw.client_metadata, 'client_metadata'),
+	});
+	if (!parsed.success) {
+		throw new OpenID4VPError(`Invalid authorization request: ${parsed.error.issues.map((issue) => `${issue.path.join('.')} ${issue.message}`).join(', ')}`);
+	}
+
+	const request = parsed.data;
+	if (!isAllowedEndpoint(request.response_uri)) {
+		throw new OpenID4VPError('response_uri must be an HTTPS URL');
+	}
+	// With the redirect_uri scheme the client is identified by where the response goes
+	if (request.client_id !== request.response_uri) {
+		throw new OpenID4VPError('client_id must equal response_uri for the redirect_uri client id scheme');
+	}
+
+	let definition: unknown;
+	if (request.presentation_definition !== undefined) {
+		definition = parseJSONParam(request.presentation_definition, 'presentation_definition');
+	} else if (request.presentation_definition_uri) {
+		definition = await fetchPresentationDefinition(request.presentation_definition_uri);
+	} else {
+		throw new OpenID4VPError('The request has no presentation_definition');
+	}
+
+	let presentationDefinition: PresentationDefinition;
+	try {
+		presentationDefinition = parsePresentationDefinition(definition);
+	} catch (error) {
+		const details = error instanceof PresentationDefinitionError ? error.errors.join('; ') : 'malformed definition';
+		throw new OpenID4VPError(`Invalid presentation_definition: ${details}`);
+	}
+
+	return {
+		clientId: request.client_id,
+		clientIdScheme: 'redirect_uri',
+		responseUri: request.response_uri,
+		nonce: request.nonce,
+		state: request.state,
+		presentationDefinition,
+		clientName: request.client_metadata?.client_name,
+	};
+}
+
+// Wallet page link for an openid4vp:// URI, so requests can be opened from a scanned QR code
+export function buildWalletRequestLink(uri: string, origin?: string): string {
+	const base = origin || (typeof window !== 'undefined' ? window.location.origin : '');
+	return `${base}${OPENID4VP_WALLET_PATH}?${readParams(uri).toString()}`;
+}
+
+export function matchAuthorizationRequest(request: AuthorizationRequest, entries: WalletCredential[]): DescriptorMatch[] {
+	return matchPresentationDefinition(request.presentationDefinition, entries);
+}
+
+async function postResponse(request: AuthorizationRequest, body: URLSearchParams): Promise<AuthorizationResponseResult> {
+	if (request.state) {
+		body.set('state', request.state);
+	}
+
+	const response = await fetch(request.responseUri, {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/x-www-form-urlencoded',
+		},
+		body: body.toString(),
+	});
+
+	const data = await response.json().catch(() => ({}));
+	if (!response.ok) {
+		throw new OpenID4VPError(data.error_description || data.message || 'The verifier rejected the response');
+	}
+	// The wallet page links to redirect_uri, so anything but an HTTPS (or local) URL, e.g. javascript:, is dropped
+	return { redirectUri: typeof data.redirect_uri === 'string' && isAllowedEndpoint(data.redirect_uri) ? data.redirect_uri : undefined };
+}
+
+/**
+ * Answer a request: build the presentation (bound to the request nonce, with the client id as audience)
+ * and post it as vp_token with its presentation_submission to the response_uri
+ */
+export async function respondToAuthorizationRequest(
+	request: AuthorizationRequest,
+	selection: DescriptorSelection,
+	entries: WalletCredential[],
+	options: { privateKey?: string } = {}
+): Promise<AuthorizationResponseResult> {
+	const presentation = await fulfillPresentationDefinition(request.presentationDefinition, selection, entries, {
+		challenge: request.nonce,
+		domain: request.clientId,
+		privateKey: options.privateKey,
+	});
+
+	try {
+		return await postResponse(
+			request,
+			new URLSearchParams({
+				vp_token: JSON.stringify(presentation),
+				presentation_submission: JSON.stringify(presentation.presentation_submission),
+			})
+		);
+	} catch (error) {
+		throw new Error(`Failed to send presentation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+	}
+}
+
+// Tell the verifier the user declined
+export async function declineAuthorizationRequest(request: AuthorizationRequest): Promise<void> {
+	await postResponse(request, new URLSearchParams({ error: 'access_denied', error_description: 'The user declined to share credentials' }));
+}
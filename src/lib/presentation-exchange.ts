@@ -0,0 +1,544 @@
+// DIF Presentation Exchange v2: parse presentation definitions, match them against the wallet and answer with a presentation submission
+import { z } from 'zod';
+import type { WalletCredential } from './credential-wallet';
+import { getCredentialCommitment } from './credentials';
+import { AGE_PROOF_PACKAGE_TYPE, AGE_PROOF_PACKAGE_VERSION, generateAgeProof } from './age-proof';
+import { MEMBERSHIP_PROOF_PACKAGE_TYPE, MEMBERSHIP_PROOF_PACKAGE_VERSION, generateMembershipProof } from './membership-proof';
+import { createPresentation, type VerifiablePresentation, type ZKProofPackage } from './presentations';
+
+// Claim format of the credentials this wallet holds
+export const CREDENTIAL_FORMAT = 'ldp_vc';
+// Claim format for the gnark ZK proof packages; input descriptors ask for one with format: { gnark_zkp: { proof_type: [...] } }
+export const ZK_PROOF_FORMAT = 'gnark_zkp';
+
+export const SUPPORTED_PROOF_TYPES = [AGE_PROOF_PACKAGE_TYPE, MEMBERSHIP_PROOF_PACKAGE_TYPE] as const;
+
+export type ZKProofType = (typeof SUPPORTED_PROOF_TYPES)[number];
+
+// Upper bound used for membership proofs when the verifier only sets a minimum balance
+export const MAX_MEMBERSHIP_BALANCE = 2147483647;
+
+// The JSON Schema subset accepted in field filters
+export interface FieldFilter {
+	type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+	const?: unknown;
+	enum?: unknown[];
+	pattern?: string;
+	minLength?: number;
+	maxLength?: number;
+	minimum?: number;
+	maximum?: number;
+	exclusiveMinimum?: number;
+	exclusiveMaximum?: number;
+	format?: string;
+	formatMinimum?: string;
+	formatMaximum?: string;
+	contains?: FieldFilter;
+	not?: FieldFilter;
+}
+
+function isValidPattern(pattern: string): boolean {
+	try {
+		new RegExp(pattern);
+		return true;
+	} catch {
+		return false;
+	}
+}
+
+// Unknown keywords are rejected rather than ignored, so a filter is never silently weaker than the verifier meant
+export const fieldFilterSchema: z.ZodType<FieldFilter> = z.lazy(() =>
+	z
+		.object({
+			type: z.enum(['string', 'number', 'integer', 'boolean', 'array', 'object']).optional(),
+			const: z.unknown().optional(),
+			enum: z.array(z.unknown()).optional(),
+			pattern: z.string().refine(isValidPattern, 'pattern is not a valid regular expression').optional(),
+			minLength: z.number().int().nonnegative().optional(),
+			maxLength: z.number().int().nonnegative().optional(),
+			minimum: z.number().optional(),
+			maximum: z.number().optional(),
+			exclusiveMinimum: z.number().optional(),
+			exclusiveMaximum: z.number().optional(),
+			format: z.string().optional(),
+			formatMinimum: z.string().optional(),
+			formatMaximum: z.string().optional(),
+			contains: fieldFilterSchema.optional(),
+			not: fieldFilterSchema.optional(),
+		})
+		.strict()
+);
+
+export const fieldSchema = z.object({
+	id: z.string().optional(),
+	path: z.array(z.string().startsWith('$')).min(1),
+	purpose: z.string().optional(),
+	name: z.string().optional(),
+	filter: fieldFilterSchema.optional(),
+	optional: z.boolean().optional(),
+	predicate: z.enum(['required', 'preferred']).optional(),
+});
+
+export const inputDescriptorSchema = z.object({
+	id: z.string().min(1),
+	name: z.string().optional(),
+	purpose: z.string().optional(),
+	group: z.array(z.string()).optional(),
+	format: z.record(z.record(z.unknown())).optional(),
+	constraints: z.object({
+		fields: z.array(fieldSchema).optional(),
+		limit_disclosure: z.enum(['required', 'preferred']).optional(),
+	}),
+});
+
+export interface SubmissionRequirement {
+	name?: string;
+	purpose?: string;
+	rule: 'all' | 'pick';
+	count?: number;
+	min?: number;
+	max?: number;
+	from?: string;
+	from_nested?: SubmissionRequirement[];
+}
+
+export const submissionRequirementSchema: z.ZodType<SubmissionRequirement> = z.lazy(() =>
+	z
+		.object({
+			name: z.string().optional(),
+			purpose: z.string().optional(),
+			rule: z.enum(['all', 'pick']),
+			count: z.number().int().nonnegative().optional(),
+			min: z.number().int().nonnegative().optional(),
+			max: z.number().int().nonnegative().optional(),
+			from: z.string().optional(),
+			from_nested: z.array(submissionRequirementSchema).optional(),
+		})
+		.refine((requirement) => !!requirement.from !== !!requirement.from_nested, 'exactly one of from and from_nested is required')
+);
+
+export const presentationDefinitionSchema = z
+	.object({
+		id: z.string().min(1),
+		name: z.string().optional(),
+		purpose: z.string().optional(),
+		format: z.record(z.record(z.unknown())).optional(),
+		input_descriptors: z.array(inputDescriptorSchema).min(1),
+		submission_requirements: z.array(submissionRequirementSchema).optional(),
+	})
+	.superRefine((definition, ctx) => {
+		const ids = new Set<string>();
+		definition.input_descriptors.forEach((descriptor, index) => {
+			if (ids.has(descriptor.id)) {
+				ctx.addIssue({ code: z.ZodIssueCode.custom, path: ['input_descriptors', index, 'id'], message: `duplicate input descriptor id ${descriptor.id}` });
+			}
+			ids.add(descriptor.id);
+		});
+	});
+
+export const presentationSubmissionSchema = z.object({
+	id: z.string().min(1),
+	definition_id: z.string().min(1),
+	descriptor_map: z.array(
+		z.object({
+			id: z.string().min(1),
+			format: z.string().min(1),
+			path: z.string().startsWith('$'),
+		})
+	),
+});
+
+export type Field = z.infer<typeof fieldSchema>;
+export type InputDescriptor = z.infer<typeof inputDescriptorSchema>;
+export type PresentationDefinition = z.infer<typeof presentationDefinitionSchema>;
+export type PresentationSubmission = z.infer<typeof presentationSubmissionSchema>;
+
+export class PresentationDefinitionError extends Error {
+	constructor(message: string, public readonly errors: string[] = []) {
+		super(message);
+		this.name = 'PresentationDefinitionError';
+	}
+}
+
+// The proof parameters a ZK input descriptor asks for
+export type ProofRequest = { type: 'AgeProof'; threshold: number } | { type: 'MembershipProof'; balanceRangeMin: number; balanceRangeMax: number };
+
+export interface DescriptorMatch {
+	descriptor: InputDescriptor;
+	// Set when the descriptor asks for a ZK proof instead of a credential
+	proofRequest?: ProofRequest;
+	candidates: WalletCredential[];
+	// Why nothing in the wallet can satisfy the descriptor
+	reason?: string;
+}
+
+// Wallet credential chosen for each input descriptor; descriptors left out are not answered
+export type DescriptorSelection = Record<string, string | undefined>;
+
+export interface FulfillOptions {
+	challenge: string;
+	domain: string;
+	privateKey?: string;
+}
+
+/**
+ * Parse a presentation definition, either bare or wrapped as { presentation_definition }
+ */
+export function parsePresentationDefinition(data: unknown): PresentationDefinition {
+	const unwrapped = data && typeof data === 'object' && 'presentation_definition' in data ? (data as { presentation_definition: unknown }).presentation_definition : data;
+	const parsed = presentationDefinitionSchema.safeParse(unwrapped);
+	if (!parsed.success) {
+		const errors = parsed.error.issues.map((issue) => `${issue.path.join('.') || 'definition'}: ${issue.message}`);
+		throw new PresentationDefinitionError('Invalid presentation definition', errors);
+	}
+	return parsed.data;
+}
+
+/**
+ * Evaluate a JSONPath expression; supports $.a.b, $['a'], $.a[0], $.a[*] and $.a.*
+ */
+export function queryJSONPath(data: unknown, path: string): unknown[] {
+	if (!path.startsWith('$')) {
+		throw new PresentationDefinitionError(`Unsupported JSONPath ${path}`);
+	}
+
+	const segment = /\.([A-Za-z_$@][\w$@-]*)|\[(\d+)\]|\[\*\]|\.\*|\['([^']*)'\]|\["([^"]*)"\]/y;
+	let nodes: unknown[] = [data];
+	let index = 1;
+	while (index < path.length) {
+		segment.lastIndex = index;
+		const match = segment.exec(path);
+		if (!match) {
+			throw new PresentationDefinitionError(`Unsupported JSONPath ${path}`);
+		}
+		index = segment.lastIndex;
+
+		const key = match[1] ?? match[3] ?? match[4];
+		nodes = nodes.flatMap((node) => {
+			if (!node || typeof node !== 'object') return [];
+			if (match[2] !== undefined) return Array.isArray(node) && Number(match[2]) < node.length ? [node[Number(match[2])]] : [];
+			if (key === undefined) return Object.values(node);
+			return key in node ? [(node as Record<string, unknown>)[key]] : [];
+		});
+	}
+	return nodes;
+}
+
+function isDateFormat(format?: string): boolean {
+	return format === 'date' || format === 'date-time';
+}
+
+/**
+ * Check a value against a field filter
+ */
+export function matchesFilter(value: unknown, filter: FieldFilter): boolean {
+	if (filter.type) {
+		const actual = Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value;
+		const typeMatches = filter.type === 'integer' ? Number.isInteger(value) : actual === filter.type;
+		if (!typeMatches) return false;
+	}
+	if ('const' in filter && filter.const !== undefined && JSON.stringify(value) !== JSON.stringify(filter.const)) return false;
+	if (filter.enum && !filter.enum.some((option) => JSON.stringify(option) === JSON.stringify(value))) return false;
+
+	if (typeof value === 'string') {
+		if (filter.pattern !== undefined && !new RegExp(filter.pattern).test(value)) return false;
+		if (filter.minLength !== undefined && value.length < filter.minLength) return false;
+		if (filter.maxLength !== undefined && value.length > filter.maxLength) return false;
+		if (isDateFormat(filter.format)) {
+			const time = Date.parse(value);
+			if (Number.isNaN(time)) return false;
+			if (filter.formatMinimum !== undefined && time < Date.parse(filter.formatMinimum)) return false;
+			if (filter.formatMaximum !== undefined && time > Date.parse(filter.formatMaximum)) return false;
+		}
+	}
+	if (typeof value === 'number') {
+		if (filter.minimum !== undefined && value < filter.minimum) return false;
+		if (filter.maximum !== undefined && value > filter.maximum) return false;
+		if (filter.exclusiveMinimum !== undefined && value <= filter.exclusiveMinimum) return false;
+		if (filter.exclusiveMaximum !== undefined && value >= filter.exclusiveMaximum) return false;
+	}
+	if (filter.contains && !(Array.isArray(value) && value.some((item) => matchesFilter(item, filter.contains as FieldFilter)))) return false;
+	if (filter.not && matchesFilter(value, filter.not)) return false;
+	return true;
+}
+
+// A field is satisfied when any of its paths yields a value passing the filter
+function satisfiesField(data: unknown, field: Field): boolean {
+	return field.path.some((path) => queryJSONPath(data, path).some((value) => !field.filter || matchesFilter(value, field.filter)));
+}
+
+/**
+ * Whether a credential or proof package meets every required field of a descriptor
+ */
+export function satisfiesDescriptor(data: unknown, descriptor: InputDescriptor): boolean {
+	return (descriptor.constraints.fields || []).every((field) => field.optional || satisfiesField(data, field));
+}
+
+// Filter of the first field that looks at the given property
+function fieldFilterFor(descriptor: InputDescriptor, property: string): FieldFilter | undefined {
+	return (descriptor.constraints.fields || []).find((field) => field.path.some((path) => path === `$.${property}` || path === `$['${property}']`))?.filter;
+}
+
+function lowerBound(filter?: FieldFilter): number | undefined {
+	if (!filter) return undefined;
+	if (typeof filter.const === 'number') return filter.const;
+	if (filter.minimum !== undefined) return filter.minimum;
+	if (filter.exclusiveMinimum !== undefined) return Math.floor(filter.exclusiveMinimum) + 1;
+	return undefined;
+}
+
+function upperBound(filter?: FieldFilter): number | undefined {
+	if (!filter) return undefined;
+	if (typeof filter.const === 'number') return filter.const;
+	if (filter.maximum !== undefined) return filter.maximum;
+	if (filter.exclusiveMaximum !== undefined) return Math.ceil(filter.exclusiveMaximum) - 1;
+	return undefined;
+}
+
+/**
+ * The proof a descriptor asks for, derived from its gnark_zkp format and its field filters; undefined for credential descriptors
+ */
+export function getProofRequest(descriptor: InputDescriptor): ProofRequest | undefined {
+	const format = descriptor.format?.[ZK_PROOF_FORMAT];
+	if (!format) return undefined;
+
+	const proofTypes = Array.isArray(format.proof_type) ? format.proof_type : [];
+	const type = SUPPORTED_PROOF_TYPES.find((supported) => proofTypes.includes(supported));
+	if (!type) {
+		throw new PresentationDefinitionError(`${descriptor.id} asks for an unsupported proof type; supported: ${SUPPORTED_PROOF_TYPES.join(', ')}`);
+	}
+
+	if (type === AGE_PROOF_PACKAGE_TYPE) {
+		const threshold = lowerBound(fieldFilterFor(descriptor, 'threshold'));
+		if (threshold === undefined) {
+			throw new PresentationDefinitionError(`${descriptor.id} asks for an age proof without a minimum threshold`);
+		}
+		return { type, threshold };
+	}
+	return {
+		type,
+		balanceRangeMin: lowerBound(fieldFilterFor(descriptor, 'balanceRangeMin')) ?? 0,
+		balanceRangeMax: upperBound(fieldFilterFor(descriptor, 'balanceRangeMax')) ?? MAX_MEMBERSHIP_BALANCE,
+	};
+}
+
+// The package a proof request would produce, without the proof itself, so field filters can be checked before proving
+function previewProofPackage(entry: WalletCredential, request: ProofRequest): Record<string, unknown> {
+	const base = { didId: entry.credential.credentialSubject.id, createdAt: new Date().toISOString() };
+	if (request.type === 'AgeProof') {
+		return { ...base, type: request.type, version: AGE_PROOF_PACKAGE_VERSION, credentialId: getCredentialCommitment(entry.credential), threshold: request.threshold };
+	}
+	return {
+		...base,
+		type: request.type,
+		version: MEMBERSHIP_PROOF_PACKAGE_VERSION,
+		organizationIdHash: entry.credential.credentialSubject.organizationIdHash ?? '',
+		commitment: getCredentialCommitment(entry.credential),
+		balanceRangeMin: request.balanceRangeMin,
+		balanceRangeMax: request.balanceRangeMax,
+	};
+}
+
+// Whether the credential's secrets allow proving the request
+function canProve(entry: WalletCredential, request: ProofRequest): boolean {
+	const secrets = entry.secrets;
+	if (request.type === 'AgeProof') {
+		return secrets?.kind === 'age' && secrets.age >= request.threshold;
+	}
+	return secrets?.kind === 'membership' && secrets.balance >= request.balanceRangeMin && secrets.balance <= request.balanceRangeMax;
+}
+
+/**
+ * Find the wallet credentials that can answer each input descriptor
+ */
+export function matchPresentationDefinition(definition: PresentationDefinition, entries: WalletCredential[]): DescriptorMatch[] {
+	return definition.input_descriptors.map((descriptor) => {
+		let proofRequest: ProofRequest | undefined;
+		try {
+			proofRequest = getProofRequest(descriptor);
+		} catch (error) {
+			return { descriptor, candidates: [], reason: error instanceof Error ? error.message : 'Unsupported descriptor' };
+		}
+
+		if (proofRequest) {
+			const request = proofRequest;
+			const candidates = entries.filter((entry) => canProve(entry, request) && satisfiesDescriptor(previewProofPackage(entry, request), descriptor));
+			return {
+				descriptor,
+				proofRequest,
+				candidates,
+				reason: candidates.length === 0 ? `No credential in the wallet can prove this ${request.type === 'AgeProof' ? 'age' : 'membership'}` : undefined,
+			};
+		}
+
+		// Credentials are presented whole, so selective disclosure can only be offered through ZK proofs
+		if (descriptor.constraints.limit_disclosure === 'required') {
+			return { descriptor, candidates: [], reason: 'Selective disclosure is only supported through zero-knowledge proofs' };
+		}
+		const candidates = entries.filter((entry) => satisfiesDescriptor(entry.credential, descriptor));
+		return { descriptor, candidates, reason: candidates.length === 0 ? 'No matching credential in the wallet' : undefined };
+	});
+}
+
+function evaluateRequirement(requirement: SubmissionRequirement, definition: PresentationDefinition, answered: Set<string>): boolean {
+	let satisfied: number;
+	let total: number;
+	if (requirement.from_nested) {
+		total = requirement.from_nested.length;
+		satisfied = requirement.from_nested.filter((nested) => evaluateRequirement(nested, definition, answered)).length;
+	} else {
+		const group = definition.input_descriptors.filter((descriptor) => descriptor.group?.includes(requirement.from as string));
+		total = group.length;
+		satisfied = group.filter((descriptor) => answered.has(descriptor.id)).length;
+	}
+
+	if (requirement.rule === 'all') {
+		return satisfied === total;
+	}
+	if (requirement.count !== undefined) {
+		return satisfied === requirement.count;
+	}
+	return (requirement.min === undefined || satisfied >= requirement.min) && (requirement.max === undefined || satisfied <= requirement.max);
+}
+
+function describeRequirement(requirement: SubmissionRequirement): string {
+	const name = requirement.name || requirement.from || 'nested requirement';
+	if (requirement.rule === 'all') return `${name}: answer all`;
+	if (requirement.count !== undefined) return `${name}: pick exactly ${requirement.count}`;
+	return `${name}: pick ${requirement.min ?? 0} to ${requirement.max ?? 'any'}`;
+}
+
+/**
+ * Problems with the set of answered descriptors; without submission requirements every descriptor must be answered
+ */
+export function checkSubmissionRequirements(definition: PresentationDefinition, answeredIds: string[]): string[] {
+	const answered = new Set(answeredIds);
+	if (!definition.submission_requirements) {
+		return definition.input_descriptors.filter((descriptor) => !answered.has(descriptor.id)).map((descriptor) => `${descriptor.name || descriptor.id} must be answered`);
+	}
+	return definition.submission_requirements.filter((requirement) => !evaluateRequirement(requirement, definition, answered)).map((requirement) => `Not satisfied: ${describeRequirement(requirement)}`);
+}
+
+/**
+ * Build the presentation answering a definition: generate the requested proofs, add the chosen credentials
+ * and sign everything together with a presentation_submission mapping descriptors to their place in the presentation
+ */
+export async function fulfillPresentationDefinition(
+	definition: PresentationDefinition,
+	selection: DescriptorSelection,
+	entries: WalletCredential[],
+	options: FulfillOptions
+): Promise<VerifiablePresentation> {
+	const matches = matchPresentationDefinition(definition, entries);
+	const answered = matches.filter((match) => selection[match.descriptor.id]);
+	const problems = checkSubmissionRequirements(definition, answered.map((match) => match.descriptor.id));
+	for (const match of answered) {
+		if (!match.candidates.some((entry) => entry.id === selection[match.descriptor.id])) {
+			problems.push(`The credential chosen for ${match.descriptor.name || match.descriptor.id} does not satisfy it`);
+		}
+	}
+	if (problems.length > 0) {
+		throw new PresentationDefinitionError('The selection does not satisfy the presentation definition', problems);
+	}
+
+	const first = answered[0] && entries.find((entry) => entry.id === selection[answered[0].descriptor.id]);
+	if (!first) {
+		throw new PresentationDefinitionError('Select at least one credential');
+	}
+
+	const credentials: WalletCredential[] = [];
+	const proofs: ZKProofPackage[] = [];
+	const descriptorMap: PresentationSubmission['descriptor_map'] = [];
+	// Index of a credential in verifiableCredential, adding it once however many descriptors use it
+	const credentialIndex = (entry: WalletCredential) => {
+		const index = credentials.findIndex((included) => included.id === entry.id);
+		return index === -1 ? credentials.push(entry) - 1 : index;
+	};
+
+	for (const match of answered) {
+		const entry = match.candidates.find((candidate) => candidate.id === selection[match.descriptor.id]) as WalletCredential;
+		const request = match.proofRequest;
+		if (!request) {
+			descriptorMap.push({ id: match.descriptor.id, format: CREDENTIAL_FORMAT, path: `$.verifiableCredential[${credentialIndex(entry)}]` });
+			continue;
+		}
+
+		if (request.type === 'AgeProof') {
+			proofs.push(await generateAgeProof(entry, request.threshold));
+		} else {
+			proofs.push(await generateMembershipProof(entry, request.balanceRangeMin, request.balanceRangeMax));
+		}
+		// Verifiers need the credential a proof was derived from
+		credentialIndex(entry);
+		descriptorMap.push({ id: match.descriptor.id, format: ZK_PROOF_FORMAT, path: `$.zeroKnowledgeProof[${proofs.length - 1}]` });
+	}
+
+	const submission: PresentationSubmission = {
+		id: `urn:uuid:${crypto.randomUUID()}`,
+		definition_id: definition.id,
+		descriptor_map: descriptorMap,
+	};
+	return createPresentation({
+		holder: first.credential.credentialSubject.id,
+		challenge: options.challenge,
+		domain: options.domain,
+		privateKey: options.privateKey,
+		credentials: credentials.map((entry) => entry.credential),
+		proofs,
+		properties: { presentation_submission: submission },
+	});
+}
+
+/**
+ * Check that a presentation's submission answers a definition: every mapped path resolves to a matching
+ * credential or proof and the submission requirements hold. Signatures and proofs are checked by verifyPresentation.
+ */
+export function evaluatePresentationSubmission(definition: PresentationDefinition, presentation: Record<string, unknown>): string[] {
+	const parsed = presentationSubmissionSchema.safeParse(presentation.presentation_submission);
+	if (!parsed.success) {
+		return ['The presentation has no valid presentation_submission'];
+	}
+	const submission = parsed.data;
+	if (submission.definition_id !== definition.id) {
+		return [`The submission answers ${submission.definition_id}, not ${definition.id}`];
+	}
+
+	const errors: string[] = [];
+	for (const entry of submission.descriptor_map) {
+		const descriptor = definition.input_descriptors.find((candidate) => candidate.id === entry.id);
+		if (!descriptor) {
+			errors.push(`Unknown input descriptor ${entry.id}`);
+			continue;
+		}
+
+		let values: unknown[];
+		try {
+			values = queryJSONPath(presentation, entry.path);
+		} catch (error) {
+			errors.push(error instanceof Error ? error.message : `Invalid path for ${entry.id}`);
+			continue;
+		}
+		if (values.length !== 1) {
+			errors.push(`${entry.path} does not point at a single entry`);
+			continue;
+		}
+
+		let request: ProofRequest | undefined;
+		try {
+			request = getProofRequest(descriptor);
+		} catch (error) {
+			errors.push(error instanceof Error ? error.message : `Unsupported descriptor ${entry.id}`);
+			continue;
+		}
+		const expectedFormat = request ? ZK_PROOF_FORMAT : CREDENTIAL_FORMAT;
+		if (entry.format !== expectedFormat) {
+			errors.push(`${entry.id} must be answered in ${expectedFormat} format`);
+		} else if (request && (values[0] as { type?: unknown })?.type !== request.type) {
+			errors.push(`${entry.id} must be answered with a ${request.type}`);
+		} else if (!satisfiesDescriptor(values[0], descriptor)) {
+			errors.push(`${entry.path} does not satisfy ${descriptor.name || descriptor.id}`);
+		}
+	}
+
+	return [...errors, ...checkSubmissionRequirements(definition, submission.descriptor_map.map((entry) => entry.id))];
+}
@@ -0,0 +1,301 @@
+// W3C Verifiable Presentations bundling credentials and ZK proof packages, bound to a verifier nonce and audience
+import { z } from 'zod';
+import { keystore } from './keystore';
+import { wasmAuth } from './wasm-auth';
+import { didResolver } from './did-resolver';
+import { getVerificationMethodKey } from './did-methods';
+import { findVerificationMethod, getVerificationMethods, isAuthorizedFor } from './did-document';
+import { canonicalJSON } from './canonical-json';
+import { bytesToHex } from './encoding';
+import {
+	AGE_CREDENTIAL_TYPE,
+	MEMBERSHIP_CREDENTIAL_TYPE,
+	VC_CONTEXT_V2,
+	ZK_CREDENTIAL_CONTEXT,
+	getCredentialCommitment,
+	getCredentialType,
+	validateCredential,
+	verifiableCredentialSchema,
+	verifyIssuerSignature,
+	type VerifiableCredential,
+} from './credentials';
+import { ageProofPackageSchema, verifyAgeProofPackage, type AgeProofPackage } from './age-proof';
+import { membershipProofPackageSchema, verifyMembershipProofPackage, type MembershipProofPackage } from './membership-proof';
+
+export const PRESENTATION_TYPE = 'VerifiablePresentation';
+export const HOLDER_SIGNATURE_PROOF_TYPE = 'GnarkHolderSignature2024';
+
+// How long a presentation is accepted after it was signed, unless the holder asks otherwise
+const DEFAULT_PRESENTATION_VALIDITY_MS = 10 * 60 * 1000;
+
+export const zkProofPackageSchema = z.discriminatedUnion('type', [ageProofPackageSchema, membershipProofPackageSchema]);
+
+export type ZKProofPackage = AgeProofPackage | MembershipProofPackage;
+
+export const presentationProofSchema = z.object({
+	type: z.literal(HOLDER_SIGNATURE_PROOF_TYPE),
+	created: z.string().datetime({ offset: true }),
+	expires: z.string().datetime({ offset: true }).optional(),
+	verificationMethod: z.string().min(1),
+	proofPurpose: z.literal('authentication'),
+	// Verifier nonce
+	challenge: z.string().min(1),
+	// Verifier audience, e.g. its origin or client id
+	domain: z.string().min(1),
+	proofValue: z.string().min(1),
+});
+
+export const verifiablePresentationSchema = z.object({
+	'@context': z.array(z.union([z.string(), z.record(z.unknown())]))
+		.refine((contexts) => contexts[0] === VC_CONTEXT_V2, `First @context entry must be ${VC_CONTEXT_V2}`),
+	id: z.string().optional(),
+	type: z.array(z.string())
+		.refine((types) => types.includes(PRESENTATION_TYPE), `type must include ${PRESENTATION_TYPE}`),
+	holder: z.string().regex(/^did:[a-z0-9]+:.+$/, 'Must be a DID'),
+	verifiableCredential: z.array(verifiableCredentialSchema).optional(),
+	zeroKnowledgeProof: z.array(zkProofPackageSchema).optional(),
+	proof: presentationProofSchema,
+}).passthrough();
+
+export type PresentationProof = z.infer<typeof presentationProofSchema>;
+export type VerifiablePresentation = z.infer<typeof verifiablePresentationSchema>;
+
+export interface PresentationOptions {
+	holder: string;
+	// Nonce and audience supplied by the verifier
+	challenge: string;
+	domain: string;
+	credentials?: VerifiableCredential[];
+	proofs?: ZKProofPackage[];
+	// Sign with this key instead of the holder's key in the keystore
+	privateKey?: string;
+	// Defaults to the holder's first authentication method
+	verificationMethod?: string;
+	validForMs?: number;
+	// Extra top-level properties covered by the signature, e.g. presentation_submission
+	properties?: Record<string, unknown>;
+}
+
+export interface PresentationRequirements {
+	challenge: string;
+	domain: string;
+	// Reject age proofs below this threshold
+	minimumAgeThreshold?: number;
+	now?: Date;
+}
+
+export interface PresentationCheck {
+	name: string;
+	passed: boolean;
+	detail?: string;
+}
+
+export interface PresentationVerification {
+	verified: boolean;
+	holder?: string;
+	checks: PresentationCheck[];
+}
+
+// The signature covers the whole presentation, including the proof options, minus the signature itself
+function signingInput(presentation: Omit<VerifiablePresentation, 'proof'>, proof: Omit<PresentationProof, 'proofValue'>): string {
+	return canonicalJSON({ ...presentation, proof });
+}
+
+function describeProof(proofPackage: ZKProofPackage): string {
+	return proofPackage.type === 'AgeProof'
+		? `Age proof (${proofPackage.threshold}+)`
+		: `Membership proof (balance ${proofPackage.balanceRangeMin}-${proofPackage.balanceRangeMax})`;
+}
+
+/**
+ * Bundle credentials and ZK proofs into a presentation signed by the holder DID.
+ * Everything in it must be about the holder, so a presentation cannot mix identities.
+ */
+export async function createPresentation(options: PresentationOptions): Promise<VerifiablePresentation> {
+	const credentials = options.credentials || [];
+	const proofs = options.proofs || [];
+	if (credentials.length === 0 && proofs.length === 0) {
+		throw new Error('A presentation needs at least one credential or proof');
+	}
+	if (!options.challenge || !options.domain) {
+		throw new Error('The verifier nonce and audience are required');
+	}
+	const foreign = [...credentials.map((credential) => credential.credentialSubject.id), ...proofs.map((proof) => proof.didId)].find((id) => id !== options.holder);
+	if (foreign) {
+		throw new Error(`Everything presented must belong to ${options.holder}, not ${foreign}`);
+	}
+
+	try {
+		let verificationMethod = options.verificationMethod;
+		if (!verificationMethod) {
+			const document = await didResolver.resolveDocument(options.holder);
+			verificationMethod = getVerificationMethods(document, 'authentication')[0]?.id;
+			if (!verificationMethod) {
+				throw new Error(`${options.holder} has no authentication method`);
+			}
+		}
+
+		const created = new Date();
+		const unsigned = {
+			...options.properties,
+			'@context': [VC_CONTEXT_V2, ZK_CREDENTIAL_CONTEXT],
+			id: `urn:uuid:${crypto.randomUUID()}`,
+			type: [PRESENTATION_TYPE],
+			holder: options.holder,
+			...(credentials.length > 0 && { verifiableCredential: credentials }),
+			...(proofs.length > 0 && { zeroKnowledgeProof: proofs }),
+		};
+		const proof: Omit<PresentationProof, 'proofValue'> = {
+			type: HOLDER_SIGNATURE_PROOF_TYPE,
+			created: created.toISOString(),
+			expires: new Date(created.getTime() + (options.validForMs ?? DEFAULT_PRESENTATION_VALIDITY_MS)).toISOString(),
+			verificationMethod,
+			proofPurpose: 'authentication',
+			challenge: options.challenge,
+			domain: options.domain,
+		};
+
+		const privateKey = options.privateKey || (await keystore.getPrivateKey(options.holder));
+		const proofValue = await wasmAuth.signDataClientSide(privateKey, signingInput(unsigned, proof));
+		return { ...unsigned, proof: { ...proof, proofValue } };
+	} catch (error) {
+		throw new Error(`Failed to create presentation: ${error instanceof Error ? error.message : 'Unknown error'}`);
+	}
+}
+
+// Check the holder signature against the holder's DID document
+async function verifyHolderSignature(presentation: VerifiablePresentation): Promise<void> {
+	const {
+		proof: { proofValue, ...proof },
+		...unsigned
+	} = presentation;
+	const document = await didResolver.resolveDocument(presentation.holder);
+	const method = findVerificationMethod(document, proof.verificationMethod);
+	if (!method || !isAuthorizedFor(document, method.id, 'authentication')) {
+		throw new Error(`${proof.verificationMethod} is not an authentication method of ${presentation.holder}`);
+	}
+
+	const { keyType, publicKey } = getVerificationMethodKey(method);
+	if (keyType !== 'Ed25519') {
+		throw new Error(`Holder signatures must use an Ed25519 key, not ${keyType}`);
+	}
+	if (!(await wasmAuth.verifySignatureClientSide(bytesToHex(publicKey), signingInput(unsigned, proof), proofValue))) {
+		throw new Error('Signature does not match');
+	}
+}
+
+async function verifyProofPackage(presentation: VerifiablePresentation, proofPackage: ZKProofPackage, minimumAgeThreshold?: number): Promise<void> {
+	if (proofPackage.didId !== presentation.holder) {
+		throw new Error(`Proof is about ${proofPackage.didId}, not the holder`);
+	}
+
+	if (proofPackage.type === 'AgeProof') {
+		// The proof must be derived from an age credential presented alongside it
+		const source = (presentation.verifiableCredential || []).find(
+			(credential) => getCredentialType(credential) === AGE_CREDENTIAL_TYPE && getCredentialCommitment(credential) === proofPackage.credentialId
+		);
+		if (!source) {
+			throw new Error('The age credential the proof refers to is not in the presentation');
+		}
+		if (minimumAgeThreshold !== undefined && proofPackage.threshold < minimumAgeThreshold) {
+			throw new Error(`Proves ${proofPackage.threshold}+, but ${minimumAgeThreshold}+ is required`);
+		}
+		if (!(await verifyAgeProofPackage(proofPackage)).verified) {
+			throw new Error('Zero-knowledge proof did not verify');
+		}
+		return;
+	}
+
+	// Likewise a membership proof must commit to the same values as a presented membership credential
+	const source = (presentation.verifiableCredential || []).find(
+		(credential) =>
+			getCredentialType(credential) === MEMBERSHIP_CREDENTIAL_TYPE &&
+			getCredentialCommitment(credential) === proofPackage.commitment &&
+			credential.credentialSubject.organizationIdHash === proofPackage.organizationIdHash
+	);
+	if (!source) {
+		throw new Error('The membership credential the proof refers to is not in the presentation');
+	}
+	if (!(await verifyMembershipProofPackage(proofPackage))) {
+		throw new Error('Zero-knowledge proof did not verify');
+	}
+}
+
+/**
+ * Verify a presentation: structure, nonce and audience, expiry, the holder signature,
+ * every embedded credential with its issuer signature and every embedded ZK proof. Never throws; failures are reported per check.
+ */
+export async function verifyPresentation(data: unknown, requirements: PresentationRequirements): Promise<PresentationVerification> {
+	const parsed = verifiablePresentationSchema.safeParse(data);
+	if (!parsed.success) {
+		return {
+			verified: false,
+			checks: [{
+				name: 'Structure',
+				passed: false,
+				detail: parsed.error.issues.map((issue) => `${issue.path.join('.') || 'presentation'}: ${issue.message}`).join('; '),
+			}],
+		};
+	}
+
+	const presentation = parsed.data;
+	const now = requirements.now ?? new Date();
+	const checks: PresentationCheck[] = [{ name: 'Structure', passed: true }];
+	const run = async (name: string, check: () => Promise<void> | void) => {
+		try {
+			await check();
+			checks.push({ name, passed: true });
+		} catch (error) {
+			checks.push({ name, passed: false, detail: error instanceof Error ? error.message : 'Unknown error' });
+		}
+	};
+
+	await run('Nonce and audience', () => {
+		if (presentation.proof.challenge !== requirements.challenge) {
+			throw new Error('The presentation was made for a different nonce');
+		}
+		if (presentation.proof.domain !== requirements.domain) {
+			throw new Error(`The presentation was made for ${presentation.proof.domain}`);
+		}
+	});
+	await run('Freshness', () => {
+		if (Date.parse(presentation.proof.created) > now.getTime() + 60 * 1000) {
+			throw new Error('The presentation is dated in the future');
+		}
+		if (presentation.proof.expires && Date.parse(presentation.proof.expires) <= now.getTime()) {
+			throw new Error('The presentation has expired');
+		}
+	});
+	await run('Holder signature', () => verifyHolderSignature(presentation));
+
+	for (const credential of presentation.verifiableCredential || []) {
+		await run(`${getCredentialType(credential)} ${credential.id || ''}`.trim(), async () => {
+			const { valid, errors } = validateCredential(credential, now);
+			if (!valid) {
+				throw new Error(errors.join('; '));
+			}
+			if (credential.credentialSubject.id !== presentation.holder) {
+				throw new Error('The credential was issued to someone other than the holder');
+			}
+			await verifyIssuerSignature(credential);
+		});
+	}
+	for (const proofPackage of presentation.zeroKnowledgeProof || []) {
+		await run(describeProof(proofPackage), () => verifyProofPackage(presentation, proofPackage, requirements.minimumAgeThreshold));
+	}
+
+	return { verified: checks.every((check) => check.passed), holder: presentation.holder, checks };
+}
+
+export function serializePresentation(presentation: VerifiablePresentation): string {
+	return JSON.stringify(presentation, null, 2);
+}
+
+// Parse pasted JSON; structure is checked by verifyPresentation
+export function parsePresentationJSON(text: string): unknown {
+	try {
+		return JSON.parse(text.trim());
+	} catch {
+		throw new Error('Presentation is not valid JSON');
+	}
+}
@@ -0,0 +1,17 @@
+// Decode a QR code from an uploaded image where the browser supports BarcodeDetector
+export async function decodeQRImage(file: File): Promise<string> {
+	if (typeof BarcodeDetector === 'undefined') {
+		throw new Error('QR scanning is not supported in this browser; paste the text instead');
+	}
+
+	const bitmap = await createImageBitmap(file);
+	try {
+		const [barcode] = await new BarcodeDetector({ formats: ['qr_code'] }).detect(bitmap);
+		if (!barcode) {
+			throw new Error('No QR code found in the image');
+		}
+		return barcode.rawValue;
+	} finally {
+		bitmap.close();
+	}
+}
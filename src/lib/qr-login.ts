@@ -0,0 +1,196 @@
+// Cross-device QR login: the relying party shows a versioned URI, the holder's wallet signs it and posts to the callback
+import { didMethods } from './did-methods';
+import { keystore } from './keystore';
+import { credentialWallet } from './credential-wallet';
+import { AGE_CREDENTIAL_TYPE, getCredentialStatus } from './credentials';
+import { encodeAgeProofPackage, generateAgeProof } from './age-proof';
+import { CHALLENGE_VERSION, formatChallengeMessage, validateChallenge, type DIDChallenge } from './did-challenge';
+
+export const QR_LOGIN_VERSION = '1';
+export const QR_LOGIN_PATH = '/wallet/qr-login';
+
+export interface QRLoginRequest {
+	version: string;
+	challenge: string;
+	callback: string;
+	domain: string;
+	expiresAt: string;
+	claims: string[];
+}
+
+export interface QRLoginResponse {
+	challenge: string;
+	did_id: string;
+	message: string;
+	proof: string;
+	signature: string;
+	claims: Record<string, string>;
+}
+
+export interface QRLoginClaims {
+	provided: Record<string, string>;
+	missing: string[];
+}
+
+export class QRLoginError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = 'QRLoginError';
+	}
+}
+
+const AGE_OVER_CLAIM = /^age_over_(\d+)$/;
+
+// Callbacks receive signed responses, so only HTTPS (or localhost during development) is accepted
+function isAllowedCallback(callback: string): boolean {
+	try {
+		const url = new URL(callback);
+		return url.protocol === 'https:' || (url.protocol === 'http:' && ['localhost', '127.0.0.1'].includes(url.hostname));
+	} catch {
+		return false;
+	}
+}
+
+// Build the URI encoded in the QR code; it opens the holder-side handler page when scanned with a camera
+export function buildQRLoginURI(request: Omit<QRLoginRequest, 'version'>, origin?: string): string {
+	const base = origin || (typeof window !== 'undefined' ? window.location.origin : '');
+	const params = new URLSearchParams({
+		v: QR_LOGIN_VERSION,
+		challenge: request.challenge,
+		callback: request.callback,
+		domain: request.domain,
+		exp: request.expiresAt,
+	});
+	if (request.claims.length > 0) {
+		params.set('claims', request.claims.join(','));
+	}
+	return `${base}${QR_LOGIN_PATH}?${params.toString()}`;
+}
+
+// Parse and sanity-check a scanned QR login URI (or just its query string)
+export function parseQRLoginURI(uri: string): QRLoginRequest {
+	let params: URLSearchParams;
+	try {
+		params = uri.includes('://') ? new URL(uri).searchParams : new URLSearchParams(uri.replace(/^\?/, ''));
+	} catch {
+		throw new QRLoginError('QR code does not contain a valid login URI');
+	}
+
+	const version = params.get('v');
+	if (version !== QR_LOGIN_VERSION) {
+		throw new QRLoginError(`Unsupported QR login version: ${version || 'missing'}`);
+	}
+
+	const request: QRLoginRequest = {
+		version,
+		challenge: params.get('challenge') || '',
+		callback: params.get('callback') || '',
+		domain: params.get('domain') || '',
+		expiresAt: params.get('exp') || '',
+		claims: (params.get('claims') || '').split(',').map((claim) => claim.trim()).filter(Boolean),
+	};
+
+	const missing = (['challenge', 'callback', 'domain', 'expiresAt'] as const).filter((field) => !request[field]);
+	if (missing.length > 0) {
+		throw new QRLoginError(`QR login URI is missing: ${missing.join(', ')}`);
+	}
+	if (!isAllowedCallback(request.callback)) {
+		throw new QRLoginError('QR login callback must be an HTTPS URL');
+	}
+	// The holder signs for domain, so the signed response may only go back to that domain
+	if (new URL(request.callback).host !== request.domain) {
+		throw new QRLoginError(`QR login callback is not on ${request.domain}`);
+	}
+	if (Number.isNaN(Date.parse(request.expiresAt))) {
+		throw new QRLoginError('QR login expiry is invalid');
+	}
+
+	return request;
+}
+
+export function isQRLoginExpired(request: QRLoginRequest, now: Date = new Date()): boolean {
+	return Date.parse(request.expiresAt) <= now.getTime();
+}
+
+// The domain-bound challenge the holder signs, in the same format as direct DID login
+export function buildQRLoginChallenge(request: QRLoginRequest, didId: string, now: Date = new Date()): DIDChallenge {
+	const challenge: DIDChallenge = {
+		domain: request.domain,
+		uri: new URL(request.callback).origin,
+		didId,
+		nonce: request.challenge,
+		issuedAt: now.toISOString(),
+		expirationTime: request.expiresAt,
+		purpose: 'authentication',
+		version: CHALLENGE_VERSION,
+	};
+	validateChallenge(challenge, { domain: request.domain, didId, now });
+	return challenge;
+}
+
+// Answer the requested claims from credentials held for this DID; unsupported or unprovable claims are reported missing
+export async function resolveQRLoginClaims(request: QRLoginRequest, didId: string): Promise<QRLoginClaims> {
+	const result: QRLoginClaims = { provided: {}, missing: [] };
+	if (request.claims.length === 0) {
+		return result;
+	}
+
+	const ageCredentials = (await credentialWallet.findByType(AGE_CREDENTIAL_TYPE)).filter(
+		(entry) =>
+			entry.credential.credentialSubject.id === didId &&
+			entry.secrets?.kind === 'age' &&
+			getCredentialStatus(entry.credential) === 'active'
+	);
+
+	for (const claim of request.claims) {
+		const ageMatch = claim.match(AGE_OVER_CLAIM);
+		const threshold = ageMatch ? parseInt(ageMatch[1], 10) : NaN;
+		const entry = ageCredentials.find((candidate) => candidate.secrets?.kind === 'age' && candidate.secrets.age >= threshold);
+
+		if (!entry) {
+			result.missing.push(claim);
+			continue;
+		}
+		result.provided[claim] = encodeAgeProofPackage(await generateAgeProof(entry, threshold));
+	}
+
+	return result;
+}
+
+// Sign the request with the keystore-held key for didId and post the response to the callback
+export async function respondToQRLogin(request: QRLoginRequest, didId: string, claims: Record<string, string> = {}): Promise<void> {
+	if (isQRLoginExpired(request)) {
+		throw new QRLoginError('This login request has expired');
+	}
+
+	try {
+		const challenge = buildQRLoginChallenge(request, didId);
+		const message = formatChallengeMessage(challenge);
+		const privateKey = await keystore.getPrivateKey(didId);
+		const authResult = await didMethods.authenticate(didId, privateKey, message);
+
+		const body: QRLoginResponse = {
+			challenge: request.challenge,
+			did_id: didId,
+			message,
+			proof: authResult.proof,
+			signature: authResult.signature,
+			claims,
+		};
+
+		const response = await fetch(request.callback, {
+			method: 'POST',
+			headers: {
+				'Content-Type': 'application/json',
+			},
+			body: JSON.stringify(body),
+		});
+
+		if (!response.ok) {
+			const errorData = await response.json().catch(() => ({}));
+			throw new Error(errorData.message || 'The relying party rejected the login response');
+		}
+	} catch (error) {
+		throw new Error(`Failed to complete QR login: ${error instanceof Error ? error.message : 'Unknown error'}`);
+	}
+}
@@ -0,0 +1,162 @@
+// Tracks a cross-device QR login session: Server-Sent Events first, polling with exponential backoff as fallback
+import { buildApiUrl, getDidMaxPollingInterval, getDidPollingInterval } from './config';
+
+export type QRSessionState = 'pending' | 'scanned' | 'approved' | 'rejected' | 'expired';
+
+export interface QRSessionStatus {
+	state: QRSessionState;
+	didId?: string;
+	error?: string;
+}
+
+export type QRSessionListener = (status: QRSessionStatus) => void;
+
+export interface QRSessionOptions {
+	initialInterval?: number;
+	maxInterval?: number;
+	backoffFactor?: number;
+}
+
+const SESSION_STATES: QRSessionState[] = ['pending', 'scanned', 'approved', 'rejected', 'expired'];
+const TERMINAL_STATES: QRSessionState[] = ['approved', 'rejected', 'expired'];
+
+// Accept the current { status } shape as well as the older { authenticated } flag
+function parseSessionStatus(data: { status?: string; authenticated?: boolean; did_id?: string }): QRSessionStatus {
+	const state = SESSION_STATES.find((candidate) => candidate === data.status) || (data.authenticated ? 'approved' : 'pending');
+	return { state, didId: data.did_id };
+}
+
+// Fetch the session status once
+export async function fetchQRSessionStatus(challenge: string): Promise<QRSessionStatus> {
+	const response = await fetch(buildApiUrl(`/did/qr-status?challenge=${encodeURIComponent(challenge)}`), {
+		method: 'GET',
+	});
+
+	if (!response.ok) {
+		const errorData = await response.json().catch(() => ({}));
+		throw new Error(errorData.message || 'Failed to check QR authentication status');
+	}
+
+	return parseSessionStatus(await response.json());
+}
+
+export class QRSessionClient {
+	private readonly challenge: string;
+	private readonly expiresAt: number;
+	private readonly initialInterval: number;
+	private readonly maxInterval: number;
+	private readonly backoffFactor: number;
+	private listener: QRSessionListener | null = null;
+	private status: QRSessionStatus = { state: 'pending' };
+	private eventSource: EventSource | null = null;
+	private pollTimer: ReturnType<typeof setTimeout> | null = null;
+	private expiryTimer: ReturnType<typeof setTimeout> | null = null;
+	private interval: number;
+	private active = false;
+
+	constructor(challenge: string, expiresAt: string, options: QRSessionOptions = {}) {
+		this.challenge = challenge;
+		this.expiresAt = Date.parse(expiresAt);
+		this.initialInterval = options.initialInterval ?? getDidPollingInterval();
+		this.maxInterval = options.maxInterval ?? getDidMaxPollingInterval();
+		this.backoffFactor = options.backoffFactor ?? 1.5;
+		this.interval = this.initialInterval;
+	}
+
+	/** Current session status */
+	get current(): QRSessionStatus {
+		return this.status;
+	}
+
+	/** Start watching the session; the listener receives every state change until a terminal state or cancel() */
+	start(listener: QRSessionListener): void {
+		if (this.active) return;
+		this.listener = listener;
+		this.active = true;
+
+		const remaining = this.expiresAt - Date.now();
+		if (!(remaining > 0)) {
+			this.update({ state: 'expired' });
+			return;
+		}
+		this.expiryTimer = setTimeout(() => this.update({ state: 'expired' }), remaining);
+
+		if (typeof EventSource !== 'undefined') {
+			this.connectEvents();
+		} else {
+			this.schedulePoll(0);
+		}
+	}
+
+	/** Stop all network activity without emitting a further state */
+	cancel(): void {
+		this.active = false;
+		this.listener = null;
+		this.eventSource?.close();
+		this.eventSource = null;
+		if (this.pollTimer) clearTimeout(this.pollTimer);
+		if (this.expiryTimer) clearTimeout(this.expiryTimer);
+		this.pollTimer = null;
+		this.expiryTimer = null;
+	}
+
+	private update(status: QRSessionStatus): void {
+		if (!this.active) return;
+
+		const changed = status.state !== this.status.state || status.didId !== this.status.didId || status.error !== this.status.error;
+		this.status = status;
+		if (changed) {
+			this.listener?.(status);
+		}
+		if (TERMINAL_STATES.includes(status.state)) {
+			this.cancel();
+		}
+	}
+
+	private connectEvents(): void {
+		const source = new EventSource(buildApiUrl(`/did/qr-events?challenge=${encodeURIComponent(this.challenge)}`));
+		this.eventSource = source;
+
+		source.onmessage = (event) => {
+			try {
+				this.update(parseSessionStatus(JSON.parse(event.data)));
+			} catch {
+				// Ignore malformed events; the next one (or polling) will catch up
+			}
+		};
+
+		// The backend may not support SSE; drop to polling rather than letting EventSource retry forever
+		source.onerror = () => {
+			source.close();
+			if (this.eventSource === source) {
+				this.eventSource = null;
+				this.schedulePoll(0);
+			}
+		};
+	}
+
+	private schedulePoll(delay: number): void {
+		if (!this.active) return;
+		this.pollTimer = setTimeout(() => this.poll(), delay);
+	}
+
+	private async poll(): Promise<void> {
+		try {
+			const previous = this.status.state;
+			const status = await fetchQRSessionStatus(this.challenge);
+			this.update(status);
+			// Poll quickly again after progress, back off while nothing changes
+			this.interval = status.state !== previous ? this.initialInterval : this.nextInterval();
+		} catch (error) {
+			this.interval = this.nextInterval();
+			this.update({ ...this.status, error: error instanceof Error ? error.message : 'Unknown error' });
+		}
+
+		const untilExpiry = this.expiresAt - Date.now();
+		this.schedulePoll(Math.min(this.interval, Math.max(untilExpiry, 0)));
+	}
+
+	private nextInterval(): number {
+		return Math.min(this.interval * this.backoffFactor, this.maxInterval);
+	}
+}
@@ -0,0 +1,104 @@
+// Declarative route protection shared by the middleware (verified claims) and the client-side RouteGuard (UX only)
+
+export interface RoutePolicy {
+	// Path pattern: literal segments, ':param' for one segment, trailing ':path*' for any remainder
+	pattern: string;
+	// Any one of these roles grants access
+	roles?: string[];
+	// Session must have been established by DID authentication
+	requireDID?: boolean;
+	// Session must have passed a second factor
+	require2FA?: boolean;
+}
+
+export interface SessionClaims {
+	roles: string[];
+	didVerified: boolean;
+	twoFactorVerified: boolean;
+}
+
+export type PolicyRequirement = 'role' | 'did' | '2fa';
+
+export type PolicyDecision =
+	| { allowed: true }
+	| { allowed: false; reason: 'unauthenticated' }
+	| { allowed: false; reason: 'forbidden'; missing: PolicyRequirement[] };
+
+// Account roles that may manage a DID; restricted tokens (e.g. a read-only 'viewer') carry neither
+export const DID_MANAGER_ROLES = ['user', 'admin'];
+
+// Every matching policy must be satisfied; a route with no matching policy is public
+export const routePolicies: RoutePolicy[] = [
+	{ pattern: '/dashboard/:path*' },
+	{ pattern: '/dashboard/credentials/:path*', requireDID: true },
+	{ pattern: '/dashboard/did/:path*', roles: DID_MANAGER_ROLES },
+	// Key rotation and document edits publish new DID document versions
+	{ pattern: '/dashboard/did/keys/:path*', requireDID: true, require2FA: true },
+	// Recovery phrases and key shares reveal the private key
+	{ pattern: '/dashboard/did/recovery/:path*', require2FA: true },
+];
+
+function matchesPattern(pattern: string, pathname: string): boolean {
+	const patternSegments = pattern.split('/').filter(Boolean);
+	const pathSegments = pathname.split('/').filter(Boolean);
+
+	for (let i = 0; i < patternSegments.length; i++) {
+		const segment = patternSegments[i];
+		if (segment === ':path*') {
+			return true;
+		}
+		if (i >= pathSegments.length) {
+			return false;
+		}
+		if (!segment.startsWith(':') && segment !== pathSegments[i]) {
+			return false;
+		}
+	}
+	return patternSegments.length === pathSegments.length;
+}
+
+export function getMatchingPolicies(pathname: string, policies: RoutePolicy[] = routePolicies): RoutePolicy[] {
+	return policies.filter((policy) => matchesPattern(policy.pattern, pathname));
+}
+
+// Map token claims to policy inputs: roles from `roles`/`role`, DID and 2FA from `amr` or explicit flags
+export function getSessionClaims(payload: Record<string, unknown>): SessionClaims {
+	const roles = Array.isArray(payload.roles)
+		? payload.roles.filter((role): role is string => typeof role === 'string')
+		: typeof payload.role === 'string'
+			? [payload.role]
+			: [];
+	const amr = Array.isArray(payload.amr) ? payload.amr : [];
+
+	return {
+		roles,
+		didVerified: payload.did_verified === true || amr.includes('did'),
+		twoFactorVerified: payload.two_factor === true || amr.includes('mfa') || amr.includes('otp'),
+	};
+}
+
+// Decide whether a session (null when not logged in) may open pathname
+export function evaluateRoutePolicy(pathname: string, claims: SessionClaims | null, policies: RoutePolicy[] = routePolicies): PolicyDecision {
+	const matching = getMatchingPolicies(pathname, policies);
+	if (matching.length === 0) {
+		return { allowed: true };
+	}
+	if (!claims) {
+		return { allowed: false, reason: 'unauthenticated' };
+	}
+
+	const missing = new Set<PolicyRequirement>();
+	for (const policy of matching) {
+		if (policy.roles && policy.roles.length > 0 && !policy.roles.some((role) => claims.roles.includes(role))) {
+			missing.add('role');
+		}
+		if (policy.requireDID && !claims.didVerified) {
+			missing.add('did');
+		}
+		if (policy.require2FA && !claims.twoFactorVerified) {
+			missing.add('2fa');
+		}
+	}
+
+	return missing.size === 0 ? { allowed: true } : { allowed: false, reason: 'forbidden', missing: Array.from(missing) };
+}
@@ -0,0 +1,14 @@
+// Read the claims the middleware verified for the current request (server components and route handlers only)
+import { headers } from 'next/headers';
+import { CLAIM_HEADERS, decodeClaimsHeader, type JWTPayload } from './jwt';
+
+export async function getVerifiedClaims(): Promise<JWTPayload | null> {
+	const requestHeaders = await headers();
+	const value = requestHeaders.get(CLAIM_HEADERS.claims);
+	return value ? decodeClaimsHeader(value) : null;
+}
+
+export async function getVerifiedSubject(): Promise<string | null> {
+	const requestHeaders = await headers();
+	return requestHeaders.get(CLAIM_HEADERS.subject) || null;
+}
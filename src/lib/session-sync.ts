@@ -0,0 +1,72 @@
+// Relays auth session changes between tabs over BroadcastChannel, falling back to storage events
+import { applyRemoteAuthEvent, onAuthChange, type AuthEvent } from './auth';
+
+const CHANNEL_NAME = 'did-auth-session';
+const STORAGE_KEY = 'auth_sync_event';
+
+interface SyncMessage {
+	event: AuthEvent;
+	sentAt: number;
+}
+
+function isSyncMessage(value: unknown): value is SyncMessage {
+	return typeof value === 'object' && value !== null && typeof (value as SyncMessage).event?.type === 'string';
+}
+
+// Start relaying; returns a function that stops it. Safe to call during SSR (no-op).
+export function startSessionSync(): () => void {
+	if (typeof window === 'undefined') {
+		return () => {};
+	}
+
+	const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+	const send = (event: AuthEvent) => {
+		const message: SyncMessage = { event, sentAt: Date.now() };
+		if (channel) {
+			channel.postMessage(message);
+		} else {
+			// Writing a fresh value fires a storage event in every other tab
+			localStorage.setItem(STORAGE_KEY, JSON.stringify(message));
+		}
+	};
+
+	const receive = (data: unknown) => {
+		if (isSyncMessage(data)) {
+			applyRemoteAuthEvent(data.event);
+		}
+	};
+
+	// Only relay changes made in this tab; remote ones were already broadcast by their origin
+	const unsubscribe = onAuthChange((event, source) => {
+		if (source === 'local') {
+			send(event);
+		}
+	});
+
+	const handleMessage = (message: MessageEvent) => receive(message.data);
+	const handleStorage = (storageEvent: StorageEvent) => {
+		if (storageEvent.key !== STORAGE_KEY || !storageEvent.newValue) return;
+		try {
+			receive(JSON.parse(storageEvent.newValue));
+		} catch {
+			// Ignore values not written by this module
+		}
+	};
+
+	if (channel) {
+		channel.addEventListener('message', handleMessage);
+	} else {
+		window.addEventListener('storage', handleStorage);
+	}
+
+	return () => {
+		unsubscribe();
+		if (channel) {
+			channel.removeEventListener('message', handleMessage);
+			channel.close();
+		} else {
+			window.removeEventListener('storage', handleStorage);
+		}
+	};
+}
@@ -0,0 +1,105 @@
+// Shamir secret sharing over GF(256) (AES field polynomial x^8 + x^4 + x^3 + x + 1)
+
+export interface SecretShare {
+	// Evaluation point, 1-255
+	x: number;
+	// One byte per secret byte
+	y: Uint8Array;
+}
+
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+// Log/antilog tables with generator 3; EXP is doubled so products never need a modulo
+(() => {
+	let value = 1;
+	for (let i = 0; i < 255; i++) {
+		EXP[i] = value;
+		LOG[value] = i;
+		value ^= (value << 1) ^ (value & 0x80 ? 0x11b : 0);
+	}
+	for (let i = 255; i < 510; i++) {
+		EXP[i] = EXP[i - 255];
+	}
+})();
+
+function mul(a: number, b: number): number {
+	return a === 0 || b === 0 ? 0 : EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number): number {
+	if (b === 0) {
+		throw new Error('Division by zero in GF(256)');
+	}
+	return a === 0 ? 0 : EXP[LOG[a] + 255 - LOG[b]];
+}
+
+// Evaluate the polynomial with the given coefficients (constant term first) at x
+function evaluate(coefficients: Uint8Array, x: number): number {
+	let result = 0;
+	for (let i = coefficients.length - 1; i >= 0; i--) {
+		result = mul(result, x) ^ coefficients[i];
+	}
+	return result;
+}
+
+// Split secret into `total` shares, any `threshold` of which reconstruct it
+export function splitSecret(secret: Uint8Array, total: number, threshold: number): SecretShare[] {
+	if (!Number.isInteger(threshold) || threshold < 2) {
+		throw new Error('Threshold must be at least 2');
+	}
+	if (!Number.isInteger(total) || total < threshold || total > 255) {
+		throw new Error('Share count must be between the threshold and 255');
+	}
+	if (secret.length === 0) {
+		throw new Error('Secret cannot be empty');
+	}
+
+	const shares: SecretShare[] = Array.from({ length: total }, (_, i) => ({ x: i + 1, y: new Uint8Array(secret.length) }));
+	const coefficients = new Uint8Array(threshold);
+
+	for (let byte = 0; byte < secret.length; byte++) {
+		coefficients[0] = secret[byte];
+		crypto.getRandomValues(coefficients.subarray(1));
+		for (const share of shares) {
+			share.y[byte] = evaluate(coefficients, share.x);
+		}
+	}
+
+	coefficients.fill(0);
+	return shares;
+}
+
+// Lagrange interpolation at x = 0; the caller must supply at least the threshold number of shares
+export function combineShares(shares: SecretShare[]): Uint8Array {
+	if (shares.length < 2) {
+		throw new Error('At least two shares are required');
+	}
+
+	const length = shares[0].y.length;
+	const xs = new Set<number>();
+	for (const share of shares) {
+		if (share.y.length !== length) {
+			throw new Error('Shares have different lengths');
+		}
+		if (share.x < 1 || share.x > 255 || xs.has(share.x)) {
+			throw new Error(`Duplicate or invalid share index ${share.x}`);
+		}
+		xs.add(share.x);
+	}
+
+	const secret = new Uint8Array(length);
+	for (let i = 0; i < shares.length; i++) {
+		// Basis polynomial l_i(0) = prod_{j != i} x_j / (x_j - x_i); subtraction is XOR in GF(2^8)
+		let basis = 1;
+		for (let j = 0; j < shares.length; j++) {
+			if (i !== j) {
+				basis = mul(basis, div(shares[j].x, shares[j].x ^ shares[i].x));
+			}
+		}
+		for (let byte = 0; byte < length; byte++) {
+			secret[byte] ^= mul(shares[i].y[byte], basis);
+		}
+	}
+	return secret;
+}
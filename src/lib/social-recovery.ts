@@ -0,0 +1,199 @@
+// Social recovery: split a DID private key into Shamir shares, optionally sealed to guardians with tweetnacl box
+import { z } from 'zod';
+import nacl from 'tweetnacl';
+import { encodeBase64, decodeBase64 } from 'tweetnacl-util';
+import { edwardsToMontgomeryPriv, edwardsToMontgomeryPub } from '@noble/curves/ed25519';
+import { combineShares, splitSecret } from './shamir';
+import { bytesToHex, hexToBytes, randomHex } from './encoding';
+import { wasmAuth } from './wasm-auth';
+
+export const KEY_SHARE_TYPE = 'DIDKeyShare';
+export const ENCRYPTED_KEY_SHARE_TYPE = 'EncryptedDIDKeyShare';
+export const KEY_SHARE_VERSION = 1;
+
+const hexString = z.string().regex(/^([0-9a-f]{2})+$/, 'must be lowercase hex');
+
+export const keyShareSchema = z.object({
+	type: z.literal(KEY_SHARE_TYPE),
+	version: z.literal(KEY_SHARE_VERSION),
+	didId: z.string().min(1),
+	// Random id shared by every share of one split, so shares from different splits are never mixed
+	setId: hexString,
+	threshold: z.number().int().min(2).max(255),
+	total: z.number().int().min(2).max(255),
+	index: z.number().int().min(1).max(255),
+	share: hexString,
+	// First 4 bytes of SHA-256 over the key, to detect a wrong reconstruction before signing
+	keyCheck: hexString,
+});
+
+export const encryptedKeyShareSchema = z.object({
+	type: z.literal(ENCRYPTED_KEY_SHARE_TYPE),
+	version: z.literal(KEY_SHARE_VERSION),
+	// Guardian DID whose key opens this share
+	guardian: z.string().min(1),
+	setId: hexString,
+	index: z.number().int().min(1).max(255),
+	ephemeralPublicKey: z.string().min(1),
+	nonce: z.string().min(1),
+	ciphertext: z.string().min(1),
+});
+
+export type KeyShare = z.infer<typeof keyShareSchema>;
+export type EncryptedKeyShare = z.infer<typeof encryptedKeyShareSchema>;
+
+export interface Guardian {
+	didId: string;
+	// Hex Ed25519 public key of the guardian's DID
+	publicKey: string;
+}
+
+async function computeKeyCheck(key: Uint8Array): Promise<string> {
+	const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', key));
+	return bytesToHex(digest.slice(0, 4));
+}
+
+// Split a DID private key into `total` shares, any `threshold` of which recover it
+export async function createKeyShares(didId: string, privateKey: string, total: number, threshold: number): Promise<KeyShare[]> {
+	const key = hexToBytes(privateKey);
+	// A key that does not control the DID would only be noticed when the guardians' shares fail to recover it
+	if (!(await wasmAuth.verifyKeyControlsDID(didId, privateKey))) {
+		throw new Error(`This key does not control ${didId}`);
+	}
+	const setId = randomHex(8);
+	const keyCheck = await computeKeyCheck(key);
+
+	return splitSecret(key, total, threshold).map((share) => ({
+		type: KEY_SHARE_TYPE,
+		version: KEY_SHARE_VERSION,
+		didId,
+		setId,
+		threshold,
+		total,
+		index: share.x,
+		share: bytesToHex(share.y),
+		keyCheck,
+	}));
+}
+
+// Seal a share to a guardian's Ed25519 DID key (converted to X25519) with an ephemeral sender key
+export function encryptKeyShare(share: KeyShare, guardian: Guardian): EncryptedKeyShare {
+	let recipient: Uint8Array;
+	try {
+		recipient = edwardsToMontgomeryPub(hexToBytes(guardian.publicKey));
+	} catch {
+		throw new Error(`Guardian ${guardian.didId} does not have a valid Ed25519 public key`);
+	}
+
+	const ephemeral = nacl.box.keyPair();
+	const nonce = nacl.randomBytes(nacl.box.nonceLength);
+	const plaintext = new TextEncoder().encode(JSON.stringify(share));
+	const ciphertext = nacl.box(plaintext, nonce, recipient, ephemeral.secretKey);
+	ephemeral.secretKey.fill(0);
+
+	return {
+		type: ENCRYPTED_KEY_SHARE_TYPE,
+		version: KEY_SHARE_VERSION,
+		guardian: guardian.didId,
+		setId: share.setId,
+		index: share.index,
+		ephemeralPublicKey: encodeBase64(ephemeral.publicKey),
+		nonce: encodeBase64(nonce),
+		ciphertext: encodeBase64(ciphertext),
+	};
+}
+
+// Open a sealed share with the guardian's DID private key (a 32-byte seed, or a 64-byte seed||public key)
+export function decryptKeyShare(encrypted: EncryptedKeyShare, guardianPrivateKey: string): KeyShare {
+	const seed = hexToBytes(guardianPrivateKey).slice(0, 32);
+	const secretKey = edwardsToMontgomeryPriv(seed);
+
+	const plaintext = nacl.box.open(
+		decodeBase64(encrypted.ciphertext),
+		decodeBase64(encrypted.nonce),
+		decodeBase64(encrypted.ephemeralPublicKey),
+		secretKey
+	);
+	secretKey.fill(0);
+	if (!plaintext) {
+		throw new Error(`This share cannot be opened with the key of ${encrypted.guardian}`);
+	}
+
+	const share = parseShareJSON(new TextDecoder().decode(plaintext), keyShareSchema, 'key share');
+	// The envelope labels are what the holder sorts shares by, so a share inside must carry the same ones
+	if (share.setId !== encrypted.setId || share.index !== encrypted.index) {
+		throw new Error(`The share sealed for ${encrypted.guardian} does not match its envelope (set ${encrypted.setId}, share ${encrypted.index})`);
+	}
+	return share;
+}
+
+function parseShareJSON<T>(text: string, schema: z.ZodType<T>, label: string): T {
+	let data: unknown;
+	try {
+		data = JSON.parse(text.trim());
+	} catch {
+		throw new Error(`The ${label} is not valid JSON`);
+	}
+
+	const parsed = schema.safeParse(data);
+	if (!parsed.success) {
+		throw new Error(`Invalid ${label}: ${parsed.error.issues.map((issue) => `${issue.path.join('.')} ${issue.message}`).join(', ')}`);
+	}
+	return parsed.data;
+}
+
+// Compact JSON used for copy/paste and QR codes
+export function encodeKeyShare(share: KeyShare | EncryptedKeyShare): string {
+	return JSON.stringify(share);
+}
+
+export function parseKeyShare(text: string): KeyShare | EncryptedKeyShare {
+	const union = z.union([keyShareSchema, encryptedKeyShareSchema]);
+	return parseShareJSON(text, union, 'key share');
+}
+
+export function isEncryptedKeyShare(share: KeyShare | EncryptedKeyShare): share is EncryptedKeyShare {
+	return share.type === ENCRYPTED_KEY_SHARE_TYPE;
+}
+
+// Check that shares belong together and are enough to reconstruct; returns a reason when they are not
+export function validateKeyShares(shares: KeyShare[]): string | null {
+	if (shares.length === 0) {
+		return 'No shares provided';
+	}
+
+	const [first] = shares;
+	for (const share of shares) {
+		if (share.setId !== first.setId || share.didId !== first.didId || share.threshold !== first.threshold || share.keyCheck !== first.keyCheck) {
+			return `Share #${share.index} belongs to a different backup`;
+		}
+	}
+	if (new Set(shares.map((share) => share.index)).size !== shares.length) {
+		return 'The same share was provided more than once';
+	}
+	if (shares.length < first.threshold) {
+		return `${first.threshold - shares.length} more share(s) needed (${first.threshold} of ${first.total})`;
+	}
+	return null;
+}
+
+// Rebuild the private key from enough shares and prove it still controls the DID the shares were made for
+export async function reconstructDIDKey(shares: KeyShare[]): Promise<{ didId: string; privateKey: string }> {
+	const problem = validateKeyShares(shares);
+	if (problem) {
+		throw new Error(problem);
+	}
+
+	const [first] = shares;
+	const key = combineShares(shares.slice(0, first.threshold).map((share) => ({ x: share.index, y: hexToBytes(share.share) })));
+	if ((await computeKeyCheck(key)) !== first.keyCheck) {
+		throw new Error('Reconstructed key does not match the backup checksum; one of the shares is corrupted');
+	}
+
+	const privateKey = bytesToHex(key);
+	if (!(await wasmAuth.verifyKeyControlsDID(first.didId, privateKey))) {
+		throw new Error(`The reconstructed key does not control ${first.didId}`);
+	}
+
+	return { didId: first.didId, privateKey };
+}
@@ -0,0 +1,190 @@
+// Password-based login without sending a password equivalent: PBKDF2 stretching plus SRP-6a (RFC 5054 group, SHA-256)
+import { getPasswordKdfIterations } from './config';
+import { bytesToHex, hexToBytes } from './encoding';
+
+export interface PasswordKdfParams {
+	algorithm: 'PBKDF2-SHA256';
+	iterations: number;
+	// Hex-encoded per-user salt
+	salt: string;
+}
+
+export interface SRPRegistration {
+	kdf: PasswordKdfParams;
+	// Hex-encoded g^x mod N; the server stores this instead of a password hash
+	verifier: string;
+}
+
+export interface SRPClientSession {
+	// Hex-encoded client public ephemeral A
+	A: string;
+	// Hex-encoded client proof M1, sent to the server
+	M1: string;
+	// Hex-encoded server proof M2 the server must answer with
+	expectedM2: string;
+}
+
+// Server-supplied parameters below these floors are refused so a hostile server cannot downgrade the KDF
+const MIN_KDF_ITERATIONS = 100000;
+const MIN_SALT_BYTES = 16;
+
+// RFC 5054 2048-bit group
+const N_HEX =
+	'AC6BDB41324A9A9BF166DE5E1389582FAF72B6651987EE07FC3192943DB56050A37329CBB4A099ED8193E0757767A13D' +
+	'D52312AB4B03310DCD7F48A9DA04FD50E8083969EDB767B0CF6095179A163AB3661A05FBD5FAAAE82918A9962F0B93B8' +
+	'55F97993EC975EEAA80D740ADBF4FF747359D041D5C33EA71D281E446B14773BCA97B43A23FB801676BD207A436C6481' +
+	'F1D2B9078717461A5B9D32E688F87748544523B524B0D57D5EA77A2775D2ECFA032CFBDBF52FB3786160279004E57AE6' +
+	'AF874E7303CE53299CCC041C7BC308D82A5698F3A8D0C38271AE35F8E9DBFBB694B5C803D89F7AE435DE236D525F5475' +
+	'9B65E372FCD68EF20FA7111F9E4AFF73';
+const N = BigInt('0x' + N_HEX);
+const g = BigInt(2);
+const N_BYTES = N_HEX.length / 2;
+const ZERO = BigInt(0);
+const ONE = BigInt(1);
+
+function bytesToBigInt(bytes: Uint8Array): bigint {
+	return bytes.length === 0 ? ZERO : BigInt('0x' + bytesToHex(bytes));
+}
+
+// Big-endian bytes, left-padded to the group size (RFC 5054 PAD)
+function pad(value: bigint): Uint8Array {
+	return hexToBytes(value.toString(16).padStart(N_BYTES * 2, '0'));
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array {
+	const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+	let offset = 0;
+	for (const part of parts) {
+		result.set(part, offset);
+		offset += part.length;
+	}
+	return result;
+}
+
+async function sha256(...parts: Uint8Array[]): Promise<Uint8Array> {
+	return new Uint8Array(await crypto.subtle.digest('SHA-256', concat(...parts)));
+}
+
+function modPow(base: bigint, exponent: bigint, modulus: bigint): bigint {
+	let result = ONE;
+	let b = ((base % modulus) + modulus) % modulus;
+	let e = exponent;
+	while (e > ZERO) {
+		if (e & ONE) {
+			result = (result * b) % modulus;
+		}
+		e >>= ONE;
+		b = (b * b) % modulus;
+	}
+	return result;
+}
+
+// Reject KDF parameters the client would not have chosen itself
+export function validateKdfParams(params: PasswordKdfParams): void {
+	if (params.algorithm !== 'PBKDF2-SHA256') {
+		throw new Error(`Unsupported password KDF: ${params.algorithm}`);
+	}
+	if (!Number.isInteger(params.iterations) || params.iterations < MIN_KDF_ITERATIONS) {
+		throw new Error(`Password KDF iteration count is below the minimum of ${MIN_KDF_ITERATIONS}`);
+	}
+	if (hexToBytes(params.salt).length < MIN_SALT_BYTES) {
+		throw new Error(`Password salt must be at least ${MIN_SALT_BYTES} bytes`);
+	}
+}
+
+// Fresh parameters for a new registration
+export function generateKdfParams(): PasswordKdfParams {
+	return {
+		algorithm: 'PBKDF2-SHA256',
+		iterations: getPasswordKdfIterations(),
+		salt: bytesToHex(crypto.getRandomValues(new Uint8Array(32))),
+	};
+}
+
+// Stretch the password with PBKDF2; returns 32 hex-encoded bytes
+export async function derivePasswordKey(password: string, params: PasswordKdfParams): Promise<string> {
+	validateKdfParams(params);
+
+	const baseKey = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+	const bits = await crypto.subtle.deriveBits(
+		{ name: 'PBKDF2', salt: hexToBytes(params.salt), iterations: params.iterations, hash: 'SHA-256' },
+		baseKey,
+		256
+	);
+	return bytesToHex(new Uint8Array(bits));
+}
+
+// x = H(s | H(I ":" stretched password))
+async function computeX(username: string, password: string, params: PasswordKdfParams): Promise<bigint> {
+	const stretched = await derivePasswordKey(password, params);
+	const inner = await sha256(new TextEncoder().encode(`${username}:${stretched}`));
+	return bytesToBigInt(await sha256(hexToBytes(params.salt), inner));
+}
+
+// Registration: derive the verifier the server stores for this user
+export async function createSRPRegistration(username: string, password: string, params: PasswordKdfParams = generateKdfParams()): Promise<SRPRegistration> {
+	const x = await computeX(username, password, params);
+	return {
+		kdf: params,
+		verifier: modPow(g, x, N).toString(16),
+	};
+}
+
+// Login: answer the server's ephemeral B with A and the client proof M1
+export async function createSRPClientSession(
+	username: string,
+	password: string,
+	params: PasswordKdfParams,
+	serverPublicKey: string
+): Promise<SRPClientSession> {
+	const B = bytesToBigInt(hexToBytes(serverPublicKey.length % 2 === 0 ? serverPublicKey : `0${serverPublicKey}`));
+	if (B % N === ZERO) {
+		throw new Error('Invalid server ephemeral');
+	}
+
+	const a = bytesToBigInt(crypto.getRandomValues(new Uint8Array(32)));
+	const A = modPow(g, a, N);
+
+	const u = bytesToBigInt(await sha256(pad(A), pad(B)));
+	if (u === ZERO) {
+		throw new Error('Invalid scrambling parameter');
+	}
+
+	const k = bytesToBigInt(await sha256(pad(N), pad(g)));
+	const x = await computeX(username, password, params);
+	const v = modPow(g, x, N);
+
+	// S = (B - k * v) ^ (a + u * x) mod N
+	const S = modPow(B - ((k * v) % N), a + u * x, N);
+	const K = await sha256(pad(S));
+
+	// M1 = H(H(N) xor H(g) | H(I) | s | A | B | K)
+	const hN = await sha256(pad(N));
+	const hG = await sha256(pad(g));
+	const hNxorG = hN.map((byte, i) => byte ^ hG[i]);
+	const hI = await sha256(new TextEncoder().encode(username));
+	const M1 = await sha256(hNxorG, hI, hexToBytes(params.salt), pad(A), pad(B), K);
+
+	// M2 = H(A | M1 | K)
+	const M2 = await sha256(pad(A), M1, K);
+
+	return {
+		A: bytesToHex(pad(A)),
+		M1: bytesToHex(M1),
+		expectedM2: bytesToHex(M2),
+	};
+}
+
+// Constant-time comparison of the server proof
+export function verifyServerProof(session: SRPClientSession, serverProof: string): boolean {
+	const expected = session.expectedM2.toLowerCase();
+	const actual = serverProof.toLowerCase();
+	if (expected.length !== actual.length) {
+		return false;
+	}
+	let diff = 0;
+	for (let i = 0; i < expected.length; i++) {
+		diff |= expected.charCodeAt(i) ^ actual.charCodeAt(i);
+	}
+	return diff === 0;
+}
@@ -0,0 +1,122 @@
+// TOTP enrollment and recovery-code management for the signed-in user
+import { buildApiUrl } from './config';
+import { authenticatedFetch, getUserData, setTwoFactorEnabled } from './auth';
+
+export interface TwoFactorEnrollment {
+	// Base32 secret, shown for manual entry when the QR code cannot be scanned
+	secret: string;
+	otpauthUri: string;
+}
+
+export interface OtpauthOptions {
+	secret: string;
+	account: string;
+	issuer: string;
+	digits?: number;
+	period?: number;
+}
+
+// Key URI understood by authenticator apps: otpauth://totp/Issuer:account?secret=...&issuer=...
+export function buildOtpauthUri({ secret, account, issuer, digits = 6, period = 30 }: OtpauthOptions): string {
+	const label = encodeURIComponent(`${issuer}:${account}`);
+	const params = new URLSearchParams({
+		secret,
+		issuer,
+		algorithm: 'SHA1',
+		digits: String(digits),
+		period: String(period),
+	});
+	return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+// Ask the server for a new, not yet active TOTP secret
+export async function startTwoFactorEnrollment(): Promise<TwoFactorEnrollment> {
+	const response = await authenticatedFetch(buildApiUrl('/users/me/2fa/enroll'), {
+		method: 'POST',
+	});
+
+	if (!response.ok) {
+		const errorData = await response.json().catch(() => ({}));
+		throw new Error(errorData.message || 'Failed to start two-factor enrollment');
+	}
+
+	const data: { secret: string; otpauth_uri?: string } = await response.json();
+	return {
+		secret: data.secret,
+		otpauthUri: data.otpauth_uri || buildOtpauthUri({
+			secret: data.secret,
+			account: getUserData()?.username || 'account',
+			issuer: window.location.host,
+		}),
+	};
+}
+
+// Activate 2FA by proving the authenticator produces valid codes; returns the one-time recovery codes
+export async function confirmTwoFactorEnrollment(code: string): Promise<string[]> {
+	const response = await authenticatedFetch(buildApiUrl('/users/me/2fa/confirm'), {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+		},
+		body: JSON.stringify({ code }),
+	});
+
+	if (!response.ok) {
+		const errorData = await response.json().catch(() => ({}));
+		throw new Error(errorData.message || 'Invalid verification code');
+	}
+
+	const data: { recovery_codes: string[] } = await response.json();
+	setTwoFactorEnabled(true);
+	return data.recovery_codes;
+}
+
+// Replace all recovery codes; requires a current TOTP code
+export async function regenerateRecoveryCodes(code: string): Promise<string[]> {
+	const response = await authenticatedFetch(buildApiUrl('/users/me/2fa/recovery-codes'), {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+		},
+		body: JSON.stringify({ code }),
+	});
+
+	if (!response.ok) {
+		const errorData = await response.json().catch(() => ({}));
+		throw new Error(errorData.message || 'Failed to regenerate recovery codes');
+	}
+
+	const data: { recovery_codes: string[] } = await response.json();
+	return data.recovery_codes;
+}
+
+// Turn 2FA off; requires a current TOTP or recovery code
+export async function disableTwoFactor(code: string): Promise<void> {
+	const response = await authenticatedFetch(buildApiUrl('/users/me/2fa/disable'), {
+		method: 'POST',
+		headers: {
+			'Content-Type': 'application/json',
+		},
+		body: JSON.stringify({ code }),
+	});
+
+	if (!response.ok) {
+		const errorData = await response.json().catch(() => ({}));
+		throw new Error(errorData.message || 'Failed to disable two-factor authentication');
+	}
+
+	setTwoFactorEnabled(false);
+}
+
+// Plain-text file contents for the recovery codes download
+export function formatRecoveryCodes(codes: string[], account: string): string {
+	return [
+		`Recovery codes for ${account} (${window.location.host})`,
+		`Generated ${new Date().toISOString()}`,
+		'',
+		'Each code can be used once to sign in without your authenticator.',
+		'',
+		...codes,
+		'',
+	].join('\n');
+}
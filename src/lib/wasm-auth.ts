@@ -1,28 +1,31 @@
 // Enhanced client-side authentication using WASM crypto operations with Web Worker support
 import { wasmLoader } from './wasm-loader';
 import { cryptoWasm } from './crypto-wasm';
-import { buildApiUrl, getAuthCookieName, getAuthCookieMaxAge, setCookie, deleteCookie } from './config';
-
-export interface User {
-	id: number;
-	username: string;
-	email?: string;
-	did?: string;
-	created_at: string;
-	last_login_at?: string;
-	last_updated_at?: string;
-	is_two_factor_enabled: boolean;
-}
-
-export interface AuthResponse {
-	token: string;
-	user: User;
+import { didMethods } from './did-methods';
+import { toDIDDocument, type DIDDocument } from './did-document';
+import { keystore } from './keystore';
+import { prepareDIDChallenge } from './did-challenge';
+import { calculateAge, createAgeCredential, type VerifiableCredential } from './credentials';
+import { buildApiUrl } from './config';
+import { randomHex } from './encoding';
+import { createSRPClientSession, createSRPRegistration, derivePasswordKey, generateKdfParams, validateKdfParams, verifyServerProof, type PasswordKdfParams } from './srp';
+import { assertNoTwoFactorChallenge, handleAuthSuccess, logout as logoutSession, storeDIDSettings, TwoFactorRequiredError, type AuthResponse, type AuthStrategy } from './auth';
+
+export type { User, AuthResponse } from './auth';
+
+// Server reply to the first SRP login step
+export interface SRPChallenge {
+	sessionId: string;
+	kdf: PasswordKdfParams;
+	// Hex-encoded server public ephemeral B
+	B: string;
 }
 
 export interface ClientSideAuthData {
 	username: string;
-	password: string;
-	clientSideHash?: string;
+	sessionId: string;
+	A: string;
+	M1: string;
 	publicKey?: string;
 }
 
@@ -31,38 +34,24 @@ export interface DIDAuthData {
 	proof: string;
 	signature: string;
 	challenge: string;
+	nonce?: string;
 	publicKey?: string;
 }
 
 export interface PasswordHashResult {
 	hash: string;
 	salt: string;
+	kdf: PasswordKdfParams;
 }
 
 export class WASMAuth {
 	/**
-	 * Generate a secure password hash using WASM crypto
+	 * Stretch a password with the login KDF. Pass the stored parameters to reproduce an existing hash.
 	 */
-	async hashPassword(password: string, salt?: string): Promise<PasswordHashResult> {
+	async hashPassword(password: string, params: PasswordKdfParams = generateKdfParams()): Promise<PasswordHashResult> {
 		try {
-			// Generate salt if not provided
-			const saltBytes = salt ?
-				cryptoWasm.hexToUint8Array(salt) :
-				await cryptoWasm.generateChallenge(32);
-
-			// Combine password and salt
-			const passwordBytes = cryptoWasm.stringToUint8Array(password);
-			const combined = new Uint8Array(passwordBytes.length + saltBytes.length);
-			combined.set(passwordBytes);
-			combined.set(saltBytes, passwordBytes.length);
-
-			// Hash the combined data
-			const hashBytes = await cryptoWasm.hashMessage(combined);
-
-			return {
-				hash: cryptoWasm.uint8ArrayToHex(hashBytes),
-				salt: cryptoWasm.uint8ArrayToHex(saltBytes),
-			};
+			const hash = await derivePasswordKey(password, params);
+			return { hash, salt: params.salt, kdf: params };
 		} catch (error) {
 			throw new Error(`Failed to hash password: ${error instanceof Error ? error.message : 'Unknown error'}`);
 		}
@@ -92,32 +81,37 @@ export class WASMAuth {
 	 * Create a DID with full client-side crypto operations
 	 */
 	async createDIDClientSide(name: string, dob: string): Promise<{
-		did: any;
+		did: { id: string; publicKey: string; document?: DIDDocument };
 		privateKey: string;
-		credential: any;
+		credential: VerifiableCredential;
 		salt: string;
+		age: number;
 	}> {
 		try {
 			// Create DID using WASM
 			const didResult = await wasmLoader.createDID();
 
-			// Calculate age from date of birth
-			const dobDate = new Date(dob);
-			const today = new Date();
-			let age = today.getFullYear() - dobDate.getFullYear();
-			const monthDiff = today.getMonth() - dobDate.getMonth();
-			if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < dobDate.getDate())) {
-				age--;
-			}
-
 			// Issue age credential using WASM
+			const age = calculateAge(dob);
 			const credentialResult = await wasmLoader.issueAgeCredential(didResult.did.id, age);
 
+			// Self-issued: the new DID is both issuer and subject
+			const credential = createAgeCredential({
+				issuer: didResult.did.id,
+				subject: didResult.did.id,
+				credentialResult,
+			});
+
 			return {
-				did: didResult.did,
+				did: {
+					id: didResult.did.id,
+					publicKey: didResult.did.publicKey,
+					document: toDIDDocument(didResult.did.document),
+				},
 				privateKey: didResult.privateKey,
-				credential: credentialResult.credential,
+				credential,
 				salt: credentialResult.salt,
+				age,
 			};
 		} catch (error) {
 			throw new Error(`Failed to create DID client-side: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -137,20 +131,21 @@ export class WASMAuth {
 		verified: boolean;
 	}> {
 		try {
-			// Authenticate using WASM
-			const authResult = await wasmLoader.authenticateDID(didId, privateKey, challenge);
+			// Authenticate with the DID's method (WASM for gnark DIDs)
+			const authResult = await didMethods.authenticate(didId, privateKey, challenge);
 
 			// Verify the authentication immediately
-			const verifyResult = await wasmLoader.verifyAuthentication(
+			const verified = await didMethods.verifyAuthentication(
 				didId,
 				authResult.proof,
-				authResult.signature
+				authResult.signature,
+				challenge
 			);
 
 			return {
 				proof: authResult.proof,
 				signature: authResult.signature,
-				verified: verifyResult.verified,
+				verified,
 			};
 		} catch (error) {
 			throw new Error(`Failed to authenticate DID client-side: ${error instanceof Error ? error.message : 'Unknown error'}`);
@@ -158,13 +153,25 @@ export class WASMAuth {
 	}
 
 	/**
-	 * Create membership and balance proof client-side
+	 * Check that a private key controls a DID by signing and verifying a throwaway challenge.
+	 * The DID module cannot derive an identifier from a key, so this is how keys are matched to DIDs.
+	 */
+	async verifyKeyControlsDID(didId: string, privateKey: string): Promise<boolean> {
+		const challenge = `did-key-check:${randomHex(16)}`;
+		const { verified } = await this.authenticateDIDClientSide(didId, privateKey, challenge).catch(() => ({ verified: false }));
+		return verified;
+	}
+
+	/**
+	 * Create membership and balance proof client-side. Pass the salt stored with a membership credential
+	 * to reproduce its commitment; without one a fresh salt (and commitment) is generated.
 	 */
 	async createMembershipProofClientSide(
 		organizationId: string,
 		balance: number,
 		balanceRangeMin: number,
-		balanceRangeMax: number
+		balanceRangeMax: number,
+		salt?: string
 	): Promise<{
 		proof: string;
 		salt: string;
@@ -174,10 +181,9 @@ export class WASMAuth {
 		try {
 			console.log('Creating membership proof client-side...', { organizationId, balance, balanceRangeMin, balanceRangeMax });
 
-			// Generate salt for the proof
-			const saltBytes = await cryptoWasm.generateChallenge(32);
-			const salt = cryptoWasm.uint8ArrayToHex(saltBytes);
-			console.log('Generated salt:', salt);
+			// Reuse the credential's salt, or generate one for a new commitment
+			const saltBytes = salt ? cryptoWasm.hexToUint8Array(salt) : await cryptoWasm.generateChallenge(32);
+			const saltHex = cryptoWasm.uint8ArrayToHex(saltBytes);
 
 			// Ensure DID WASM module is loaded
 			await wasmLoader.loadDID();
@@ -195,7 +201,7 @@ export class WASMAuth {
 				balance,
 				balanceRangeMin,
 				balanceRangeMax,
-				salt
+				saltHex
 			);
 			console.log('Proof result:', proofResult);
 
@@ -216,7 +222,7 @@ export class WASMAuth {
 
 			return {
 				proof: proofResult.proof,
-				salt,
+				salt: saltHex,
 				commitment: cryptoWasm.uint8ArrayToHex(commitment),
 				organizationIdHash: cryptoWasm.uint8ArrayToHex(orgIdHash),
 			};
@@ -254,26 +260,43 @@ export class WASMAuth {
 	}
 
 	/**
-	 * Enhanced login that performs client-side crypto operations before contacting backend
+	 * Enhanced login using SRP-6a: the server sends the user's salt and KDF parameters,
+	 * and only a zero-knowledge proof of the stretched password leaves the browser.
 	 */
 	async loginWithClientSideCrypto(username: string, password: string): Promise<AuthResponse> {
 		try {
-			// Generate client-side password hash
-			const { hash: passwordHash } = await this.hashPassword(password);
+			// Step 1: fetch the user's KDF parameters and the server ephemeral
+			const initResponse = await fetch(buildApiUrl('/auth/srp/init'), {
+				method: 'POST',
+				headers: {
+					'Content-Type': 'application/json',
+				},
+				body: JSON.stringify({ username }),
+			});
+
+			if (!initResponse.ok) {
+				const errorData = await initResponse.json().catch(() => ({}));
+				throw new Error(errorData.message || 'Failed to start password login');
+			}
+
+			const srpChallenge: SRPChallenge = await initResponse.json();
+			validateKdfParams(srpChallenge.kdf);
+
+			// Step 2: derive the client proof
+			const session = await createSRPClientSession(username, password, srpChallenge.kdf, srpChallenge.B);
 
 			// Generate authentication keypair
 			const { publicKey } = await this.generateAuthKeyPair();
 
-			// Create authentication data
 			const authData: ClientSideAuthData = {
 				username,
-				password: '', // Don't send plain password
-				clientSideHash: passwordHash,
+				sessionId: srpChallenge.sessionId,
+				A: session.A,
+				M1: session.M1,
 				publicKey,
 			};
 
-			// Send to backend for verification (backend should verify client-side hash)
-			const response = await fetch(buildApiUrl('/auth/login-enhanced'), {
+			const response = await fetch(buildApiUrl('/auth/srp/verify'), {
 				method: 'POST',
 				headers: {
 					'Content-Type': 'application/json',
@@ -286,25 +309,34 @@ export class WASMAuth {
 				throw new Error(errorData.message || 'Enhanced login failed');
 			}
 
-			const authResponse = await response.json();
-			this.handleAuthSuccess(authResponse);
+			// Step 3: the server must prove it knows the verifier before the session is accepted
+			const { M2, ...authResponse } = await response.json();
+			if (typeof M2 !== 'string' || !verifyServerProof(session, M2)) {
+				throw new Error('Server failed to prove knowledge of the password verifier');
+			}
+
+			assertNoTwoFactorChallenge(authResponse);
+			handleAuthSuccess(authResponse);
 			return authResponse;
 		} catch (error) {
+			if (error instanceof TwoFactorRequiredError) throw error;
 			throw new Error(`Client-side crypto login failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
 		}
 	}
 
 	/**
-	 * Enhanced DID login with full client-side verification
+	 * Enhanced DID login with full client-side verification.
+	 * When no private key is given, the key stored in the unlocked keystore is used.
 	 */
-	async loginWithDIDClientSide(didId: string, privateKey: string): Promise<AuthResponse> {
+	async loginWithDIDClientSide(didId: string, privateKey?: string): Promise<AuthResponse> {
 		try {
-			// Generate challenge client-side
-			const challengeBytes = await cryptoWasm.generateChallenge(32);
-			const challenge = cryptoWasm.uint8ArrayToHex(challengeBytes);
+			const signingKey = privateKey || await keystore.getPrivateKey(didId);
+
+			// Fetch a server-issued challenge; expired or foreign-domain challenges are rejected before signing
+			const { challenge, message } = await prepareDIDChallenge(didId);
 
 			// Authenticate and verify client-side
-			const authResult = await this.authenticateDIDClientSide(didId, privateKey, challenge);
+			const authResult = await this.authenticateDIDClientSide(didId, signingKey, message);
 
 			if (!authResult.verified) {
 				throw new Error('Client-side DID verification failed');
@@ -317,7 +349,8 @@ export class WASMAuth {
 				didId,
 				proof: authResult.proof,
 				signature: authResult.signature,
-				challenge,
+				challenge: message,
+				nonce: challenge.nonce,
 				publicKey: keyPair.publicKey,
 			};
 
@@ -336,19 +369,17 @@ export class WASMAuth {
 			}
 
 			const authResponse = await response.json();
-			this.handleAuthSuccess(authResponse);
+			assertNoTwoFactorChallenge(authResponse, didId);
+			handleAuthSuccess(authResponse);
 
 			// Store DID settings
 			if (authResponse.user?.did) {
-				localStorage.setItem('did_settings', JSON.stringify({
-					id: authResponse.user.did,
-					enabled: true,
-					lastAuthenticated: new Date().toISOString(),
-				}));
+				storeDIDSettings(authResponse.user.did);
 			}
 
 			return authResponse;
 		} catch (error) {
+			if (error instanceof TwoFactorRequiredError) throw error;
 			throw new Error(`Client-side DID login failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
 		}
 	}
@@ -358,16 +389,16 @@ export class WASMAuth {
 	 */
 	async registerWithClientSideCrypto(username: string, password: string): Promise<AuthResponse> {
 		try {
-			// Generate client-side password hash with salt
-			const { hash: passwordHash, salt } = await this.hashPassword(password);
+			// Derive the SRP verifier; the server never sees the password or a password-equivalent hash
+			const { kdf, verifier } = await createSRPRegistration(username, password);
 
 			// Generate authentication keypair
 			const { publicKey } = await this.generateAuthKeyPair();
 
 			const registrationData = {
 				username,
-				passwordHash,
-				salt,
+				kdf,
+				verifier,
 				publicKey,
 			};
 
@@ -385,44 +416,18 @@ export class WASMAuth {
 			}
 
 			const authResponse = await response.json();
-			this.handleAuthSuccess(authResponse);
+			handleAuthSuccess(authResponse);
 			return authResponse;
 		} catch (error) {
 			throw new Error(`Client-side crypto registration failed: ${error instanceof Error ? error.message : 'Unknown error'}`);
 		}
 	}
 
-	/**
-	 * Handle successful authentication
-	 */
-	private handleAuthSuccess(authResponse: AuthResponse): void {
-		localStorage.setItem('auth_token', authResponse.token);
-		setCookie(getAuthCookieName(), authResponse.token, getAuthCookieMaxAge());
-		localStorage.setItem('user_data', JSON.stringify(authResponse.user));
-
-		// Dispatch an event that can be caught by layout components
-		const event = new CustomEvent('auth-success', { detail: authResponse });
-		window.dispatchEvent(event);
-	}
-
 	/**
 	 * Logout and clear all client-side data
 	 */
 	logout(): void {
-		localStorage.removeItem('auth_token');
-		deleteCookie(getAuthCookieName());
-		localStorage.removeItem('user_data');
-		localStorage.removeItem('did_settings');
-		localStorage.removeItem('client_keypair');
-
-		// Dispatch logout event
-		window.dispatchEvent(new Event('auth-logout'));
-
-		const event = new Event('auth-navigate', {
-			bubbles: true,
-			cancelable: true
-		});
-		window.dispatchEvent(event);
+		logoutSession();
 	}
 
 	/**
@@ -523,4 +528,14 @@ export class WASMAuth {
 export const wasmAuth = new WASMAuth();
 
 // Backwards compatibility exports
-export { wasmAuth as enhancedAuth };
\ No newline at end of file
+export { wasmAuth as enhancedAuth };
+
+export const enhancedCryptoStrategy: AuthStrategy<{ username: string; password: string }> = {
+	id: 'enhanced-crypto',
+	login: ({ username, password }) => wasmAuth.loginWithClientSideCrypto(username, password),
+};
+
+export const enhancedDIDStrategy: AuthStrategy<{ didId: string; privateKey?: string }> = {
+	id: 'enhanced-did',
+	login: ({ didId, privateKey }) => wasmAuth.loginWithDIDClientSide(didId, privateKey),
+};
\ No newline at end of file
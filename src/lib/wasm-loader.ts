@@ -48,7 +48,8 @@ export interface DIDResult {
 	did: {
 		id: string;
 		publicKey: string;
-		document: any;
+		// Raw document from the WASM module; validate with toDIDDocument before use
+		document: unknown;
 	};
 	privateKey: string;
 }
@@ -1,13 +1,8 @@
 import { NextResponse } from 'next/server'
 import type { NextRequest } from 'next/server'
 import { getAuthCookieName } from './lib/config'
-
-// Paths that require authentication
-const protectedPaths = [
-	'/dashboard',
-	'/profile',
-	'/settings'
-]
+import { CLAIM_HEADERS, encodeClaimsHeader, JWTVerificationError, verifyJWT, type JWTPayload } from './lib/jwt'
+import { evaluateRoutePolicy, getSessionClaims } from './lib/route-policy'
 
 // Paths that should redirect to dashboard if already authenticated
 const authPaths = [
@@ -15,71 +10,87 @@ const authPaths = [
 	'/register'
 ]
 
-// Function to verify token expiration
-function isTokenExpired(token: string): boolean {
+// The matcher covers every page, so the missing configuration is reported once per server process
+let reportedNotConfigured = false
+
+// Verify the token and return its claims, or null when it is missing, forged, expired or misconfigured
+async function getVerifiedClaims(token: string | undefined): Promise<JWTPayload | null> {
+	if (!token) return null
+
 	try {
-		const tokenParts = token.split('.')
-		if (tokenParts.length !== 3) return true
-
-		const payload = JSON.parse(atob(tokenParts[1]))
-		const exp = payload.exp * 1000 // Convert to milliseconds
-		return Date.now() >= exp
-	} catch {
-		return true
+		return await verifyJWT(token)
+	} catch (error) {
+		if (error instanceof JWTVerificationError && error.code === 'not_configured' && !reportedNotConfigured) {
+			reportedNotConfigured = true
+			console.error('Token verification is not configured; set AUTH_JWKS_URL or AUTH_JWT_PUBLIC_KEY')
+		}
+		return null
 	}
 }
 
 // Function to handle authentication errors
 function handleAuthError(request: NextRequest): NextResponse {
-	const response = NextResponse.redirect(new URL('/login', request.url))
-	response.cookies.delete(getAuthCookieName())
-
 	// Add error message to search params
 	const loginUrl = new URL('/login', request.url)
 	loginUrl.searchParams.set('error', 'Session expired. Please login again.')
 
-	return NextResponse.redirect(loginUrl)
+	const response = NextResponse.redirect(loginUrl)
+	response.cookies.delete(getAuthCookieName())
+	return response
 }
 
-export function middleware(request: NextRequest) {
+// Forward verified claims to server components; client-supplied copies of these headers are always dropped
+function withClaimHeaders(request: NextRequest, claims: JWTPayload | null): NextResponse {
+	const headers = new Headers(request.headers)
+	headers.delete(CLAIM_HEADERS.subject)
+	headers.delete(CLAIM_HEADERS.claims)
+
+	if (claims) {
+		headers.set(CLAIM_HEADERS.subject, claims.sub || '')
+		headers.set(CLAIM_HEADERS.claims, encodeClaimsHeader(claims))
+	}
+
+	return NextResponse.next({ request: { headers } })
+}
+
+export async function middleware(request: NextRequest) {
 	const authCookie = request.cookies.get(getAuthCookieName())
 	const token = authCookie?.value
 	const { pathname } = request.nextUrl
 
-	// Check if path requires authentication
-	const isProtectedPath = protectedPaths.some(path => pathname.startsWith(path))
 	const isAuthPath = authPaths.some(path => pathname.startsWith(path))
 
-	// Handle protected paths
-	if (isProtectedPath) {
-		if (!token || isTokenExpired(token)) {
+	const claims = await getVerifiedClaims(token)
+
+	// Apply the route policy map (see lib/route-policy.ts)
+	const decision = evaluateRoutePolicy(pathname, claims ? getSessionClaims(claims) : null)
+	if (!decision.allowed) {
+		if (decision.reason === 'unauthenticated') {
 			return handleAuthError(request)
 		}
+
+		const forbiddenUrl = new URL('/forbidden', request.url)
+		forbiddenUrl.searchParams.set('missing', decision.missing.join(','))
+		return NextResponse.rewrite(forbiddenUrl, { status: 403 })
 	}
 
 	// Handle auth paths (login/register)
-	if (isAuthPath && token && !isTokenExpired(token)) {
+	if (isAuthPath && claims) {
 		return NextResponse.redirect(new URL('/dashboard/profile', request.url))
 	}
 
 	// For all other paths, continue
-	return NextResponse.next()
+	return withClaimHeaders(request, claims)
 }
 
 export const config = {
 	matcher: [
 		/*
-		 * Match all protected paths and auth paths:
-		 * - /dashboard/*
-		 * - /profile
-		 * - /settings
-		 * - /login
-		 * - /register
+		 * Run on every page so claim headers can never be spoofed by the client,
+		 * skipping static assets:
+		 * - /_next/static, /_next/image
+		 * - favicon.ico and .wasm modules
 		 */
-		'/dashboard/:path*',
-		'/profile',
-		'/settings',
-		'/login',
-		'/register'
+		'/((?!_next/static|_next/image|favicon.ico|.*\\.wasm$).*)'
 	]
 }
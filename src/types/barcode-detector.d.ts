@@ -0,0 +1,15 @@
+// Minimal typings for the Shape Detection API's BarcodeDetector (not yet in lib.dom)
+interface DetectedBarcode {
+	rawValue: string;
+	format: string;
+}
+
+interface BarcodeDetectorOptions {
+	formats?: string[];
+}
+
+declare class BarcodeDetector {
+	constructor(options?: BarcodeDetectorOptions);
+	static getSupportedFormats(): Promise<string[]>;
+	detect(source: ImageBitmapSource): Promise<DetectedBarcode[]>;
+}